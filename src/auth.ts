@@ -0,0 +1,712 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  URLExt
+} from '@jupyterlab/coreutils';
+
+import {
+  ServerConnection
+} from '@jupyterlab/services';
+
+/**
+ * The default endpoint of the Jupyter server from which
+ * tokens are fetched, relative to its base URL.
+ */
+export
+const DEFAULT_TOKEN_ENDPOINT = 'google-drive/token';
+
+/**
+ * The lifetime of a token from the server which does
+ * not give one, in seconds, as for Google OAuth tokens.
+ */
+const DEFAULT_TOKEN_LIFETIME = 3600;
+
+/**
+ * The URL of the Google Identity Services script.
+ */
+const IDENTITY_SERVICES_URL = 'https://accounts.google.com/gsi/client';
+
+/**
+ * The scope needed to get the profile of the user.
+ */
+const PROFILE_SCOPE = 'email profile';
+
+/**
+ * The URL from which the profile of the user is fetched.
+ */
+const USER_INFO_URL = 'https://www.googleapis.com/oauth2/v3/userinfo';
+
+/**
+ * The global namespace of Google Identity Services,
+ * once its script is loaded.
+ */
+declare const google: { accounts: { oauth2: Private.IOAuth2 } };
+
+/**
+ * The source of the OAuth tokens with which the extension
+ * makes requests to Google Drive on behalf of the user.
+ *
+ * #### Notes
+ * The rest of the extension only sees the tokens, which are
+ * applied to the gapi client libraries by `gapi.ts`, so that
+ * the Drive and realtime code does not depend on the provider.
+ */
+export
+interface IGoogleAuthProvider {
+  /**
+   * The profile of the signed-in user, or `null` if
+   * the user is not signed in.
+   */
+  readonly userProfile: IGoogleAuthProvider.IUserProfile | null;
+
+  /**
+   * Load any scripts that the provider needs onto the page,
+   * once the gapi scripts are loaded.
+   */
+  load(): Promise<void>;
+
+  /**
+   * Initialize the gapi client libraries and the provider.
+   *
+   * @returns a promise that resolves with whether the user is
+   *   already signed in, so that a token may be had without
+   *   a popup.
+   */
+  initialize(options: IGoogleAuthProvider.IOptions): Promise<boolean>;
+
+  /**
+   * Ask the user to sign in and to grant access to their Drive.
+   *
+   * @returns a promise that resolves with a token, or with `null`
+   *   if the user closed the popup or denied access, and rejects
+   *   if the user could not be signed in.
+   */
+  signIn(): Promise<IGoogleAuthProvider.IToken | null>;
+
+  /**
+   * Get a new token for a user who is signed in.
+   */
+  refreshToken(): Promise<IGoogleAuthProvider.IToken>;
+
+  /**
+   * Sign the user out, or revoke the token of the provider.
+   */
+  signOut(): Promise<void>;
+}
+
+/**
+ * A namespace for `IGoogleAuthProvider` statics.
+ */
+export
+namespace IGoogleAuthProvider {
+  /**
+   * The options for initializing a provider.
+   */
+  export
+  interface IOptions {
+    /**
+     * The client ID of the project from the Google Developer Console.
+     */
+    clientId: string;
+
+    /**
+     * The scope of the access to request, separated by spaces.
+     */
+    scope: string;
+
+    /**
+     * The discovery documents of the APIs used by the client.
+     */
+    discoveryDocs: string[];
+  }
+
+  /**
+   * An OAuth access token.
+   */
+  export
+  interface IToken {
+    /**
+     * The token itself.
+     */
+    access_token: string;
+
+    /**
+     * The number of seconds for which the token is valid.
+     */
+    expires_in: number;
+  }
+
+  /**
+   * The basic profile of a user.
+   */
+  export
+  interface IUserProfile {
+    /**
+     * The full name of the user.
+     */
+    name: string;
+
+    /**
+     * The given name of the user.
+     */
+    givenName: string;
+
+    /**
+     * The email address of the user.
+     */
+    email: string;
+  }
+}
+
+/**
+ * The kinds of auth provider which may be selected in the settings.
+ *
+ * - `auth2`: the `gapi.auth2` library.
+ * - `identityServices`: the token client of Google Identity Services.
+ * - `server`: an endpoint of the Jupyter server, such as in
+ *   a JupyterHub deployment whose users signed in with Google.
+ */
+export
+type AuthProviderType = 'auth2' | 'identityServices' | 'server';
+
+/**
+ * Create an auth provider of a kind.
+ *
+ * @param type - the kind of provider, which defaults to `'auth2'`.
+ *
+ * @param tokenEndpoint - the endpoint of the Jupyter server
+ *   for the `'server'` provider, relative to its base URL.
+ */
+export
+function createAuthProvider(type: AuthProviderType = 'auth2', tokenEndpoint: string = DEFAULT_TOKEN_ENDPOINT): IGoogleAuthProvider {
+  if (type === 'identityServices') {
+    return new IdentityServicesProvider();
+  }
+  if (type === 'server') {
+    return new ServerTokenProvider({ endpoint: tokenEndpoint });
+  }
+  return new Auth2Provider();
+}
+
+/**
+ * An auth provider using the `gapi.auth2` library,
+ * which is loaded with the other gapi libraries.
+ */
+export
+class Auth2Provider implements IGoogleAuthProvider {
+  /**
+   * The profile of the signed-in user.
+   */
+  get userProfile(): IGoogleAuthProvider.IUserProfile | null {
+    const googleAuth = gapi.auth2.getAuthInstance();
+    if (!googleAuth || !googleAuth.isSignedIn.get()) {
+      return null;
+    }
+    const profile = googleAuth.currentUser.get().getBasicProfile();
+    return {
+      name: profile.getName(),
+      givenName: profile.getGivenName(),
+      email: profile.getEmail()
+    };
+  }
+
+  /**
+   * Load the provider, which needs nothing more than the gapi scripts.
+   */
+  load(): Promise<void> {
+    return Promise.resolve(void 0);
+  }
+
+  /**
+   * Initialize the gapi client libraries, including `gapi.auth2`.
+   */
+  initialize(options: IGoogleAuthProvider.IOptions): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+      gapi.client.init({
+        discoveryDocs: options.discoveryDocs,
+        clientId: options.clientId,
+        scope: options.scope
+      }).then(() => {
+        resolve(gapi.auth2.getAuthInstance().isSignedIn.get());
+      }, reject);
+    });
+  }
+
+  /**
+   * Sign the user in with a popup, unless they are already signed in.
+   */
+  signIn(): Promise<IGoogleAuthProvider.IToken | null> {
+    const googleAuth = gapi.auth2.getAuthInstance();
+    if (googleAuth.isSignedIn.get()) {
+      // We are already signed in, so only load the token.
+      return this.refreshToken();
+    }
+    return new Promise<IGoogleAuthProvider.IToken | null>((resolve, reject) => {
+      googleAuth.signIn({ prompt: 'select_account' }).then(() => {
+        this.refreshToken().then(resolve, reject);
+      }, (err: any) => {
+        // Closing the popup or denying access is not an error.
+        if (err && (err.error === 'popup_closed_by_user' ||
+                    err.error === 'access_denied')) {
+          resolve(null);
+        } else {
+          reject(err);
+        }
+      });
+    });
+  }
+
+  /**
+   * Reload the token of the current user.
+   */
+  refreshToken(): Promise<IGoogleAuthProvider.IToken> {
+    return new Promise<IGoogleAuthProvider.IToken>((resolve, reject) => {
+      const user = gapi.auth2.getAuthInstance().currentUser.get();
+      user.reloadAuthResponse().then((authResponse: any) => {
+        resolve(authResponse);
+      }, reject);
+    });
+  }
+
+  /**
+   * Sign the user out of `gapi.auth2`.
+   */
+  signOut(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      gapi.auth2.getAuthInstance().signOut().then(resolve, reject);
+    });
+  }
+}
+
+/**
+ * An auth provider using the token client of Google Identity Services,
+ * which replaces the deprecated `gapi.auth2` library.
+ *
+ * #### Notes
+ * Identity Services does not keep the user signed in between sessions,
+ * so the user signs in with a popup on each page load, and a popup may
+ * also be shown when the token is refreshed, if Google asks the user
+ * to consent again.
+ */
+export
+class IdentityServicesProvider implements IGoogleAuthProvider {
+  /**
+   * The profile of the signed-in user.
+   */
+  get userProfile(): IGoogleAuthProvider.IUserProfile | null {
+    return this._userProfile;
+  }
+
+  /**
+   * Load the Identity Services script onto the page, once
+   * for all of the providers.
+   */
+  load(): Promise<void> {
+    return Private.loadIdentityServices();
+  }
+
+  /**
+   * Initialize the gapi client libraries without `gapi.auth2`,
+   * and create the token client of the provider.
+   *
+   * @returns a promise that resolves with `false`, as the user is
+   *   never signed in on initialization.
+   *
+   * #### Notes
+   * The gapi client libraries are shared by the providers of
+   * all of the accounts, so they are only initialized once.
+   */
+  initialize(options: IGoogleAuthProvider.IOptions): Promise<boolean> {
+    return Private.initializeClient(options.discoveryDocs).then(() => {
+      this._tokenClient = Private.oauth2().initTokenClient({
+        client_id: options.clientId,
+        scope: `${options.scope} ${PROFILE_SCOPE}`,
+        callback: response => { this._onTokenResponse(response); },
+        error_callback: error => { this._onTokenError(error); }
+      });
+      return false;
+    });
+  }
+
+  /**
+   * Ask the user to choose an account and grant access with a popup.
+   */
+  signIn(): Promise<IGoogleAuthProvider.IToken | null> {
+    return this._requestToken('select_account').then(token => {
+      return Private.fetchUserProfile(token).then(profile => {
+        this._userProfile = profile;
+        return token;
+      });
+    }).catch((err: any) => {
+      // Closing the popup or denying access is not an error.
+      if (err && (err.type === 'popup_closed' ||
+                  err.error === 'access_denied')) {
+        return null;
+      }
+      throw err;
+    });
+  }
+
+  /**
+   * Request a new token, which Google grants without
+   * a prompt if the user has already consented.
+   */
+  refreshToken(): Promise<IGoogleAuthProvider.IToken> {
+    if (!this._token) {
+      return Promise.reject(new Error('Google Drive: not signed in'));
+    }
+    return this._requestToken('');
+  }
+
+  /**
+   * Revoke the current token.
+   */
+  signOut(): Promise<void> {
+    const token = this._token;
+    this._token = null;
+    this._userProfile = null;
+    if (!token) {
+      return Promise.resolve(void 0);
+    }
+    return new Promise<void>(resolve => {
+      Private.oauth2().revoke(token.access_token, () => { resolve(void 0); });
+    });
+  }
+
+  /**
+   * Request a token from the token client, sharing a request in progress.
+   */
+  private _requestToken(prompt: string): Promise<IGoogleAuthProvider.IToken> {
+    if (!this._tokenClient) {
+      return Promise.reject(new Error('Google Identity Services is not initialized'));
+    }
+    if (!this._pending) {
+      this._pending = new Promise<IGoogleAuthProvider.IToken>((resolve, reject) => {
+        this._resolve = resolve;
+        this._reject = reject;
+      });
+      this._tokenClient.requestAccessToken({ prompt });
+    }
+    return this._pending;
+  }
+
+  /**
+   * Handle a response from the token client.
+   */
+  private _onTokenResponse(response: Private.ITokenResponse): void {
+    if (response.error) {
+      this._settle(null, response);
+      return;
+    }
+    this._token = {
+      access_token: response.access_token,
+      expires_in: Number(response.expires_in)
+    };
+    this._settle(this._token, null);
+  }
+
+  /**
+   * Handle an error of the token client, such as a closed popup.
+   */
+  private _onTokenError(error: Private.ITokenError): void {
+    this._settle(null, error);
+  }
+
+  /**
+   * Settle the request in progress.
+   */
+  private _settle(token: IGoogleAuthProvider.IToken | null, err: any): void {
+    const resolve = this._resolve;
+    const reject = this._reject;
+    this._pending = null;
+    this._resolve = null;
+    this._reject = null;
+    if (token && resolve) {
+      resolve(token);
+    } else if (!token && reject) {
+      reject(err);
+    }
+  }
+
+  private _tokenClient: Private.ITokenClient | null = null;
+  private _token: IGoogleAuthProvider.IToken | null = null;
+  private _userProfile: IGoogleAuthProvider.IUserProfile | null = null;
+  private _pending: Promise<IGoogleAuthProvider.IToken> | null = null;
+  private _resolve: ((token: IGoogleAuthProvider.IToken) => void) | null = null;
+  private _reject: ((err: any) => void) | null = null;
+}
+
+/**
+ * An auth provider which fetches tokens from an endpoint of
+ * the Jupyter server, so that no popup or consent is needed
+ * in the browser.
+ *
+ * #### Notes
+ * The endpoint responds to a `GET` request with the JSON of an
+ * access token for the user of the server, as in
+ * `{"access_token": "...", "expires_in": 3600}`, optionally
+ * with the `email` and `name` of the user. The token is fetched
+ * again before it expires, which is assumed to be in an hour
+ * if the endpoint does not give a positive `expires_in`.
+ */
+export
+class ServerTokenProvider implements IGoogleAuthProvider {
+  /**
+   * Construct the provider.
+   */
+  constructor(options: ServerTokenProvider.IOptions) {
+    this.endpoint = options.endpoint;
+    this.serverSettings = options.serverSettings ||
+      ServerConnection.makeSettings();
+  }
+
+  /**
+   * The endpoint from which tokens are fetched,
+   * relative to the base URL of the server.
+   */
+  readonly endpoint: string;
+
+  /**
+   * The settings of the server.
+   */
+  readonly serverSettings: ServerConnection.ISettings;
+
+  /**
+   * The profile of the user, if the endpoint gives one.
+   */
+  get userProfile(): IGoogleAuthProvider.IUserProfile | null {
+    return this._userProfile;
+  }
+
+  /**
+   * Load the provider, which needs nothing more than the gapi scripts.
+   */
+  load(): Promise<void> {
+    return Promise.resolve(void 0);
+  }
+
+  /**
+   * Initialize the gapi client libraries without `gapi.auth2`.
+   *
+   * @returns a promise that resolves with `true`, as
+   *   the user of the server is always signed in.
+   */
+  initialize(options: IGoogleAuthProvider.IOptions): Promise<boolean> {
+    return Private.initializeClient(options.discoveryDocs).then(() => true);
+  }
+
+  /**
+   * Fetch a token, without a popup.
+   */
+  signIn(): Promise<IGoogleAuthProvider.IToken | null> {
+    return this.refreshToken();
+  }
+
+  /**
+   * Fetch a new token from the server.
+   */
+  refreshToken(): Promise<IGoogleAuthProvider.IToken> {
+    const request = {
+      url: URLExt.join(this.serverSettings.baseUrl, this.endpoint),
+      method: 'GET',
+      cache: false
+    };
+    return ServerConnection.makeRequest(request, this.serverSettings)
+    .then(response => {
+      const data = response.data;
+      if (!data || !data.access_token) {
+        throw new Error('The server did not give a Google Drive token');
+      }
+      if (data.email) {
+        this._userProfile = {
+          name: data.name || data.email,
+          givenName: data.given_name || data.name || data.email,
+          email: data.email
+        };
+      }
+      // Fall back to the usual lifetime, so that the token
+      // is not fetched again right away.
+      const expiresIn = Number(data.expires_in);
+      return {
+        access_token: data.access_token,
+        expires_in: expiresIn > 0 ? expiresIn : DEFAULT_TOKEN_LIFETIME
+      };
+    });
+  }
+
+  /**
+   * Forget the profile of the user. The server keeps
+   * its token, so signing in again needs no popup.
+   */
+  signOut(): Promise<void> {
+    this._userProfile = null;
+    return Promise.resolve(void 0);
+  }
+
+  private _userProfile: IGoogleAuthProvider.IUserProfile | null = null;
+}
+
+/**
+ * A namespace for `ServerTokenProvider` statics.
+ */
+export
+namespace ServerTokenProvider {
+  /**
+   * The options for constructing a provider.
+   */
+  export
+  interface IOptions {
+    /**
+     * The endpoint from which tokens are fetched,
+     * relative to the base URL of the server.
+     */
+    endpoint: string;
+
+    /**
+     * The settings of the server, which default
+     * to those of the page.
+     */
+    serverSettings?: ServerConnection.ISettings;
+  }
+}
+
+/**
+ * A namespace for private module data.
+ */
+namespace Private {
+  /**
+   * The response of the Identity Services token client.
+   */
+  export
+  interface ITokenResponse {
+    access_token: string;
+    expires_in: string;
+    error?: string;
+    error_description?: string;
+  }
+
+  /**
+   * An error of the Identity Services token client.
+   */
+  export
+  interface ITokenError {
+    type: 'popup_failed_to_open' | 'popup_closed' | 'unknown';
+    message: string;
+  }
+
+  /**
+   * The Identity Services token client.
+   */
+  export
+  interface ITokenClient {
+    requestAccessToken(overrides?: { prompt?: string }): void;
+  }
+
+  /**
+   * The `google.accounts.oauth2` namespace of Identity Services.
+   */
+  export
+  interface IOAuth2 {
+    initTokenClient(config: {
+      client_id: string,
+      scope: string,
+      callback: (response: ITokenResponse) => void,
+      error_callback: (error: ITokenError) => void
+    }): ITokenClient;
+    revoke(accessToken: string, done: () => void): void;
+  }
+
+  /**
+   * The loading of the Identity Services script, if it has begun.
+   */
+  let identityServicesLoaded: Promise<void> | null = null;
+
+  /**
+   * The initialization of the gapi client libraries, if it has begun.
+   */
+  let clientInitialized: Promise<void> | null = null;
+
+  /**
+   * Load the Identity Services script onto the page, unless it has
+   * already been loaded. A failed load may be tried again.
+   */
+  export
+  function loadIdentityServices(): Promise<void> {
+    if (!identityServicesLoaded) {
+      identityServicesLoaded = new Promise<void>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = IDENTITY_SERVICES_URL;
+        script.type = 'text/javascript';
+        script.async = true;
+        script.onload = () => {
+          resolve(void 0);
+        };
+        script.onerror = () => {
+          identityServicesLoaded = null;
+          script.parentNode!.removeChild(script);
+          reject(new Error('Unable to load Google Identity Services'));
+        };
+        document.head.appendChild(script);
+      });
+    }
+    return identityServicesLoaded;
+  }
+
+  /**
+   * Initialize the gapi client libraries without `gapi.auth2`, unless
+   * they have already been initialized. A failed initialization may be
+   * tried again.
+   */
+  export
+  function initializeClient(discoveryDocs: string[]): Promise<void> {
+    if (!clientInitialized) {
+      clientInitialized = new Promise<void>((resolve, reject) => {
+        gapi.client.init({ discoveryDocs }).then(() => {
+          resolve(void 0);
+        }, (err: any) => {
+          clientInitialized = null;
+          reject(err);
+        });
+      });
+    }
+    return clientInitialized;
+  }
+
+  /**
+   * Get the `google.accounts.oauth2` namespace, once the
+   * Identity Services script is loaded.
+   */
+  export
+  function oauth2(): IOAuth2 {
+    return google.accounts.oauth2;
+  }
+
+  /**
+   * Fetch the profile of the user to whom a token was granted.
+   */
+  export
+  function fetchUserProfile(token: IGoogleAuthProvider.IToken): Promise<IGoogleAuthProvider.IUserProfile> {
+    return new Promise<IGoogleAuthProvider.IUserProfile>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('GET', USER_INFO_URL);
+      xhr.setRequestHeader('Authorization', 'Bearer ' + token.access_token);
+      xhr.onload = () => {
+        if (xhr.status !== 200) {
+          reject(new Error(`Unable to get the user profile: ${xhr.statusText}`));
+          return;
+        }
+        const info = JSON.parse(xhr.responseText);
+        resolve({
+          name: info.name || info.email,
+          givenName: info.given_name || info.name || info.email,
+          email: info.email
+        });
+      };
+      xhr.onerror = () => {
+        reject(new Error('Unable to get the user profile'));
+      };
+      xhr.send();
+    });
+  }
+}
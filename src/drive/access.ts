@@ -0,0 +1,369 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Signal
+} from '@phosphor/signaling';
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  ICollaborator, ICollaboratorMap, PathExt
+} from '@jupyterlab/coreutils';
+
+import {
+  ChangeFeed
+} from './changes';
+
+import {
+  GoogleDrive
+} from './contents';
+
+import {
+  IPermission, listPermissions
+} from './drive';
+
+import {
+  describeError
+} from './errors';
+
+/**
+ * The class name added to the access panel.
+ */
+const ACCESS_CLASS = 'jp-GoogleAccess';
+
+/**
+ * The class name added to the header of the panel.
+ */
+const ACCESS_HEADER_CLASS = 'jp-GoogleAccess-header';
+
+/**
+ * The class name added to the title of a group of people.
+ */
+const ACCESS_TITLE_CLASS = 'jp-GoogleAccess-title';
+
+/**
+ * The class name added to each list of people.
+ */
+const ACCESS_LIST_CLASS = 'jp-GoogleAccess-list';
+
+/**
+ * The class name added to each person in a list.
+ */
+const ACCESS_ITEM_CLASS = 'jp-GoogleAccess-item';
+
+/**
+ * The class name added to the presence marker of a person.
+ */
+const ACCESS_PRESENCE_CLASS = 'jp-GoogleAccess-presence';
+
+/**
+ * The class name added to people who have the document open.
+ */
+const ACTIVE_CLASS = 'jp-mod-active';
+
+/**
+ * The groups in which people are listed, by the roles they have.
+ */
+const GROUPS: { title: string, roles: string[] }[] = [
+  { title: 'Owners', roles: ['owner'] },
+  { title: 'Editors', roles: ['organizer', 'fileOrganizer', 'writer'] },
+  { title: 'Commenters', roles: ['commenter'] },
+  { title: 'Viewers', roles: ['reader'] }
+];
+
+/**
+ * A side panel which lists who has access to a Google Drive
+ * document, by their roles, along with who has it open now.
+ *
+ * #### Notes
+ * The panel is reloaded when the change feed of the drive
+ * reports that the permissions of the document have changed.
+ */
+export
+class AccessPanel extends Widget {
+  /**
+   * Construct a new access panel.
+   */
+  constructor(options: AccessPanel.IOptions) {
+    super();
+    this.id = 'google-drive-access';
+    this.title.label = 'Access';
+    this.addClass(ACCESS_CLASS);
+    this._header = document.createElement('div');
+    this._header.className = ACCESS_HEADER_CLASS;
+    this._content = document.createElement('div');
+    this.node.appendChild(this._header);
+    this.node.appendChild(this._content);
+    this._drive = options.drive;
+    this._drive.changes.permissionsChanged.connect(
+      this._onPermissionsChanged, this);
+    this._render();
+  }
+
+  /**
+   * Dispose of the resources held by the panel.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    Signal.clearData(this);
+    super.dispose();
+  }
+
+  /**
+   * The Google Drive which holds the document.
+   *
+   * #### Notes
+   * Changing the drive clears the path, which should be set afterwards.
+   */
+  get drive(): GoogleDrive {
+    return this._drive;
+  }
+  set drive(value: GoogleDrive) {
+    if (value === this._drive) {
+      return;
+    }
+    this._drive.changes.permissionsChanged.disconnect(
+      this._onPermissionsChanged, this);
+    this._drive = value;
+    this._drive.changes.permissionsChanged.connect(
+      this._onPermissionsChanged, this);
+    this.path = null;
+  }
+
+  /**
+   * The path of the document whose access is shown,
+   * or `null` if there is no Google Drive document.
+   */
+  get path(): string | null {
+    return this._path;
+  }
+  set path(value: string | null) {
+    if (value === this._path) {
+      return;
+    }
+    this._path = value;
+    this._permissions = [];
+    this._error = '';
+    this._render();
+    this.refresh();
+  }
+
+  /**
+   * The collaborators who have the document open,
+   * or `null` if they are not known.
+   */
+  get collaborators(): ICollaboratorMap | null {
+    return this._collaborators;
+  }
+  set collaborators(value: ICollaboratorMap | null) {
+    if (value === this._collaborators) {
+      return;
+    }
+    if (this._collaborators) {
+      this._collaborators.changed.disconnect(this._render, this);
+    }
+    this._collaborators = value;
+    if (value) {
+      value.changed.connect(this._render, this);
+    }
+    this._render();
+  }
+
+  /**
+   * The permissions to access the document.
+   */
+  get permissions(): ReadonlyArray<IPermission> {
+    return this._permissions;
+  }
+
+  /**
+   * Reload the permissions of the document.
+   *
+   * @returns a promise fulfilled when the permissions are shown.
+   */
+  refresh(): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return listPermissions(this._drive.transport, path).then(permissions => {
+      // Ignore the permissions of a document that is no longer current.
+      if (path !== this._path) {
+        return;
+      }
+      this._permissions = permissions;
+      this._error = '';
+      this._render();
+    }).catch(err => {
+      if (path !== this._path) {
+        return;
+      }
+      this._permissions = [];
+      this._error = describeError(err);
+      this._render();
+    });
+  }
+
+  /**
+   * Reload the permissions when those of the document have changed.
+   */
+  private _onPermissionsChanged(sender: ChangeFeed, path: string): void {
+    if (path === this._path) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Render the header, the people with access, and who has
+   * the document open.
+   */
+  private _render(): void {
+    const path = this._path;
+    this._content.textContent = '';
+    if (!path) {
+      this._header.textContent = 'Open a Google Drive document ' +
+                                 'to see who has access to it.';
+      return;
+    }
+    this._header.textContent = this._error ?
+      `Cannot load who has access to "${PathExt.basename(path)}": ` +
+      this._error :
+      `Who has access to "${PathExt.basename(path)}"`;
+
+    const collaborators = this._collaborators ?
+                          this._collaborators.values() : [];
+    if (collaborators.length) {
+      const list = this._addGroup('Open now');
+      for (let collaborator of collaborators) {
+        const item = Private.createItem(collaborator.displayName, collaborator);
+        item.classList.add(ACTIVE_CLASS);
+        list.appendChild(item);
+      }
+    }
+    for (let group of GROUPS) {
+      const permissions = this._permissions.filter(permission => {
+        return group.roles.indexOf(permission.role) !== -1;
+      });
+      if (!permissions.length) {
+        continue;
+      }
+      const list = this._addGroup(group.title);
+      for (let permission of permissions) {
+        const collaborator = Private.findCollaborator(permission, collaborators);
+        const item = Private.createItem(
+          Private.describePermission(permission), collaborator);
+        if (collaborator) {
+          item.classList.add(ACTIVE_CLASS);
+        }
+        list.appendChild(item);
+      }
+    }
+  }
+
+  /**
+   * Add a titled list of people to the panel.
+   */
+  private _addGroup(title: string): HTMLElement {
+    const titleNode = document.createElement('div');
+    titleNode.className = ACCESS_TITLE_CLASS;
+    titleNode.textContent = title;
+    const list = document.createElement('ul');
+    list.className = ACCESS_LIST_CLASS;
+    this._content.appendChild(titleNode);
+    this._content.appendChild(list);
+    return list;
+  }
+
+  private _drive: GoogleDrive;
+  private _path: string | null = null;
+  private _permissions: IPermission[] = [];
+  private _collaborators: ICollaboratorMap | null = null;
+  private _error = '';
+  private _header: HTMLElement;
+  private _content: HTMLElement;
+}
+
+/**
+ * A namespace for `AccessPanel` statics.
+ */
+export
+namespace AccessPanel {
+  /**
+   * The options used to create an access panel.
+   */
+  export
+  interface IOptions {
+    /**
+     * The Google Drive, whose change feed reports changes
+     * to the permissions of the document.
+     */
+    drive: GoogleDrive;
+  }
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Describe who a permission is for.
+   */
+  export
+  function describePermission(permission: IPermission): string {
+    switch (permission.type) {
+      case 'anyone':
+        return 'Anyone with the link';
+      case 'domain':
+        return `Anyone at ${permission.domain} with the link`;
+      default:
+        if (permission.displayName && permission.emailAddress) {
+          return `${permission.displayName} <${permission.emailAddress}>`;
+        }
+        return permission.displayName || permission.emailAddress;
+    }
+  }
+
+  /**
+   * Find the collaborator who has the document open for the
+   * user of a permission, or `undefined` if there is none.
+   *
+   * #### Notes
+   * The realtime user id of a collaborator is usually the id of
+   * the permission of the user, but names are compared as well.
+   */
+  export
+  function findCollaborator(permission: IPermission, collaborators: ICollaborator[]): ICollaborator | undefined {
+    if (permission.type !== 'user') {
+      return undefined;
+    }
+    return collaborators.filter(collaborator => {
+      return collaborator.userId === permission.id ||
+             (!!permission.displayName &&
+              collaborator.displayName === permission.displayName);
+    })[0];
+  }
+
+  /**
+   * Create the list item for a person, with a marker in their
+   * color if they have the document open.
+   */
+  export
+  function createItem(text: string, collaborator?: ICollaborator): HTMLElement {
+    const item = document.createElement('li');
+    item.className = ACCESS_ITEM_CLASS;
+    const presence = document.createElement('span');
+    presence.className = ACCESS_PRESENCE_CLASS;
+    if (collaborator) {
+      presence.style.backgroundColor = collaborator.color;
+      presence.title = 'Has the document open';
+    }
+    item.appendChild(presence);
+    item.appendChild(document.createTextNode(text));
+    return item;
+  }
+}
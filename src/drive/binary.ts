@@ -0,0 +1,79 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+/**
+ * The number of bytes to convert to a string at a time,
+ * which keeps the arguments to `String.fromCharCode` in
+ * the range that browsers accept.
+ */
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Decode base64 content as bytes.
+ *
+ * @param content - the base64 encoded content.
+ *
+ * @returns the decoded bytes.
+ */
+export
+function bytesFromBase64(content: string): Uint8Array {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64 content.
+ *
+ * @param bytes - the bytes, such as those of a downloaded file.
+ *
+ * @returns the base64 encoded content.
+ */
+export
+function base64FromBytes(bytes: Uint8Array | ArrayBuffer): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i += CHUNK_SIZE) {
+    const chunk = view.subarray(i, i + CHUNK_SIZE);
+    binary += String.fromCharCode.apply(null, chunk);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encode text as UTF-8 bytes.
+ *
+ * @param text - the text to encode.
+ *
+ * @returns the UTF-8 bytes of the text.
+ */
+export
+function bytesFromText(text: string): Uint8Array {
+  const binary = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g,
+    (match, hex) => String.fromCharCode(parseInt(hex, 16)));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode UTF-8 bytes as text.
+ *
+ * @param bytes - the UTF-8 bytes, such as those of a downloaded file.
+ *
+ * @returns the decoded text.
+ */
+export
+function textFromBytes(bytes: Uint8Array | ArrayBuffer): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const encoded: string[] = [];
+  for (let i = 0; i < view.length; i++) {
+    encoded.push('%' + ('0' + view[i].toString(16)).slice(-2));
+  }
+  return decodeURIComponent(encoded.join(''));
+}
@@ -1,6 +1,10 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import {
+  IIterator, empty, find, toArray
+} from '@phosphor/algorithm';
+
 import {
   Widget, PanelLayout
 } from '@phosphor/widgets';
@@ -9,12 +13,16 @@ import {
   CommandRegistry
 } from '@phosphor/commands';
 
+import {
+  ISignal, Signal
+} from '@phosphor/signaling';
+
 import {
   showDialog, Dialog, ToolbarButton
 } from '@jupyterlab/apputils';
 
 import {
-  ISettingRegistry
+  ISettingRegistry, PathExt
 } from '@jupyterlab/coreutils';
 
 import {
@@ -25,13 +33,25 @@ import {
   DocumentRegistry
 } from '@jupyterlab/docregistry';
 
+import {
+  Contents
+} from '@jupyterlab/services';
+
 import {
   FileBrowser, IFileBrowserFactory
 } from '@jupyterlab/filebrowser';
 
 import {
-  gapiAuthorized, initializeGapi,
-  signIn, signOut, getCurrentUserProfile
+  GoogleDrive
+} from './contents';
+
+import {
+  AuthProviderType, createAuthProvider
+} from '../auth';
+
+import {
+  AuthState, authState, defaultAccount, GoogleAccount, initializeGapi,
+  setAuthProvider, signIn
 } from '../gapi';
 
 
@@ -51,6 +71,11 @@ const GOOGLE_DRIVE_FILEBROWSER_CLASS = 'jp-GoogleDriveFileBrowser';
  */
 const LOGIN_SCREEN = 'jp-GoogleLoginScreen';
 
+/**
+ * CSS class for the authorization error on the login panel.
+ */
+const LOGIN_ERROR = 'jp-GoogleLoginScreen-error';
+
 /**
  * Class for a user badge UI button.
  */
@@ -61,22 +86,46 @@ const USER_BADGE = 'jp-GoogleUserBadge';
  */
 const USER_BADGE_CONTAINER = 'jp-GoogleUserBadge-container';
 
+/**
+ * Class for the list of uploads and copies in progress.
+ */
+const TRANSFER_PROGRESS = 'jp-GoogleTransferProgress';
+
+/**
+ * Class for an upload or copy in progress.
+ */
+const TRANSFER_PROGRESS_ITEM = 'jp-GoogleTransferProgress-item';
+
+/**
+ * Class for the account switcher.
+ */
+const ACCOUNT_SWITCHER = 'jp-GoogleAccountSwitcher';
+
+/**
+ * The value of the account switcher option to add an account.
+ */
+const ADD_ACCOUNT_VALUE = '';
+
 /**
  * Widget for hosting the Google Drive filebrowser.
+ *
+ * #### Notes
+ * Each signed-in account has its own file browser, and the
+ * account switcher in the toolbar chooses which one is shown.
+ * The login screen is shown while the default account is signed out.
  */
 export
 class GoogleDriveFileBrowser extends Widget {
   /**
    * Construct the browser widget.
    */
-  constructor(driveName: string, registry: DocumentRegistry, commands: CommandRegistry, manager: IDocumentManager, factory: IFileBrowserFactory, settingsPromise: Promise<ISettingRegistry.ISettings>, hasOpenDocuments: () => boolean) {
+  constructor(drive: GoogleDrive, registry: DocumentRegistry, commands: CommandRegistry, manager: IDocumentManager, factory: IFileBrowserFactory, settingsPromise: Promise<ISettingRegistry.ISettings>, hasOpenDocuments: (driveName: string) => boolean) {
     super();
     this.addClass(GOOGLE_DRIVE_FILEBROWSER_CLASS);
     this.layout = new PanelLayout();
 
     // Initialize with the Login screen.
     this._loginScreen = new GoogleDriveLogin(settingsPromise);
-    (this.layout as PanelLayout).addWidget(this._loginScreen);
 
     this._hasOpenDocuments = hasOpenDocuments;
 
@@ -86,13 +135,14 @@ class GoogleDriveFileBrowser extends Widget {
     this._commands = commands;
     this._manager = manager;
     this._factory = factory;
-    this._driveName = driveName;
 
-    // After authorization and we are ready to use the
-    // drive, swap out the widgets.
-    gapiAuthorized.promise.then(() => {
-      this._createBrowser();
-    });
+    // Show the file browser of the default account while the user
+    // is authorized, and the login screen once they are signed out.
+    this._current = this._addEntry(defaultAccount, drive);
+    if (defaultAccount.authState.status === 'authorized') {
+      this._createBrowser(this._current);
+    }
+    this._show();
 
     this.title.iconClass = 'jp-GoogleDrive-tablogo';
     this.id = 'google-drive-file-browser';
@@ -105,6 +155,104 @@ class GoogleDriveFileBrowser extends Widget {
     return this._isDisposed;
   }
 
+  /**
+   * The drive of the account whose files are shown.
+   */
+  get drive(): GoogleDrive {
+    return this._current.drive;
+  }
+
+  /**
+   * The drives of the accounts in the browser,
+   * starting with that of the default account.
+   */
+  get drives(): GoogleDrive[] {
+    return this._entries.map(entry => entry.drive);
+  }
+
+  /**
+   * A signal emitted when the user asks to add an account.
+   */
+  get addAccountRequested(): ISignal<this, void> {
+    return this._addAccountRequested;
+  }
+
+  /**
+   * Add a signed-in account to the browser, and show its files.
+   *
+   * @param account - the account.
+   *
+   * @param drive - the drive whose requests are made with the account,
+   *   which should already be added to the contents manager.
+   *
+   * #### Notes
+   * The account is kept in the browser when it is signed out,
+   * so that the user may sign in again from the account switcher.
+   */
+  addAccount(account: GoogleAccount, drive: GoogleDrive): void {
+    const entry = this._addEntry(account, drive);
+    if (account.authState.status === 'authorized') {
+      this._createBrowser(entry);
+    }
+    this.switchAccount(drive);
+  }
+
+  /**
+   * Show the files of the account of a drive.
+   */
+  switchAccount(drive: GoogleDrive): void {
+    const entry = find(this._entries, entry => entry.drive === drive);
+    if (!entry || entry === this._current) {
+      return;
+    }
+    this._current = entry;
+    this._show();
+    this._updateSwitchers();
+  }
+
+  /**
+   * Create an iterator over the items selected in the file browser.
+   * Their paths include the name of the drive.
+   */
+  selectedItems(): IIterator<Contents.IModel> {
+    const browser = this._current.browser;
+    if (!browser || browser.isDisposed) {
+      return empty<Contents.IModel>();
+    }
+    return browser.selectedItems();
+  }
+
+  /**
+   * Get the directory shown for the account of a drive.
+   *
+   * @param drive - the drive of the account.
+   *
+   * @returns the path of the directory, without the name of the drive,
+   *   or `null` if the account has no file browser.
+   */
+  directoryFor(drive: GoogleDrive): string | null {
+    const entry = find(this._entries, entry => entry.drive === drive);
+    if (!entry || !entry.browser || entry.browser.isDisposed) {
+      return null;
+    }
+    return entry.browser.model.path.split(':').pop()!;
+  }
+
+  /**
+   * Change the directory shown in the file browser.
+   *
+   * @param path - the path of the directory, without the name of the drive.
+   *
+   * @returns a promise fulfilled when the directory is shown.
+   */
+  cd(path: string): Promise<void> {
+    const browser = this._current.browser;
+    if (!browser || browser.isDisposed) {
+      return Promise.reject(new Error('Google Drive: not signed in'));
+    }
+    return browser.model.cd(`${this._current.drive.name}:${path}`);
+  }
+
   /**
    * Dispose of the resource held by the widget.
    */
@@ -113,26 +261,75 @@ class GoogleDriveFileBrowser extends Widget {
       return;
     }
     this._isDisposed = true;
+    Signal.clearData(this);
     this._loginScreen.dispose();
-    this._browser.dispose();
+    this._entries.forEach(entry => {
+      if (entry.browser) {
+        this._removeBrowser(entry);
+      }
+    });
     super.dispose();
   }
 
-  private _createBrowser(): void {
-    // Create the file browser
-    this._browser = this._factory.createFileBrowser(NAMESPACE, {
+  /**
+   * Add an account, following the state of its authorization.
+   */
+  private _addEntry(account: GoogleAccount, drive: GoogleDrive): Private.IAccountEntry {
+    const entry: Private.IAccountEntry = {
+      account, drive, browser: null, logoutButton: null,
+      transfers: null, switcher: null
+    };
+    this._entries.push(entry);
+    // Refresh the listing as more of it arrives.
+    drive.listingChanged.connect(this._onListingChanged, this);
+    account.authState.changed.connect(this._onAuthStateChanged, this);
+    return entry;
+  }
+
+  /**
+   * Handle a change to the state of the authorization of an account.
+   */
+  private _onAuthStateChanged(sender: AuthState, args: AuthState.IChangedArgs): void {
+    const entry = find(this._entries, entry => {
+      return entry.account.authState === sender;
+    });
+    if (!entry) {
+      return;
+    }
+    if (args.newValue === 'authorized' && !entry.browser) {
+      this._createBrowser(entry);
+      this._show();
+    } else if ((args.newValue === 'signedOut' || args.newValue === 'error') &&
+               entry.browser) {
+      this._removeBrowser(entry);
+      // Only the default account has a login screen, so show
+      // it instead of another account that is signed out.
+      if (this._current === entry && entry.account !== defaultAccount) {
+        this._current = this._entries[0];
+      }
+      this._show();
+      this._updateSwitchers();
+    }
+  }
+
+  private _createBrowser(entry: Private.IAccountEntry): void {
+    // Create the file browser, whose state is restored for each account.
+    const drive = entry.drive;
+    const id = entry.account === defaultAccount ?
+               NAMESPACE : `${NAMESPACE}-${drive.name}`;
+    const browser = this._factory.createFileBrowser(id, {
       commands: this._commands,
-      driveName: this._driveName
+      driveName: drive.name
     });
 
     // Create the logout button.
-    const userProfile = getCurrentUserProfile();
-    const initial = userProfile.getGivenName()[0];
-    this._logoutButton = new ToolbarButton({
+    const userProfile = entry.account.userProfile;
+    const initial = userProfile ? userProfile.givenName[0] : '';
+    const logoutButton = new ToolbarButton({
       onClick: () => {
-        this._onLogoutClicked();
+        this._onLogoutClicked(entry);
       },
-      tooltip: `Sign Out (${userProfile.getEmail()})`
+      tooltip: userProfile ? `Sign Out (${userProfile.email})` : 'Sign Out'
     });
     const badgeContainer = document.createElement('div');
     badgeContainer.className = USER_BADGE_CONTAINER;
@@ -140,15 +337,71 @@ class GoogleDriveFileBrowser extends Widget {
     badge.className = USER_BADGE;
     badge.textContent = initial;
     badgeContainer.appendChild(badge);
-    this._logoutButton.node.appendChild(badgeContainer);
+    logoutButton.node.appendChild(badgeContainer);
+    browser.toolbar.addItem('logout', logoutButton);
+
+    // Create the account switcher.
+    const switcher = new AccountSwitcher({
+      onSwitch: name => {
+        const other = find(this._entries, other => other.drive.name === name);
+        if (other) {
+          this._onSwitch(other);
+        }
+      },
+      onAdd: () => {
+        this._addAccountRequested.emit(void 0);
+      }
+    });
+    browser.toolbar.addItem('accounts', switcher);
+
+    // Create the list of uploads and copies in progress.
+    const transfers = new TransferProgress(drive);
+    browser.toolbar.addItem('transfers', transfers);
 
-    this._browser.toolbar.addItem('logout', this._logoutButton);
-    this._loginScreen.parent = null;
-    (this.layout as PanelLayout).addWidget(this._browser);
+    entry.browser = browser;
+    entry.logoutButton = logoutButton;
+    entry.switcher = switcher;
+    entry.transfers = transfers;
+    this._updateSwitchers();
   }
 
-  private _onLogoutClicked(): void {
-    if (this._hasOpenDocuments()) {
+  /**
+   * Handle more of a directory listing arriving.
+   */
+  private _onListingChanged(sender: GoogleDrive, path: string): void {
+    const entry = find(this._entries, entry => entry.drive === sender);
+    const browser = entry && entry.browser;
+    if (browser && !browser.isDisposed &&
+        browser.model.path === `${sender.name}:${path}`) {
+      browser.model.refresh();
+    }
+  }
+
+  /**
+   * Handle the user choosing an account in the account switcher,
+   * signing in again first if another account than the default one,
+   * which has a login screen, is signed out.
+   */
+  private _onSwitch(entry: Private.IAccountEntry): void {
+    if (entry.browser || entry.account === defaultAccount) {
+      this.switchAccount(entry.drive);
+      return;
+    }
+    entry.account.signIn().then(signedIn => {
+      if (signedIn) {
+        this.switchAccount(entry.drive);
+      } else if (entry.account.authState.status === 'error') {
+        showDialog({
+          title: 'Sign In',
+          body: entry.account.authState.error,
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      }
+    });
+  }
+
+  private _onLogoutClicked(entry: Private.IAccountEntry): void {
+    if (this._hasOpenDocuments(entry.drive.name)) {
       showDialog({
         title: 'Sign Out',
         body: 'Please close all documents in Google Drive before signing out',
@@ -157,33 +410,232 @@ class GoogleDriveFileBrowser extends Widget {
       return;
     }
 
-    // Swap out the file browser for the login screen.
-    this._browser.parent = null;
-    (this.layout as PanelLayout).addWidget(this._loginScreen);
-    this._browser.dispose();
-    this._logoutButton.dispose();
+    // The file browser is swapped out for the
+    // login screen once the user is signed out.
+    entry.account.signOut();
+  }
 
-    // Sign out.
-    signOut().then(() => {
-      // After sign-out, set up a new listener
-      // for authorization, should the user log
-      // back in.
-      gapiAuthorized.promise.then(() => {
-        this._createBrowser();
-      });
+  /**
+   * Show the file browser of the current account,
+   * or the login screen if it has none.
+   */
+  private _show(): void {
+    const layout = this.layout as PanelLayout;
+    const widget = this._current.browser || this._loginScreen;
+    toArray(layout.widgets).forEach(other => {
+      if (other !== widget) {
+        other.parent = null;
+      }
+    });
+    if (widget.parent !== this) {
+      layout.addWidget(widget);
+    }
+  }
+
+  /**
+   * Dispose of the file browser of an account.
+   */
+  private _removeBrowser(entry: Private.IAccountEntry): void {
+    entry.browser!.parent = null;
+    entry.browser!.dispose();
+    entry.logoutButton!.dispose();
+    entry.switcher!.dispose();
+    entry.transfers!.dispose();
+    entry.browser = null;
+    entry.logoutButton = null;
+    entry.switcher = null;
+    entry.transfers = null;
+  }
+
+  /**
+   * Update the accounts listed by the account switchers.
+   */
+  private _updateSwitchers(): void {
+    const accounts = this._entries.map(entry => {
+      const userProfile = entry.account.userProfile;
+      const label = userProfile ? userProfile.email : entry.drive.name;
+      return {
+        name: entry.drive.name,
+        label: entry.browser ? label : `${label} (signed out)`
+      };
+    });
+    this._entries.forEach(entry => {
+      if (entry.switcher) {
+        entry.switcher.setAccounts(accounts, this._current.drive.name);
+      }
     });
   }
 
   private _isDisposed = false;
-  private _browser: FileBrowser;
+  private _entries: Private.IAccountEntry[] = [];
+  private _current: Private.IAccountEntry;
   private _loginScreen: GoogleDriveLogin;
-  private _logoutButton: ToolbarButton;
   private _registry: DocumentRegistry;
   private _commands: CommandRegistry;
   private _manager: IDocumentManager;
   private _factory: IFileBrowserFactory;
-  private _driveName: string;
-  private _hasOpenDocuments: () => boolean;
+  private _hasOpenDocuments: (driveName: string) => boolean;
+  private _addAccountRequested = new Signal<this, void>(this);
+}
+
+/**
+ * A toolbar widget which switches between the accounts
+ * in the file browser, or asks to add another account.
+ */
+export
+class AccountSwitcher extends Widget {
+  /**
+   * Construct the account switcher.
+   */
+  constructor(options: AccountSwitcher.IOptions) {
+    super();
+    this.addClass(ACCOUNT_SWITCHER);
+    this._onSwitch = options.onSwitch;
+    this._onAdd = options.onAdd;
+    this._select = document.createElement('select');
+    this._select.title = 'Switch Google Account';
+    this._select.onchange = () => {
+      const name = this._select.value;
+      // Keep showing the current account until it is switched.
+      this._select.value = this._current;
+      if (name === ADD_ACCOUNT_VALUE) {
+        this._onAdd();
+      } else if (name !== this._current) {
+        this._onSwitch(name);
+      }
+    };
+    this.node.appendChild(this._select);
+  }
+
+  /**
+   * Set the accounts that are listed.
+   *
+   * @param accounts - the accounts, in order.
+   *
+   * @param current - the name of the drive of the current account.
+   */
+  setAccounts(accounts: AccountSwitcher.IAccount[], current: string): void {
+    this._current = current;
+    this._select.textContent = '';
+    accounts.forEach(account => {
+      const option = document.createElement('option');
+      option.value = account.name;
+      option.textContent = account.label;
+      option.title = account.name;
+      this._select.appendChild(option);
+    });
+    const add = document.createElement('option');
+    add.value = ADD_ACCOUNT_VALUE;
+    add.textContent = 'Add Account\u2026';
+    this._select.appendChild(add);
+    this._select.value = current;
+  }
+
+  private _select: HTMLSelectElement;
+  private _current = '';
+  private _onSwitch: (name: string) => void;
+  private _onAdd: () => void;
+}
+
+/**
+ * A namespace for `AccountSwitcher` statics.
+ */
+export
+namespace AccountSwitcher {
+  /**
+   * The options used to create an account switcher.
+   */
+  export
+  interface IOptions {
+    /**
+     * A function called with the name of the drive
+     * of an account which the user chose.
+     */
+    onSwitch: (name: string) => void;
+
+    /**
+     * A function called when the user asks to add an account.
+     */
+    onAdd: () => void;
+  }
+
+  /**
+   * An account listed by the switcher.
+   */
+  export
+  interface IAccount {
+    /**
+     * The name of the drive of the account.
+     */
+    name: string;
+
+    /**
+     * The label shown for the account.
+     */
+    label: string;
+  }
+}
+
+/**
+ * A widget which shows the progress of large uploads and of
+ * folder copies in Google Drive, and is hidden when there are none.
+ */
+export
+class TransferProgress extends Widget {
+  /**
+   * Construct the transfer progress widget.
+   */
+  constructor(drive: GoogleDrive) {
+    super();
+    this.addClass(TRANSFER_PROGRESS);
+    this.hide();
+    drive.uploadProgress.connect(this._onUploadProgress, this);
+    drive.copyProgress.connect(this._onCopyProgress, this);
+  }
+
+  /**
+   * Handle the progress of an upload.
+   */
+  private _onUploadProgress(sender: GoogleDrive, progress: GoogleDrive.IUploadProgress): void {
+    const percent = progress.total ?
+      Math.floor(100 * progress.loaded / progress.total) : 100;
+    const status = progress.error ? `${percent}% (retrying)` : `${percent}%`;
+    this._update(progress.path, status, progress.loaded >= progress.total);
+  }
+
+  /**
+   * Handle the progress of a folder copy.
+   */
+  private _onCopyProgress(sender: GoogleDrive, progress: GoogleDrive.ICopyProgress): void {
+    let status = `${progress.copied}/${progress.total}`;
+    if (progress.failed) {
+      status += ` (${progress.failed} failed)`;
+    }
+    this._update(progress.path, status,
+                 progress.copied + progress.failed >= progress.total);
+  }
+
+  /**
+   * Update the item for a path, removing it if it is done.
+   */
+  private _update(path: string, status: string, done: boolean): void {
+    let item = this._items.get(path);
+    if (!item) {
+      item = document.createElement('div');
+      item.className = TRANSFER_PROGRESS_ITEM;
+      item.title = path;
+      this._items.set(path, item);
+      this.node.appendChild(item);
+    }
+    item.textContent = `${PathExt.basename(path)} ${status}`;
+    if (done) {
+      this.node.removeChild(item);
+      this._items.delete(path);
+    }
+    this.setHidden(this._items.size === 0);
+  }
+
+  private _items = new Map<string, HTMLElement>();
 }
 
 export
@@ -212,26 +664,29 @@ class GoogleDriveLogin extends Widget {
     this._button.textContent = 'SIGN IN';
     this._button.className = 'jp-Dialog-button jp-mod-styled jp-mod-accept';
     this._button.onclick = this._onLoginClicked.bind(this);
-    this._button.style.visibility = 'hidden';
     this.node.appendChild(this._button);
 
+    // Add the text for an authorization error.
+    this._error = document.createElement('div');
+    this._error.className = LOGIN_ERROR;
+    this.node.appendChild(this._error);
+
+    // Show the login button when the user may sign in.
+    authState.changed.connect(this._update, this);
+    this._update();
+
     // Attempt to authorize on construction without using
     // a popup dialog. If the user is logged into the browser with
     // a Google account, this will likely succeed. Otherwise, they
     // will need to login explicitly.
     settingsPromise.then( settings => {
       this._clientId = settings.get('clientId').composite as string;
-      initializeGapi(this._clientId).then(loggedIn => {
-        if (!loggedIn) {
-          this._button.style.visibility = 'visible';
-        } else {
-          gapiAuthorized.promise.then(() => {
-            // Set the button style to visible in the
-            // eventuality that the user logs out.
-            this._button.style.visibility = 'visible';
-          });
-        }
-      }).catch((err: any) => {
+      // The auth provider may only be chosen before initialization,
+      // so a change to the setting takes effect on reload.
+      const providerType = settings.get('authProvider').composite as AuthProviderType;
+      const tokenEndpoint = settings.get('tokenEndpoint').composite as string;
+      setAuthProvider(createAuthProvider(providerType, tokenEndpoint || undefined));
+      initializeGapi(this._clientId).catch((err: any) => {
         showDialog({
           title: 'Google API Error',
           body: err,
@@ -241,6 +696,17 @@ class GoogleDriveLogin extends Widget {
     });
   }
 
+  /**
+   * Dispose of the resources held by the login panel.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    Signal.clearData(this);
+    super.dispose();
+  }
+
   /**
    * Handle a click of the login button.
    */
@@ -248,6 +714,60 @@ class GoogleDriveLogin extends Widget {
     signIn();
   }
 
+  /**
+   * Update the login button and the error for the
+   * state of the authorization.
+   */
+  private _update(): void {
+    const status = authState.status;
+    const canSignIn = status === 'signedOut' || status === 'error';
+    this._button.style.visibility = canSignIn ? 'visible' : 'hidden';
+    this._error.textContent = authState.error;
+  }
+
   private _button: HTMLElement;
+  private _error: HTMLElement;
   private _clientId: string;
 }
+
+/**
+ * A namespace for module-private data.
+ */
+namespace Private {
+  /**
+   * An account in the file browser, with the
+   * widgets that are shown while it is signed in.
+   */
+  export
+  interface IAccountEntry {
+    /**
+     * The account.
+     */
+    account: GoogleAccount;
+
+    /**
+     * The drive whose requests are made with the account.
+     */
+    drive: GoogleDrive;
+
+    /**
+     * The file browser, or `null` while signed out.
+     */
+    browser: FileBrowser | null;
+
+    /**
+     * The logout button in the toolbar.
+     */
+    logoutButton: ToolbarButton | null;
+
+    /**
+     * The list of transfers in the toolbar.
+     */
+    transfers: TransferProgress | null;
+
+    /**
+     * The account switcher in the toolbar.
+     */
+    switcher: AccountSwitcher | null;
+  }
+}
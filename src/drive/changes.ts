@@ -0,0 +1,302 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  IDisposable
+} from '@phosphor/disposable';
+
+import {
+  Signal, ISignal
+} from '@phosphor/signaling';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  Contents
+} from '@jupyterlab/services';
+
+import * as drive from './drive';
+
+import {
+  DriveError, NotFoundError, toDriveError
+} from './errors';
+
+import {
+  IDriveTransport
+} from './transport';
+
+import {
+  getDriveTransport
+} from '../gapi';
+
+/**
+ * The default interval between polls for changes, in milliseconds.
+ */
+const DEFAULT_INTERVAL = 30000;
+
+/**
+ * A feed of the changes made to the user's Google Drive,
+ * which is polled using the Drive changes API.
+ *
+ * #### Notes
+ * Each change updates the resource cache, and changes which affect
+ * known paths are emitted as `Contents.IChangedArgs`. This allows
+ * the contents manager to learn about files that were created, moved,
+ * renamed, trashed or modified from the Drive web UI or by collaborators.
+ * Changes to who may access a known file are emitted separately, as
+ * `permissionsChanged`, since they are not changes to its contents.
+ */
+export
+class ChangeFeed implements IDisposable {
+  /**
+   * Construct a new change feed.
+   */
+  constructor(options: ChangeFeed.IOptions) {
+    this._fileTypeForPath = options.fileTypeForPath;
+    this._interval = options.interval || DEFAULT_INTERVAL;
+    this._transport = options.transport || getDriveTransport();
+  }
+
+  /**
+   * A signal emitted when a change affects a known path.
+   */
+  get changed(): ISignal<this, Contents.IChangedArgs> {
+    return this._changed;
+  }
+
+  /**
+   * A signal emitted with the path of a known file when the
+   * people who may access it have changed.
+   */
+  get permissionsChanged(): ISignal<this, string> {
+    return this._permissionsChanged;
+  }
+
+  /**
+   * A signal emitted with the error when a poll for changes fails,
+   * unless the feed recovers from it by starting over.
+   */
+  get failed(): ISignal<this, DriveError> {
+    return this._failed;
+  }
+
+  /**
+   * The interval between polls for changes, in milliseconds.
+   */
+  get interval(): number {
+    return this._interval;
+  }
+  set interval(value: number) {
+    this._interval = value;
+    if (this.isRunning) {
+      this._schedule();
+    }
+  }
+
+  /**
+   * Whether the feed is polling for changes.
+   */
+  get isRunning(): boolean {
+    return this._isRunning;
+  }
+
+  /**
+   * Test whether the feed has been disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Dispose of the resources held by the feed.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this.stop();
+    Signal.clearData(this);
+  }
+
+  /**
+   * Start polling for changes.
+   */
+  start(): void {
+    if (this._isRunning || this._isDisposed) {
+      return;
+    }
+    this._isRunning = true;
+    // Get the page token right away, so that we
+    // hear about any changes after this point.
+    this.poll();
+  }
+
+  /**
+   * Stop polling for changes.
+   */
+  stop(): void {
+    this._isRunning = false;
+    if (this._timeout !== -1) {
+      window.clearTimeout(this._timeout);
+      this._timeout = -1;
+    }
+  }
+
+  /**
+   * Poll for changes now.
+   *
+   * @returns a promise which resolves when all of the changes
+   *   since the last poll have been handled.
+   *
+   * #### Notes
+   * The first poll only gets the page token for future changes.
+   */
+  poll(): Promise<void> {
+    if (this._polling) {
+      return this._polling;
+    }
+    let pending: Promise<void>;
+    if (this._pageToken === null) {
+      pending = drive.getChangesStartPageToken(this._transport).then(pageToken => {
+        this._pageToken = pageToken;
+      });
+    } else {
+      pending = drive.listChanges(this._transport, this._pageToken).then(result => {
+        this._pageToken = result.newStartPageToken;
+        return this._handleChanges(result.changes);
+      });
+    }
+    this._polling = pending.catch(err => {
+      const error = toDriveError(err);
+      // If the page token has been rejected, start over.
+      if (this._pageToken !== null &&
+          (error.status === 400 || error instanceof NotFoundError)) {
+        this._pageToken = null;
+        return;
+      }
+      if (!this._isDisposed) {
+        this._failed.emit(error);
+      }
+    }).then(() => {
+      this._polling = null;
+      if (this._isRunning) {
+        this._schedule();
+      }
+    });
+    return this._polling;
+  }
+
+  /**
+   * Apply a list of changes to the cache, and emit
+   * the changes which affect known paths, in order.
+   */
+  private _handleChanges(changes: drive.ChangeResource[]): Promise<void> {
+    let handled = Promise.resolve(void 0);
+    for (let change of changes) {
+      const remotes = drive.applyChangeToCache(this._transport, change);
+      if (this._isDisposed) {
+        continue;
+      }
+      for (let remote of remotes) {
+        handled = this._handleRemoteChange(remote, handled);
+      }
+    }
+    return handled;
+  }
+
+  /**
+   * Emit a change which affects a known path, after those before it.
+   */
+  private _handleRemoteChange(remote: drive.IRemoteChange, handled: Promise<void>): Promise<void> {
+    if (remote.type === 'permissions') {
+      const path = remote.newPath!;
+      return handled.then(() => {
+        if (!this._isDisposed) {
+          this._permissionsChanged.emit(path);
+        }
+      });
+    }
+    const type = remote.type;
+    const model = this._modelForChange(remote);
+    return handled.then(() => model).then(newValue => {
+      if (this._isDisposed) {
+        return;
+      }
+      this._changed.emit({
+        type,
+        oldValue: remote.oldPath === null ? null : { path: remote.oldPath },
+        newValue
+      });
+    });
+  }
+
+  /**
+   * Construct the contents model (without content)
+   * for the new state of a changed file.
+   */
+  private _modelForChange(remote: drive.IRemoteChange): Promise<Contents.IModel | null> {
+    if (remote.newPath === null || remote.resource === null) {
+      return Promise.resolve(null);
+    }
+    const fileType = this._fileTypeForPath(remote.newPath);
+    return drive.contentsModelFromFileResource(
+      this._transport, remote.resource, remote.newPath, fileType, false);
+  }
+
+  /**
+   * Schedule the next poll.
+   */
+  private _schedule(): void {
+    if (this._timeout !== -1) {
+      window.clearTimeout(this._timeout);
+    }
+    this._timeout = window.setTimeout(() => {
+      this._timeout = -1;
+      this.poll();
+    }, this._interval);
+  }
+
+  private _changed = new Signal<this, Contents.IChangedArgs>(this);
+  private _permissionsChanged = new Signal<this, string>(this);
+  private _failed = new Signal<this, DriveError>(this);
+  private _fileTypeForPath: (path: string) => DocumentRegistry.IFileType;
+  private _interval: number;
+  private _isDisposed = false;
+  private _isRunning = false;
+  private _pageToken: string | null = null;
+  private _polling: Promise<void> | null = null;
+  private _timeout = -1;
+  private _transport: IDriveTransport;
+}
+
+/**
+ * A namespace for `ChangeFeed` statics.
+ */
+export
+namespace ChangeFeed {
+  /**
+   * The options used to create a change feed.
+   */
+  export
+  interface IOptions {
+    /**
+     * A function that, given a path argument, returns
+     * a DocumentRegistry.IFileType that is consistent with the path.
+     */
+    fileTypeForPath: (path: string) => DocumentRegistry.IFileType;
+
+    /**
+     * The interval between polls for changes, in milliseconds.
+     */
+    interval?: number;
+
+    /**
+     * The transport through which the changes are listed,
+     * which defaults to the current transport.
+     */
+    transport?: IDriveTransport;
+  }
+}
@@ -0,0 +1,770 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Message
+} from '@phosphor/messaging';
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  Cell, ICellModel
+} from '@jupyterlab/cells';
+
+import {
+  CodeEditor
+} from '@jupyterlab/codeeditor';
+
+import {
+  PathExt
+} from '@jupyterlab/coreutils';
+
+import {
+  createComment, IComment, ICommentAnchor, ICommentReply, listComments,
+  reopenComment, replyToComment, resolveComment
+} from './drive';
+
+import {
+  describeError
+} from './errors';
+
+import {
+  IDriveTransport
+} from './transport';
+
+import {
+  getDriveTransport
+} from '../gapi';
+
+/**
+ * The class name added to the comments panel.
+ */
+const COMMENTS_CLASS = 'jp-GoogleComments';
+
+/**
+ * The class name added to the header of the panel.
+ */
+const COMMENTS_HEADER_CLASS = 'jp-GoogleComments-header';
+
+/**
+ * The class name added to the forms for new comments and replies.
+ */
+const COMMENTS_FORM_CLASS = 'jp-GoogleComments-form';
+
+/**
+ * The class name added to the list of comments.
+ */
+const COMMENTS_LIST_CLASS = 'jp-GoogleComments-list';
+
+/**
+ * The class name added to each comment in the list.
+ */
+const COMMENTS_THREAD_CLASS = 'jp-GoogleComments-thread';
+
+/**
+ * The class name added to the description of the anchor of a comment.
+ */
+const COMMENTS_ANCHOR_CLASS = 'jp-GoogleComments-anchor';
+
+/**
+ * The class name added to the quoted content of a comment.
+ */
+const COMMENTS_QUOTE_CLASS = 'jp-GoogleComments-quote';
+
+/**
+ * The class name added to a comment or a reply.
+ */
+const COMMENTS_ENTRY_CLASS = 'jp-GoogleComments-entry';
+
+/**
+ * The class name added to the author and time of a comment or a reply.
+ */
+const COMMENTS_AUTHOR_CLASS = 'jp-GoogleComments-author';
+
+/**
+ * The class name added to the actions for a comment.
+ */
+const COMMENTS_ACTIONS_CLASS = 'jp-GoogleComments-actions';
+
+/**
+ * The class name added to a resolved comment.
+ */
+const RESOLVED_CLASS = 'jp-mod-resolved';
+
+/**
+ * The key of the cell metadata which holds the id
+ * to which comments on the cell are anchored.
+ */
+export
+const CELL_ID_METADATA_KEY = 'google_drive_cell_id';
+
+/**
+ * The longest quote of the content to which a comment refers.
+ */
+const MAX_QUOTE_LENGTH = 200;
+
+/**
+ * A side panel which shows the comments on a Google Drive
+ * document alongside it, and can add comments, reply to them,
+ * and resolve or reopen them.
+ *
+ * #### Notes
+ * Comments made in JupyterLab are anchored to notebook cells and
+ * ranges of text, which the `target` of the panel describes for
+ * the open document. Comments made in the Drive web UI are
+ * shown as comments about the whole document.
+ */
+export
+class CommentsPanel extends Widget {
+  /**
+   * Construct a new comments panel.
+   */
+  constructor() {
+    super();
+    this.id = 'google-drive-comments';
+    this.title.label = 'Comments';
+    this.addClass(COMMENTS_CLASS);
+    this._header = document.createElement('div');
+    this._header.className = COMMENTS_HEADER_CLASS;
+
+    const toolbar = document.createElement('div');
+    const showResolved = document.createElement('input');
+    showResolved.type = 'checkbox';
+    showResolved.addEventListener('change', () => {
+      this.showResolved = showResolved.checked;
+    });
+    const showResolvedLabel = document.createElement('label');
+    showResolvedLabel.appendChild(showResolved);
+    showResolvedLabel.appendChild(document.createTextNode(' Show resolved'));
+    toolbar.appendChild(showResolvedLabel);
+    toolbar.appendChild(Private.createButton('Refresh', () => {
+      this.refresh();
+    }));
+
+    this._form = document.createElement('div');
+    this._form.className = COMMENTS_FORM_CLASS;
+    this._input = document.createElement('textarea');
+    this._input.placeholder = 'Comment on the selection';
+    this._form.appendChild(this._input);
+    this._form.appendChild(Private.createButton('Comment', () => {
+      const content = this._input.value.trim();
+      if (!content) {
+        return;
+      }
+      const selection = this._target ? this._target.selection() : null;
+      this._run(this.addComment(
+        content,
+        selection ? selection.anchor : null,
+        selection ? selection.quote : ''
+      ).then(() => {
+        this._input.value = '';
+      }));
+    }));
+
+    this._list = document.createElement('ul');
+    this._list.className = COMMENTS_LIST_CLASS;
+    this.node.appendChild(this._header);
+    this.node.appendChild(toolbar);
+    this.node.appendChild(this._form);
+    this.node.appendChild(this._list);
+    this._render();
+  }
+
+  /**
+   * The transport through which the comments are made, which
+   * determines the Google account of the document.
+   *
+   * #### Notes
+   * Changing the transport clears the path, which should be set afterwards.
+   */
+  get transport(): IDriveTransport {
+    return this._transport;
+  }
+  set transport(value: IDriveTransport) {
+    if (value === this._transport) {
+      return;
+    }
+    this._transport = value;
+    this.path = null;
+  }
+
+  /**
+   * The path of the document whose comments are shown,
+   * or `null` if there is no Google Drive document.
+   */
+  get path(): string | null {
+    return this._path;
+  }
+  set path(value: string | null) {
+    if (value === this._path) {
+      return;
+    }
+    this._path = value;
+    this._comments = [];
+    this._error = '';
+    this._render();
+    this.refresh();
+  }
+
+  /**
+   * The document to which comments are anchored,
+   * or `null` if comments are about the whole document.
+   */
+  get target(): CommentsPanel.ITarget | null {
+    return this._target;
+  }
+  set target(value: CommentsPanel.ITarget | null) {
+    this._target = value;
+    this._render();
+  }
+
+  /**
+   * Whether resolved comments are shown.
+   */
+  get showResolved(): boolean {
+    return this._showResolved;
+  }
+  set showResolved(value: boolean) {
+    this._showResolved = value;
+    this._render();
+  }
+
+  /**
+   * The comments on the document, oldest first.
+   */
+  get comments(): ReadonlyArray<IComment> {
+    return this._comments;
+  }
+
+  /**
+   * Reload the comments on the document.
+   *
+   * @returns a promise fulfilled when the comments are shown.
+   */
+  refresh(): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return listComments(this._transport, path).then(comments => {
+      // Ignore the comments of a document that is no longer current.
+      if (path !== this._path) {
+        return;
+      }
+      this._comments = comments;
+      this._error = '';
+      this._render();
+    }).catch(err => {
+      if (path !== this._path) {
+        return;
+      }
+      this._comments = [];
+      this._error = describeError(err);
+      this._render();
+    });
+  }
+
+  /**
+   * Comment on the document.
+   *
+   * @param content - the content of the comment.
+   *
+   * @param anchor - the part of the document to which the
+   *   comment refers, or `null` for the whole document.
+   *
+   * @param quote - the content to which the comment refers.
+   *
+   * @returns a promise fulfilled when the comment is shown.
+   */
+  addComment(content: string, anchor: ICommentAnchor | null = null, quote = ''): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return createComment(this._transport, path, content, anchor, quote)
+    .then(() => this.refresh());
+  }
+
+  /**
+   * Reply to a comment.
+   *
+   * @param commentId - the id of the comment.
+   *
+   * @param content - the content of the reply.
+   *
+   * @returns a promise fulfilled when the reply is shown.
+   */
+  reply(commentId: string, content: string): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return replyToComment(this._transport, path, commentId, content)
+    .then(() => this.refresh());
+  }
+
+  /**
+   * Resolve or reopen a comment.
+   *
+   * @param commentId - the id of the comment.
+   *
+   * @param resolved - whether to resolve the comment.
+   *
+   * @returns a promise fulfilled when the comment is updated.
+   */
+  setResolved(commentId: string, resolved: boolean): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    const update = resolved ?
+      resolveComment(this._transport, path, commentId) :
+      reopenComment(this._transport, path, commentId);
+    return update.then(() => this.refresh());
+  }
+
+  /**
+   * Handle `'activate-request'` messages, so that
+   * a comment can be written right away.
+   */
+  protected onActivateRequest(msg: Message): void {
+    if (this._path) {
+      this._input.focus();
+    }
+  }
+
+  /**
+   * Render the header and the list of comments.
+   */
+  private _render(): void {
+    const path = this._path;
+    this._list.textContent = '';
+    if (!path) {
+      this._header.textContent = 'Open a Google Drive document ' +
+                                 'to see its comments.';
+      this._form.style.display = 'none';
+      return;
+    }
+    this._form.style.display = '';
+    this._input.placeholder = this._target ?
+      'Comment on the selection' : 'Comment on the document';
+    const name = PathExt.basename(path);
+    const comments = this._comments.filter(comment => {
+      return this._showResolved || !comment.resolved;
+    });
+    if (this._error) {
+      this._header.textContent = `Cannot load the comments on "${name}": ` +
+                                 this._error;
+    } else {
+      const resolved = this._comments.length - comments.length;
+      this._header.textContent = `Comments on "${name}"` +
+        (resolved ? ` (${resolved} resolved)` : '');
+    }
+    for (let comment of comments) {
+      this._list.appendChild(this._createThread(comment));
+    }
+  }
+
+  /**
+   * Create the list item for a comment and its replies.
+   */
+  private _createThread(comment: IComment): HTMLElement {
+    const thread = document.createElement('li');
+    thread.className = COMMENTS_THREAD_CLASS;
+    if (comment.resolved) {
+      thread.classList.add(RESOLVED_CLASS);
+    }
+
+    const anchor = comment.anchor;
+    const anchorNode = document.createElement('div');
+    anchorNode.className = COMMENTS_ANCHOR_CLASS;
+    if (anchor && this._target) {
+      anchorNode.textContent = this._target.describe(anchor);
+      anchorNode.title = 'Show in the document';
+      anchorNode.addEventListener('click', () => {
+        if (this._target) {
+          this._target.reveal(anchor);
+        }
+      });
+    } else {
+      anchorNode.textContent = anchor ? 'Part of the document' :
+                                        'The whole document';
+    }
+    thread.appendChild(anchorNode);
+    if (comment.quote) {
+      const quote = document.createElement('blockquote');
+      quote.className = COMMENTS_QUOTE_CLASS;
+      quote.textContent = comment.quote;
+      thread.appendChild(quote);
+    }
+
+    thread.appendChild(Private.createEntry(
+      comment.author, comment.createdTime, comment.content));
+    for (let reply of comment.replies) {
+      thread.appendChild(Private.createEntry(
+        reply.author, reply.createdTime, Private.replyText(reply)));
+    }
+
+    const form = document.createElement('div');
+    form.className = COMMENTS_FORM_CLASS;
+    const input = document.createElement('textarea');
+    input.placeholder = 'Reply';
+    form.appendChild(input);
+    const actions = document.createElement('div');
+    actions.className = COMMENTS_ACTIONS_CLASS;
+    actions.appendChild(Private.createButton('Reply', () => {
+      const content = input.value.trim();
+      if (content) {
+        this._run(this.reply(comment.id, content));
+      }
+    }));
+    actions.appendChild(Private.createButton(
+      comment.resolved ? 'Reopen' : 'Resolve', () => {
+        this._run(this.setResolved(comment.id, !comment.resolved));
+      }));
+    form.appendChild(actions);
+    thread.appendChild(form);
+    return thread;
+  }
+
+  /**
+   * Show the error of a failed change in the header.
+   */
+  private _run(change: Promise<void>): void {
+    change.catch(err => {
+      this._error = describeError(err);
+      this._render();
+    });
+  }
+
+  private _transport = getDriveTransport();
+  private _path: string | null = null;
+  private _target: CommentsPanel.ITarget | null = null;
+  private _showResolved = false;
+  private _comments: IComment[] = [];
+  private _error = '';
+  private _header: HTMLElement;
+  private _form: HTMLElement;
+  private _input: HTMLTextAreaElement;
+  private _list: HTMLElement;
+}
+
+/**
+ * A namespace for `CommentsPanel` statics.
+ */
+export
+namespace CommentsPanel {
+  /**
+   * The selected part of a document, for a new comment.
+   */
+  export
+  interface ISelection {
+    /**
+     * The anchor of the selection.
+     */
+    anchor: ICommentAnchor;
+
+    /**
+     * The selected content.
+     */
+    quote: string;
+  }
+
+  /**
+   * An open document, to which comments are anchored.
+   */
+  export
+  interface ITarget {
+    /**
+     * Get the selected part of the document, or `null`
+     * if a comment would be about the whole document.
+     */
+    selection(): ISelection | null;
+
+    /**
+     * Describe the part of the document to which
+     * an anchor refers, such as `'Cell 3'`.
+     */
+    describe(anchor: ICommentAnchor): string;
+
+    /**
+     * Show the part of the document to which an anchor refers.
+     */
+    reveal(anchor: ICommentAnchor): void;
+  }
+
+  /**
+   * The parts of a notebook widget to which comments are anchored.
+   */
+  export
+  interface INotebook {
+    /**
+     * The cell widgets of the notebook.
+     */
+    readonly widgets: ReadonlyArray<Cell>;
+
+    /**
+     * The active cell, if there is one.
+     */
+    readonly activeCell: Cell | null | undefined;
+
+    /**
+     * The index of the active cell.
+     */
+    activeCellIndex: number;
+  }
+
+  /**
+   * A document widget with a notebook, such as a notebook panel.
+   */
+  export
+  interface INotebookWidget {
+    /**
+     * The notebook of the document.
+     */
+    readonly notebook: INotebook;
+  }
+
+  /**
+   * A document widget with a text editor, such as a file editor.
+   */
+  export
+  interface IEditorWidget {
+    /**
+     * The code editor of the document.
+     */
+    readonly editor: CodeEditor.IEditor;
+  }
+}
+
+/**
+ * Test whether a widget is a document widget with a notebook.
+ *
+ * #### Notes
+ * The widget is recognized by its `notebook` property, since the
+ * notebook package is not a dependency of this extension.
+ */
+export
+function isNotebookWidget(widget: Widget): widget is Widget & CommentsPanel.INotebookWidget {
+  const notebook = (widget as Partial<CommentsPanel.INotebookWidget>).notebook;
+  return !!notebook && !!notebook.widgets;
+}
+
+/**
+ * Test whether a widget is a document widget with a text editor.
+ *
+ * #### Notes
+ * The widget is recognized by its `editor` property, since the
+ * file editor package is not a dependency of this extension.
+ */
+export
+function isEditorWidget(widget: Widget): widget is Widget & CommentsPanel.IEditorWidget {
+  const editor = (widget as Partial<CommentsPanel.IEditorWidget>).editor;
+  return !!editor && typeof editor.getSelection === 'function';
+}
+
+/**
+ * Create a comment target for a notebook, which anchors
+ * comments to the active cell and its selected text.
+ *
+ * @param notebook - the notebook widget.
+ *
+ * @returns the comment target.
+ *
+ * #### Notes
+ * A cell is given an id in its metadata when it is first
+ * commented on, so that the id is saved with the notebook.
+ */
+export
+function createNotebookTarget(notebook: CommentsPanel.INotebook): CommentsPanel.ITarget {
+  const findCell = (anchor: ICommentAnchor) => {
+    const cells = notebook.widgets;
+    for (let i = 0; i < cells.length; i++) {
+      if (cells[i].model.metadata.get(CELL_ID_METADATA_KEY) === anchor.cell) {
+        return i;
+      }
+    }
+    return -1;
+  };
+  return {
+    selection: () => {
+      const cell = notebook.activeCell;
+      if (!cell) {
+        return null;
+      }
+      const source = cell.model.value.text;
+      const range = Private.selectedRange(cell.editor);
+      const anchor: ICommentAnchor = { cell: Private.cellId(cell.model) };
+      if (range) {
+        anchor.range = range;
+      }
+      return {
+        anchor,
+        quote: Private.quote(range ? source.slice(range.start, range.end) :
+                                     source)
+      };
+    },
+    describe: anchor => {
+      if (!anchor.cell) {
+        return 'The whole notebook';
+      }
+      const index = findCell(anchor);
+      return index === -1 ? 'A deleted cell' : `Cell ${index + 1}`;
+    },
+    reveal: anchor => {
+      const index = anchor.cell ? findCell(anchor) : -1;
+      if (index === -1) {
+        return;
+      }
+      notebook.activeCellIndex = index;
+      const cell = notebook.widgets[index];
+      cell.node.scrollIntoView();
+      if (anchor.range) {
+        Private.selectRange(cell.editor, anchor.range);
+      }
+    }
+  };
+}
+
+/**
+ * Create a comment target for a text editor, which anchors
+ * comments to the selected text.
+ *
+ * @param editor - the code editor of the document.
+ *
+ * @returns the comment target.
+ */
+export
+function createEditorTarget(editor: CodeEditor.IEditor): CommentsPanel.ITarget {
+  return {
+    selection: () => {
+      const range = Private.selectedRange(editor);
+      if (!range) {
+        return null;
+      }
+      const text = editor.model.value.text;
+      return {
+        anchor: { range },
+        quote: Private.quote(text.slice(range.start, range.end))
+      };
+    },
+    describe: anchor => {
+      if (!anchor.range) {
+        return 'The whole document';
+      }
+      const start = editor.getPositionAt(anchor.range.start);
+      const end = editor.getPositionAt(anchor.range.end);
+      if (!start || !end) {
+        return 'Text which has been removed';
+      }
+      return start.line === end.line ? `Line ${start.line + 1}` :
+        `Lines ${start.line + 1}-${end.line + 1}`;
+    },
+    reveal: anchor => {
+      if (anchor.range) {
+        Private.selectRange(editor, anchor.range);
+      }
+    }
+  };
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Create a button which calls a function when clicked.
+   */
+  export
+  function createButton(label: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Create the node for a comment or a reply.
+   */
+  export
+  function createEntry(author: string, time: string, content: string): HTMLElement {
+    const entry = document.createElement('div');
+    entry.className = COMMENTS_ENTRY_CLASS;
+    const authorNode = document.createElement('div');
+    authorNode.className = COMMENTS_AUTHOR_CLASS;
+    authorNode.textContent = `${author} · ${new Date(time).toLocaleString()}`;
+    const contentNode = document.createElement('div');
+    contentNode.textContent = content;
+    entry.appendChild(authorNode);
+    entry.appendChild(contentNode);
+    return entry;
+  }
+
+  /**
+   * Get the id of a cell, giving it one if it has none.
+   */
+  export
+  function cellId(cell: ICellModel): string {
+    const id = cell.metadata.get(CELL_ID_METADATA_KEY);
+    if (typeof id === 'string' && id) {
+      return id;
+    }
+    cell.metadata.set(CELL_ID_METADATA_KEY, cell.id);
+    return cell.id;
+  }
+
+  /**
+   * Get the selected range of characters of an editor,
+   * or `null` if nothing is selected.
+   */
+  export
+  function selectedRange(editor: CodeEditor.IEditor): { start: number, end: number } | null {
+    const selection = editor.getSelection();
+    const start = editor.getOffsetAt(selection.start);
+    const end = editor.getOffsetAt(selection.end);
+    if (start === end) {
+      return null;
+    }
+    return { start: Math.min(start, end), end: Math.max(start, end) };
+  }
+
+  /**
+   * Select a range of characters in an editor, and show it.
+   */
+  export
+  function selectRange(editor: CodeEditor.IEditor, range: { start: number, end: number }): void {
+    const start = editor.getPositionAt(range.start);
+    const end = editor.getPositionAt(range.end);
+    if (!start || !end) {
+      return;
+    }
+    const selection = { start, end };
+    editor.setSelection(selection);
+    editor.revealSelection(selection);
+    editor.focus();
+  }
+
+  /**
+   * Shorten the content to which a comment refers.
+   */
+  export
+  function quote(text: string): string {
+    return text.length > MAX_QUOTE_LENGTH ?
+      text.slice(0, MAX_QUOTE_LENGTH - 1) + '…' : text;
+  }
+
+  /**
+   * Get the text to show for a reply.
+   */
+  export
+  function replyText(reply: ICommentReply): string {
+    const action = reply.action === 'resolve' ? 'Marked as resolved' :
+                   reply.action === 'reopen' ? 'Reopened' : '';
+    if (action && reply.content) {
+      return `${action}: ${reply.content}`;
+    }
+    return action || reply.content;
+  }
+}
@@ -21,13 +21,40 @@ import {
   GoogleModelDB
 } from '../realtime/modeldb';
 
+import {
+  ChangeFeed
+} from './changes';
+
 import * as drive from './drive';
 
 import {
-  makeError
+  ConflictError, DriveError, NotFoundError, SaveCancelledError,
+  createDriveError, toDriveError
+} from './errors';
+
+import {
+  DriveQuery
+} from './query';
+
+import {
+  ResumableUpload
+} from './upload';
+
+import {
+  IDriveTransport
+} from './transport';
+
+import {
+  getDriveTransport
 } from '../gapi';
 
 
+/**
+ * The name of the drive for the default account.
+ */
+const DEFAULT_DRIVE_NAME = 'GDrive';
+
+
 /**
  * A contents manager that passes file operations to the server.
  *
@@ -38,10 +65,15 @@ class GoogleDrive implements Contents.IDrive {
   /**
    * Construct a new contents manager object.
    *
+   * @param registry - The document registry, for the file types of paths.
+   *
    * @param options - The options used to initialize the object.
    */
-  constructor(registry: DocumentRegistry) {
+  constructor(registry: DocumentRegistry, options: GoogleDrive.IOptions = {}) {
     this._docRegistry = registry;
+    this._name = options.name || DEFAULT_DRIVE_NAME;
+    this.transport = options.transport || getDriveTransport();
+    this._realtime = options.realtime !== false;
     // Construct a function to make a best-guess IFileType
     // for a given path.
     this._fileTypeForPath = (path: string) => {
@@ -55,16 +87,54 @@ class GoogleDrive implements Contents.IDrive {
     this._fileTypeForContentsModel = (model: Partial<Contents.IModel>) => {
       return registry.getFileTypeForModel(model);
     }
+    // Pass along changes made elsewhere.
+    this._changes = new ChangeFeed({
+      fileTypeForPath: this._fileTypeForPath,
+      transport: this.transport
+    });
+    this._changes.changed.connect((sender, args) => {
+      if (args.type === 'rename') {
+        this._moveVersion(args.oldValue!.path!, args.newValue!.path!);
+      }
+      this._fileChanged.emit(args);
+    });
+    this._changes.failed.connect((sender, err) => {
+      this._errorOccurred.emit(err);
+    });
   }
 
-  get name(): 'GDrive' {
-    return 'GDrive';
+  /**
+   * The name of the drive, which prefixes its paths.
+   */
+  get name(): string {
+    return this._name;
   }
 
-  get modelDBFactory(): ModelDB.IFactory {
+  /**
+   * The transport through which the requests of the drive are made,
+   * which determines the Google account whose files it shows.
+   */
+  readonly transport: IDriveTransport;
+
+  /**
+   * The factory of the realtime model databases of documents,
+   * or `undefined` if the drive does not use the realtime API.
+   */
+  get modelDBFactory(): ModelDB.IFactory | undefined {
+    if (!this._realtime) {
+      return undefined;
+    }
     return {
       createNew: (path: string) => {
-        return new GoogleModelDB( {filePath: path} );
+        const modelDB = new GoogleModelDB({
+          filePath: path,
+          transport: this.transport
+        });
+        modelDB.connected.then(() => {
+          this._modelDBs.set(path, modelDB);
+        });
+        modelDB.revisionRestored.connect(this._onRevisionRestored, this);
+        return modelDB;
       }
     }
   }
@@ -78,6 +148,92 @@ class GoogleDrive implements Contents.IDrive {
     return this._fileChanged;
   }
 
+  /**
+   * The feed of changes made to the drive elsewhere, such as from
+   * the Drive web UI or by collaborators. The changes are also
+   * emitted by `fileChanged`, once the feed has been started.
+   */
+  get changes(): ChangeFeed {
+    return this._changes;
+  }
+
+  /**
+   * A function which is called when a save conflicts with changes
+   * made to the file since it was loaded, to choose what to do.
+   * If it is `null`, such saves fail with a 409 (conflict) error.
+   */
+  conflictResolver: ((conflict: GoogleDrive.IConflict) => Promise<GoogleDrive.ConflictResolution>) | null = null;
+
+  /**
+   * A signal emitted when more of a directory listing has arrived
+   * while listing incrementally. The argument is the directory path.
+   */
+  get listingChanged(): ISignal<this, string> {
+    return this._listingChanged;
+  }
+
+  /**
+   * Whether to list directories incrementally.
+   *
+   * #### Notes
+   * If this is `true`, getting the contents of a directory resolves
+   * as soon as the first page of the listing has arrived. As the rest
+   * of the pages arrive, `listingChanged` is emitted, and getting the
+   * directory again gives the listing so far, without making a new request.
+   */
+  incrementalListing = false;
+
+  /**
+   * Whether deleting a file moves it to the trash, from which it
+   * can be restored, rather than deleting it permanently.
+   */
+  useTrash = true;
+
+  /**
+   * A signal emitted as the files in a folder are copied.
+   */
+  get copyProgress(): ISignal<this, GoogleDrive.ICopyProgress> {
+    return this._copyProgress;
+  }
+
+  /**
+   * A signal emitted when a file has been restored to a checkpoint
+   * by `restoreCheckpoint`, after `fileChanged`. Open documents for
+   * the file should be reloaded, which also updates the realtime
+   * model for the collaborators.
+   */
+  get checkpointRestored(): ISignal<this, GoogleDrive.ICheckpointRestoredArgs> {
+    return this._checkpointRestored;
+  }
+
+  /**
+   * A signal emitted when a save which conflicts with changes made
+   * elsewhere has been cancelled by the conflict resolver, so that the
+   * file may be reloaded, once the save has been rejected. Open documents
+   * for the file should be reloaded, since the changes are not saved
+   * to the file.
+   */
+  get saveCancelled(): ISignal<this, SaveCancelledError> {
+    return this._saveCancelled;
+  }
+
+  /**
+   * A signal emitted with the errors which are not passed to a caller,
+   * such as when polling for changes, or listing a directory after its
+   * first page, fails. Errors which may be retried are also emitted,
+   * though the request is made again later.
+   */
+  get errorOccurred(): ISignal<this, DriveError> {
+    return this._errorOccurred;
+  }
+
+  /**
+   * A signal emitted as large files are uploaded in chunks.
+   */
+  get uploadProgress(): ISignal<this, GoogleDrive.IUploadProgress> {
+    return this._uploadProgress;
+  }
+
   /**
    * Test whether the manager has been disposed.
    */
@@ -93,6 +249,7 @@ class GoogleDrive implements Contents.IDrive {
       return;
     }
     this._isDisposed = true;
+    this._changes.dispose();
     Signal.clearData(this);
   }
 
@@ -116,15 +273,31 @@ class GoogleDrive implements Contents.IDrive {
     const getContent = options ? !!options.content : true;
     // TODO: the contents manager probably should not be passing in '.'.
     path = path === '.' ? '' : path;
-    return drive.contentsModelForPath(path, getContent, this._fileTypeForPath)
-    .then(contents => {
+    let request: Promise<drive.ILoadedContents>;
+    if (!getContent) {
+      request = drive.contentsModelForPath(
+        this.transport, path, false, this._fileTypeForPath
+      ).then(contents => ({ contents, version: null }));
+    } else if (this.incrementalListing) {
+      request = this._getIncrementally(path);
+    } else {
+      request = drive.loadContents(
+        this.transport, path, this._fileTypeForPath);
+    }
+    return request.then(loaded => {
+      const contents = loaded.contents;
       try {
         Contents.validateContentsModel(contents);
       } catch (error) {
-        throw makeError(200, error.message);
+        throw Private.invalidModel(200, error, path);
+      }
+      // Remember the version that was loaded, so that we can
+      // detect conflicting changes when saving.
+      if (loaded.version) {
+        this._versions.set(path, loaded.version);
       }
       return contents;
-    });
+    }).catch(Private.rethrowFor(path));
   }
 
   /**
@@ -138,7 +311,8 @@ class GoogleDrive implements Contents.IDrive {
    * path if necessary.
    */
   getDownloadUrl(path: string): Promise<string> {
-    return drive.urlForFile(path);
+    return drive.urlForFile(this.transport, path)
+      .catch(Private.rethrowFor(path));
   }
 
   /**
@@ -207,12 +381,13 @@ class GoogleDrive implements Contents.IDrive {
     return this._getNewFilename(path, ext, baseName).then((name: string) => {
       const m = { ...model, name };
       path = PathExt.join(path, name);
-      return drive.uploadFile(path, m, fileType, false, this._fileTypeForPath);
+      return drive.uploadFile(this.transport, path, m, fileType, false,
+                              this._fileTypeForPath);
     }).then((contents: Contents.IModel) => {
       try {
         Contents.validateContentsModel(contents);
       } catch (error) {
-        throw makeError(201, error.message);
+        throw Private.invalidModel(201, error, path);
       }
       this._fileChanged.emit({
         type: 'new',
@@ -220,7 +395,7 @@ class GoogleDrive implements Contents.IDrive {
         newValue: contents
       });
       return contents;
-    });
+    }).catch(Private.rethrowFor(path));
   }
 
   /**
@@ -229,16 +404,43 @@ class GoogleDrive implements Contents.IDrive {
    * @param path - The path to the file.
    *
    * @returns A promise which resolves when the file is deleted.
+   *
+   * #### Notes
+   * If `useTrash` is `true`, the file is moved to the trash,
+   * unless it is already there. Otherwise it is permanently deleted.
    */
   delete(path: string): Promise<void> {
-    return drive.deleteFile(path).then(() => {
+    const deleted = this.useTrash && !drive.isInTrash(path) ?
+                    drive.trashFile(this.transport, path) :
+                    drive.deleteFile(this.transport, path);
+    return deleted.then(() => {
+      this._versions.delete(path);
       this._fileChanged.emit({
         type: 'delete',
         oldValue: { path },
         newValue: null
       });
       return void 0;
-    });
+    }).catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * Restore a file from the trash.
+   *
+   * @param path - The path to the file in the "Trash" directory.
+   *
+   * @returns A promise which resolves with the file contents model
+   *   at the path to which the file has been restored.
+   */
+  restore(path: string): Promise<Contents.IModel> {
+    return drive.restoreFile(this.transport, path, this._fileTypeForPath).then(contents => {
+      this._fileChanged.emit({
+        type: 'rename',
+        oldValue: { path },
+        newValue: contents
+      });
+      return contents;
+    }).catch(Private.rethrowFor(path));
   }
 
   /**
@@ -255,20 +457,21 @@ class GoogleDrive implements Contents.IDrive {
     if(path === newPath) {
       return this.get(path);
     } else {
-      return drive.moveFile(path, newPath, this._fileTypeForPath)
+      return drive.moveFile(this.transport, path, newPath, this._fileTypeForPath)
       .then((contents: Contents.IModel) => {
         try {
           Contents.validateContentsModel(contents);
         } catch (error) {
-          throw makeError(200, error.message);
+          throw Private.invalidModel(200, error, path);
         }
+        this._moveVersion(path, newPath);
         this._fileChanged.emit({
           type: 'rename',
           oldValue: { path },
           newValue: contents
         });
         return contents;
-      });
+      }).catch(Private.rethrowFor(path));
     }
   }
 
@@ -284,31 +487,45 @@ class GoogleDrive implements Contents.IDrive {
    */
   save(path: string, options: Partial<Contents.IModel>): Promise<Contents.IModel> {
     const fileType = this._fileTypeForContentsModel(options);
-    return this.get(path).then((contents) => {
+    // Check that the file exists without loading it, which would
+    // replace the version against which changes are detected.
+    return this.get(path, { content: false }).then((contents) => {
       //The file exists
       if(options) {
-        //Overwrite the existing file
-        return drive.uploadFile(path, options, fileType, true, this._fileTypeForPath);
+        //Overwrite the existing file, unless it has changed.
+        return this._saveExisting(path, options, fileType);
       } else {
         // File exists, but we are not saving anything
         // to it? Just return the contents.
         return contents;
       }
-    }, () => {
+    }, err => {
+      if (!(err instanceof NotFoundError)) {
+        throw err;
+      }
       //The file does not exist already, create a new one.
-      return drive.uploadFile(path, options, fileType, false, this._fileTypeForPath);
+      return drive.uploadFile(this.transport, path, options, fileType, false,
+                              this._fileTypeForPath, undefined,
+                              this._progressFor(path));
     }).then((contents: Contents.IModel) => {
       try {
          Contents.validateContentsModel(contents);
       } catch (error) {
-         throw makeError(200, error.message);
+         throw Private.invalidModel(200, error, path);
       }
-      this._fileChanged.emit({
-        type: 'save',
-        oldValue: null,
-        newValue: contents
+      return this._recordVersion(path).then(() => {
+        this._fileChanged.emit({
+          type: 'save',
+          oldValue: null,
+          newValue: contents
+        });
+        return contents;
       });
-      return contents;
+    }).catch(Private.rethrowFor(path)).catch(err => {
+      if (err instanceof SaveCancelledError) {
+        this._saveCancelled.emit(err);
+      }
+      throw err;
     });
   }
 
@@ -321,6 +538,10 @@ class GoogleDrive implements Contents.IDrive {
    *
    * @returns A promise which resolves with the new contents model when the
    *  file is copied.
+   *
+   * #### Notes
+   * Directories are copied along with everything in them, and the
+   * progress is emitted by `copyProgress`.
    */
   copy(fromFile: string, toDir: string): Promise<Contents.IModel> {
     let fileBasename = PathExt.basename(fromFile).split('.')[0];
@@ -328,12 +549,32 @@ class GoogleDrive implements Contents.IDrive {
     const ext = PathExt.extname(fromFile);
 
     return this._getNewFilename(toDir, ext, fileBasename).then((name) => {
-      return drive.copyFile(fromFile, PathExt.join(toDir, name), this._fileTypeForPath)
+      const path = PathExt.join(toDir, name);
+      const onProgress = (progress: drive.ICopyProgress) => {
+        this._copyProgress.emit({ path, ...progress });
+      };
+      return drive.copyFile(this.transport, fromFile, path,
+                            this._fileTypeForPath, onProgress)
+      .catch(err => {
+        if (!err.failures) {
+          throw err;
+        }
+        // Part of a folder was copied, so report
+        // the new folder before the failures.
+        return this.get(path, { content: false }).then(contents => {
+          this._fileChanged.emit({
+            type: 'new',
+            oldValue: null,
+            newValue: contents
+          });
+          throw err;
+        });
+      })
       .then( contents => {
         try {
           Contents.validateContentsModel(contents);
         } catch (error) {
-          throw makeError(201, error.message);
+          throw Private.invalidModel(201, error, path);
         }
         this._fileChanged.emit({
           type: 'new',
@@ -342,7 +583,78 @@ class GoogleDrive implements Contents.IDrive {
         });
         return contents;
       });
-    });
+    }).catch(Private.rethrowFor(fromFile));
+  }
+
+  /**
+   * Copy a file into a directory of another Google Drive,
+   * such as that of another account.
+   *
+   * @param fromFile - The path of the file in this drive.
+   *
+   * @param target - The drive to copy the file into.
+   *
+   * @param toDir - The path of the directory in the target drive.
+   *
+   * @returns A promise which resolves with the contents model of the
+   *   copy in the target drive, or rejects if a file of the same name
+   *   is already there.
+   *
+   * #### Notes
+   * The content of the file is downloaded and uploaded again, since
+   * the accounts may not share the file. Directories are not copied.
+   */
+  copyToDrive(fromFile: string, target: GoogleDrive, toDir: string): Promise<Contents.IModel> {
+    const name = PathExt.basename(fromFile);
+    const path = PathExt.join(toDir, name);
+    return this.get(fromFile, { content: true }).then(contents => {
+      if (contents.type === 'directory') {
+        throw createDriveError({
+          status: 400, path: fromFile,
+          message: `Google Drive: cannot copy the folder ` +
+                   `"${name}" to ${target.name}`
+        });
+      }
+      return target.get(path, { content: false }).then(() => {
+        throw createDriveError({
+          status: 409, path,
+          message: `Google Drive: "${name}" already exists in ${target.name}`
+        });
+      }, err => {
+        // Only copy the file if it does not exist, rather than
+        // when it could not be checked, such as when offline.
+        if (!(err instanceof NotFoundError)) {
+          throw err;
+        }
+        return target.save(path, {
+          type: contents.type,
+          format: contents.format,
+          content: contents.content,
+          name
+        });
+      });
+    }).catch(Private.rethrowFor(fromFile));
+  }
+
+  /**
+   * Make a copy of a file that the user may edit, such as
+   * of a file that is shared with them read-only.
+   *
+   * @param path - The path of the file to copy.
+   *
+   * @returns A promise which resolves with the contents model of
+   *   the copy. It is made in the same directory as the file if
+   *   that is writable, and in the root of the user's drive if not.
+   */
+  makeCopy(path: string): Promise<Contents.IModel> {
+    let dirname = PathExt.dirname(path);
+    dirname = dirname === '.' ? '' : dirname;
+    const dirPromise = drive.isDummy(dirname) ?
+      Promise.resolve(false) :
+      this.get(dirname, { content: false }).then(dir => dir.writable);
+    return dirPromise.then(writable => {
+      return writable ? dirname : drive.getRootPath(this.transport);
+    }).then(toDir => this.copy(path, toDir));
   }
 
   /**
@@ -354,14 +666,50 @@ class GoogleDrive implements Contents.IDrive {
    *   checkpoint is created.
    */
   createCheckpoint(path: string): Promise<Contents.ICheckpointModel> {
-    return drive.pinCurrentRevision(path).then(checkpoint => {
+    return drive.pinCurrentRevision(this.transport, path).then(checkpoint => {
       try {
         Contents.validateCheckpointModel(checkpoint);
       } catch (error) {
-        throw makeError(200, error.message);
+        throw Private.invalidModel(200, error, path);
       }
       return checkpoint;
-    });
+    }).catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * Create a checkpoint for a file with a label, which
+   * collaborators also see.
+   *
+   * @param path - The path of the file.
+   *
+   * @param label - The label of the checkpoint.
+   *
+   * @param description - An optional description of the checkpoint.
+   *
+   * @returns A promise which resolves with the new checkpoint.
+   */
+  createLabeledCheckpoint(path: string, label: string, description?: string): Promise<drive.ICheckpoint> {
+    return drive.labelCurrentRevision(this.transport, path, label, description)
+      .catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * Change the label of a checkpoint, or label a
+   * revision, which makes it a checkpoint.
+   *
+   * @param path - The path of the file.
+   *
+   * @param checkpointID - The id of the checkpoint.
+   *
+   * @param label - The new label of the checkpoint.
+   *
+   * @param description - An optional description of the checkpoint.
+   *
+   * @returns A promise which resolves with the renamed checkpoint.
+   */
+  renameCheckpoint(path: string, checkpointID: string, label: string, description?: string): Promise<drive.ICheckpoint> {
+    return drive.labelRevision(this.transport, path, checkpointID, label, description)
+      .catch(Private.rethrowFor(path));
   }
 
   /**
@@ -370,19 +718,19 @@ class GoogleDrive implements Contents.IDrive {
    * @param path - The path of the file.
    *
    * @returns A promise which resolves with a list of checkpoint models for
-   *    the file.
+   *    the file, with their labels.
    */
-  listCheckpoints(path: string): Promise<Contents.ICheckpointModel[]> {
-    return drive.listRevisions(path).then(checkpoints => {
+  listCheckpoints(path: string): Promise<drive.ICheckpoint[]> {
+    return drive.listRevisions(this.transport, path).then(checkpoints => {
       try {
         for (let checkpoint of checkpoints) {
           Contents.validateCheckpointModel(checkpoint);
         }
       } catch (error) {
-        throw makeError(200, error.message);
+        throw Private.invalidModel(200, error, path);
       }
       return checkpoints;
-    });
+    }).catch(Private.rethrowFor(path));
   }
 
   /**
@@ -393,11 +741,23 @@ class GoogleDrive implements Contents.IDrive {
    * @param checkpointID - The id of the checkpoint to restore.
    *
    * @returns A promise which resolves when the checkpoint is restored.
+   *
+   * #### Notes
+   * The restored content is saved as a new revision, and emitted by
+   * `fileChanged` and `checkpointRestored`.
    */
   restoreCheckpoint(path: string, checkpointID: string): Promise<void> {
-    // TODO: should this emit a signal?
     const fileType = this._fileTypeForPath(path);
-    return drive.revertToRevision(path, checkpointID, fileType);
+    return drive.revertToRevision(this.transport, path, checkpointID, fileType).then(() => {
+      // Let the collaborators on the realtime model know.
+      const modelDB = this._modelDBs.get(path);
+      if (modelDB && !modelDB.isDisposed) {
+        modelDB.markRevisionRestored(checkpointID);
+      }
+      return this._emitSaved(path);
+    }).then(() => {
+      this._checkpointRestored.emit({ path, checkpointID });
+    }).catch(Private.rethrowFor(path));
   }
 
   /**
@@ -410,7 +770,259 @@ class GoogleDrive implements Contents.IDrive {
    * @returns A promise which resolves when the checkpoint is deleted.
    */
   deleteCheckpoint(path: string, checkpointID: string): Promise<void> {
-    return drive.unpinRevision(path, checkpointID);
+    return drive.unpinRevision(this.transport, path, checkpointID)
+      .catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * List the full revision history of a file, including the
+   * revisions that are not pinned as checkpoints.
+   *
+   * @param path - The path of the file.
+   *
+   * @returns A promise which resolves with the revisions, oldest first.
+   */
+  listRevisions(path: string): Promise<drive.IRevision[]> {
+    return drive.listAllRevisions(this.transport, path)
+      .catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * Get the contents of a file at a revision.
+   *
+   * @param path - The path of the file.
+   *
+   * @param revisionId - The id of the revision.
+   *
+   * @returns A promise which resolves with a read-only contents
+   *   model for the revision.
+   */
+  getRevision(path: string, revisionId: string): Promise<Contents.IModel> {
+    const fileType = this._fileTypeForPath(path);
+    return drive.getRevisionContents(this.transport, path, revisionId, fileType)
+      .catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * Pin a revision of a file, so that it is kept as a checkpoint.
+   *
+   * @param path - The path of the file.
+   *
+   * @param revisionId - The id of the revision to pin.
+   *
+   * @returns A promise which resolves with the checkpoint model
+   *   for the revision.
+   */
+  pinRevision(path: string, revisionId: string): Promise<Contents.ICheckpointModel> {
+    return drive.pinRevision(this.transport, path, revisionId)
+      .catch(Private.rethrowFor(path));
+  }
+
+  /**
+   * Save over an existing file, checking that it has not been changed
+   * since it was loaded. If it has, use the conflict resolver.
+   */
+  private _saveExisting(path: string, options: Partial<Contents.IModel>, fileType: DocumentRegistry.IFileType): Promise<Contents.IModel> {
+    // Connected collaborative models are kept in sync with the realtime
+    // API, so each collaborator is expected to save over the others.
+    let modelDB = this._modelDBs.get(path);
+    if (modelDB && modelDB.isDisposed) {
+      this._modelDBs.delete(path);
+      modelDB = undefined;
+    }
+    const version = modelDB ? undefined : this._versions.get(path);
+    return drive.uploadFile(
+      this.transport, path, options, fileType, true, this._fileTypeForPath,
+      version, this._progressFor(path))
+    .catch(err => {
+      if (!(err instanceof ConflictError) || !this.conflictResolver) {
+        throw err;
+      }
+      return this.conflictResolver({ path, model: options })
+      .then(resolution => {
+        switch (resolution) {
+          case 'overwrite':
+            return drive.uploadFile(
+              this.transport, path, options, fileType, true,
+              this._fileTypeForPath, undefined, this._progressFor(path));
+          case 'copy':
+            return this._saveCopy(path, options, fileType).then(copy => {
+              throw new SaveCancelledError({
+                status: 409,
+                message: `"${PathExt.basename(path)}" has been changed ` +
+                         'in Google Drive, so your changes were saved to ' +
+                         `a copy, "${copy.name}".`,
+                path,
+                copyPath: copy.path
+              });
+            });
+          case 'reload':
+            throw new SaveCancelledError({
+              status: 409,
+              message: `"${PathExt.basename(path)}" has been changed in ` +
+                       'Google Drive, so your changes were not saved.',
+              path
+            });
+          default:
+            throw err;
+        }
+      });
+    });
+  }
+
+  /**
+   * Create a callback which emits the upload progress for a path.
+   */
+  private _progressFor(path: string): (progress: ResumableUpload.IProgress) => void {
+    return progress => {
+      this._uploadProgress.emit({ path, ...progress });
+    };
+  }
+
+  /**
+   * Save the contents for a file to a new copy next to it.
+   */
+  private _saveCopy(path: string, options: Partial<Contents.IModel>, fileType: DocumentRegistry.IFileType): Promise<Contents.IModel> {
+    let dirname = PathExt.dirname(path);
+    dirname = dirname === '.' ? '' : dirname;
+    const ext = PathExt.extname(path);
+    const baseName = PathExt.basename(path).split('.')[0] + '-Copy';
+    return this._getNewFilename(dirname, ext, baseName).then(name => {
+      const copyPath = PathExt.join(dirname, name);
+      return drive.uploadFile(this.transport, copyPath,
+                              { ...options, name, path: copyPath },
+                              fileType, false, this._fileTypeForPath,
+                              undefined, this._progressFor(copyPath));
+    }).then(contents => {
+      this._fileChanged.emit({
+        type: 'new',
+        oldValue: null,
+        newValue: contents
+      });
+      return contents;
+    });
+  }
+
+  /**
+   * Handle a revision being restored by a collaborator.
+   */
+  private _onRevisionRestored(modelDB: GoogleModelDB): void {
+    let path: string | undefined;
+    this._modelDBs.forEach((value, key) => {
+      if (value === modelDB) {
+        path = key;
+      }
+    });
+    if (path !== undefined) {
+      const restoredPath = path;
+      this._emitSaved(restoredPath).catch(err => {
+        this._errorOccurred.emit(toDriveError(err, restoredPath));
+      });
+    }
+  }
+
+  /**
+   * Emit that a file has been saved elsewhere, such as by restoring
+   * a revision, remembering the version that was saved.
+   */
+  private _emitSaved(path: string): Promise<Contents.IModel> {
+    return drive.contentsModelForPath(
+      this.transport, path, false, this._fileTypeForPath).then(contents => {
+      return this._recordVersion(path).then(() => {
+        this._fileChanged.emit({
+          type: 'save',
+          oldValue: null,
+          newValue: contents
+        });
+        return contents;
+      });
+    });
+  }
+
+  /**
+   * Remember the current version of a file.
+   */
+  private _recordVersion(path: string): Promise<void> {
+    return drive.getFileVersion(this.transport, path).then(version => {
+      this._versions.set(path, version);
+    });
+  }
+
+  /**
+   * Move the remembered version of a file to a new path.
+   */
+  private _moveVersion(oldPath: string, newPath: string): void {
+    const version = this._versions.get(oldPath);
+    this._versions.delete(oldPath);
+    if (version) {
+      this._versions.set(newPath, version);
+    }
+    const modelDB = this._modelDBs.get(oldPath);
+    this._modelDBs.delete(oldPath);
+    if (modelDB) {
+      this._modelDBs.set(newPath, modelDB);
+    }
+  }
+
+  /**
+   * Get a file or directory with its content, resolving with
+   * the first page of the listing if it is a directory.
+   *
+   * @param path: The path to the file.
+   *
+   * @returns A promise which resolves with the file content.
+   */
+  private _getIncrementally(path: string): Promise<drive.ILoadedContents> {
+    // If there is a listing in progress or completed
+    // for the directory, use it.
+    const listing = this._listings.get(path);
+    if (listing) {
+      if (listing.done) {
+        this._listings.delete(path);
+      } else {
+        listing.seen = true;
+      }
+      return Promise.resolve({ contents: listing.contents, version: null });
+    }
+
+    return new Promise<drive.ILoadedContents>((resolve, reject) => {
+      let first = true;
+      const onPage = (contents: Contents.IModel) => {
+        if (first) {
+          first = false;
+          resolve({ contents, version: null });
+          return;
+        }
+        this._listings.set(path, { contents, done: false, seen: false });
+        this._listingChanged.emit(path);
+      };
+      drive.loadContents(this.transport, path, this._fileTypeForPath, onPage)
+      .then(loaded => {
+        const contents = loaded.contents;
+        if (first) {
+          // Not a directory, or there was only a single page.
+          first = false;
+          resolve(loaded);
+          return;
+        }
+        // The last page has already been emitted, so we only
+        // keep the listing around if it has not yet been seen.
+        const current = this._listings.get(path);
+        if (!current || current.seen) {
+          this._listings.delete(path);
+        } else {
+          this._listings.set(path, { contents, done: true, seen: false });
+        }
+      }).catch(err => {
+        this._listings.delete(path);
+        if (first) {
+          first = false;
+          reject(err);
+        } else {
+          this._errorOccurred.emit(toDriveError(err, path));
+        }
+      });
+    });
   }
 
   /**
@@ -428,13 +1040,15 @@ class GoogleDrive implements Contents.IDrive {
     // directory (i.e., not the pseudo-root or
     // the "Shared with me" directory).
     if (drive.isDummy(path)) {
-      throw makeError(400, `Google Drive: "${path}"` +
-                     ' is not a valid save directory');
+      throw createDriveError({
+        status: 400, path,
+        message: `Google Drive: "${path}" is not a valid save directory`
+      });
     }
     // Get the file listing for the directory.
-    const query = 'name contains \''+baseName+
-                '\' and name contains \''+ext+'\'';
-    return drive.searchDirectory(path, query).then((resourceList) => {
+    const query = DriveQuery.and(DriveQuery.nameContains(baseName),
+                                 DriveQuery.nameContains(ext));
+    return drive.searchDirectory(this.transport, path, query).then((resourceList) => {
       const existingNames: any = {};
       for( let i = 0; i < resourceList.length; i++) {
         existingNames[resourceList[i].name!] = true;
@@ -461,4 +1075,162 @@ class GoogleDrive implements Contents.IDrive {
   private _fileTypeForPath: (path: string) => DocumentRegistry.IFileType;
   private _fileTypeForContentsModel: (model: Partial<Contents.IModel>) => DocumentRegistry.IFileType;
   private _fileChanged = new Signal<this, Contents.IChangedArgs>(this);
+  private _name: string;
+  private _realtime: boolean;
+  private _listingChanged = new Signal<this, string>(this);
+  private _uploadProgress = new Signal<this, GoogleDrive.IUploadProgress>(this);
+  private _copyProgress = new Signal<this, GoogleDrive.ICopyProgress>(this);
+  private _checkpointRestored = new Signal<this, GoogleDrive.ICheckpointRestoredArgs>(this);
+  private _saveCancelled = new Signal<this, SaveCancelledError>(this);
+  private _errorOccurred = new Signal<this, DriveError>(this);
+  private _changes: ChangeFeed;
+  private _listings = new Map<string, Private.IListing>();
+  private _versions = new Map<string, drive.IFileVersion>();
+  private _modelDBs = new Map<string, GoogleModelDB>();
+}
+
+/**
+ * A namespace for `GoogleDrive` statics.
+ */
+export
+namespace GoogleDrive {
+  /**
+   * The options used to construct a drive.
+   */
+  export
+  interface IOptions {
+    /**
+     * The name of the drive, which defaults to `'GDrive'`.
+     * Each drive registered with the contents manager
+     * needs a distinct name.
+     */
+    name?: string;
+
+    /**
+     * The transport through which the requests of the drive
+     * are made, which defaults to the current transport.
+     */
+    transport?: IDriveTransport;
+
+    /**
+     * Whether documents are made collaborative with the realtime API,
+     * which defaults to `true`. The realtime API uses the token of the
+     * default account, so drives of other accounts should not use it.
+     */
+    realtime?: boolean;
+  }
+
+  /**
+   * A save which conflicts with changes made to
+   * the file since it was loaded.
+   */
+  export
+  interface IConflict {
+    /**
+     * The path of the file.
+     */
+    path: string;
+
+    /**
+     * The model that was being saved.
+     */
+    model: Partial<Contents.IModel>;
+  }
+
+  /**
+   * How to resolve a conflicting save:
+   * - `'overwrite'`: save over the changes.
+   * - `'reload'`: discard the save, so that the file can be reloaded.
+   * - `'copy'`: save to a new copy of the file instead.
+   *
+   * The save is rejected with a `SaveCancelledError` for `'reload'`
+   * and `'copy'`, since the file itself is not saved.
+   * - `'cancel'`: fail the save.
+   */
+  export
+  type ConflictResolution = 'overwrite' | 'reload' | 'copy' | 'cancel';
+
+  /**
+   * The progress of an upload to a path.
+   */
+  export
+  interface IUploadProgress extends ResumableUpload.IProgress {
+    /**
+     * The path of the file being uploaded.
+     */
+    path: string;
+  }
+
+  /**
+   * The arguments of the `checkpointRestored` signal.
+   */
+  export
+  interface ICheckpointRestoredArgs {
+    /**
+     * The path of the file.
+     */
+    path: string;
+
+    /**
+     * The id of the restored checkpoint.
+     */
+    checkpointID: string;
+  }
+
+  /**
+   * The progress of a folder copy.
+   */
+  export
+  interface ICopyProgress extends drive.ICopyProgress {
+    /**
+     * The path of the new copy of the folder.
+     */
+    path: string;
+  }
+}
+
+/**
+ * A namespace for module-private data.
+ */
+namespace Private {
+  /**
+   * A directory listing that is being populated incrementally.
+   */
+  export
+  interface IListing {
+    /**
+     * The contents model with the listing so far.
+     */
+    contents: Contents.IModel;
+
+    /**
+     * Whether all the pages of the listing have arrived.
+     */
+    done: boolean;
+
+    /**
+     * Whether the listing has been given out since it last changed.
+     */
+    seen: boolean;
+  }
+
+  /**
+   * Create the error for a contents or checkpoint
+   * model that did not validate.
+   */
+  export
+  function invalidModel(status: number, error: Error, path: string): DriveError {
+    return createDriveError({ status, message: error.message, path });
+  }
+
+  /**
+   * Create a rejection handler which rethrows the
+   * rejection as a `DriveError` for a path.
+   */
+  export
+  function rethrowFor(path: string): (err: any) => never {
+    return err => {
+      throw toDriveError(err, path);
+    };
+  }
 }
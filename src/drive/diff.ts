@@ -0,0 +1,728 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  JSONValue
+} from '@phosphor/coreutils';
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  nbformat, PathExt
+} from '@jupyterlab/coreutils';
+
+import {
+  Contents
+} from '@jupyterlab/services';
+
+import {
+  GoogleDrive
+} from './contents';
+
+import {
+  describeError
+} from './errors';
+
+/**
+ * The class name added to the revision diff widget.
+ */
+const DIFF_CLASS = 'jp-GoogleRevisionDiff';
+
+/**
+ * The class name added to the header of the diff.
+ */
+const DIFF_HEADER_CLASS = 'jp-GoogleRevisionDiff-header';
+
+/**
+ * The class name added to the diff of a cell.
+ */
+const DIFF_CELL_CLASS = 'jp-GoogleRevisionDiff-cell';
+
+/**
+ * The class name added to the title of a cell or section.
+ */
+const DIFF_TITLE_CLASS = 'jp-GoogleRevisionDiff-title';
+
+/**
+ * The class name added to a block of diffed lines.
+ */
+const DIFF_LINES_CLASS = 'jp-GoogleRevisionDiff-lines';
+
+/**
+ * The class name added to a run of unchanged lines which is hidden.
+ */
+const DIFF_SKIPPED_CLASS = 'jp-GoogleRevisionDiff-skipped';
+
+/**
+ * The number of unchanged lines shown around each change.
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * The largest number of comparisons made to align two sequences.
+ * Beyond it, the changed parts are shown as removed and then added.
+ */
+const MAX_COMPARISONS = 1000000;
+
+/**
+ * The ways in which an item differs between two revisions.
+ */
+export
+type DiffType = 'unchanged' | 'added' | 'removed' | 'modified';
+
+/**
+ * A step in aligning two sequences.
+ */
+export
+interface IDiffOp {
+  /**
+   * Whether the item is in both sequences, or only in one.
+   */
+  type: 'unchanged' | 'added' | 'removed';
+
+  /**
+   * The index of the item in the old sequence, or `null` if it was added.
+   */
+  oldIndex: number | null;
+
+  /**
+   * The index of the item in the new sequence, or `null` if it was removed.
+   */
+  newIndex: number | null;
+}
+
+/**
+ * A line of a text diff.
+ */
+export
+interface ILineDiff {
+  /**
+   * Whether the line is in both texts, or only in one.
+   */
+  type: 'unchanged' | 'added' | 'removed';
+
+  /**
+   * The text of the line.
+   */
+  text: string;
+}
+
+/**
+ * The diff of a notebook cell.
+ */
+export
+interface ICellDiff {
+  /**
+   * How the cell differs between the revisions.
+   */
+  type: DiffType;
+
+  /**
+   * The type of the cell, from the new revision if it is there.
+   */
+  cellType: string;
+
+  /**
+   * The index of the cell in the old revision, or `null` if it was added.
+   */
+  oldIndex: number | null;
+
+  /**
+   * The index of the cell in the new revision, or `null` if it was removed.
+   */
+  newIndex: number | null;
+
+  /**
+   * The diff of the source of the cell.
+   */
+  source: ILineDiff[];
+
+  /**
+   * The diff of the outputs of the cell, as text.
+   */
+  outputs: ILineDiff[];
+
+  /**
+   * The diff of the metadata of the cell, as JSON.
+   */
+  metadata: ILineDiff[];
+}
+
+/**
+ * The diff of a notebook.
+ */
+export
+interface INotebookDiff {
+  /**
+   * The diff of the metadata of the notebook, as JSON.
+   */
+  metadata: ILineDiff[];
+
+  /**
+   * The diffs of the cells, in the order of the new revision,
+   * with removed cells where they were in the old one.
+   */
+  cells: ICellDiff[];
+}
+
+/**
+ * Align two sequences by their longest common subsequence.
+ *
+ * @param oldItems - the items of the old sequence.
+ *
+ * @param newItems - the items of the new sequence.
+ *
+ * @param equal - whether an old item is the same as a new one.
+ *
+ * @returns the steps which turn the old sequence into the new one,
+ *   with removed items before added ones where they are adjacent.
+ */
+export
+function diffSequences<T>(oldItems: ReadonlyArray<T>, newItems: ReadonlyArray<T>, equal: (oldItem: T, newItem: T) => boolean): IDiffOp[] {
+  const ops: IDiffOp[] = [];
+  // Skip the common prefix and suffix, which are
+  // most of the items for typical edits.
+  let start = 0;
+  while (start < oldItems.length && start < newItems.length &&
+         equal(oldItems[start], newItems[start])) {
+    ops.push({ type: 'unchanged', oldIndex: start, newIndex: start });
+    start++;
+  }
+  let oldEnd = oldItems.length;
+  let newEnd = newItems.length;
+  while (oldEnd > start && newEnd > start &&
+         equal(oldItems[oldEnd - 1], newItems[newEnd - 1])) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const rows = oldEnd - start;
+  const cols = newEnd - start;
+  if (rows * cols > MAX_COMPARISONS) {
+    for (let i = start; i < oldEnd; i++) {
+      ops.push({ type: 'removed', oldIndex: i, newIndex: null });
+    }
+    for (let j = start; j < newEnd; j++) {
+      ops.push({ type: 'added', oldIndex: null, newIndex: j });
+    }
+  } else {
+    // The length of the common subsequence of the
+    // remaining items from each pair of indices.
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          equal(oldItems[start + i], newItems[start + j]) ?
+          lengths[(i + 1) * width + j + 1] + 1 :
+          Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols &&
+          equal(oldItems[start + i], newItems[start + j])) {
+        ops.push({
+          type: 'unchanged', oldIndex: start + i, newIndex: start + j
+        });
+        i++;
+        j++;
+      } else if (i < rows && (j === cols ||
+                 lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        ops.push({ type: 'removed', oldIndex: start + i, newIndex: null });
+        i++;
+      } else {
+        ops.push({ type: 'added', oldIndex: null, newIndex: start + j });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < oldItems.length - oldEnd; k++) {
+    ops.push({
+      type: 'unchanged', oldIndex: oldEnd + k, newIndex: newEnd + k
+    });
+  }
+  return ops;
+}
+
+/**
+ * Compute a line by line diff of two texts.
+ *
+ * @param oldText - the old text.
+ *
+ * @param newText - the new text.
+ *
+ * @returns the lines of both texts, in order.
+ */
+export
+function diffLines(oldText: string, newText: string): ILineDiff[] {
+  const oldLines = Private.splitLines(oldText);
+  const newLines = Private.splitLines(newText);
+  return diffSequences(oldLines, newLines, (a, b) => a === b).map(op => {
+    return {
+      type: op.type,
+      text: op.oldIndex === null ? newLines[op.newIndex!] :
+                                   oldLines[op.oldIndex]
+    };
+  });
+}
+
+/**
+ * Whether a diff of lines has any changes.
+ */
+export
+function hasChanges(lines: ReadonlyArray<ILineDiff>): boolean {
+  return lines.some(line => line.type !== 'unchanged');
+}
+
+/**
+ * Compute a cell by cell diff of two notebooks.
+ *
+ * @param oldNotebook - the content of the old notebook.
+ *
+ * @param newNotebook - the content of the new notebook.
+ *
+ * @returns the diff of the notebooks.
+ *
+ * #### Notes
+ * Cells are aligned by their type and source. Cells whose source
+ * was edited are matched with each other in order, and are shown
+ * as modified, as are cells whose outputs or metadata changed.
+ */
+export
+function diffNotebooks(oldNotebook: nbformat.INotebookContent, newNotebook: nbformat.INotebookContent): INotebookDiff {
+  const oldCells: nbformat.ICell[] = oldNotebook.cells || [];
+  const newCells: nbformat.ICell[] = newNotebook.cells || [];
+  const ops = diffSequences<nbformat.ICell>(oldCells, newCells, (a, b) => {
+    return a.cell_type === b.cell_type &&
+           Private.sourceText(a) === Private.sourceText(b);
+  });
+
+  const cells: ICellDiff[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  // Match the cells removed and added between two unchanged
+  // cells with each other, as they are most likely edits.
+  const flush = () => {
+    const count = Math.min(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      const oldCell = oldCells[removed[k]];
+      const newCell = newCells[added[k]];
+      if (oldCell.cell_type === newCell.cell_type) {
+        cells.push(Private.diffCells(oldCell, newCell, removed[k], added[k]));
+      } else {
+        cells.push(Private.diffCells(oldCell, null, removed[k], null));
+        cells.push(Private.diffCells(null, newCell, null, added[k]));
+      }
+    }
+    for (let k = count; k < removed.length; k++) {
+      cells.push(Private.diffCells(oldCells[removed[k]], null, removed[k], null));
+    }
+    for (let k = count; k < added.length; k++) {
+      cells.push(Private.diffCells(null, newCells[added[k]], null, added[k]));
+    }
+    removed = [];
+    added = [];
+  };
+  for (let op of ops) {
+    if (op.type === 'removed') {
+      removed.push(op.oldIndex!);
+    } else if (op.type === 'added') {
+      added.push(op.newIndex!);
+    } else {
+      flush();
+      cells.push(Private.diffCells(
+        oldCells[op.oldIndex!], newCells[op.newIndex!],
+        op.oldIndex, op.newIndex));
+    }
+  }
+  flush();
+
+  return {
+    metadata: diffLines(Private.stringify(oldNotebook.metadata),
+                        Private.stringify(newNotebook.metadata)),
+    cells
+  };
+}
+
+/**
+ * A widget which shows the differences between
+ * two revisions of a Google Drive document.
+ *
+ * #### Notes
+ * Notebooks are compared cell by cell, including their outputs
+ * and metadata. Other text is compared line by line, and binary
+ * content is only reported as changed or unchanged.
+ */
+export
+class RevisionDiffWidget extends Widget {
+  /**
+   * Construct a new revision diff widget.
+   */
+  constructor(options: RevisionDiffWidget.IOptions) {
+    super();
+    const { path, oldRevision, newRevision } = options;
+    this.id = `google-drive-diff-${Private.id++}`;
+    this.title.label = `${PathExt.basename(path)} (diff)`;
+    this.title.closable = true;
+    this.addClass(DIFF_CLASS);
+    const header = document.createElement('div');
+    header.className = DIFF_HEADER_CLASS;
+    header.textContent = `Changes to "${PathExt.basename(path)}" from ` +
+                         `${oldRevision.label} to ${newRevision.label}`;
+    this.node.appendChild(header);
+    const body = document.createElement('div');
+    this.node.appendChild(body);
+    body.textContent = 'Loading revisions...';
+
+    this._ready = Promise.all([
+      options.drive.getRevision(path, oldRevision.id),
+      options.drive.getRevision(path, newRevision.id)
+    ]).then(([oldContents, newContents]) => {
+      body.textContent = '';
+      Private.renderDiff(body, oldContents, newContents);
+    }).catch(err => {
+      body.textContent = 'Cannot load the revisions: ' +
+                         describeError(err);
+      throw err;
+    });
+  }
+
+  /**
+   * A promise fulfilled when the diff is shown.
+   */
+  get ready(): Promise<void> {
+    return this._ready;
+  }
+
+  private _ready: Promise<void>;
+}
+
+/**
+ * A namespace for `RevisionDiffWidget` statics.
+ */
+export
+namespace RevisionDiffWidget {
+  /**
+   * A revision to compare.
+   */
+  export
+  interface IRevision {
+    /**
+     * The id of the revision.
+     */
+    id: string;
+
+    /**
+     * The label of the revision, such as the time it was made.
+     */
+    label: string;
+  }
+
+  /**
+   * The options used to create a revision diff widget.
+   */
+  export
+  interface IOptions {
+    /**
+     * The Google Drive which holds the document.
+     */
+    drive: GoogleDrive;
+
+    /**
+     * The path of the document.
+     */
+    path: string;
+
+    /**
+     * The revision to compare from.
+     */
+    oldRevision: IRevision;
+
+    /**
+     * The revision to compare to.
+     */
+    newRevision: IRevision;
+  }
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * The number of diff widgets created, used to give each a unique id.
+   */
+  export
+  let id = 0;
+
+  /**
+   * Split a text into lines, without a line for a trailing newline.
+   */
+  export
+  function splitLines(text: string): string[] {
+    if (!text) {
+      return [];
+    }
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines;
+  }
+
+  /**
+   * Convert a JSON value to a string, with sorted keys
+   * so that equal values always have the same string.
+   */
+  export
+  function stringify(value: JSONValue | undefined): string {
+    if (value === undefined) {
+      return '';
+    }
+    return JSON.stringify(value, (key, item) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        return item;
+      }
+      const sorted: { [key: string]: any } = {};
+      for (let name of Object.keys(item).sort()) {
+        sorted[name] = item[name];
+      }
+      return sorted;
+    }, 1);
+  }
+
+  /**
+   * Get the source of a cell as text.
+   */
+  export
+  function sourceText(cell: nbformat.ICell): string {
+    return multilineText(cell.source);
+  }
+
+  /**
+   * Get the outputs of a cell as text. Text outputs are shown as they
+   * are, other data by its mimetype, size, and a hash of its content.
+   */
+  export
+  function outputsText(cell: nbformat.ICell | null): string {
+    if (!cell || !nbformat.isCode(cell)) {
+      return '';
+    }
+    const lines: string[] = [];
+    for (let output of cell.outputs || []) {
+      if (nbformat.isStream(output)) {
+        lines.push(`[${output.name}]`, multilineText(output.text));
+      } else if (nbformat.isError(output)) {
+        lines.push(`[error] ${output.ename}: ${output.evalue}`);
+      } else if (nbformat.isExecuteResult(output) ||
+                 nbformat.isDisplayData(output)) {
+        const data = output.data;
+        for (let mimetype of Object.keys(data).sort()) {
+          const value = data[mimetype];
+          const text = typeof value === 'string' || Array.isArray(value) ?
+            multilineText(value as nbformat.MultilineString) :
+            stringify(value);
+          if (mimetype.indexOf('text/') === 0 || mimetype.indexOf('json') !== -1) {
+            lines.push(`[${mimetype}]`, text);
+          } else {
+            lines.push(`[${mimetype}] ${text.length} characters, ` +
+                       `hash ${hash(text)}`);
+          }
+        }
+      } else {
+        lines.push(`[${output.output_type}]`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Compute the diff of a cell between two revisions.
+   */
+  export
+  function diffCells(oldCell: nbformat.ICell | null, newCell: nbformat.ICell | null, oldIndex: number | null, newIndex: number | null): ICellDiff {
+    const source = diffLines(oldCell ? sourceText(oldCell) : '',
+                             newCell ? sourceText(newCell) : '');
+    const outputs = diffLines(outputsText(oldCell), outputsText(newCell));
+    const metadata = diffLines(oldCell ? stringify(oldCell.metadata) : '',
+                               newCell ? stringify(newCell.metadata) : '');
+    let type: DiffType;
+    if (!oldCell) {
+      type = 'added';
+    } else if (!newCell) {
+      type = 'removed';
+    } else if (hasChanges(source) || hasChanges(outputs) ||
+               hasChanges(metadata)) {
+      type = 'modified';
+    } else {
+      type = 'unchanged';
+    }
+    return {
+      type,
+      cellType: (newCell || oldCell)!.cell_type,
+      oldIndex,
+      newIndex,
+      source,
+      outputs,
+      metadata
+    };
+  }
+
+  /**
+   * Render the diff of the contents of two revisions.
+   */
+  export
+  function renderDiff(node: HTMLElement, oldContents: Contents.IModel, newContents: Contents.IModel): void {
+    if (oldContents.type === 'notebook' && newContents.type === 'notebook') {
+      renderNotebookDiff(node, diffNotebooks(oldContents.content,
+                                             newContents.content));
+    } else if (oldContents.format === 'base64' ||
+               newContents.format === 'base64') {
+      node.textContent = oldContents.content === newContents.content ?
+        'The revisions are identical.' :
+        'The binary content of the revisions differs.';
+    } else {
+      const lines = diffLines(contentText(oldContents),
+                              contentText(newContents));
+      if (!hasChanges(lines)) {
+        node.textContent = 'The revisions are identical.';
+        return;
+      }
+      node.appendChild(createLines(lines, true));
+    }
+  }
+
+  /**
+   * Render the diff of two notebooks.
+   */
+  function renderNotebookDiff(node: HTMLElement, diff: INotebookDiff): void {
+    const changed = diff.cells.filter(cell => cell.type !== 'unchanged');
+    const counts = ['added', 'removed', 'modified'].map(type => {
+      const count = changed.filter(cell => cell.type === type).length;
+      return `${count} ${type}`;
+    });
+    const summary = document.createElement('div');
+    summary.className = DIFF_TITLE_CLASS;
+    summary.textContent = `Cells: ${counts.join(', ')}`;
+    node.appendChild(summary);
+    if (hasChanges(diff.metadata)) {
+      node.appendChild(createSection('Notebook metadata', diff.metadata));
+    }
+
+    for (let cell of diff.cells) {
+      const cellNode = document.createElement('div');
+      cellNode.className = `${DIFF_CELL_CLASS} jp-mod-${cell.type}`;
+      const title = document.createElement('div');
+      title.className = DIFF_TITLE_CLASS;
+      const index = cell.newIndex === null ? cell.oldIndex! : cell.newIndex;
+      title.textContent = `Cell ${index + 1} · ${cell.cellType} · ${cell.type}`;
+      cellNode.appendChild(title);
+      // Unchanged cells are only shown in outline.
+      if (cell.type !== 'unchanged') {
+        cellNode.appendChild(createLines(cell.source, cell.type === 'modified'));
+        if (hasChanges(cell.outputs)) {
+          cellNode.appendChild(createSection('Outputs', cell.outputs));
+        }
+        if (cell.type === 'modified' && hasChanges(cell.metadata)) {
+          cellNode.appendChild(createSection('Metadata', cell.metadata));
+        }
+      }
+      node.appendChild(cellNode);
+    }
+  }
+
+  /**
+   * Create a titled section of diffed lines.
+   */
+  function createSection(label: string, lines: ILineDiff[]): HTMLElement {
+    const section = document.createElement('div');
+    const title = document.createElement('div');
+    title.className = DIFF_TITLE_CLASS;
+    title.textContent = label;
+    section.appendChild(title);
+    section.appendChild(createLines(lines, true));
+    return section;
+  }
+
+  /**
+   * Create a block of diffed lines, prefixed by `+` when added
+   * and `-` when removed.
+   *
+   * @param collapse - whether to hide unchanged lines far from changes.
+   */
+  function createLines(lines: ILineDiff[], collapse: boolean): HTMLElement {
+    const pre = document.createElement('pre');
+    pre.className = DIFF_LINES_CLASS;
+    const prefixes = { unchanged: ' ', added: '+', removed: '-' };
+    // The distance from each line to the nearest change.
+    const distances = lines.map(() => Infinity);
+    let last = -Infinity;
+    lines.forEach((line, i) => {
+      last = line.type === 'unchanged' ? last : i;
+      distances[i] = i - last;
+    });
+    last = Infinity;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      last = lines[i].type === 'unchanged' ? last : i;
+      distances[i] = Math.min(distances[i], last - i);
+    }
+
+    let skipped = 0;
+    const flushSkipped = () => {
+      if (skipped) {
+        const div = document.createElement('div');
+        div.className = DIFF_SKIPPED_CLASS;
+        div.textContent = `... ${skipped} unchanged ` +
+                          (skipped === 1 ? 'line' : 'lines');
+        pre.appendChild(div);
+        skipped = 0;
+      }
+    };
+    lines.forEach((line, i) => {
+      if (collapse && distances[i] > CONTEXT_LINES) {
+        skipped++;
+        return;
+      }
+      flushSkipped();
+      const div = document.createElement('div');
+      div.className = `jp-mod-${line.type}`;
+      div.textContent = `${prefixes[line.type]} ${line.text}`;
+      pre.appendChild(div);
+    });
+    flushSkipped();
+    return pre;
+  }
+
+  /**
+   * Get the content of a text or JSON revision as text.
+   */
+  function contentText(contents: Contents.IModel): string {
+    if (typeof contents.content === 'string') {
+      return contents.content;
+    }
+    return stringify(contents.content);
+  }
+
+  /**
+   * Join a multiline string.
+   */
+  function multilineText(text: nbformat.MultilineString): string {
+    return Array.isArray(text) ? text.join('') : text;
+  }
+
+  /**
+   * Compute a short hash of a string, to tell its changes apart.
+   */
+  function hash(text: string): string {
+    let value = 5381;
+    for (let i = 0; i < text.length; i++) {
+      value = ((value * 33) ^ text.charCodeAt(i)) >>> 0;
+    }
+    return value.toString(16);
+  }
+}
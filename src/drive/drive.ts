@@ -20,24 +20,101 @@ import {
 } from '@jupyterlab/docregistry';
 
 import {
-  driveApiRequest, gapiAuthorized, gapiInitialized, makeError
+  authState, driveApiRequest, refreshAuthorization
 } from '../gapi';
 
+import {
+  DriveError, NotFoundError, createDriveError
+} from './errors';
+
+import {
+  IDriveTransport
+} from './transport';
+
+import {
+  base64FromBytes, bytesFromBase64, bytesFromText, textFromBytes
+} from './binary';
+
+import {
+  DriveQuery
+} from './query';
+
+import {
+  ResumableUpload
+} from './upload';
+
 
-const RESOURCE_FIELDS = 'kind,id,name,mimeType,trashed,headRevisionId,'+
+const RESOURCE_FIELDS = 'kind,id,name,mimeType,trashed,explicitlyTrashed,'+
+                        'headRevisionId,'+
                         'parents,modifiedTime,createdTime,capabilities,'+
-                        'webContentLink,teamDriveId';
+                        'webContentLink,teamDriveId,permissions(id,role)';
 
 const TEAMDRIVE_FIELDS = 'kind,id,name,capabilities';
 
+const REVISION_FIELDS = 'id,modifiedTime,keepForever,size,' +
+                        'lastModifyingUser(displayName,emailAddress)';
+
+const PERMISSION_FIELDS = 'id,type,role,displayName,emailAddress,domain,' +
+                          'allowFileDiscovery,teamDrivePermissionDetails';
+
+const REPLY_FIELDS = 'id,author(displayName,emailAddress),content,' +
+                     'createdTime,action,deleted';
+
+const COMMENT_FIELDS = 'id,author(displayName,emailAddress),content,' +
+                       'createdTime,modifiedTime,resolved,deleted,anchor,' +
+                       'quotedFileContent,replies(' + REPLY_FIELDS + ')';
+
+/**
+ * The key under which the anchor of a comment made in JupyterLab
+ * is kept in the anchor string of the comment. The anchors of
+ * comments made elsewhere, such as in the Drive web UI, are
+ * not understood, so those comments are about the whole file.
+ */
+const COMMENT_ANCHOR_KEY = 'jupyterlab';
+
+/**
+ * The prefix of the key of the file property which holds the label
+ * of a checkpoint, followed by the id of the revision. Properties
+ * are public, so that collaborators see the labels.
+ */
+const CHECKPOINT_PROPERTY_PREFIX = 'checkpoint-';
+
+/**
+ * The largest size of a file property, in bytes of its key and value.
+ */
+const MAX_PROPERTY_SIZE = 124;
+
+/**
+ * The number of items to request per page when listing
+ * files or Team Drives. This is the Drive API default.
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * The number of requests that are made at once when copying
+ * a folder, so that large folders stay within the rate limits.
+ */
+const MAX_COPY_REQUESTS = 4;
+
+/**
+ * The size above which content is sent with a
+ * resumable upload, rather than in a single request.
+ */
+export
+const RESUMABLE_THRESHOLD = 5 * 1024 * 1024;
+
 export
 const RT_MIMETYPE = 'application/vnd.google-apps.drive-sdk';
 export
 const FOLDER_MIMETYPE = 'application/vnd.google-apps.folder';
 export
 const FILE_MIMETYPE = 'application/vnd.google-apps.file';
-
-const MULTIPART_BOUNDARY = '-------314159265358979323846';
+export
+const DOCUMENT_MIMETYPE = 'application/vnd.google-apps.document';
+export
+const SPREADSHEET_MIMETYPE = 'application/vnd.google-apps.spreadsheet';
+export
+const PRESENTATION_MIMETYPE = 'application/vnd.google-apps.presentation';
 
 /**
  * Type alias for a files resource returned by
@@ -52,12 +129,84 @@ type FileResource = gapi.client.drive.File;
 export
 type RevisionResource = gapi.client.drive.Revision;
 
+/**
+ * Type alias for a Google Drive permission resource.
+ */
+export
+type PermissionResource = gapi.client.drive.Permission;
+
+/**
+ * Type alias for a Google Drive comment resource.
+ */
+export
+type CommentResource = gapi.client.drive.Comment;
+
+/**
+ * Type alias for a Google Drive reply resource.
+ */
+export
+type ReplyResource = gapi.client.drive.Reply;
+
+/**
+ * Type alias for a Google Drive change resource.
+ */
+export
+type ChangeResource = gapi.client.drive.Change;
+
 /**
  * Type stub for a Team Drive resource.
  */
 export
 type TeamDriveResource = gapi.client.drive.TeamDrive;
 
+/**
+ * A format to which a native Google file is exported,
+ * since its content cannot be downloaded.
+ */
+export
+interface IExportFormat {
+  /**
+   * The mimetypes of the format, in order of preference.
+   * The later ones are used if the Drive API does not
+   * support the conversion to the earlier ones.
+   */
+  mimeTypes: string[];
+
+  /**
+   * The extension added to the name of the file, so
+   * that it opens in the matching viewer.
+   */
+  extension: string;
+
+  /**
+   * The format of the exported content in a contents model.
+   */
+  fileFormat: Contents.FileFormat;
+}
+
+/**
+ * The export formats for native Google files, keyed by
+ * their mimetypes. Docs are exported as Markdown (or plain
+ * text), Sheets as CSV, and Slides as PDF.
+ */
+const EXPORT_FORMATS: { [mimeType: string]: IExportFormat } = {
+  [DOCUMENT_MIMETYPE]: {
+    mimeTypes: ['text/markdown', 'text/plain'],
+    extension: '.md',
+    fileFormat: 'text'
+  },
+  [SPREADSHEET_MIMETYPE]: {
+    mimeTypes: ['text/csv'],
+    extension: '.csv',
+    fileFormat: 'text'
+  },
+  [PRESENTATION_MIMETYPE]: {
+    mimeTypes: ['application/pdf'],
+    extension: '.pdf',
+    fileFormat: 'base64'
+  }
+};
+
 /**
  * Alias for directory IFileType.
  */
@@ -68,11 +217,25 @@ const directoryFileType = DocumentRegistry.defaultDirectoryFileType;
  */
 const SHARED_DIRECTORY = 'Shared with me';
 
+/**
+ * The name of the dummy "Trash" folder.
+ */
+const TRASH_DIRECTORY = 'Trash';
+
 /**
  * The path of the dummy pseudo-root folder.
  */
 const COLLECTIONS_DIRECTORY = '';
 
+/**
+ * The first component of the paths which find files by their ids,
+ * which are used for files that have no unique path. It is followed
+ * by the id of the file and its name, so that the type of the file
+ * can be told from the path, and then by the path of anything in
+ * it, if it is a folder.
+ */
+const ID_DIRECTORY = '.id';
+
 /**
  * A dummy files resource for the "Shared with me" folder.
  */
@@ -81,6 +244,14 @@ const SHARED_DIRECTORY_RESOURCE: FileResource = {
   name: SHARED_DIRECTORY,
 }
 
+/**
+ * A dummy files resource for the "Trash" folder.
+ */
+const TRASH_DIRECTORY_RESOURCE: FileResource = {
+  kind: 'dummy',
+  name: TRASH_DIRECTORY,
+}
+
 /**
  * A dummy files resource for the pseudo-root folder.
  */
@@ -95,13 +266,15 @@ const COLLECTIONS_DIRECTORY_RESOURCE: FileResource = {
 /**
  * Get a download URL for a file path.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param path - the path corresponding to the file.
  *
  * @returns a promise that resolves with the download URL.
  */
 export
-function urlForFile(path: string): Promise<string> {
-  return getResourceForPath(path).then((resource: FileResource) => {
+function urlForFile(transport: IDriveTransport, path: string): Promise<string> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
     return resource.webContentLink!;
   });
 }
@@ -109,6 +282,8 @@ function urlForFile(path: string): Promise<string> {
 /**
  * Given a path and `Contents.IModel`, upload the contents to Google Drive.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param path - the path to which to upload the contents.
  *
  * @param model - the `Contents.IModel` to upload.
@@ -117,107 +292,180 @@ function urlForFile(path: string): Promise<string> {
  *
  * @param exisiting - whether the file exists.
  *
+ * @param baseVersion - the version of an existing file on which the
+ *   contents are based. If it is given, and the file has changed since
+ *   that version, the upload fails with a 409 (conflict) error.
+ *
+ * @param onProgress - an optional callback for the progress of content
+ *   larger than `RESUMABLE_THRESHOLD`, which is sent in chunks.
+ *
  * @returns a promise fulfulled with the `Contents.IModel` that has been uploaded,
  *   or throws an Error if it fails.
  */
 export
-function uploadFile(path: string, model: Partial<Contents.IModel>, fileType: DocumentRegistry.IFileType, existing: boolean = false, fileTypeForPath: ((path: string) => DocumentRegistry.IFileType) | undefined = undefined): Promise<Contents.IModel> {
+function uploadFile(transport: IDriveTransport, path: string, model: Partial<Contents.IModel>, fileType: DocumentRegistry.IFileType, existing: boolean = false, fileTypeForPath: ((path: string) => DocumentRegistry.IFileType) | undefined = undefined, baseVersion: IFileVersion | undefined = undefined, onProgress: ((progress: ResumableUpload.IProgress) => void) | undefined = undefined): Promise<Contents.IModel> {
   if (isDummy(PathExt.dirname(path)) && !existing) {
-    throw makeError(400, `Google Drive: "${path}"` +
-                    ' is not a valid save directory');
+    throw createDriveError({
+      status: 400, path,
+      message: `Google Drive: "${path}" is not a valid save directory`
+    });
   }
   let resourceReadyPromise: Promise<FileResource>;
-  if(existing) {
-    resourceReadyPromise = getResourceForPath(path);
+  if(existing && baseVersion) {
+    // Check for changes since the base version,
+    // bypassing the cache.
+    resourceReadyPromise = getResourceForPath(transport, path).then(resource => {
+      return resourceFromFileId(transport, resource.id!);
+    }).then(resource => {
+      Private.resourceCache(transport).set(path, resource);
+      if (Private.hasChangedSince(resource, baseVersion)) {
+        throw createDriveError({
+          status: 409, path,
+          message: `Google Drive: "${path}" has been changed since it was loaded`
+        });
+      }
+      return resource;
+    });
+  } else if(existing) {
+    resourceReadyPromise = getResourceForPath(transport, path);
   } else {
-    resourceReadyPromise = new Promise<FileResource>((resolve, reject) => {
-      let enclosingFolderPath = PathExt.dirname(path);
-      enclosingFolderPath =
-        enclosingFolderPath === '.' ? '' : enclosingFolderPath;
-      const resource: FileResource = fileResourceFromContentsModel(model, fileType);
-      getResourceForPath(enclosingFolderPath)
-      .then((parentFolderResource: FileResource) => {
-        if(!isDirectory(parentFolderResource)) {
-           throw new Error("Google Drive: expected a folder: "+path);
-        }
-        if(parentFolderResource.kind === 'drive#teamDrive') {
-          resource.teamDriveId = parentFolderResource.id;
-        } else if (parentFolderResource.teamDriveId) {
-          resource.teamDriveId = parentFolderResource.teamDriveId;
-        }
-        resource.parents = [parentFolderResource.id!];
-        resolve(resource);
-      });
+    let enclosingFolderPath = PathExt.dirname(path);
+    enclosingFolderPath =
+      enclosingFolderPath === '.' ? '' : enclosingFolderPath;
+    const resource: FileResource = fileResourceFromContentsModel(model, fileType);
+    resourceReadyPromise = getResourceForPath(transport, enclosingFolderPath)
+    .then((parentFolderResource: FileResource) => {
+      if(!isDirectory(parentFolderResource)) {
+         throw createDriveError({
+           status: 400, path: enclosingFolderPath,
+           message: `Google Drive: expected a folder: ${enclosingFolderPath}`
+         });
+      }
+      if(parentFolderResource.kind === 'drive#teamDrive') {
+        resource.teamDriveId = parentFolderResource.id;
+      } else if (parentFolderResource.teamDriveId) {
+        resource.teamDriveId = parentFolderResource.teamDriveId;
+      }
+      resource.parents = [parentFolderResource.id!];
+      return resource;
     });
   }
   return resourceReadyPromise.then((resource: FileResource) => {
-    // Construct the HTTP request: first the metadata,
-    // then the content of the uploaded file.
-
-    const delimiter = '\r\n--' + MULTIPART_BOUNDARY + '\r\n';
-    const closeDelim = '\r\n--' + MULTIPART_BOUNDARY + '--';
-
-    // Metatdata part.
-    let body = delimiter+'Content-Type: application/json\r\n\r\n';
-    // Don't update metadata if the file already exists.
-    if(!existing) {
-      body += JSON.stringify(resource);
+    // Native Google files are exported read-only,
+    // and cannot be replaced with their exports.
+    if (exportFormat(resource)) {
+      throw createDriveError({
+        status: 403, path,
+        message: `Google Drive: "${path}" is a Google Docs, ` +
+                 'Sheets, or Slides file, which is read-only'
+      });
+    }
+    // Fail early for a file that we may only view or comment on.
+    if (existing && !canEdit(resource)) {
+      throw createDriveError({
+        status: 403, path,
+        message: `Google Drive: you do not have permission to edit "${path}"`
+      });
     }
-    body += delimiter;
-
-    // Content of the file.
-    body += 'Content-Type: ' + resource.mimeType + '\r\n';
     // It is not well documented, but as can be seen in
     // filebrowser/src/model.ts, anything that is not a
     // notebook is a base64 encoded string.
+    let content: string | Uint8Array;
     if (model.format === 'base64') {
-      body += 'Content-Transfer-Encoding: base64\r\n';
-      body +='\r\n' + model.content + closeDelim;
+      // Send binary content as raw bytes, so that
+      // it arrives exactly as it was given.
+      content = bytesFromBase64(model.content);
     } else if (model.format === 'text') {
-      // If it is already a text string, just send that.
-      body +='\r\n' + model.content + closeDelim;
+      // If it is already a string, just send that.
+      content = model.content;
     } else {
       // Notebook case.
-      body +='\r\n' + JSON.stringify(model.content) + closeDelim;
+      content = JSON.stringify(model.content);
     }
 
-    let apiPath = '/upload/drive/v3/files';
-    let method = 'POST';
-
-    if(existing) {
-      method = 'PATCH';
-      apiPath = apiPath+'/'+resource.id;
+    // Send large content in chunks, so that the upload
+    // can be resumed if it fails part of the way through.
+    if (content.length > RESUMABLE_THRESHOLD) {
+      const upload = new ResumableUpload({
+        transport,
+        fileId: existing ? resource.id : undefined,
+        resource,
+        mimeType: resource.mimeType!,
+        bytes: typeof content === 'string' ? bytesFromText(content) : content,
+        fields: RESOURCE_FIELDS,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+      if (onProgress) {
+        upload.progress.connect((sender, progress) => {
+          onProgress(progress);
+        });
+      }
+      return upload.start();
     }
 
-    const createRequest = () => {
-      return gapi.client.request({
-        path: apiPath,
-        method: method,
-        params: {
-          uploadType: 'multipart',
-          supportsTeamDrives: !!(resource.teamDriveId),
-          fields: RESOURCE_FIELDS
-          },
-        headers: {
-          'Content-Type': 'multipart/related; boundary="' +
-            MULTIPART_BOUNDARY + '"'
-          },
-        body: body
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.upload({
+        fileId: existing ? resource.id : undefined,
+        resource,
+        mimeType: resource.mimeType!,
+        content,
+        base64: false,
+        fields: RESOURCE_FIELDS,
+        supportsTeamDrives: !!(resource.teamDriveId)
       });
     };
 
-    return driveApiRequest<FileResource>(createRequest);
+    return driveApiRequest<FileResource>(transport, createRequest);
   }).then((result) => {
     // Update the cache.
-    Private.resourceCache.set(path, result);
+    Private.resourceCache(transport).set(path, result);
+
+    return contentsModelFromFileResource(transport, result, path, fileType, true, fileTypeForPath);
+  });
+}
+
+/**
+ * The version of a file that has been loaded or saved,
+ * which is used to detect conflicting changes.
+ */
+export
+interface IFileVersion {
+  /**
+   * The id of the head revision of the file. Native Google
+   * Docs formats do not have one.
+   */
+  headRevisionId?: string;
+
+  /**
+   * The last time that the file was modified.
+   */
+  modifiedTime?: string;
+}
 
-    return contentsModelFromFileResource(result, path, fileType, true, fileTypeForPath);
+/**
+ * Get the version of a file, as it is currently known.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @returns a promise fulfilled with the version of the file.
+ */
+export
+function getFileVersion(transport: IDriveTransport, path: string): Promise<IFileVersion> {
+  return getResourceForPath(transport, path).then(resource => {
+    return {
+      headRevisionId: resource.headRevisionId,
+      modifiedTime: resource.modifiedTime
+    };
   });
 }
 
 /**
  * Given a files resource, construct a Contents.IModel.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param resource - the files resource.
  *
  * @param path - the path at which the resource exists in the filesystem.
@@ -232,22 +480,25 @@ function uploadFile(path: string, model: Partial<Contents.IModel>, fileType: Doc
  * @param fileTypeForPath - A function that, given a path argument, returns
  *   and DocumentRegistry.IFileType that is consistent with the path.
  *
+ * @param onPage - An optional callback for directory listings, which is
+ *   called with the partial listing as each page of it arrives.
+ *
  * @returns a promise fulfilled with the Contents.IModel for the resource.
  */
 export
-function contentsModelFromFileResource(resource: FileResource, path: string, fileType: DocumentRegistry.IFileType, includeContents: boolean, fileTypeForPath: ((path: string) => DocumentRegistry.IFileType) | undefined = undefined): Promise<Contents.IModel> {
+function contentsModelFromFileResource(transport: IDriveTransport, resource: FileResource, path: string, fileType: DocumentRegistry.IFileType, includeContents: boolean, fileTypeForPath: ((path: string) => DocumentRegistry.IFileType) | undefined = undefined, onPage: ((contents: Contents.IModel) => void) | undefined = undefined): Promise<Contents.IModel> {
   // Handle the exception of the dummy directories
   if (resource.kind === 'dummy') {
-    return contentsModelFromDummyFileResource(resource, path, includeContents, fileTypeForPath);
+    return contentsModelFromDummyFileResource(transport, resource, path, includeContents, fileTypeForPath, onPage);
   }
   // Handle the case of getting the contents of a directory.
   if (isDirectory(resource)) {
     // Enter contents metadata.
     const contents: Contents.IModel = {
-      name: resource.name!,
+      name: nameForResource(resource),
       path: path,
       type: 'directory',
-      writable: resource.capabilities!.canEdit || true,
+      writable: canEdit(resource),
       created: resource.createdTime || '',
       last_modified: resource.modifiedTime || '',
       mimetype: fileType.mimeTypes[0],
@@ -260,53 +511,45 @@ function contentsModelFromFileResource(resource: FileResource, path: string, fil
       if (!fileTypeForPath) {
         throw Error('Must include fileTypeForPath argument to get directory listing');
       }
-      const fileList: FileResource[] = [];
-      return searchDirectory(path).then((resources: FileResource[]) => {
-        //Update the cache.
-        Private.clearCacheForDirectory(path);
-        Private.populateCacheForDirectory(path, resources);
-
-        let currentContents = Promise.resolve({});
-
-        for(let i = 0; i<resources.length; i++) {
-          const currentResource = resources[i];
-          const resourcePath = path ?
-                             path+'/'+currentResource.name! :
-                             currentResource.name!;
-          const resourceFileType = fileTypeForPath(resourcePath);
-          currentContents = contentsModelFromFileResource(
-            currentResource, resourcePath, resourceFileType, false);
-          currentContents.then((contents: Contents.IModel) => {
-            fileList.push(contents);
-          });
-        }
-        return currentContents;
-      }).then(() => {
-        return {...contents, content: fileList};
-      });
+      return directoryListing(transport, contents, (onResources) => {
+        return searchDirectory(transport, path, null, onResources);
+      }, fileTypeForPath, onPage);
     } else {
       return Promise.resolve(contents);
     }
   } else {
     // Handle the case of getting the contents of a file.
+    const format = exportFormat(resource);
     const contents: Contents.IModel = {
-      name: resource.name!,
+      name: nameForResource(resource),
       path: path,
       type: fileType.contentType,
-      writable: resource.capabilities!.canEdit || true,
+      writable: format ? false : canEdit(resource),
       created: resource.createdTime || '',
       last_modified: resource.modifiedTime || '',
-      mimetype: fileType.mimeTypes[0],
+      mimetype: format ? format.mimeTypes[0] : fileType.mimeTypes[0],
       content: null,
-      format: fileType.fileFormat
+      format: format ? format.fileFormat : fileType.fileFormat
     };
     // Download the contents from the server if necessary.
-    if(includeContents) {
-      return downloadResource(resource).then((result: any) => {
+    if(includeContents && format) {
+      // Native Google files cannot be downloaded, so
+      // export them in a format that we can display.
+      return exportResource(transport, resource, format).then(buffer => {
+        const content = contents.format === 'base64' ?
+                        base64FromBytes(buffer) : textFromBytes(buffer);
+        return { ...contents, content };
+      });
+    } else if(includeContents && contents.format === 'base64') {
+      // Download binary content as raw bytes, so that
+      // it is not corrupted by being decoded as text.
+      return downloadBinary(transport, resource).then(buffer => {
+        return { ...contents, content: base64FromBytes(buffer) };
+      });
+    } else if(includeContents) {
+      return downloadResource(transport, resource).then((result: any) => {
         let content: any = result;
-        if (contents.format === 'base64') {
-          content = btoa(result);
-        } else if (resource.mimeType === 'application/json') {
+        if (resource.mimeType === 'application/json') {
           content = JSON.stringify(result, null, 2);
         }
         return { ...contents, content };
@@ -324,6 +567,8 @@ function contentsModelFromFileResource(resource: FileResource, path: string, fil
  * of files that have a `sharedWithMe` flag, so we have to treat it
  * separately. This constructs Contents.IModels from our dummy directories.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param resource: the dummy files resource.
  *
  * @param path: the path for the dummy resource.
@@ -334,9 +579,12 @@ function contentsModelFromFileResource(resource: FileResource, path: string, fil
  * @param fileTypeForPath - A function that, given a path argument, returns
  *   and DocumentRegistry.IFileType that is consistent with the path.
  *
+ * @param onPage - An optional callback which is called with the partial
+ *   listing of the "Shared with me" directory as each page of it arrives.
+ *
  * @returns a promise fulfilled with the a Contents.IModel for the resource.
  */
-function contentsModelFromDummyFileResource(resource: FileResource, path: string, includeContents: boolean, fileTypeForPath: ((path: string) => DocumentRegistry.IFileType) | undefined): Promise<Contents.IModel> {
+function contentsModelFromDummyFileResource(transport: IDriveTransport, resource: FileResource, path: string, includeContents: boolean, fileTypeForPath: ((path: string) => DocumentRegistry.IFileType) | undefined, onPage: ((contents: Contents.IModel) => void) | undefined): Promise<Contents.IModel> {
   // Construct the empty Contents.IModel.
   const contents: Contents.IModel = {
     name: resource.name!,
@@ -355,48 +603,35 @@ function contentsModelFromDummyFileResource(resource: FileResource, path: string
   if (resource.name === SHARED_DIRECTORY && includeContents) {
     // If `resource` is the SHARED_DIRECTORY_RESOURCE, and we
     // need the file listing for it, then get them.
-    const fileList: Contents.IModel[] = [];
-    return searchSharedFiles().then((resources: FileResource[]) => {
-      //Update the cache.
-      Private.clearCacheForDirectory(path);
-      Private.populateCacheForDirectory(path, resources);
-
-      let currentContents = Promise.resolve({});
-
-      for(let i = 0; i<resources.length; i++) {
-        const currentResource = resources[i];
-        const resourcePath = path ?
-                           path+'/'+currentResource.name :
-                           currentResource.name!;
-        const resourceFileType = fileTypeForPath!(resourcePath);
-        currentContents = contentsModelFromFileResource(currentResource,
-          resourcePath, resourceFileType, false, fileTypeForPath);
-        currentContents.then((contents: Contents.IModel) => {
-          fileList.push(contents);
-        });
-      }
-      return currentContents;
-    }).then(() => {
-      const content = fileList;
-      return { ...contents, content };
-    });
+    return directoryListing(transport, contents, (onResources) => {
+      return searchSharedFiles(transport, null, onResources);
+    }, fileTypeForPath!, onPage);
+  } else if (resource.name === TRASH_DIRECTORY && includeContents) {
+    // If `resource` is the TRASH_DIRECTORY_RESOURCE, list
+    // the files that have been moved to the trash.
+    return directoryListing(transport, contents, (onResources) => {
+      return searchTrashedFiles(transport, null, onResources);
+    }, fileTypeForPath!, onPage);
   } else if (resource.name === COLLECTIONS_DIRECTORY && includeContents) {
     // If `resource` is the pseudo-root directory, construct
     // a contents model for it.
-    const sharedContentsPromise = contentsModelFromFileResource(
+    const sharedContentsPromise = contentsModelFromFileResource(transport, 
       SHARED_DIRECTORY_RESOURCE, SHARED_DIRECTORY, directoryFileType,
       false, undefined);
-    const rootContentsPromise = resourceFromFileId('root').then(
+    const trashContentsPromise = contentsModelFromFileResource(transport, 
+      TRASH_DIRECTORY_RESOURCE, TRASH_DIRECTORY, directoryFileType,
+      false, undefined);
+    const rootContentsPromise = resourceFromFileId(transport, 'root').then(
       (rootResource) => {
-        return contentsModelFromFileResource(rootResource,
+        return contentsModelFromFileResource(transport, rootResource,
                                              rootResource.name,
                                              directoryFileType,
                                              false, undefined);
       });
-    const teamDrivesContentsPromise = listTeamDrives().then(drives => {
+    const teamDrivesContentsPromise = listTeamDrives(transport).then(drives => {
       const drivePromises: Promise<Contents.IModel>[] = [];
       for (let drive of drives) {
-        drivePromises.push(contentsModelFromFileResource(drive,
+        drivePromises.push(contentsModelFromFileResource(transport, drive,
                                                          drive.name!,
                                                          directoryFileType,
                                                          false, undefined));
@@ -406,10 +641,12 @@ function contentsModelFromDummyFileResource(resource: FileResource, path: string
 
     return Promise.all([rootContentsPromise,
                         sharedContentsPromise,
-                        teamDrivesContentsPromise]).then(c => {
+                        teamDrivesContentsPromise,
+                        trashContentsPromise]).then(c => {
       const rootItems = c[2];
       rootItems.unshift(c[1]);
       rootItems.unshift(c[0]);
+      rootItems.push(c[3]);
       return { ...contents, content: rootItems };
     });
   } else {
@@ -421,6 +658,8 @@ function contentsModelFromDummyFileResource(resource: FileResource, path: string
 /**
  * Given a path, get a `Contents.IModel` corresponding to that file.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param path - the path of the file.
  *
  * @param includeContents - whether to include the binary/text/contents of the file.
@@ -429,210 +668,1112 @@ function contentsModelFromDummyFileResource(resource: FileResource, path: string
  * @param fileTypeForPath - A function that, given a path argument, returns
  *   and DocumentRegistry.IFileType that is consistent with the path.
  *
+ * @param onPage - An optional callback for directory listings, which is
+ *   called with the partial listing as each page of it arrives.
+ *
  * @returns a promise fulfilled with the `Contents.IModel` of the appropriate file.
  *   Otherwise, throws an error.
  */
 export
-function contentsModelForPath(path: string, includeContents: boolean, fileTypeForPath: (path: string) => DocumentRegistry.IFileType): Promise<Contents.IModel> {
+function contentsModelForPath(transport: IDriveTransport, path: string, includeContents: boolean, fileTypeForPath: (path: string) => DocumentRegistry.IFileType, onPage: ((contents: Contents.IModel) => void) | undefined = undefined): Promise<Contents.IModel> {
   const fileType = fileTypeForPath(path);
-  return getResourceForPath(path).then((resource: FileResource) => {
-    return contentsModelFromFileResource(resource, path, fileType, includeContents, fileTypeForPath)
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    return contentsModelFromFileResource(transport, resource, path, fileType, includeContents, fileTypeForPath, onPage)
   });
 }
 
+/**
+ * The contents of a file or directory that has been loaded,
+ * with the version of a file.
+ */
+export
+interface ILoadedContents {
+  /**
+   * The contents model, including its content.
+   */
+  contents: Contents.IModel;
 
-/* ********* Functions for file creation/deletion ************** */
+  /**
+   * The version of the file whose content was loaded,
+   * or `null` for a directory.
+   */
+  version: IFileVersion | null;
+}
 
 /**
- * Give edit permissions to a Google drive user.
+ * Load the contents of a file or directory, with the version
+ * of a file from which its content was downloaded.
  *
- * @param resource: the FileResource to share.
+ * @param transport - the transport through which requests are made.
  *
- * @param emailAddresses - the email addresses of the users for which
- *   to create the permissions.
+ * @param path - the path of the file or directory.
  *
- * @returns a promise fulfilled when the permissions are created.
+ * @param fileTypeForPath - A function that, given a path argument, returns
+ *   and DocumentRegistry.IFileType that is consistent with the path.
+ *
+ * @param onPage - An optional callback for directory listings, which is
+ *   called with the partial listing as each page of it arrives.
+ *
+ * @returns a promise fulfilled with the loaded contents.
+ *
+ * #### Notes
+ * The cached resource of a file may come from an older listing of its
+ * directory, so the metadata of the file is fetched again before its
+ * content is downloaded. The version is then no newer than the content,
+ * and changes made after the listing are not taken for conflicts.
  */
 export
-function createPermissions (resource: FileResource, emailAddresses: string[] ): Promise<void> {
-  // Do nothing for an empty list.
-  if (emailAddresses.length === 0) {
-    return Promise.resolve(void 0);
-  }
-  const createRequest = () => {
-    // Create a batch request for permissions.
-    // Note: the typings for gapi.client are missing
-    // the newBatch() function, which creates an HttpBatchRequest
-    const batch: any = (gapi as any).client.newBatch();
-    for (let address of emailAddresses) {
-      const permissionRequest = {
-        'type': 'user',
-        'role': 'writer',
-        'emailAddress': address
-      }
-      const request = gapi.client.drive.permissions.create({
-        fileId: resource.id!,
-        emailMessage: `${resource.name} has been shared with you`,
-        sendNotificationEmail: true,
-        resource: permissionRequest,
-        supportsTeamDrives: !!(resource.teamDriveId)
-      });
-      batch.add(request);
+function loadContents(transport: IDriveTransport, path: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType, onPage: ((contents: Contents.IModel) => void) | undefined = undefined): Promise<ILoadedContents> {
+  const fileType = fileTypeForPath(path);
+  return getResourceForPath(transport, path).then(resource => {
+    if (resource.kind === 'dummy' || isDirectory(resource)) {
+      return contentsModelFromFileResource(
+        transport, resource, path, fileType, true, fileTypeForPath, onPage
+      ).then(contents => ({ contents, version: null }));
     }
-    return batch;
-  };
-  // Submit the batch request.
-  return driveApiRequest<any>(createRequest).then(() => {
-    return void 0;
+    return resourceFromFileId(transport, resource.id!).then(current => {
+      Private.resourceCache(transport).set(path, current);
+      return contentsModelFromFileResource(
+        transport, current, path, fileType, true, fileTypeForPath
+      ).then(contents => {
+        const version = {
+          headRevisionId: current.headRevisionId,
+          modifiedTime: current.modifiedTime
+        };
+        return { contents, version };
+      });
+    });
   });
 }
 
 /**
- * Create a new document for realtime collaboration.
- * This file is not associated with a particular filetype,
- * and is not downloadable/readable.  Realtime documents
- * may also be associated with other, more readable documents.
+ * Construct the listing for a directory, possibly in pages.
  *
- * @returns a promise fulfilled with the fileId of the
- *   newly-created realtime document.
+ * @param transport - the transport through which requests are made.
+ *
+ * @param contents - the contents model for the directory, without content.
+ *
+ * @param search - a function that searches for the resources in the
+ *   directory, calling its argument with each page of resources.
+ *
+ * @param fileTypeForPath - A function that, given a path argument, returns
+ *   and DocumentRegistry.IFileType that is consistent with the path.
+ *
+ * @param onPage - An optional callback which is called with the
+ *   partial listing as each page of it arrives.
+ *
+ * @returns a promise fulfilled with the contents model for the directory,
+ *   including the full listing.
  */
-export
-function createRealtimeDocument(): Promise<string> {
-  const createRequest = () => {
-    return gapi.client.drive.files.create({
-      resource: {
-        mimeType: RT_MIMETYPE,
-        name: 'jupyterlab_realtime_file'
+function directoryListing(transport: IDriveTransport, contents: Contents.IModel, search: (onResources: (resources: FileResource[]) => void) => Promise<FileResource[]>, fileTypeForPath: (path: string) => DocumentRegistry.IFileType, onPage: ((contents: Contents.IModel) => void) | undefined): Promise<Contents.IModel> {
+  const path = contents.path;
+  const resources: FileResource[] = [];
+  let fileList: Contents.IModel[] = [];
+  let listing = Promise.resolve(void 0);
+
+  //Update the cache.
+  Private.clearCacheForDirectory(transport, path);
+
+  const onResources = (page: FileResource[]) => {
+    // A file on a later page may have the same name as one that
+    // is already listed, so list the names of every file so far.
+    resources.push(...page);
+    Private.populateCacheForDirectory(transport, path, resources);
+    const names = Private.listedNames(resources);
+    const models = Promise.all(resources.map((resource, index) => {
+      const resourcePath = path ?
+                           path+'/'+names[index] :
+                           names[index];
+      const resourceFileType = fileTypeForPath(resourcePath);
+      return contentsModelFromFileResource(transport, 
+        resource, resourcePath, resourceFileType, false).then(model => {
+          return { ...model, name: names[index] };
+        });
+    }));
+    // Update the listing in the order that the pages arrive.
+    listing = listing.then(() => models).then(pageModels => {
+      fileList = pageModels;
+      if (onPage) {
+        onPage({ ...contents, content: fileList.slice() });
       }
     });
   };
-  return driveApiRequest<FileResource>(createRequest).then((result) => {
-    return result.id!;
+  return search(onResources).then(() => listing).then(() => {
+    return { ...contents, content: fileList };
   });
 }
 
+
+/* ********* Functions for sharing files ************** */
+
 /**
- * Load the realtime document associated with a file.
- *
- * @param fileId - the ID of the realtime file on Google Drive.
- *
- * @returns a promise fulfilled with the realtime document model.
+ * The roles which may be granted when sharing a file.
  */
 export
-function loadRealtimeDocument(resource: FileResource, picked: boolean = false): Promise<gapi.drive.realtime.Document> {
-  return new Promise((resolve, reject) => {
-    gapiAuthorized.promise.then(() => {
-      gapi.drive.realtime.load(resource.id!, (doc: gapi.drive.realtime.Document) => {
-        resolve(doc);
-      }, (model: gapi.drive.realtime.Model) => {
-        /* no-op initializer */
-      }, (err: any) => {
-        // If there is a not found error, we may need to invoke
-        // the picker to gain file access.
-      });
-    });
-  });
-}
+type PermissionRole = 'reader' | 'commenter' | 'writer';
 
 /**
- * Delete a file from the users Google Drive.
- *
- * @param path - the path of the file to delete.
- *
- * @returns a promise fulfilled when the file has been deleted.
+ * A permission to access a file.
  */
 export
-function deleteFile(path: string): Promise<void> {
-  return getResourceForPath(path).then((resource: FileResource) => {
-    const createRequest = () => {
-      return gapi.client.drive.files.delete({
-        fileId: resource.id!,
-        supportsTeamDrives: !!(resource.teamDriveId)
-      });
-    };
-    return driveApiRequest<void>(createRequest, 204);
-  }).then(() => {
-    //Update the cache
-    Private.resourceCache.delete(path);
-    return void 0;
-  });
-}
+interface IPermission {
+  /**
+   * The id of the permission.
+   */
+  id: string;
 
-/* ****** Functions for file system querying/manipulation ***** */
+  /**
+   * Who the permission is for: a single user, a group,
+   * everyone in a domain, or anyone with the link.
+   */
+  type: 'user' | 'group' | 'domain' | 'anyone';
 
-/**
- * Search a directory.
- *
- * @param path - the path of the directory on the server.
- *
- * @param query - a query string, following the format of
- *   query strings for the Google Drive v3 API, which
- *   narrows down search results. An empty query string
- *   corresponds to just listing the contents of the directory.
- *
- * @returns a promise fulfilled with a list of files resources,
- *   corresponding to the files that are in the directory and
- *   match the query string.
- */
-export
-function searchDirectory(path: string, query: string = ''): Promise<FileResource[]> {
-  return getResourceForPath(path).then((resource: FileResource) => {
-    // Check to make sure this is a folder.
-    if(!isDirectory(resource)) {
-      throw new Error("Google Drive: expected a folder: "+path);
-    }
-    // Construct the query.
-    let fullQuery: string = `\'${resource.id}\' in parents `+
-                            'and trashed = false';
-    if(query) fullQuery += ' and '+query;
-
-    let createRequest: () => gapi.client.HttpRequest<gapi.client.drive.FileList>;
-    if (resource.teamDriveId) {
-      // Case of a directory in a team drive.
-      createRequest = () => {
-        return gapi.client.drive.files.list({
-          q: fullQuery,
-          fields: 'files('+RESOURCE_FIELDS+')',
-          corpora: 'teamDrive',
-          includeTeamDriveItems: true,
-          supportsTeamDrives: true,
-          teamDriveId: resource.teamDriveId,
-        });
-      };
-    } else if (resource.kind === 'drive#teamDrive') {
-      // Case of the root of a team drive.
-      createRequest = () => {
-        return gapi.client.drive.files.list({
-          q: fullQuery,
-          fields: 'files('+RESOURCE_FIELDS+')',
-          corpora: 'teamDrive',
-          includeTeamDriveItems: true,
-          supportsTeamDrives: true,
-          teamDriveId: resource.id!,
-        });
-      };
-    } else {
-      // Case of the user directory.
-      createRequest = () => {
-        return gapi.client.drive.files.list({
-          q: fullQuery,
-          fields: 'files('+RESOURCE_FIELDS+')'
+  /**
+   * The role granted by the permission, which is one of the
+   * `PermissionRole` values, or `'owner'` or `'organizer'`.
+   */
+  role: string;
+
+  /**
+   * The name of the user, group or domain, if it is known.
+   */
+  displayName: string;
+
+  /**
+   * The email address of the user or group, or `''`.
+   */
+  emailAddress: string;
+
+  /**
+   * The domain of a domain permission, or `''`.
+   */
+  domain: string;
+
+  /**
+   * Whether a domain or anyone may find the file by searching,
+   * rather than only by having the link to it.
+   */
+  allowFileDiscovery: boolean;
+
+  /**
+   * Whether the permission is inherited from a Team Drive,
+   * in which case it may not be changed on the file.
+   */
+  inherited: boolean;
+}
+
+/**
+ * Who may open a file by its link, besides the people
+ * it is shared with.
+ */
+export
+interface ILinkSharing {
+  /**
+   * Whether anyone, or everyone in a domain, may open the file.
+   */
+  type: 'anyone' | 'domain';
+
+  /**
+   * The role they are granted.
+   */
+  role: PermissionRole;
+
+  /**
+   * The domain, for domain sharing.
+   */
+  domain?: string;
+
+  /**
+   * Whether they may find the file by searching, rather
+   * than only by having the link. Defaults to `false`.
+   */
+  allowFileDiscovery?: boolean;
+}
+
+/**
+ * List the permissions to access a file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @returns a promise fulfilled with the permissions.
+ */
+export
+function listPermissions(transport: IDriveTransport, path: string): Promise<IPermission[]> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+      return transport.permissions.list({
+        fileId: resource.id!,
+        fields: 'nextPageToken,permissions(' + PERMISSION_FIELDS + ')',
+        supportsTeamDrives: !!(resource.teamDriveId),
+        pageToken
+      });
+    };
+    return pagedApiRequest(transport, createRequest, result => result.permissions);
+  }).then(permissions => permissions.map(Private.permissionFromResource));
+}
+
+/**
+ * Share a file with users or groups.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param emailAddresses - the email addresses of the users or groups.
+ *
+ * @param role - the role to grant them.
+ *
+ * @param notify - whether to send them notification emails.
+ *
+ * @param emailMessage - an optional message for the notification emails.
+ *
+ * @returns a promise fulfilled with the new permissions.
+ */
+export
+function addPermissions(transport: IDriveTransport, path: string, emailAddresses: string[], role: PermissionRole, notify = true, emailMessage?: string): Promise<IPermission[]> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    return Promise.all(emailAddresses.map(emailAddress => {
+      const createRequest = (transport: IDriveTransport) => {
+        return transport.permissions.create({
+          fileId: resource.id!,
+          resource: { type: 'user', role, emailAddress },
+          emailMessage: notify ? emailMessage : undefined,
+          sendNotificationEmail: notify,
+          fields: PERMISSION_FIELDS,
+          supportsTeamDrives: !!(resource.teamDriveId)
         });
       };
+      return driveApiRequest<PermissionResource>(transport, createRequest);
+    }));
+  }).then(permissions => permissions.map(Private.permissionFromResource));
+}
+
+/**
+ * Change the role granted by a permission.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param permissionId - the id of the permission.
+ *
+ * @param role - the new role.
+ *
+ * @returns a promise fulfilled with the updated permission.
+ */
+export
+function updatePermission(transport: IDriveTransport, path: string, permissionId: string, role: PermissionRole): Promise<IPermission> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.permissions.update({
+        fileId: resource.id!,
+        permissionId,
+        resource: { role },
+        fields: PERMISSION_FIELDS,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<PermissionResource>(transport, createRequest);
+  }).then(Private.permissionFromResource);
+}
+
+/**
+ * Revoke a permission to access a file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param permissionId - the id of the permission.
+ *
+ * @returns a promise fulfilled when the permission is removed.
+ */
+export
+function removePermission(transport: IDriveTransport, path: string, permissionId: string): Promise<void> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.permissions.delete({
+        fileId: resource.id!,
+        permissionId,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<void>(transport, createRequest, 204);
+  });
+}
+
+/**
+ * Get who may open a file by its link.
+ *
+ * @param permissions - the permissions of the file.
+ *
+ * @returns the link sharing of the file, or `null` if only
+ *   the people it is shared with may open it.
+ */
+export
+function linkSharingFromPermissions(permissions: ReadonlyArray<IPermission>): ILinkSharing | null {
+  const permission = Private.findLinkPermission(permissions);
+  if (!permission) {
+    return null;
+  }
+  return {
+    type: permission.type as 'anyone' | 'domain',
+    role: permission.role as PermissionRole,
+    domain: permission.domain || undefined,
+    allowFileDiscovery: permission.allowFileDiscovery
+  };
+}
+
+/**
+ * Set who may open a file by its link, replacing
+ * any link sharing that the file had.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param sharing - the new link sharing, or `null` so that only
+ *   the people the file is shared with may open it.
+ *
+ * @returns a promise fulfilled with the permissions of the file.
+ */
+export
+function setLinkSharing(transport: IDriveTransport, path: string, sharing: ILinkSharing | null): Promise<IPermission[]> {
+  return listPermissions(transport, path).then(permissions => {
+    const existing = Private.findLinkPermission(permissions);
+    if (existing && sharing && existing.type === sharing.type &&
+        existing.domain === (sharing.domain || '') &&
+        existing.allowFileDiscovery === !!sharing.allowFileDiscovery) {
+      // Only the role has changed.
+      return updatePermission(transport, path, existing.id, sharing.role)
+      .then(() => void 0);
+    }
+    // Create the new permission before removing the old one,
+    // so that the file keeps its link sharing if that fails.
+    let created: Promise<string | null> = Promise.resolve(null);
+    if (sharing) {
+      created = getResourceForPath(transport, path).then((resource: FileResource) => {
+        const createRequest = (transport: IDriveTransport) => {
+          return transport.permissions.create({
+            fileId: resource.id!,
+            resource: {
+              type: sharing.type,
+              role: sharing.role,
+              domain: sharing.domain,
+              allowFileDiscovery: !!sharing.allowFileDiscovery
+            },
+            fields: PERMISSION_FIELDS,
+            supportsTeamDrives: !!(resource.teamDriveId)
+          });
+        };
+        return driveApiRequest<PermissionResource>(transport, createRequest);
+      }).then(permission => permission.id || null);
+    }
+    return created.then(id => {
+      // Google Drive may update the existing permission in place.
+      if (!existing || existing.id === id) {
+        return;
+      }
+      return removePermission(transport, path, existing.id);
+    });
+  }).then(() => listPermissions(transport, path));
+}
+
+/**
+ * Give permissions to Google Drive users.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource: the FileResource to share.
+ *
+ * @param emailAddresses - the email addresses of the users for which
+ *   to create the permissions.
+ *
+ * @param role - the role to grant the users, which defaults to `'writer'`.
+ *
+ * @returns a promise fulfilled when the permissions are created.
+ */
+export
+function createPermissions (transport: IDriveTransport, resource: FileResource, emailAddresses: string[], role: PermissionRole = 'writer'): Promise<void> {
+  // Do nothing for an empty list.
+  if (emailAddresses.length === 0) {
+    return Promise.resolve(void 0);
+  }
+  const requests: Promise<PermissionResource>[] = [];
+  for (let address of emailAddresses) {
+    const permissionRequest = {
+      'type': 'user',
+      'role': role,
+      'emailAddress': address
+    }
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.permissions.create({
+        fileId: resource.id!,
+        emailMessage: `${resource.name} has been shared with you`,
+        sendNotificationEmail: true,
+        resource: permissionRequest,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    requests.push(driveApiRequest<PermissionResource>(transport, createRequest));
+  }
+  return Promise.all(requests).then(() => {
+    return void 0;
+  });
+}
+
+/* ********* Functions for comments ************** */
+
+/**
+ * The part of a file to which a comment refers.
+ */
+export
+interface ICommentAnchor {
+  /**
+   * The id of a notebook cell, which is kept in the metadata
+   * of the cell so that it is saved with the notebook.
+   */
+  cell?: string;
+
+  /**
+   * A range of characters, as offsets into the source of the
+   * cell, or into the text of the file if there is no cell.
+   */
+  range?: { start: number, end: number };
+}
+
+/**
+ * A reply to a comment on a file.
+ */
+export
+interface ICommentReply {
+  /**
+   * The id of the reply.
+   */
+  id: string;
+
+  /**
+   * The name of the author of the reply.
+   */
+  author: string;
+
+  /**
+   * The plain text content of the reply, which may
+   * be empty if the reply resolves or reopens the comment.
+   */
+  content: string;
+
+  /**
+   * The time at which the reply was created.
+   */
+  createdTime: string;
+
+  /**
+   * Whether the reply resolved or reopened the comment.
+   */
+  action: 'resolve' | 'reopen' | null;
+}
+
+/**
+ * A comment on a file, with its replies.
+ */
+export
+interface IComment {
+  /**
+   * The id of the comment.
+   */
+  id: string;
+
+  /**
+   * The name of the author of the comment.
+   */
+  author: string;
+
+  /**
+   * The plain text content of the comment.
+   */
+  content: string;
+
+  /**
+   * The time at which the comment was created.
+   */
+  createdTime: string;
+
+  /**
+   * The last time at which the comment or its replies were modified.
+   */
+  modifiedTime: string;
+
+  /**
+   * Whether the comment has been resolved.
+   */
+  resolved: boolean;
+
+  /**
+   * The part of the file to which the comment refers,
+   * or `null` if it is about the whole file.
+   */
+  anchor: ICommentAnchor | null;
+
+  /**
+   * The content of the file to which the comment refers,
+   * as it was when the comment was made, or `''`.
+   */
+  quote: string;
+
+  /**
+   * The replies to the comment, oldest first.
+   */
+  replies: ICommentReply[];
+}
+
+/**
+ * List the comments on a file, with their replies.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @returns a promise fulfilled with the comments, oldest first.
+ */
+export
+function listComments(transport: IDriveTransport, path: string): Promise<IComment[]> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+      return transport.comments.list({
+        fileId: resource.id!,
+        fields: 'nextPageToken,comments(' + COMMENT_FIELDS + ')',
+        includeDeleted: false,
+        pageSize: PAGE_SIZE,
+        pageToken
+      });
+    };
+    return pagedApiRequest(transport, createRequest, result => result.comments);
+  }).then(comments => comments.map(Private.commentFromResource));
+}
+
+/**
+ * Comment on a file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param content - the plain text content of the comment.
+ *
+ * @param anchor - the part of the file to which the comment
+ *   refers, or `null` for the whole file.
+ *
+ * @param quote - the content of the file to which the comment refers.
+ *
+ * @returns a promise fulfilled with the new comment.
+ */
+export
+function createComment(transport: IDriveTransport, path: string, content: string, anchor: ICommentAnchor | null = null, quote = ''): Promise<IComment> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const comment: CommentResource = { content };
+    if (anchor) {
+      comment.anchor = JSON.stringify({ [COMMENT_ANCHOR_KEY]: anchor });
+    }
+    if (quote) {
+      comment.quotedFileContent = { mimeType: 'text/plain', value: quote };
+    }
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.comments.create({
+        fileId: resource.id!,
+        resource: comment,
+        fields: COMMENT_FIELDS
+      });
+    };
+    return driveApiRequest<CommentResource>(transport, createRequest);
+  }).then(Private.commentFromResource);
+}
+
+/**
+ * Reply to a comment on a file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param commentId - the id of the comment.
+ *
+ * @param content - the plain text content of the reply.
+ *
+ * @param action - whether the reply resolves or reopens the comment.
+ *   The content may be empty if it does.
+ *
+ * @returns a promise fulfilled with the new reply.
+ */
+export
+function replyToComment(transport: IDriveTransport, path: string, commentId: string, content: string, action?: 'resolve' | 'reopen'): Promise<ICommentReply> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const reply: ReplyResource = { content };
+    if (action) {
+      reply.action = action;
+    }
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.replies.create({
+        fileId: resource.id!,
+        commentId,
+        resource: reply,
+        fields: REPLY_FIELDS
+      });
+    };
+    return driveApiRequest<ReplyResource>(transport, createRequest);
+  }).then(Private.replyFromResource);
+}
+
+/**
+ * Resolve a comment on a file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param commentId - the id of the comment.
+ *
+ * @param content - an optional reply to go with it.
+ *
+ * @returns a promise fulfilled with the reply which resolved it.
+ */
+export
+function resolveComment(transport: IDriveTransport, path: string, commentId: string, content = ''): Promise<ICommentReply> {
+  return replyToComment(transport, path, commentId, content, 'resolve');
+}
+
+/**
+ * Reopen a resolved comment on a file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param commentId - the id of the comment.
+ *
+ * @param content - an optional reply to go with it.
+ *
+ * @returns a promise fulfilled with the reply which reopened it.
+ */
+export
+function reopenComment(transport: IDriveTransport, path: string, commentId: string, content = ''): Promise<ICommentReply> {
+  return replyToComment(transport, path, commentId, content, 'reopen');
+}
+
+/* ********* Functions for file creation/deletion ************** */
+
+/**
+ * Create a new document for realtime collaboration.
+ * This file is not associated with a particular filetype,
+ * and is not downloadable/readable.  Realtime documents
+ * may also be associated with other, more readable documents.
+ *
+ * @returns a promise fulfilled with the fileId of the
+ *   newly-created realtime document.
+ */
+export
+function createRealtimeDocument(transport: IDriveTransport): Promise<string> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.files.create({
+      resource: {
+        mimeType: RT_MIMETYPE,
+        name: 'jupyterlab_realtime_file'
+      }
+    });
+  };
+  return driveApiRequest<FileResource>(transport, createRequest).then((result) => {
+    return result.id!;
+  });
+}
+
+/**
+ * Load the realtime document associated with a file.
+ *
+ * @param fileId - the ID of the realtime file on Google Drive.
+ *
+ * @returns a promise fulfilled with the realtime document model.
+ */
+export
+function loadRealtimeDocument(resource: FileResource, picked: boolean = false): Promise<gapi.drive.realtime.Document> {
+  return new Promise((resolve, reject) => {
+    authState.authorized().then(() => {
+      gapi.drive.realtime.load(resource.id!, (doc: gapi.drive.realtime.Document) => {
+        resolve(doc);
+      }, (model: gapi.drive.realtime.Model) => {
+        /* no-op initializer */
+      }, (err: gapi.drive.realtime.Error) => {
+        // The realtime API picks up the refreshed token by itself.
+        if (err.type === gapi.drive.realtime.ErrorType.TOKEN_REFRESH_REQUIRED) {
+          refreshAuthorization().catch(() => { /* Shown by the state. */ });
+        }
+        // If there is a not found error, we may need to invoke
+        // the picker to gain file access.
+      });
+    });
+  });
+}
+
+/**
+ * Delete a file from the users Google Drive.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file to delete.
+ *
+ * @returns a promise fulfilled when the file has been deleted.
+ */
+export
+function deleteFile(transport: IDriveTransport, path: string): Promise<void> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.files.delete({
+        fileId: resource.id!,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<void>(transport, createRequest, 204);
+  }).then(() => {
+    //Update the cache
+    Private.resourceCache(transport).delete(path);
+    return void 0;
+  });
+}
+
+/**
+ * Move a file to the trash, from which it may be restored.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file to trash.
+ *
+ * @returns a promise fulfilled when the file is trashed.
+ */
+export
+function trashFile(transport: IDriveTransport, path: string): Promise<void> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.files.update({
+        fileId: resource.id!,
+        resource: { trashed: true },
+        fields: RESOURCE_FIELDS,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<FileResource>(transport, createRequest);
+  }).then(() => {
+    // Update the cache, including anything in a trashed folder.
+    Private.removeFromCache(transport, path);
+    Private.removeFromCache(transport, TRASH_DIRECTORY);
+    return void 0;
+  });
+}
+
+/**
+ * Restore a file from the trash.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file in the "Trash" directory.
+ *
+ * @param fileTypeForPath - A function that, given a path argument, returns
+ *   and DocumentRegistry.IFileType that is consistent with the path.
+ *
+ * @returns a promise fulfilled with the `Contents.IModel` of the file
+ *   at the path to which it has been restored.
+ */
+export
+function restoreFile(transport: IDriveTransport, path: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType): Promise<Contents.IModel> {
+  if (!isInTrash(path)) {
+    return Promise.reject(createDriveError({
+      status: 400, path,
+      message: `Google Drive: "${path}" is not in the trash`
+    }));
+  }
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.files.update({
+        fileId: resource.id!,
+        resource: { trashed: false },
+        fields: RESOURCE_FIELDS,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<FileResource>(transport, createRequest);
+  }).then((resource: FileResource) => {
+    Private.removeFromCache(transport, path);
+    return uniquePathForResource(transport, resource).then(newPath => {
+      Private.resourceCache(transport).set(newPath, resource);
+      const fileType = fileTypeForPath(newPath);
+      return contentsModelFromFileResource(transport, resource, newPath, fileType, false);
+    });
+  });
+}
+
+/**
+ * Find the path of a file from its parents, such as
+ * after it has been restored from the trash.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource - the files resource.
+ *
+ * @returns a promise fulfilled with the path of the file.
+ */
+function pathForParents(transport: IDriveTransport, resource: FileResource): Promise<string> {
+  const name = nameForResource(resource);
+  const parentId = (resource.parents || [])[0];
+  if (!parentId) {
+    // A file with no parents in the user's drive
+    // has been shared with them.
+    return Promise.resolve(PathExt.join(SHARED_DIRECTORY, name));
+  }
+  const parentPath = Private.cachedPathForId(transport, parentId);
+  if (parentPath !== null) {
+    return Promise.resolve(PathExt.join(parentPath, name));
+  }
+  if (parentId === resource.teamDriveId) {
+    // The file is at the root of a Team Drive.
+    return listTeamDrives(transport).then(drives => {
+      for (let drive of drives) {
+        if (drive.id === parentId) {
+          return PathExt.join(drive.name!, name);
+        }
+      }
+      throw createDriveError({
+        status: 404,
+        message: `Google Drive: cannot find Team Drive: ${parentId}`
+      });
+    });
+  }
+  return resourceFromFileId(transport, parentId).then(parent => {
+    if (!parent.parents || parent.parents.length === 0) {
+      // The parent is the root of the user's drive.
+      return PathExt.join(parent.name!, name);
+    }
+    return pathForParents(transport, parent).then(path => PathExt.join(path, name));
+  });
+}
+
+/**
+ * Get the id of a file from a link to it, such as a URL that
+ * was copied from the Drive web UI, or from a bare file id.
+ *
+ * @param link - the link or id.
+ *
+ * @returns the id of the file, or `null` if it is not in the link.
+ */
+export
+function fileIdFromLink(link: string): string | null {
+  const text = link.trim();
+  if (/^[\w-]{20,}$/.test(text)) {
+    return text;
+  }
+  // Links such as `https://drive.google.com/file/d/<id>/view`,
+  // `https://docs.google.com/document/d/<id>/edit` and
+  // `https://drive.google.com/drive/folders/<id>`.
+  const pathMatch = /\/(?:d|folders|drive)\/([\w-]{20,})/.exec(text);
+  if (pathMatch) {
+    return pathMatch[1];
+  }
+  // Links such as `https://drive.google.com/open?id=<id>`.
+  const queryMatch = /[?&#]id=([\w-]{20,})/.exec(text);
+  if (queryMatch) {
+    return queryMatch[1];
+  }
+  return null;
+}
+
+/**
+ * Find a path for a file from its id, such as for a link to the file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param fileId - the id of the file.
+ *
+ * @returns a promise fulfilled with the path of the file.
+ *
+ * #### Notes
+ * The path is found by walking up the parents of the file. If that
+ * path would not find the file, as happens when there are other
+ * files with the same name, the name of the file in the path includes
+ * its id. If some of the parents are not accessible, a path which
+ * finds the file by its id alone is used instead.
+ */
+export
+function pathForFileId(transport: IDriveTransport, fileId: string): Promise<string> {
+  const cachedPath = Private.cachedPathForId(transport, fileId);
+  if (cachedPath !== null) {
+    return Promise.resolve(cachedPath);
+  }
+  return resourceFromFileId(transport, fileId).then(resource => {
+    return uniquePathForResource(transport, resource).then(path => {
+      Private.resourceCache(transport).set(path, resource);
+      return path;
+    });
+  });
+}
+
+/**
+ * Find a path for a files resource which finds that file,
+ * and not another one with the same name.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource - the files resource.
+ *
+ * @returns a promise fulfilled with the path of the file.
+ */
+function uniquePathForResource(transport: IDriveTransport, resource: FileResource): Promise<string> {
+  const name = nameForResource(resource);
+  const idPath = PathExt.join(ID_DIRECTORY, resource.id!, name);
+  if (resource.trashed) {
+    return Promise.resolve(idPath);
+  }
+  return pathForParents(transport, resource).then(path => {
+    return getResourceForPath(transport, path).then(other => {
+      return other.id === resource.id;
+    }).catch(() => false).then(found => {
+      if (found) {
+        return path;
+      }
+      const listedPath = PathExt.join(
+        PathExt.dirname(path), Private.nameWithId(name, resource.id!));
+      return getResourceForPath(transport, listedPath).then(() => listedPath);
+    });
+  }).catch(() => idPath);
+}
+
+/**
+ * Whether a path finds a file by its id, rather than
+ * by the names of the folders which contain it.
+ */
+function isIdPath(path: string): boolean {
+  const components = splitPath(path);
+  return components.length === 3 && components[0] === ID_DIRECTORY;
+}
+
+/**
+ * Whether a path is in the "Trash" directory.
+ */
+export
+function isInTrash(path: string): boolean {
+  const components = splitPath(path);
+  return components.length > 1 && components[0] === TRASH_DIRECTORY;
+}
+
+/* ****** Functions for file system querying/manipulation ***** */
+
+/**
+ * Search a directory.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the directory on the server.
+ *
+ * @param query - a query which narrows down search results,
+ *   or `null` to just list the contents of the directory.
+ *
+ * @param onPage - an optional callback which is called with
+ *   each page of results as it arrives.
+ *
+ * @returns a promise fulfilled with a list of files resources,
+ *   corresponding to the files that are in the directory and
+ *   match the query string.
+ */
+export
+function searchDirectory(transport: IDriveTransport, path: string, query: DriveQuery | null = null, onPage: ((resources: FileResource[]) => void) | undefined = undefined): Promise<FileResource[]> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    // Check to make sure this is a folder.
+    if(!isDirectory(resource)) {
+      throw createDriveError({
+        status: 400, path,
+        message: `Google Drive: expected a folder: ${path}`
+      });
     }
-    return driveApiRequest(createRequest);
-  }).then((result: gapi.client.drive.FileList) => {
-    return result.files || [];
+    // The contents of a folder in the trash
+    // have been trashed along with it.
+    return searchFolder(transport, resource, query, isInTrash(path), onPage);
   });
 }
 
+/**
+ * Search a folder, given its files resource.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource - the files resource of the folder.
+ *
+ * @param query - a query which narrows down search results, or `null`.
+ *
+ * @param trashed - whether to search for trashed files.
+ *
+ * @param onPage - an optional callback which is called with
+ *   each page of results as it arrives.
+ *
+ * @returns a promise fulfilled with a list of files resources
+ *   for the files in the folder that match the query string.
+ */
+function searchFolder(transport: IDriveTransport, resource: FileResource, query: DriveQuery | null, trashed: boolean, onPage: ((resources: FileResource[]) => void) | undefined = undefined): Promise<FileResource[]> {
+  // Construct the query.
+  let fullQuery = DriveQuery.and(
+    DriveQuery.parent(resource.id!), DriveQuery.trashed(trashed));
+  if(query) fullQuery = fullQuery.and(query);
+
+  let createRequest: (transport: IDriveTransport, pageToken: string | undefined) => IDriveTransport.IRequest<gapi.client.drive.FileList>;
+  if (resource.teamDriveId) {
+    // Case of a directory in a team drive.
+    createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+      return transport.files.list({
+        q: fullQuery.toString(),
+        fields: 'nextPageToken,files('+RESOURCE_FIELDS+')',
+        corpora: 'teamDrive',
+        includeTeamDriveItems: true,
+        supportsTeamDrives: true,
+        teamDriveId: resource.teamDriveId,
+        pageSize: PAGE_SIZE,
+        pageToken
+      });
+    };
+  } else if (resource.kind === 'drive#teamDrive') {
+    // Case of the root of a team drive.
+    createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+      return transport.files.list({
+        q: fullQuery.toString(),
+        fields: 'nextPageToken,files('+RESOURCE_FIELDS+')',
+        corpora: 'teamDrive',
+        includeTeamDriveItems: true,
+        supportsTeamDrives: true,
+        teamDriveId: resource.id!,
+        pageSize: PAGE_SIZE,
+        pageToken
+      });
+    };
+  } else {
+    // Case of the user directory.
+    createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+      return transport.files.list({
+        q: fullQuery.toString(),
+        fields: 'nextPageToken,files('+RESOURCE_FIELDS+')',
+        pageSize: PAGE_SIZE,
+        pageToken
+      });
+    };
+  }
+  return pagedApiRequest(transport, createRequest, result => result.files, onPage);
+}
+
 /**
  * Search the list of files that have been shared with the user.
  *
- * @param query - a query string, following the format of
- *   query strings for the Google Drive v3 API, which
- *   narrows down search results. An empty query string
- *   corresponds to just listing the shared files.
+ * @param transport - the transport through which requests are made.
+ *
+ * @param query - a query which narrows down search results,
+ *   or `null` to just list the shared files.
+ *
+ * @param onPage - an optional callback which is called with
+ *   each page of results as it arrives.
  *
  * @returns a promise fulfilled with the files that have been
  * shared with the user.
@@ -641,27 +1782,99 @@ function searchDirectory(path: string, query: string = ''): Promise<FileResource
  * This does not search Team Drives.
  */
 export
-function searchSharedFiles(query: string = ''): Promise<FileResource[]> {
-  return gapiInitialized.promise.then(() => {
-    // Construct the query.
-    let fullQuery = 'sharedWithMe = true';
-    if(query) fullQuery += ' and '+query;
+function searchSharedFiles(transport: IDriveTransport, query: DriveQuery | null = null, onPage: ((resources: FileResource[]) => void) | undefined = undefined): Promise<FileResource[]> {
+  // Construct the query.
+  let fullQuery = DriveQuery.sharedWithMe();
+  if(query) fullQuery = fullQuery.and(query);
+
+  const createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+    return transport.files.list({
+      q: fullQuery.toString(),
+      fields: 'nextPageToken,files('+RESOURCE_FIELDS+')',
+      pageSize: PAGE_SIZE,
+      pageToken
+    });
+  };
+  return pagedApiRequest(transport, createRequest, result => result.files, onPage);
+}
 
-    const createRequest = () => {
-      return gapi.client.drive.files.list({
-        q: fullQuery,
-        fields: 'files('+RESOURCE_FIELDS+')'
-      });
-    };
-    return driveApiRequest(createRequest);
-  }).then((result: gapi.client.drive.FileList) => {
-    return result.files || [];
-  });
+/**
+ * Search the list of files that have been moved to the trash.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param query - a query which narrows down search results,
+ *   or `null` to just list the trashed files.
+ *
+ * @param onPage - an optional callback which is called with
+ *   each page of results as it arrives.
+ *
+ * @returns a promise fulfilled with the files that have been
+ *   trashed explicitly, rather than along with a trashed folder.
+ */
+export
+function searchTrashedFiles(transport: IDriveTransport, query: DriveQuery | null = null, onPage: ((resources: FileResource[]) => void) | undefined = undefined): Promise<FileResource[]> {
+  // Construct the query.
+  let fullQuery = DriveQuery.trashed(true);
+  if(query) fullQuery = fullQuery.and(query);
+
+  const explicit = (resources: FileResource[] | undefined) => {
+    return (resources || []).filter(r => r.explicitlyTrashed !== false);
+  };
+  const createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+    return transport.files.list({
+      q: fullQuery.toString(),
+      fields: 'nextPageToken,files('+RESOURCE_FIELDS+')',
+      corpora: 'user,allTeamDrives',
+      includeTeamDriveItems: true,
+      supportsTeamDrives: true,
+      pageSize: PAGE_SIZE,
+      pageToken
+    });
+  };
+  return pagedApiRequest(transport, createRequest, result => explicit(result.files),
+                         onPage);
+}
+
+/**
+ * Make a request for a list of items, following the
+ * `nextPageToken` of each response until all the
+ * pages have been received.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param createRequest - a function that creates a request for
+ *   a page, given the page token (`undefined` for the first page).
+ *
+ * @param getItems - a function that gets the items from a page.
+ *
+ * @param onPage - an optional callback which is called with the
+ *   items of each page as it arrives.
+ *
+ * @returns a promise fulfilled with the items from all the pages.
+ */
+function pagedApiRequest<L extends { nextPageToken?: string }, T>(transport: IDriveTransport, createRequest: (transport: IDriveTransport, pageToken: string | undefined) => IDriveTransport.IRequest<L>, getItems: (result: L) => T[] | undefined, onPage: ((items: T[]) => void) | undefined = undefined): Promise<T[]> {
+  const items: T[] = [];
+  const getPage = (pageToken: string | undefined): Promise<T[]> => {
+    return driveApiRequest<L>(transport, (transport: IDriveTransport) => {
+      return createRequest(transport, pageToken);
+    }).then(result => {
+      const page = getItems(result) || [];
+      items.push(...page);
+      if (onPage) {
+        onPage(page);
+      }
+      return result.nextPageToken ? getPage(result.nextPageToken) : items;
+    });
+  };
+  return getPage(undefined);
 }
 
 /**
  * Move a file in Google Drive. Can also be used to rename the file.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param oldPath - The initial location of the file (where the path
  *   includes the filename).
  *
@@ -675,27 +1888,39 @@ function searchSharedFiles(query: string = ''): Promise<FileResource[]> {
  *   Otherwise, throws an error.
  */
 export
-function moveFile(oldPath: string, newPath: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType): Promise<Contents.IModel> {
+function moveFile(transport: IDriveTransport, oldPath: string, newPath: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType): Promise<Contents.IModel> {
   if (isDummy(PathExt.dirname(newPath))) {
-    throw makeError(400, `Google Drive: "${newPath}" `
-                    + 'is not a valid save directory');
+    throw createDriveError({
+      status: 400, path: newPath,
+      message: `Google Drive: "${newPath}" is not a valid save directory`
+    });
   }
   if( oldPath === newPath ) {
-    return contentsModelForPath(oldPath, true, fileTypeForPath);
+    return contentsModelForPath(transport, oldPath, true, fileTypeForPath);
+  } else if (isIdPath(oldPath) &&
+             PathExt.dirname(oldPath) === PathExt.dirname(newPath)) {
+    // A file which is found by its id has no folder in its path,
+    // so it can only be renamed.
+    return renameFileForIdPath(transport, oldPath, newPath, fileTypeForPath);
   } else {
     let newFolderPath = PathExt.dirname(newPath);
     newFolderPath = newFolderPath === '.' ? '' : newFolderPath;
 
     // Get a promise that resolves with the resource in the current position.
-    const resourcePromise = getResourceForPath(oldPath)
+    const resourcePromise = getResourceForPath(transport, oldPath)
     // Get a promise that resolves with the resource of the new folder.
-    const newFolderPromise = getResourceForPath(newFolderPath);
+    const newFolderPromise = getResourceForPath(transport, newFolderPath);
 
     // Check the new path to make sure there isn't already a file
-    // with the same name there.
-    const newName = PathExt.basename(newPath);
-    const directorySearchPromise =
-      searchDirectory(newFolderPath, 'name = \''+newName+'\'');
+    // with the same name there, ignoring the id of the file if it
+    // was listed with one.
+    const parsed = Private.parseNameWithId(PathExt.basename(newPath));
+    const directorySearchPromise = resourcePromise.then(resource => {
+      const name = parsed && parsed.id === resource.id ?
+                   parsed.name : PathExt.basename(newPath);
+      return searchDirectory(transport, newFolderPath, DriveQuery.nameIs(name))
+      .then(files => ({ name, files }));
+    });
 
     // Once we have all the required information,
     // update the metadata with the new parent directory
@@ -704,138 +1929,455 @@ function moveFile(oldPath: string, newPath: string, fileTypeForPath: (path: stri
                        directorySearchPromise]).then((values) => {
       const resource = values[0];
       const newFolder = values[1];
-      const directorySearch = values[2];
+      const directorySearch = values[2].files;
+      const newName = values[2].name;
 
       if(directorySearch.length !== 0) {
-        throw new Error("Google Drive: File with the same name "+
-                        "already exists in the destination directory");
+        throw createDriveError({
+          status: 409, path: newPath,
+          message: 'Google Drive: File with the same name ' +
+                   'already exists in the destination directory'
+        });
       } else {
-        const createRequest = () => {
-          return gapi.client.drive.files.update({
+        const createRequest = (transport: IDriveTransport) => {
+          return transport.files.update({
             fileId: resource.id!,
             addParents: newFolder.id!,
             removeParents: resource.parents ? resource.parents[0] : undefined,
             resource: {
-              name: newName
+              name: Private.nameInDrive(resource, newName)
             },
             fields: RESOURCE_FIELDS,
             supportsTeamDrives: !!(resource.teamDriveId || newFolder.teamDriveId)
           });
         };
-        return driveApiRequest<FileResource>(createRequest);
+        return driveApiRequest<FileResource>(transport, createRequest);
       }
     }).then((response) => {
       // Update the cache.
-      Private.resourceCache.delete(oldPath);
-      Private.resourceCache.set(newPath, response);
+      Private.resourceCache(transport).delete(oldPath);
+      Private.resourceCache(transport).set(newPath, response);
+
+      return contentsModelForPath(transport, newPath, true, fileTypeForPath);
+    });
+  }
+}
+
+/**
+ * Rename a file which is found by its id, keeping it in its folders.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param oldPath - the path of the file, which starts with its id.
+ *
+ * @param newPath - the same path, with the new name of the file.
+ *
+ * @param fileTypeForPath - A function that, given a path argument, returns
+ *   and DocumentRegistry.IFileType that is consistent with the path.
+ *
+ * @returns a promise fulfilled with the `Contents.IModel` of the file.
+ */
+function renameFileForIdPath(transport: IDriveTransport, oldPath: string, newPath: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType): Promise<Contents.IModel> {
+  return getResourceForPath(transport, oldPath).then(resource => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.files.update({
+        fileId: resource.id!,
+        resource: {
+          name: Private.nameInDrive(resource, PathExt.basename(newPath))
+        },
+        fields: RESOURCE_FIELDS,
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<FileResource>(transport, createRequest);
+  }).then(response => {
+    Private.resourceCache(transport).delete(oldPath);
+    Private.resourceCache(transport).set(newPath, response);
+    return contentsModelForPath(transport, newPath, true, fileTypeForPath);
+  });
+}
+
+/**
+ * Copy a file in Google Drive. It is assumed that the new filename has
+ * been determined previous to invoking this function, and does not conflict
+ * with any files in the new directory.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param oldPath - The initial location of the file (where the path
+ *   includes the filename).
+ *
+ * @param newPath - The location of the copy (where the path
+ *   includes the filename). This cannot be the same as `oldPath`.
+ *
+ * @param fileTypeForPath - A function that, given a path argument, returns
+ *   and DocumentRegistry.IFileType that is consistent with the path.
+ *
+ * @param onProgress - an optional callback for the progress of copying
+ *   the files in a folder.
+ *
+ * @returns a promise fulfilled with the `Contents.IModel` of the copy.
+ *   Otherwise, throws an error.
+ *
+ * #### Notes
+ * Folders are copied by recreating the folder tree and copying each
+ * file into it. If only some of the files could be copied, the promise
+ * is rejected with an `ICopyError` listing the failures.
+ */
+export
+function copyFile(transport: IDriveTransport, oldPath: string, newPath: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType, onProgress: ((progress: ICopyProgress) => void) | undefined = undefined): Promise<Contents.IModel> {
+  if (isDummy(PathExt.dirname(newPath))) {
+    throw createDriveError({
+      status: 400, path: newPath,
+      message: `Google Drive: "${newPath}" is not a valid save directory`
+    });
+  }
+  if( oldPath === newPath ) {
+    throw createDriveError({
+      status: 400, path: newPath,
+      message: 'Google Drive: cannot copy a file with ' +
+               'the same name to the same directory'
+    });
+  } else {
+    let newFolderPath = PathExt.dirname(newPath);
+    newFolderPath = newFolderPath === '.' ? '' : newFolderPath;
+
+    // Get a promise that resolves with the resource in the current position.
+    const resourcePromise = getResourceForPath(transport, oldPath)
+    // Get a promise that resolves with the resource of the new folder.
+    const newFolderPromise = getResourceForPath(transport, newFolderPath);
+
+    // Check the new path to make sure there isn't already a file
+    // with the same name there.
+    const newName = PathExt.basename(newPath);
+    const directorySearchPromise =
+      searchDirectory(transport, newFolderPath, DriveQuery.nameIs(newName));
+
+    // Once we have all the required information,
+    // perform the copy.
+    return Promise.all([resourcePromise, newFolderPromise,
+                       directorySearchPromise]).then((values) => {
+      const resource = values[0];
+      const newFolder = values[1];
+      const directorySearch = values[2];
 
-      return contentsModelForPath(newPath, true, fileTypeForPath);
+      if(directorySearch.length !== 0) {
+        throw createDriveError({
+          status: 409, path: newPath,
+          message: 'Google Drive: File with the same name ' +
+                   'already exists in the destination directory'
+        });
+      } else if (isDirectory(resource)) {
+        // Folders cannot be copied with `files.copy`.
+        return copyFolder(transport, resource, newFolder, oldPath, newName, onProgress)
+        .then(result => {
+          if (result.failures.length) {
+            Private.resourceCache(transport).set(newPath, result.resource);
+            throw Private.makeCopyError(result.failures);
+          }
+          return result.resource;
+        });
+      } else {
+        const createRequest = (transport: IDriveTransport) => {
+          return transport.files.copy({
+            fileId: resource.id!,
+            resource: {
+              parents: [newFolder.id!],
+              name: Private.nameInDrive(resource, newName)
+            },
+            fields: RESOURCE_FIELDS,
+            supportsTeamDrives: !!(newFolder.teamDriveId || resource.teamDriveId)
+          });
+        }
+        return driveApiRequest<FileResource>(transport, createRequest);
+      }
+    }).then((response) => {
+      // Update the cache.
+      Private.resourceCache(transport).set(newPath, response);
+      return contentsModelForPath(transport, newPath, true, fileTypeForPath);
     });
   }
 }
 
 /**
- * Copy a file in Google Drive. It is assumed that the new filename has
- * been determined previous to invoking this function, and does not conflict
- * with any files in the new directory.
- *
- * @param oldPath - The initial location of the file (where the path
- *   includes the filename).
+ * The progress of copying the files in a folder.
+ */
+export
+interface ICopyProgress {
+  /**
+   * The number of files that have been copied.
+   */
+  copied: number;
+
+  /**
+   * The number of files that could not be copied.
+   */
+  failed: number;
+
+  /**
+   * The total number of files to copy.
+   */
+  total: number;
+}
+
+/**
+ * A file or folder which could not be copied.
+ */
+export
+interface ICopyFailure {
+  /**
+   * The path of the original file or folder.
+   */
+  path: string;
+
+  /**
+   * The reason for the failure.
+   */
+  message: string;
+}
+
+/**
+ * An error for a folder copy in which some files could not be copied.
+ */
+export
+interface ICopyError extends DriveError {
+  /**
+   * The files and folders which could not be copied.
+   */
+  failures: ICopyFailure[];
+}
+
+/**
+ * Copy a folder, along with everything in it.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource - the files resource of the folder to copy.
+ *
+ * @param parent - the files resource of the folder in which
+ *   to place the copy. It may be in a different Team Drive.
+ *
+ * @param path - the path of the folder to copy.
+ *
+ * @param name - the name of the copy.
+ *
+ * @param onProgress - an optional callback for the progress of the copy.
+ *
+ * @returns a promise fulfilled with the files resource of the copy and
+ *   any failures, once every file has been copied or has failed to copy.
+ *   It is rejected if the copy of the folder itself cannot be created.
+ */
+function copyFolder(transport: IDriveTransport, resource: FileResource, parent: FileResource, path: string, name: string, onProgress: ((progress: ICopyProgress) => void) | undefined): Promise<{ resource: FileResource, failures: ICopyFailure[] }> {
+  const progress: ICopyProgress = { copied: 0, failed: 0, total: 0 };
+  const failures: ICopyFailure[] = [];
+  const report = () => {
+    if (onProgress) {
+      onProgress({ ...progress });
+    }
+  };
+  const fail = (failedPath: string, err: any, count: number) => {
+    failures.push({ path: failedPath, message: err.message || String(err) });
+    progress.failed += count;
+    report();
+  };
+
+  // Only a few requests are made at once, however many
+  // files and folders there are in the folder.
+  const limit = Private.createLimiter(MAX_COPY_REQUESTS);
+
+  // Copy the contents of a folder into its copy. Failures
+  // are recorded, so that the rest of the copy may continue.
+  const copyContents = (tree: Private.IFolderTree, target: FileResource, treePath: string): Promise<void> => {
+    return Promise.all(tree.children!.map(child => {
+      const childPath = PathExt.join(treePath, child.resource.name!);
+      if (child.children) {
+        return limit(() => {
+          return createFolder(transport, child.resource.name!, target);
+        }).then(folder => {
+          return copyContents(child, folder, childPath);
+        }, err => {
+          fail(childPath, err, Private.countFiles(child));
+        });
+      }
+      const createRequest = (transport: IDriveTransport) => {
+        return transport.files.copy({
+          fileId: child.resource.id!,
+          resource: { parents: [target.id!], name: child.resource.name },
+          fields: RESOURCE_FIELDS,
+          supportsTeamDrives: true
+        });
+      };
+      return limit(() => {
+        return driveApiRequest<FileResource>(transport, createRequest);
+      }).then(() => {
+        progress.copied++;
+        report();
+      }, err => {
+        fail(childPath, err, 1);
+      });
+    })).then(() => void 0);
+  };
+
+  // Find everything in the folder first, so that
+  // the progress may be given out of a total.
+  return Private.folderTree(transport, resource, limit).then(tree => {
+    progress.total = Private.countFiles(tree);
+    report();
+    return createFolder(transport, name, parent).then(folder => {
+      return copyContents(tree, folder, path).then(() => {
+        return { resource: folder, failures };
+      });
+    });
+  });
+}
+
+/**
+ * Create a new folder.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param name - the name of the folder.
+ *
+ * @param parent - the files resource of the parent folder,
+ *   which may be the root of a Team Drive.
+ *
+ * @returns a promise fulfilled with the files resource of the folder.
+ */
+function createFolder(transport: IDriveTransport, name: string, parent: FileResource): Promise<FileResource> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.files.create({
+      resource: {
+        name,
+        mimeType: FOLDER_MIMETYPE,
+        parents: [parent.id!]
+      },
+      fields: RESOURCE_FIELDS,
+      supportsTeamDrives: true
+    });
+  };
+  return driveApiRequest<FileResource>(transport, createRequest);
+}
+
+
+/* ******** Functions for dealing with revisions ******** */
+
+/**
+ * A revision of a file, as listed in its revision history.
+ */
+export
+interface IRevision {
+  /**
+   * The id of the revision.
+   */
+  id: string;
+
+  /**
+   * The time at which the revision was made.
+   */
+  modifiedTime: string;
+
+  /**
+   * The name of the user who made the revision, or
+   * their email address if the name is not known.
+   */
+  lastModifyingUser: string;
+
+  /**
+   * The size of the content of the revision, in bytes. This
+   * is `null` for native Google files, which have no size.
+   */
+  size: number | null;
+
+  /**
+   * Whether the revision is pinned, so that Google Drive
+   * keeps it forever, rather than cleaning it up.
+   */
+  keepForever: boolean;
+
+  /**
+   * The label of the revision, or `''` if it has none.
+   */
+  label: string;
+
+  /**
+   * The description of the revision, or `''` if it has none.
+   */
+  description: string;
+}
+
+/**
+ * A checkpoint of a file, which is a pinned revision
+ * with an optional label and description.
+ */
+export
+interface ICheckpoint extends Contents.ICheckpointModel {
+  /**
+   * The label of the checkpoint, or `''` if it has none.
+   */
+  label: string;
+
+  /**
+   * The description of the checkpoint, or `''` if it has none.
+   */
+  description: string;
+}
+
+/**
+ * List the revisions for a file in Google Drive.
  *
- * @param newPath - The location of the copy (where the path
- *   includes the filename). This cannot be the same as `oldPath`.
+ * @param transport - the transport through which requests are made.
  *
- * @param fileTypeForPath - A function that, given a path argument, returns
- *   and DocumentRegistry.IFileType that is consistent with the path.
+ * @param path - the path of the file.
  *
- * @returns a promise fulfilled with the `Contents.IModel` of the copy.
- *   Otherwise, throws an error.
+ * @returns a promise fulfilled with a list of `Contents.ICheckpointModel`
+ *   that correspond to the pinned file revisions stored on drive.
  */
 export
-function copyFile(oldPath: string, newPath: string, fileTypeForPath: (path: string) => DocumentRegistry.IFileType): Promise<Contents.IModel> {
-  if (isDummy(PathExt.dirname(newPath))) {
-    throw makeError(400, `Google Drive: "${newPath}"`+
-                    ' is not a valid save directory');
-  }
-  if( oldPath === newPath ) {
-    throw makeError(400, 'Google Drive: cannot copy a file with'+
-                         ' the same name to the same directory');
-  } else {
-    let newFolderPath = PathExt.dirname(newPath);
-    newFolderPath = newFolderPath === '.' ? '' : newFolderPath;
-
-    // Get a promise that resolves with the resource in the current position.
-    const resourcePromise = getResourceForPath(oldPath)
-    // Get a promise that resolves with the resource of the new folder.
-    const newFolderPromise = getResourceForPath(newFolderPath);
-
-    // Check the new path to make sure there isn't already a file
-    // with the same name there.
-    const newName = PathExt.basename(newPath);
-    const directorySearchPromise =
-      searchDirectory(newFolderPath, 'name = \''+newName+'\'');
-
-    // Once we have all the required information,
-    // perform the copy.
-    return Promise.all([resourcePromise, newFolderPromise,
-                       directorySearchPromise]).then((values) => {
-      const resource = values[0];
-      const newFolder = values[1];
-      const directorySearch = values[2];
-
-      if(directorySearch.length !== 0) {
-        throw new Error("Google Drive: File with the same name "+
-                        "already exists in the destination directory");
-      } else {
-        const createRequest = () => {
-          return gapi.client.drive.files.copy({
-            fileId: resource.id!,
-            resource: {
-              parents: [newFolder.id!],
-              name: newName
-            },
-            fields: RESOURCE_FIELDS,
-            supportsTeamDrives: !!(newFolder.teamDriveId || resource.teamDriveId)
-          });
-        }
-        return driveApiRequest<FileResource>(createRequest);
-      }
-    }).then((response) => {
-      // Update the cache.
-      Private.resourceCache.set(newPath, response);
-      return contentsModelForPath(newPath, true, fileTypeForPath);
+function listRevisions(transport: IDriveTransport, path: string): Promise<ICheckpoint[]> {
+  return listAllRevisions(transport, path).then(revisions => {
+    const pinned = map(filter(revisions, revision => {
+      return revision.keepForever;
+    }), revision => {
+      return {
+        id: revision.id,
+        last_modified: revision.modifiedTime,
+        label: revision.label,
+        description: revision.description
+      };
     });
-  }
+    return toArray(pinned);
+  });
 }
 
-
-/* ******** Functions for dealing with revisions ******** */
-
 /**
- * List the revisions for a file in Google Drive.
+ * List every revision of a file in Google Drive, including those
+ * that Google Drive keeps automatically and may clean up.
+ *
+ * @param transport - the transport through which requests are made.
  *
  * @param path - the path of the file.
  *
- * @returns a promise fulfilled with a list of `Contents.ICheckpointModel`
- *   that correspond to the file revisions stored on drive.
+ * @returns a promise fulfilled with the revisions, oldest first.
  */
 export
-function listRevisions(path: string): Promise<Contents.ICheckpointModel[]> {
-  return getResourceForPath(path).then((resource: FileResource) => {
-    const createRequest = () => {
-      return gapi.client.drive.revisions.list({
+function listAllRevisions(transport: IDriveTransport, path: string): Promise<IRevision[]> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+      return transport.revisions.list({
         fileId: resource.id!,
-        fields: 'revisions(id, modifiedTime, keepForever)' //NOT DOCUMENTED
+        fields: 'nextPageToken,revisions(' + REVISION_FIELDS + ')',
+        pageSize: PAGE_SIZE,
+        pageToken
       });
     };
-    return driveApiRequest<gapi.client.drive.RevisionList>(createRequest);
-  }).then((result) => {
-    const revisions = map(filter(result.revisions || [], (revision: RevisionResource) => {
-      return revision.keepForever!;
-    }), (revision: RevisionResource) => {
-      return { id: revision.id!, last_modified: revision.modifiedTime! }
+    return Promise.all([
+      pagedApiRequest(transport, createRequest, result => result.revisions),
+      getFileProperties(transport, resource)
+    ]);
+  }).then(([revisions, properties]) => {
+    return revisions.map(revision => {
+      return Private.revisionFromResource(revision, properties);
     });
-    return toArray(revisions);
   });
 }
 
@@ -843,44 +2385,134 @@ function listRevisions(path: string): Promise<Contents.ICheckpointModel[]> {
  * Tell Google drive to keep the current revision. Without doing
  * this the revision would eventually be cleaned up.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param path - the path of the file to pin.
  *
  * @returns a promise fulfilled with an `ICheckpointModel` corresponding
  *   to the newly pinned revision.
  */
 export
-function pinCurrentRevision(path: string): Promise<Contents.ICheckpointModel> {
-  return getResourceForPath(path).then((resource: FileResource) => {
-    const createRequest = () => {
-      return gapi.client.drive.revisions.update({
+function pinCurrentRevision(transport: IDriveTransport, path: string): Promise<Contents.ICheckpointModel> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    return pinRevision(transport, path, resource.headRevisionId!);
+  });
+}
+
+/**
+ * Pin the current revision of a file as a checkpoint with a label.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param label - the label of the checkpoint.
+ *
+ * @param description - an optional description of the checkpoint.
+ *
+ * @returns a promise fulfilled with the labeled checkpoint.
+ */
+export
+function labelCurrentRevision(transport: IDriveTransport, path: string, label: string, description = ''): Promise<ICheckpoint> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    return labelRevision(transport, path, resource.headRevisionId!, label, description);
+  });
+}
+
+/**
+ * Tell Google drive to keep a revision. Without doing
+ * this the revision would eventually be cleaned up.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param revisionId - the id of the revision to pin.
+ *
+ * @returns a promise fulfilled with an `ICheckpointModel` corresponding
+ *   to the pinned revision.
+ */
+export
+function pinRevision(transport: IDriveTransport, path: string, revisionId: string): Promise<Contents.ICheckpointModel> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.revisions.update({
         fileId: resource.id!,
-        revisionId: resource.headRevisionId!,
+        revisionId: revisionId,
         resource: {
           keepForever: true
         }
       });
     };
-    return driveApiRequest<RevisionResource>(createRequest);
+    return driveApiRequest<RevisionResource>(transport, createRequest);
   }).then((revision) => {
     return { id: revision.id!, last_modified: revision.modifiedTime! };
   });
 }
 
+/**
+ * Pin a revision as a checkpoint with a label, or change
+ * the label of a checkpoint.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param revisionId - the id of the revision.
+ *
+ * @param label - the label of the checkpoint.
+ *
+ * @param description - an optional description of the checkpoint.
+ *
+ * @returns a promise fulfilled with the labeled checkpoint.
+ *
+ * #### Notes
+ * The label is stored in a property of the file, where Google Drive
+ * limits the label and description together to between about 60
+ * and 110 bytes, depending on the length of the revision id.
+ */
+export
+function labelRevision(transport: IDriveTransport, path: string, revisionId: string, label: string, description = ''): Promise<ICheckpoint> {
+  // The label is kept to a single line.
+  label = label.replace(/\s*\n\s*/g, ' ');
+  const key = CHECKPOINT_PROPERTY_PREFIX + revisionId;
+  const value = description ? `${label}\n${description}` : label;
+  const size = bytesFromText(key + value).length;
+  if (size > MAX_PROPERTY_SIZE) {
+    return Promise.reject(createDriveError({
+      status: 400, path,
+      message: 'The label and description of the checkpoint ' +
+               `are ${size - MAX_PROPERTY_SIZE} bytes too long.`
+    }));
+  }
+  return pinRevision(transport, path, revisionId).then(checkpoint => {
+    // An empty label removes the property.
+    return setFileProperties(transport, path, { [key]: value || null }).then(() => {
+      return { ...checkpoint, label, description };
+    });
+  });
+}
+
 /**
  * Tell Google drive not to keep the current revision.
  * Eventually the revision will then be cleaned up.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param path - the path of the file to unpin.
  *
  * @param revisionId - the id of the revision to unpin.
  *
  * @returns a promise fulfilled when the revision is unpinned.
+ *
+ * #### Notes
+ * The label of the revision is removed along with it.
  */
 export
-function unpinRevision(path: string, revisionId: string): Promise<void> {
-  return getResourceForPath(path).then((resource: FileResource) => {
-    const createRequest = () => {
-      return gapi.client.drive.revisions.update({
+function unpinRevision(transport: IDriveTransport, path: string, revisionId: string): Promise<void> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.revisions.update({
         fileId: resource.id!,
         revisionId: revisionId,
         resource: {
@@ -888,51 +2520,115 @@ function unpinRevision(path: string, revisionId: string): Promise<void> {
         }
       });
     };
-    return driveApiRequest<RevisionResource>(createRequest);
+    return driveApiRequest<RevisionResource>(transport, createRequest);
   }).then(() => {
-    return void 0;
+    return getFileProperties(transport, path);
+  }).then(properties => {
+    const key = CHECKPOINT_PROPERTY_PREFIX + revisionId;
+    if (properties[key] === undefined) {
+      return;
+    }
+    return setFileProperties(transport, path, { [key]: null }).then(() => void 0);
   });
 }
 
 /**
- * Revert a file to a particular revision id.
+ * Get the public properties of a file. They are fetched each
+ * time, since collaborators may change them.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param pathOrResource - the path or files resource of the file.
+ *
+ * @returns a promise fulfilled with the properties of the file.
+ */
+function getFileProperties(transport: IDriveTransport, pathOrResource: string | FileResource): Promise<{ [key: string]: string }> {
+  const getResource = typeof pathOrResource === 'string' ?
+                      getResourceForPath(transport, pathOrResource) :
+                      Promise.resolve(pathOrResource);
+  return getResource.then(resource => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.files.get({
+        fileId: resource.id!,
+        fields: 'properties',
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<FileResource>(transport, createRequest);
+  }).then(result => result.properties || {});
+}
+
+/**
+ * Update the public properties of a file.
+ *
+ * @param transport - the transport through which requests are made.
  *
  * @param path - the path of the file.
  *
- * @param revisionId - the id of the revision to revert.
+ * @param properties - the properties to set, or to
+ *   remove where they are `null`.
+ *
+ * @returns a promise fulfilled with the properties of the file.
+ */
+function setFileProperties(transport: IDriveTransport, path: string, properties: { [key: string]: string | null }): Promise<{ [key: string]: string }> {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.files.update({
+        fileId: resource.id!,
+        resource: { properties },
+        fields: 'properties',
+        supportsTeamDrives: !!(resource.teamDriveId)
+      });
+    };
+    return driveApiRequest<FileResource>(transport, createRequest);
+  }).then(result => result.properties || {});
+}
+
+/**
+ * Get the contents of a file at a particular revision.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param revisionId - the id of the revision.
  *
  * @param fileType - a candidate DocumentRegistry.IFileType for the given file.
  *
- * @returns a promise fulfilled when the file is reverted.
+ * @returns a promise fulfilled with a read-only `Contents.IModel`
+ *   for the revision.
  */
 export
-function revertToRevision(path: string, revisionId: string, fileType: DocumentRegistry.IFileType): Promise<void> {
+function getRevisionContents(transport: IDriveTransport, path: string, revisionId: string, fileType: DocumentRegistry.IFileType): Promise<Contents.IModel> {
   let revisionResource: FileResource;
   // Get the correct file resource.
-  return getResourceForPath(path).then((resource: FileResource) => {
+  return getResourceForPath(transport, path).then((resource: FileResource) => {
     revisionResource = resource;
+    if (fileType.fileFormat === 'base64') {
+      // Download binary content as raw bytes.
+      return downloadBinary(transport, resource, revisionId).then(base64FromBytes);
+    }
     // Construct the request for a specific revision to the file.
-    const createRequest = () => {
-      return gapi.client.drive.revisions.get({
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.revisions.get({
         fileId: revisionResource.id!,
         revisionId: revisionId,
         alt: 'media'
       });
     };
     // Make the request.
-    return driveApiRequest<any>(createRequest);
+    return driveApiRequest<any>(transport, createRequest);
   }).then((result: any) => {
     let content: any = result;
-    if (fileType.fileFormat === 'base64') {
-      content = btoa(result);
-    } else if (revisionResource.mimeType === 'application/json') {
+    if (fileType.fileFormat !== 'base64' &&
+        revisionResource.mimeType === 'application/json') {
       content = JSON.stringify(result, null, 2);
     }
-    const contents: Contents.IModel = {
-      name: revisionResource.name!,
+    return {
+      name: nameForResource(revisionResource),
       path: path,
       type: fileType.contentType,
-      writable: revisionResource.capabilities!.canEdit || true,
+      writable: false,
       created: String(revisionResource.createdTime),
       // TODO What is the appropriate modified time?
       last_modified: String(revisionResource.modifiedTime),
@@ -940,14 +2636,188 @@ function revertToRevision(path: string, revisionId: string, fileType: DocumentRe
       content,
       format: fileType.fileFormat
     };
+  });
+}
 
+/**
+ * Revert a file to a particular revision id.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param path - the path of the file.
+ *
+ * @param revisionId - the id of the revision to revert.
+ *
+ * @param fileType - a candidate DocumentRegistry.IFileType for the given file.
+ *
+ * @returns a promise fulfilled when the file is reverted.
+ */
+export
+function revertToRevision(transport: IDriveTransport, path: string, revisionId: string, fileType: DocumentRegistry.IFileType): Promise<void> {
+  return getRevisionContents(transport, path, revisionId, fileType).then(contents => {
     // Reupload the reverted file to the head revision.
-    return uploadFile(path, contents, fileType, true, undefined);
+    return uploadFile(transport, path, contents, fileType, true, undefined);
   }).then(() => {
     return void 0;
   });
 }
 
+/**
+ * Get the page token for listing changes made from now on.
+ *
+ * @returns a promise fulfilled with the page token.
+ */
+export
+function getChangesStartPageToken(transport: IDriveTransport): Promise<string> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.changes.getStartPageToken({ supportsTeamDrives: true });
+  };
+  return driveApiRequest<gapi.client.drive.StartPageToken>(transport, createRequest)
+  .then(result => result.startPageToken!);
+}
+
+/**
+ * List the changes made since a page token,
+ * following all the pages of changes.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param pageToken - the page token from `getChangesStartPageToken`,
+ *   or from a previous call to `listChanges`.
+ *
+ * @returns a promise fulfilled with the changes, as well as
+ *   the page token for listing the changes after these.
+ */
+export
+function listChanges(transport: IDriveTransport, pageToken: string): Promise<{ changes: ChangeResource[], newStartPageToken: string }> {
+  const changes: ChangeResource[] = [];
+  const getPage = (token: string): Promise<{ changes: ChangeResource[], newStartPageToken: string }> => {
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.changes.list({
+        pageToken: token,
+        fields: 'nextPageToken,newStartPageToken,'+
+                'changes(fileId,removed,file('+RESOURCE_FIELDS+'))',
+        includeRemoved: true,
+        includeTeamDriveItems: true,
+        supportsTeamDrives: true,
+        pageSize: PAGE_SIZE
+      });
+    };
+    return driveApiRequest<gapi.client.drive.ChangeList>(transport, createRequest)
+    .then(result => {
+      changes.push(...(result.changes || []));
+      if (result.nextPageToken) {
+        return getPage(result.nextPageToken);
+      }
+      return { changes, newStartPageToken: result.newStartPageToken! };
+    });
+  };
+  return getPage(pageToken);
+}
+
+/**
+ * A description of how a remote change affected a cached path.
+ */
+export
+interface IRemoteChange {
+  /**
+   * The type of the change, which is `'permissions'` when only
+   * the people who may access the file have changed.
+   */
+  type: 'new' | 'delete' | 'rename' | 'save' | 'permissions';
+
+  /**
+   * The path of the file before the change, if it was known.
+   */
+  oldPath: string | null;
+
+  /**
+   * The path of the file after the change, if it is known.
+   */
+  newPath: string | null;
+
+  /**
+   * The files resource after the change, if it still exists.
+   */
+  resource: FileResource | null;
+}
+
+/**
+ * Update the resource cache for a change made to Google Drive,
+ * possibly by another user or application.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param change - the change resource.
+ *
+ * @returns descriptions of how the change affected the paths that
+ *   are known to the cache, which are empty if it did not affect them.
+ *
+ * #### Notes
+ * A file is only known at a new path if its parent folder is in the
+ * cache, so moving a file out of the folders that have been visited
+ * is reported as a deletion, and moving one in is reported as new.
+ *
+ * If the file now has the same name as another file in its folder,
+ * both of them are listed with their ids in their names, as in a
+ * directory listing, and the other file is reported as renamed.
+ */
+export
+function applyChangeToCache(transport: IDriveTransport, change: ChangeResource): IRemoteChange[] {
+  const resource = change.removed ? null : change.file || null;
+  const oldPath = Private.cachedPathForId(transport, change.fileId!);
+  let newPath: string | null = null;
+  if (resource && !resource.trashed) {
+    newPath = Private.pathForResource(transport, resource, oldPath);
+  }
+
+  if (oldPath === null && newPath === null) {
+    return [];
+  } else if (newPath === null) {
+    Private.removeFromCache(transport, oldPath!);
+    return [{ type: 'delete', oldPath, newPath, resource }];
+  }
+
+  const cache = Private.resourceCache(transport);
+  const changes: IRemoteChange[] = [];
+  const other = cache.get(newPath);
+  if (other && other.id !== resource!.id) {
+    const dirname = PathExt.dirname(newPath);
+    const otherPath = PathExt.join(
+      dirname, Private.nameWithId(nameForResource(other), other.id!));
+    Private.moveInCache(transport, newPath, otherPath);
+    changes.push({
+      type: 'rename', oldPath: newPath, newPath: otherPath, resource: other
+    });
+    newPath = PathExt.join(
+      dirname, Private.nameWithId(nameForResource(resource!), resource!.id!));
+  }
+
+  const existing = cache.get(newPath);
+  if (oldPath === null) {
+    cache.set(newPath, resource!);
+    changes.push({ type: 'new', oldPath, newPath, resource });
+  } else if (oldPath !== newPath) {
+    Private.moveInCache(transport, oldPath, newPath);
+    cache.set(newPath, resource!);
+    changes.push({ type: 'rename', oldPath, newPath, resource });
+  } else {
+    cache.set(newPath, resource!);
+    // Ignore changes that we already know about,
+    // such as our own saves.
+    if (existing && existing.headRevisionId === resource!.headRevisionId &&
+        existing.modifiedTime === resource!.modifiedTime) {
+      // Sharing the file does not make a new revision.
+      if (Private.permissionsDiffer(existing, resource!)) {
+        changes.push({ type: 'permissions', oldPath, newPath, resource });
+      }
+    } else {
+      changes.push({ type: 'save', oldPath, newPath, resource });
+    }
+  }
+  return changes;
+}
+
 /* *********Utility functions ********* */
 
 /**
@@ -992,63 +2862,137 @@ function fileResourceFromContentsModel(contents: Partial<Contents.IModel>, fileT
  * pathComponent).  It should also not contain any leading or trailing
  * slashes.
  *
- * @param pathComponent - The file/folder to find
+ * @param transport - the transport through which requests are made.
+ *
+ * @param pathComponent - The file/folder to find
+ *
+ * @param type - type of resource (file or folder)
+ *
+ * @param folderId - The Google Drive folder id
+ *
+ * @param trashed - whether to look for a file in the trash
+ *
+ * @returns A promise fulfilled by either the files resource for the given
+ *   file/folder, or rejected with an Error object.
+ */
+function getResourceForRelativePath(transport: IDriveTransport, pathComponent: string, folderId: string, teamDriveId: string = '', trashed: boolean = false): Promise<FileResource> {
+  // A file with the same name as others in the folder
+  // is listed with its id in its name.
+  return resourceForListedName(transport, pathComponent, resource => {
+    return !!resource.trashed === trashed &&
+           (resource.parents || []).indexOf(folderId) !== -1;
+  }).then(resource => {
+    return resource || resourceForName(transport, pathComponent, folderId,
+                                       teamDriveId, trashed);
+  });
+}
+
+/**
+ * Get the files resource of the only file with a name in a folder.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param pathComponent - the name of the file.
+ *
+ * @param folderId - the id of the folder.
+ *
+ * @param teamDriveId - the id of the Team Drive of the folder, if any.
+ *
+ * @param trashed - whether to look for a file in the trash.
+ *
+ * @returns a promise fulfilled with the files resource, or rejected
+ *   if there is not exactly one file with the name.
+ */
+function resourceForName(transport: IDriveTransport, pathComponent: string, folderId: string, teamDriveId: string, trashed: boolean): Promise<FileResource> {
+  // Construct a search query for the file at hand, which
+  // may be a native Google file listed with the extension
+  // of its export format.
+  let nameQuery = DriveQuery.nameIs(pathComponent);
+  for (let mimeType in EXPORT_FORMATS) {
+    const extension = EXPORT_FORMATS[mimeType].extension;
+    const name = Private.stripExtension(pathComponent, extension);
+    if (name !== pathComponent) {
+      nameQuery = nameQuery.or(DriveQuery.and(
+        DriveQuery.nameIs(name), DriveQuery.mimeType(mimeType)));
+    }
+  }
+  const query = DriveQuery.and(nameQuery, DriveQuery.trashed(trashed),
+                               DriveQuery.parent(folderId)).toString();
+  // Construct a request for the files matching the query.
+  let createRequest: (transport: IDriveTransport) => IDriveTransport.IRequest<gapi.client.drive.FileList>;
+  if (teamDriveId) {
+    createRequest = (transport: IDriveTransport) => {
+      return transport.files.list({
+        q: query,
+        fields: 'files('+RESOURCE_FIELDS+')',
+        supportsTeamDrives: true,
+        includeTeamDriveItems: true,
+        corpora: 'teamDrive',
+        teamDriveId: teamDriveId
+      });
+    };
+  } else {
+    createRequest = (transport: IDriveTransport) => {
+      return transport.files.list({
+        q: query,
+        fields: 'files('+RESOURCE_FIELDS+')'
+      });
+    };
+  }
+  // Make the request.
+  return driveApiRequest<gapi.client.drive.FileList>(transport, createRequest)
+  .then((result) => {
+    const files: FileResource[] = result.files || [];
+    if (!files || files.length === 0) {
+      throw createDriveError({
+        status: 404,
+        message: 'Google Drive: cannot find the specified ' +
+                 `file/folder: ${pathComponent}`
+      });
+    } else if (files.length > 1) {
+      throw createDriveError({
+        status: 409,
+        message: `Google Drive: multiple files/folders match: ${pathComponent}`
+      });
+    }
+    return files[0];
+  });
+}
+
+/**
+ * Get the files resource for a name with which a file is listed,
+ * if it includes the id of the file, as the names of files which
+ * have the same name as others in their folder do.
+ *
+ * @param transport - the transport through which requests are made.
  *
- * @param type - type of resource (file or folder)
+ * @param pathComponent - the listed name of the file.
  *
- * @param folderId - The Google Drive folder id
+ * @param accept - a function which checks that the file is
+ *   in the expected folder.
  *
- * @returns A promise fulfilled by either the files resource for the given
- *   file/folder, or rejected with an Error object.
+ * @returns a promise fulfilled with the files resource, or with `null`
+ *   if the name does not include the id of a file with that name.
  */
-function getResourceForRelativePath(pathComponent: string, folderId: string, teamDriveId: string = ''): Promise<FileResource> {
-  return gapiInitialized.promise.then(() => {
-    // Construct a search query for the file at hand.
-    const query = `name = \'${pathComponent}\' and trashed = false `
-                + `and \'${folderId}\' in parents`;
-    // Construct a request for the files matching the query.
-    let createRequest: () => gapi.client.HttpRequest<gapi.client.drive.FileList>;
-    if (teamDriveId) {
-      createRequest = () => {
-        return gapi.client.drive.files.list({
-          q: query,
-          fields: 'files('+RESOURCE_FIELDS+')',
-          supportsTeamDrives: true,
-          includeTeamDriveItems: true,
-          corpora: 'teamDrive',
-          teamDriveId: teamDriveId
-        });
-      };
-    } else {
-      createRequest = () => {
-        return gapi.client.drive.files.list({
-          q: query,
-          fields: 'files('+RESOURCE_FIELDS+')'
-        });
-      };
+function resourceForListedName(transport: IDriveTransport, pathComponent: string, accept: (resource: FileResource) => boolean): Promise<FileResource | null> {
+  const parsed = Private.parseNameWithId(pathComponent);
+  if (!parsed) {
+    return Promise.resolve(null);
+  }
+  return resourceFromFileId(transport, parsed.id).then(resource => {
+    if (nameForResource(resource) !== parsed.name || !accept(resource)) {
+      return null;
     }
-    // Make the request.
-    return driveApiRequest<gapi.client.drive.FileList>(createRequest)
-    .then((result) => {
-      const files: FileResource[] = result.files || [];
-      if (!files || files.length === 0) {
-        throw Error(
-          "Google Drive: cannot find the specified file/folder: "
-          +pathComponent);
-      } else if (files.length > 1) {
-        throw Error(
-          "Google Drive: multiple files/folders match: "
-          +pathComponent);
-      }
-      return files[0];
-    });
-  });
+    return resource;
+  }).catch(() => null);
 }
 
 /**
  * Given the unique id string for a file in Google Drive,
  * get the files resource metadata associated with it.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param id - The file ID.
  *
  * @returns A promise that resolves with the files resource
@@ -1057,27 +3001,28 @@ function getResourceForRelativePath(pathComponent: string, folderId: string, tea
  * ### Notes
  * This does not support Team Drives.
  */
-function resourceFromFileId(id: string): Promise<FileResource> {
-  return gapiInitialized.promise.then(() => {
-    const createRequest = () => {
-      return gapi.client.drive.files.get({
-        fileId: id,
-        fields: RESOURCE_FIELDS
-      });
-    };
-    return driveApiRequest<FileResource>(createRequest);
-  });
+function resourceFromFileId(transport: IDriveTransport, id: string): Promise<FileResource> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.files.get({
+      fileId: id,
+      fields: RESOURCE_FIELDS,
+      supportsTeamDrives: true
+    });
+  };
+  return driveApiRequest<FileResource>(transport, createRequest);
 }
 
 /**
  * Given a name, find the user's root drive resource,
  * or a Team Drive resource with the same name.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param name - The Team Drive name.
  */
-function driveForName(name: string): Promise<TeamDriveResource | FileResource> {
-  const rootResource = resourceFromFileId('root');
-  const teamDriveResources = listTeamDrives();
+function driveForName(transport: IDriveTransport, name: string): Promise<TeamDriveResource | FileResource> {
+  const rootResource = resourceFromFileId(transport, 'root');
+  const teamDriveResources = listTeamDrives(transport);
   return Promise.all([rootResource, teamDriveResources]).then( result => {
     const root = result[0];
     const teamDrives = result[1];
@@ -1089,7 +3034,10 @@ function driveForName(name: string): Promise<TeamDriveResource | FileResource> {
         return drive;
       }
     }
-    throw Error(`Google Drive: cannot find Team Drive: ${name}`);
+    throw createDriveError({
+      status: 404,
+      message: `Google Drive: cannot find Team Drive: ${name}`
+    });
   });
 }
 
@@ -1098,18 +3046,15 @@ function driveForName(name: string): Promise<TeamDriveResource | FileResource> {
  *
  * @returns a list of team drive resources.
  */
-function listTeamDrives(): Promise<TeamDriveResource[]> {
-  return gapiAuthorized.promise.then(() => {
-    const createRequest = () => {
-      return gapi.client.drive.teamdrives.list({
-        fields: 'teamDrives(' + TEAMDRIVE_FIELDS + ')'
-      });
-    };
-    return driveApiRequest<gapi.client.drive.TeamDriveList>(createRequest)
-    .then(result => {
-      return result.teamDrives || [];
+function listTeamDrives(transport: IDriveTransport): Promise<TeamDriveResource[]> {
+  const createRequest = (transport: IDriveTransport, pageToken: string | undefined) => {
+    return transport.teamdrives.list({
+      fields: 'nextPageToken,teamDrives(' + TEAMDRIVE_FIELDS + ')',
+      pageSize: PAGE_SIZE,
+      pageToken
     });
-  });
+  };
+  return pagedApiRequest(transport, createRequest, result => result.teamDrives);
 }
 
 /**
@@ -1124,7 +3069,8 @@ function splitPath(path: string): string[] {
  */
 export
 function isDummy(path: string): boolean {
-  return (path === COLLECTIONS_DIRECTORY || path === SHARED_DIRECTORY);
+  return (path === COLLECTIONS_DIRECTORY || path === SHARED_DIRECTORY ||
+          path === TRASH_DIRECTORY);
 }
 
 /**
@@ -1137,12 +3083,59 @@ function isDirectory(resource: FileResource): boolean {
             resource.mimeType === FOLDER_MIMETYPE);
 }
 
+/**
+ * Whether the user may edit a file, rather than
+ * only view or comment on it.
+ */
+export
+function canEdit(resource: FileResource): boolean {
+  return !!(resource.capabilities && resource.capabilities.canEdit);
+}
+
+/**
+ * Get the path of the root of the user's drive,
+ * which is its name, such as "My Drive".
+ */
+export
+function getRootPath(transport: IDriveTransport): Promise<string> {
+  return resourceFromFileId(transport, 'root').then(resource => resource.name!);
+}
+
+/**
+ * Get the format to which a native Google file is exported.
+ *
+ * @param resource - the files resource.
+ *
+ * @returns the export format, or `null` if the content
+ *   of the file can be downloaded.
+ */
+export
+function exportFormat(resource: FileResource): IExportFormat | null {
+  return EXPORT_FORMATS[resource.mimeType || ''] || null;
+}
+
+/**
+ * Get the name under which a file is listed. Native Google
+ * files are listed with the extension of their export format,
+ * so that they open in the matching viewer.
+ */
+function nameForResource(resource: FileResource): string {
+  const name = resource.name!;
+  const format = exportFormat(resource);
+  if (!format || PathExt.extname(name) === format.extension) {
+    return name;
+  }
+  return name + format.extension;
+}
+
 /**
  * Gets the Google Drive Files resource corresponding to a path.  The path
  * is always treated as an absolute path, no matter whether it contains
  * leading or trailing slashes.  In fact, all leading, trailing and
  * consecutive slashes are ignored.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param path - The path of the file.
  *
  * @param type - The type (file or folder)
@@ -1151,10 +3144,10 @@ function isDirectory(resource: FileResource): boolean {
  *   or an Error object on error.
  */
 export
-function getResourceForPath(path: string): Promise<FileResource> {
+function getResourceForPath(transport: IDriveTransport, path: string): Promise<FileResource> {
   // First check the cache.
-  if( Private.resourceCache.has(path)) {
-    return Promise.resolve(Private.resourceCache.get(path)!);
+  if( Private.resourceCache(transport).has(path)) {
+    return Promise.resolve(Private.resourceCache(transport).get(path)!);
   }
 
   const components = splitPath(path);
@@ -1166,6 +3159,8 @@ function getResourceForPath(path: string): Promise<FileResource> {
     return Promise.resolve(COLLECTIONS_DIRECTORY_RESOURCE);
   } else if (components.length === 1 && components[0] === SHARED_DIRECTORY) {
     return Promise.resolve(SHARED_DIRECTORY_RESOURCE);
+  } else if (components.length === 1 && components[0] === TRASH_DIRECTORY) {
+    return Promise.resolve(TRASH_DIRECTORY_RESOURCE);
   } else {
     // Create a Promise of a FileResource to walk the path until
     // we find the right file.
@@ -1178,31 +3173,79 @@ function getResourceForPath(path: string): Promise<FileResource> {
     // the path is not in a Team Drive.
     let teamDriveId = '';
 
-    if (components[0] === SHARED_DIRECTORY) {
+    // Whether the path is in the trash.
+    const trashed = components[0] === TRASH_DIRECTORY;
+
+    if (trashed) {
+      // Handle the case of the `Trash` directory.
+      currentResource = resourceForListedName(transport, components[1], resource => {
+        return !!resource.trashed;
+      }).then(resource => {
+        return resource ? [resource] :
+          searchTrashedFiles(transport, DriveQuery.nameIs(components[1]));
+      }).then(files => {
+        if (!files || files.length === 0) {
+          throw createDriveError({
+            status: 404,
+            message: 'Google Drive: cannot find the specified ' +
+                     `file/folder: ${components[1]}`
+          });
+        } else if (files.length > 1) {
+          throw createDriveError({
+            status: 409,
+            message: `Google Drive: multiple files/folders match: ${components[1]}`
+          });
+        }
+        teamDriveId = files[0].teamDriveId || '';
+        return files[0];
+      });
+      idx = 2; // Set the component index to the third component.
+    } else if (components[0] === ID_DIRECTORY && components.length > 1) {
+      // Handle the case of a path that finds a file by its id,
+      // skipping the name of the file.
+      currentResource = resourceFromFileId(transport, components[1]).then(resource => {
+        teamDriveId = resource.teamDriveId || '';
+        return resource;
+      });
+      idx = 3;
+    } else if (components[0] === SHARED_DIRECTORY) {
       // Handle the case of the `Shared With Me` directory.
-      currentResource = searchSharedFiles('name = \''+components[1]+'\'')
-      .then(files => {
+      currentResource = resourceForListedName(transport, components[1], resource => {
+        return !resource.trashed;
+      }).then(resource => {
+        return resource ? [resource] :
+          searchSharedFiles(transport, DriveQuery.nameIs(components[1]));
+      }).then(files => {
         if (!files || files.length === 0) {
-          throw Error(
-            "Google Drive: cannot find the specified file/folder: "
-            +components[1]);
+          throw createDriveError({
+            status: 404,
+            message: 'Google Drive: cannot find the specified ' +
+                     `file/folder: ${components[1]}`
+          });
         } else if (files.length > 1) {
-          throw Error(
-            "Google Drive: multiple files/folders match: "
-            +components[1]);
+          throw createDriveError({
+            status: 409,
+            message: `Google Drive: multiple files/folders match: ${components[1]}`
+          });
         }
         return files[0];
       });
       idx = 2; // Set the component index to the third component.
     } else {
       // Handle the case of a `My Drive` or a Team Drive
-      currentResource = driveForName(components[0]).then(drive => {
+      currentResource = driveForName(transport, components[0]).then(drive => {
         if (drive.kind === 'drive#teamDrive') {
           teamDriveId = drive.id!;
         }
         return drive;
-      }).catch(() => {
-        throw Error(`Unexpected file in root directory: ${components[0]}`);
+      }).catch(err => {
+        if (!(err instanceof NotFoundError)) {
+          throw err;
+        }
+        throw createDriveError({
+          status: 404,
+          message: `Unexpected file in root directory: ${components[0]}`
+        });
       });
       idx = 1;
     }
@@ -1215,9 +3258,10 @@ function getResourceForPath(path: string): Promise<FileResource> {
     // object of its containing folder.
     const getResource = (pathComponent: string, parentResource: Promise<FileResource>) => {
       return parentResource.then((resource: FileResource) => {
-        return getResourceForRelativePath(pathComponent,
+        return getResourceForRelativePath(transport, pathComponent,
                                           resource.id!,
-                                          teamDriveId);
+                                          teamDriveId,
+                                          trashed);
       });
     }
 
@@ -1228,43 +3272,476 @@ function getResourceForPath(path: string): Promise<FileResource> {
       currentResource = getResource(component, currentResource);
     }
 
-    // Update the cache.
-    currentResource.then(r => {
-      Private.resourceCache.set(path, r);
+    // Update the cache, and resolve with the final value of
+    // currentResource. A failed lookup is left to the caller.
+    return currentResource.then(r => {
+      Private.resourceCache(transport).set(path, r);
+      return r;
     });
-    // Resolve with the final value of currentResource.
-    return currentResource;
   }
 }
 
 /**
  * Download the contents of a file from Google Drive.
  *
+ * @param transport - the transport through which requests are made.
+ *
  * @param resource - the files resource metadata object.
  *
  * @returns a promise fulfilled with the contents of the file.
  */
-function downloadResource(resource: FileResource, picked: boolean = false): Promise<any> {
-  return gapiInitialized.promise.then(() => {
-    const createRequest = () => {
-      return gapi.client.drive.files.get({
-        fileId: resource.id!,
-        alt: 'media',
-        supportsTeamDrives: !!(resource.teamDriveId),
-      });
-    };
-    return driveApiRequest<any>(createRequest);
+function downloadResource(transport: IDriveTransport, resource: FileResource, picked: boolean = false): Promise<any> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.files.get({
+      fileId: resource.id!,
+      alt: 'media',
+      supportsTeamDrives: !!(resource.teamDriveId),
+    });
+  };
+  return driveApiRequest<any>(transport, createRequest);
+}
+
+/**
+ * Export the content of a native Google file.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource - the files resource metadata object.
+ *
+ * @param format - the format to which to export the file.
+ *
+ * @returns a promise fulfilled with the bytes of the export,
+ *   in the first of the mimetypes of the format that the
+ *   Drive API supports for the file.
+ */
+function exportResource(transport: IDriveTransport, resource: FileResource, format: IExportFormat, index: number = 0): Promise<ArrayBuffer> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.export({
+      fileId: resource.id!,
+      mimeType: format.mimeTypes[index]
+    });
+  };
+  return driveApiRequest<ArrayBuffer>(transport, createRequest).catch(err => {
+    // A 400 error means that the conversion is not supported.
+    if (err instanceof DriveError && err.status === 400 &&
+        index + 1 < format.mimeTypes.length) {
+      return exportResource(transport, resource, format, index + 1);
+    }
+    throw err;
   });
 }
 
+/**
+ * Download the raw bytes of a file from Google Drive.
+ *
+ * @param transport - the transport through which requests are made.
+ *
+ * @param resource - the files resource metadata object.
+ *
+ * @param revisionId - the id of a revision to download instead
+ *   of the head revision, if any.
+ *
+ * @returns a promise fulfilled with the bytes of the file.
+ */
+function downloadBinary(transport: IDriveTransport, resource: FileResource, revisionId: string | undefined = undefined): Promise<ArrayBuffer> {
+  const createRequest = (transport: IDriveTransport) => {
+    return transport.download({
+      fileId: resource.id!,
+      revisionId,
+      supportsTeamDrives: !!(resource.teamDriveId)
+    });
+  };
+  return driveApiRequest<ArrayBuffer>(transport, createRequest);
+}
+
 namespace Private {
   /**
-   * A Map associating file paths with cached files
+   * A folder, or a file in a folder, with everything under it.
+   */
+  export
+  interface IFolderTree {
+    /**
+     * The files resource.
+     */
+    resource: FileResource;
+
+    /**
+     * The contents of a folder, or `null` for a file.
+     */
+    children: IFolderTree[] | null;
+  }
+
+  /**
+   * Find everything in a folder.
+   */
+  export
+  function folderTree(transport: IDriveTransport, resource: FileResource, limit: Limiter): Promise<IFolderTree> {
+    if (!isDirectory(resource)) {
+      return Promise.resolve({ resource, children: null });
+    }
+    return limit(() => {
+      return searchFolder(transport, resource, null, false);
+    }).then(resources => {
+      return Promise.all(resources.map(child => {
+        return folderTree(transport, child, limit);
+      }));
+    }).then(children => {
+      return { resource, children };
+    });
+  }
+
+  /**
+   * A function which makes a request once there
+   * are few enough other requests in progress.
+   */
+  export
+  type Limiter = <T>(request: () => Promise<T>) => Promise<T>;
+
+  /**
+   * Create a function which makes at most a number of requests
+   * at once, queueing the others until earlier ones have settled.
+   */
+  export
+  function createLimiter(max: number): Limiter {
+    const queue: (() => void)[] = [];
+    let active = 0;
+    const next = () => {
+      active--;
+      const run = queue.shift();
+      if (run) {
+        run();
+      }
+    };
+    return <T>(request: () => Promise<T>) => {
+      return new Promise<T>((resolve, reject) => {
+        const run = () => {
+          active++;
+          request().then(result => {
+            next();
+            resolve(result);
+          }, err => {
+            next();
+            reject(err);
+          });
+        };
+        if (active < max) {
+          run();
+        } else {
+          queue.push(run);
+        }
+      });
+    };
+  }
+
+  /**
+   * Count the files in a folder tree.
+   */
+  export
+  function countFiles(tree: IFolderTree): number {
+    if (!tree.children) {
+      return 1;
+    }
+    let count = 0;
+    for (let child of tree.children) {
+      count += countFiles(child);
+    }
+    return count;
+  }
+
+  /**
+   * Create the error for a folder copy with failures.
+   */
+  export
+  function makeCopyError(failures: ICopyFailure[]): ICopyError {
+    const names = failures.map(failure => `"${failure.path}"`).join(', ');
+    const error = createDriveError({
+      status: 500,
+      message: `Google Drive: some files could not be copied: ${names}`
+    }) as ICopyError;
+    error.failures = failures;
+    return error;
+  }
+
+  /**
+   * Get the Map associating file paths with cached files
    * resources. This can significantly cut down on
-   * API requests.
+   * API requests. There is a separate cache for each
+   * transport, since the resources belong to its backend.
+   */
+  export
+  function resourceCache(transport: IDriveTransport): Map<string, FileResource> {
+    let cache = caches.get(transport);
+    if (!cache) {
+      cache = new Map<string, FileResource>();
+      caches.set(transport, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * The resource caches for each transport.
+   */
+  const caches = new WeakMap<IDriveTransport, Map<string, FileResource>>();
+
+  /**
+   * Whether a files resource has changed since a given version,
+   * preferring to compare head revisions when both have them.
+   */
+  export
+  function hasChangedSince(resource: FileResource, version: IFileVersion): boolean {
+    if (resource.headRevisionId && version.headRevisionId) {
+      return resource.headRevisionId !== version.headRevisionId;
+    }
+    return !!(resource.modifiedTime && version.modifiedTime) &&
+           resource.modifiedTime !== version.modifiedTime;
+  }
+
+  /**
+   * Construct an `IPermission` from a permission resource.
+   */
+  export
+  function permissionFromResource(permission: PermissionResource): IPermission {
+    const details = permission.teamDrivePermissionDetails || [];
+    return {
+      id: permission.id!,
+      type: permission.type as IPermission['type'],
+      role: permission.role!,
+      displayName: permission.displayName || '',
+      emailAddress: permission.emailAddress || '',
+      domain: permission.domain || '',
+      allowFileDiscovery: !!permission.allowFileDiscovery,
+      inherited: details.some(detail => !!detail.inherited)
+    };
+  }
+
+  /**
+   * Test whether the permissions of two versions of a files
+   * resource differ, in who they are for or in their roles.
+   */
+  export
+  function permissionsDiffer(first: FileResource, second: FileResource): boolean {
+    const key = (resource: FileResource) => {
+      return (resource.permissions || []).map(permission => {
+        return `${permission.id}:${permission.role}`;
+      }).sort().join(',');
+    };
+    return key(first) !== key(second);
+  }
+
+  /**
+   * Construct an `IComment` from a comment resource.
+   */
+  export
+  function commentFromResource(comment: CommentResource): IComment {
+    const author = comment.author || {};
+    const quote = comment.quotedFileContent || {};
+    return {
+      id: comment.id!,
+      author: author.displayName || author.emailAddress || '',
+      content: comment.content || '',
+      createdTime: comment.createdTime!,
+      modifiedTime: comment.modifiedTime || comment.createdTime!,
+      resolved: !!comment.resolved,
+      anchor: parseAnchor(comment.anchor),
+      quote: quote.value || '',
+      replies: (comment.replies || []).filter(reply => !reply.deleted)
+                                      .map(replyFromResource)
+    };
+  }
+
+  /**
+   * Construct an `ICommentReply` from a reply resource.
+   */
+  export
+  function replyFromResource(reply: ReplyResource): ICommentReply {
+    const author = reply.author || {};
+    const action = reply.action;
+    return {
+      id: reply.id!,
+      author: author.displayName || author.emailAddress || '',
+      content: reply.content || '',
+      createdTime: reply.createdTime!,
+      action: action === 'resolve' || action === 'reopen' ? action : null
+    };
+  }
+
+  /**
+   * Parse the anchor string of a comment, returning `null`
+   * if it was not made by JupyterLab, or is not valid.
+   */
+  function parseAnchor(value: string | undefined): ICommentAnchor | null {
+    let anchor: any;
+    try {
+      anchor = JSON.parse(value || 'null');
+      anchor = anchor && anchor[COMMENT_ANCHOR_KEY];
+    } catch (err) {
+      return null;
+    }
+    if (!anchor || typeof anchor !== 'object') {
+      return null;
+    }
+    const result: ICommentAnchor = {};
+    if (typeof anchor.cell === 'string') {
+      result.cell = anchor.cell;
+    }
+    const range = anchor.range;
+    if (range && typeof range.start === 'number' &&
+        typeof range.end === 'number') {
+      result.range = { start: range.start, end: range.end };
+    }
+    return result.cell || result.range ? result : null;
+  }
+
+  /**
+   * Find the permission which lets anyone, or everyone in a
+   * domain, open a file, or `undefined` if there is none.
+   */
+  export
+  function findLinkPermission(permissions: ReadonlyArray<IPermission>): IPermission | undefined {
+    return permissions.filter(permission => {
+      return (permission.type === 'anyone' || permission.type === 'domain') &&
+             !permission.inherited;
+    })[0];
+  }
+
+  /**
+   * Construct an `IRevision` from a revision resource.
+   */
+  export
+  function revisionFromResource(revision: RevisionResource, properties: { [key: string]: string }): IRevision {
+    const user = revision.lastModifyingUser || {};
+    // The label is on the first line of the property, and
+    // the description on the rest.
+    const value = properties[CHECKPOINT_PROPERTY_PREFIX + revision.id] || '';
+    const newline = value.indexOf('\n');
+    return {
+      id: revision.id!,
+      modifiedTime: revision.modifiedTime!,
+      lastModifyingUser: user.displayName || user.emailAddress || '',
+      size: revision.size === undefined ? null : Number(revision.size),
+      keepForever: !!revision.keepForever,
+      label: newline === -1 ? value : value.slice(0, newline),
+      description: newline === -1 ? '' : value.slice(newline + 1)
+    };
+  }
+
+  /**
+   * Remove an extension from the end of a name.
+   *
+   * @returns the name without the extension, or the
+   *   name itself if it does not end with the extension.
+   */
+  export
+  function stripExtension(name: string, extension: string): string {
+    if (name.length > extension.length &&
+        name.slice(-extension.length) === extension) {
+      return name.slice(0, -extension.length);
+    }
+    return name;
+  }
+
+  /**
+   * Get the name to give a file in Google Drive when it is
+   * moved or copied to a path. This drops the extension that
+   * native Google files are listed with, unless the file had
+   * it in its name already.
+   */
+  export
+  function nameInDrive(resource: FileResource, name: string): string {
+    const format = exportFormat(resource);
+    if (!format || PathExt.extname(resource.name!) === format.extension) {
+      return name;
+    }
+    return stripExtension(name, format.extension);
+  }
+
+  /**
+   * Find the cached path for a file id.
+   *
+   * @returns the path, or `null` if the file is not in the cache.
+   */
+  export
+  function cachedPathForId(transport: IDriveTransport, id: string): string | null {
+    let path: string | null = null;
+    resourceCache(transport).forEach((resource, key) => {
+      if (path === null && resource.id === id) {
+        path = key;
+      }
+    });
+    return path;
+  }
+
+  /**
+   * Find the path for a files resource using the cached path
+   * of its parent folder.
+   *
+   * @param transport - the transport through which requests are made.
+   *
+   * @param resource - the files resource.
+   *
+   * @param oldPath - the previous path of the file, if known.
+   *
+   * @returns the path, or `null` if the parent is not in the cache.
+   */
+  export
+  function pathForResource(transport: IDriveTransport, resource: FileResource, oldPath: string | null): string | null {
+    // Keep the id in the name of a file which was
+    // listed with it, so that its path is stable.
+    let name = nameForResource(resource);
+    const parsed = oldPath !== null ?
+                   parseNameWithId(PathExt.basename(oldPath)) : null;
+    if (parsed && parsed.id === resource.id) {
+      name = nameWithId(name, resource.id!);
+    }
+    for (let parent of resource.parents || []) {
+      const parentPath = cachedPathForId(transport, parent);
+      if (parentPath !== null) {
+        return PathExt.join(parentPath, name);
+      }
+    }
+    // Files in the "Shared with me" directory have
+    // no parents that we know about.
+    if (oldPath !== null &&
+        PathExt.dirname(oldPath) === SHARED_DIRECTORY) {
+      return PathExt.join(SHARED_DIRECTORY, name);
+    }
+    return null;
+  }
+
+  /**
+   * Remove a path from the cache, along with anything under it.
+   */
+  export
+  function removeFromCache(transport: IDriveTransport, path: string): void {
+    const cache = resourceCache(transport);
+    const keys: string[] = [];
+    cache.forEach((resource, key) => {
+      if (key === path || key.indexOf(path + '/') === 0) {
+        keys.push(key);
+      }
+    });
+    for (let key of keys) {
+      cache.delete(key);
+    }
+  }
+
+  /**
+   * Move a path in the cache, along with anything under it.
    */
   export
-  const resourceCache = new Map<string, FileResource>();
+  function moveInCache(transport: IDriveTransport, oldPath: string, newPath: string): void {
+    const cache = resourceCache(transport);
+    const entries: [string, FileResource][] = [];
+    cache.forEach((resource, key) => {
+      if (key === oldPath || key.indexOf(oldPath + '/') === 0) {
+        entries.push([key, resource]);
+      }
+    });
+    for (let [key, resource] of entries) {
+      cache.delete(key);
+      cache.set(newPath + key.slice(oldPath.length), resource);
+    }
+  }
 
   /**
    * When we list the contents of a directory we can
@@ -1273,45 +3750,83 @@ namespace Private {
    * the cached resources that are in a given directory.
    */
   export
-  function clearCacheForDirectory(path: string): void {
-    // TODO: my TS compiler complains here?
-    const keys = (resourceCache as any).keys();
-    for(let key of keys) {
-      let enclosingFolderPath = PathExt.dirname(path);
+  function clearCacheForDirectory(transport: IDriveTransport, path: string): void {
+    const cache = resourceCache(transport);
+    const keys: string[] = [];
+    cache.forEach((resource, key) => {
+      let enclosingFolderPath = PathExt.dirname(key);
       enclosingFolderPath =
         enclosingFolderPath === '.' ? '' : enclosingFolderPath;
       if(path === enclosingFolderPath) {
-        resourceCache.delete(key);
+        keys.push(key);
       }
+    });
+    for (let key of keys) {
+      cache.delete(key);
     }
   }
 
   /**
    * Given a list of resources in a directory, put them in
-   * the resource cache. This strips any duplicates, since
-   * the path-based contents manager can't handle those correctly.
+   * the resource cache, under the names with which they are listed.
    */
   export
-  function populateCacheForDirectory(path: string, resourceList: FileResource[]) {
-    // Identify duplicates in the list: we can't handle those
-    // correctly, so don't insert them.
-    const duplicatePaths: string[] = [];
-    const candidatePaths: string[] = [];
-    for (let resource of resourceList) {
-      const filePath = PathExt.join(path, resource.name!);
-      if (candidatePaths.indexOf(filePath) !== -1) {
-        duplicatePaths.push(filePath);
-      } else {
-        candidatePaths.push(filePath);
+  function populateCacheForDirectory(transport: IDriveTransport, path: string, resourceList: FileResource[]) {
+    const names = listedNames(resourceList);
+    resourceList.forEach((resource, index) => {
+      // A file which was listed under its name on an earlier
+      // page is no longer found by it once it has a duplicate.
+      const name = nameForResource(resource);
+      if (names[index] !== name) {
+        removeFromCache(transport, PathExt.join(path, name));
       }
+      resourceCache(transport).set(PathExt.join(path, names[index]), resource);
+    });
+  }
+
+  /**
+   * Get the names with which the resources in a directory are listed.
+   * Files which have the same name as others in the directory are
+   * listed with their ids in their names, so that each of them
+   * has a path of its own.
+   */
+  export
+  function listedNames(resourceList: FileResource[]): string[] {
+    const names = resourceList.map(nameForResource);
+    const counts = new Map<string, number>();
+    for (let name of names) {
+      counts.set(name, (counts.get(name) || 0) + 1);
     }
+    return names.map((name, index) => {
+      return counts.get(name)! > 1 ?
+        nameWithId(name, resourceList[index].id!) : name;
+    });
+  }
 
-    // Insert non-duplicates into the cache.
-    for (let resource of resourceList) {
-      const filePath = PathExt.join(path, resource.name!);
-      if (duplicatePaths.indexOf(filePath) === -1 ) {
-        Private.resourceCache.set(filePath, resource);
-      }
+  /**
+   * Add the id of a file to its name, before the extension,
+   * so that the type of the file can still be told from it.
+   */
+  export
+  function nameWithId(name: string, id: string): string {
+    const extension = PathExt.extname(name);
+    const stem = name.slice(0, name.length - extension.length);
+    return `${stem} [${id}]${extension}`;
+  }
+
+  /**
+   * Get the name and the id of a file from a name to which
+   * the id has been added by `nameWithId`.
+   *
+   * @returns the name and the id, or `null` if the
+   *   name does not include an id.
+   */
+  export
+  function parseNameWithId(name: string): { name: string, id: string } | null {
+    const match = /^(.*) \[([\w-]+)\](\.[^.]*)?$/.exec(name);
+    if (!match) {
+      return null;
     }
+    return { name: match[1] + (match[3] || ''), id: match[2] };
   }
 }
@@ -0,0 +1,417 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  PathExt
+} from '@jupyterlab/coreutils';
+
+import {
+  IDriveTransport
+} from './transport';
+
+
+/**
+ * The reasons given by Google Drive for exceeding a rate limit,
+ * which may be retried after a delay.
+ */
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+
+/**
+ * The reasons given by Google Drive for exceeding a quota,
+ * which may not be retried until the quota is raised.
+ */
+const QUOTA_REASONS = [
+  'storageQuotaExceeded', 'quotaExceeded', 'dailyLimitExceeded',
+  'teamDriveFileLimitExceeded'
+];
+
+/**
+ * The reason given by Google Drive for exceeding the storage quota.
+ */
+const STORAGE_QUOTA_REASON = 'storageQuotaExceeded';
+
+
+/**
+ * An error from Google Drive, or from the contents
+ * manager while it handles a file in Google Drive.
+ *
+ * #### Notes
+ * Use `createDriveError` to make the subclass for the status and
+ * reason, so that callers may tell the kinds of errors apart.
+ */
+export
+class DriveError extends Error {
+  /**
+   * Construct a new error.
+   */
+  constructor(options: DriveError.IOptions) {
+    super(options.message);
+    // Restore the prototype, which is lost when
+    // extending `Error` for an ES5 target.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'DriveError';
+    this.message = options.message;
+    this.status = options.status;
+    this.reason = options.reason || '';
+    this.path = options.path === undefined ? null : options.path;
+    this.xhr = { status: options.status, responseText: options.message };
+  }
+
+  /**
+   * The HTTP status of the failed request, or `0`
+   * if the request failed without a response.
+   */
+  readonly status: number;
+
+  /**
+   * The reason given by Google Drive, such as `'notFound'`
+   * or `'rateLimitExceeded'`, or `''` if none was given.
+   */
+  readonly reason: string;
+
+  /**
+   * The path of the affected file, or `null` if it is not known.
+   */
+  readonly path: string | null;
+
+  /**
+   * The status and message in the shape of the `xhr` of a
+   * `ServerConnection.IError`, for callers of the contents
+   * manager which look for one.
+   */
+  readonly xhr: DriveError.IXhr;
+
+  /**
+   * Whether the request may succeed if it is made again later.
+   */
+  get retriable(): boolean {
+    return false;
+  }
+
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    return this.message;
+  }
+
+  /**
+   * The name of the affected file, quoted for a message.
+   */
+  protected get quotedName(): string {
+    return this.path === null ? 'the file' :
+           `"${PathExt.basename(this.path) || this.path}"`;
+  }
+}
+
+/**
+ * A namespace for `DriveError` statics.
+ */
+export
+namespace DriveError {
+  /**
+   * The options used to create an error.
+   */
+  export
+  interface IOptions {
+    /**
+     * The HTTP status of the failed request.
+     */
+    status: number;
+
+    /**
+     * The message of the error.
+     */
+    message: string;
+
+    /**
+     * The reason given by Google Drive, if any.
+     */
+    reason?: string;
+
+    /**
+     * The path of the affected file, if it is known.
+     */
+    path?: string | null;
+  }
+
+  /**
+   * The status of a failed request, as on an `XMLHttpRequest`.
+   */
+  export
+  interface IXhr {
+    /**
+     * The HTTP status.
+     */
+    readonly status: number;
+
+    /**
+     * The message of the error.
+     */
+    readonly responseText: string;
+  }
+}
+
+/**
+ * An error for a request that was not authorized,
+ * such as when the token has expired (status 401).
+ */
+export
+class AuthorizationError extends DriveError {
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    return 'Your authorization to use Google Drive has expired. ' +
+           'Please sign in again.';
+  }
+}
+
+/**
+ * An error for a file that could not be found (status 404).
+ */
+export
+class NotFoundError extends DriveError {
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    return `Google Drive could not find ${this.quotedName}. It may ` +
+           'have been moved, trashed, or deleted elsewhere.';
+  }
+}
+
+/**
+ * An error for a request that the user may not make,
+ * such as changing a file that is shared read-only (status 403).
+ */
+export
+class PermissionError extends DriveError {
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    return `You do not have permission to do this with ${this.quotedName} ` +
+           `in Google Drive. ${this.message}`;
+  }
+}
+
+/**
+ * An error for a request that conflicts with the state of
+ * a file, such as one that has changed since it was loaded
+ * (status 409 or 412).
+ */
+export
+class ConflictError extends DriveError {}
+
+/**
+ * An error for a save which was not made because the file had been
+ * changed elsewhere, and the changes were instead discarded so that
+ * the file may be reloaded, or saved to a copy of the file.
+ */
+export
+class SaveCancelledError extends ConflictError {
+  /**
+   * Construct a new error.
+   */
+  constructor(options: SaveCancelledError.IOptions) {
+    super(options);
+    this.copyPath = options.copyPath || null;
+  }
+
+  /**
+   * The path of the copy to which the changes were saved,
+   * or `null` if they were discarded.
+   */
+  readonly copyPath: string | null;
+}
+
+/**
+ * A namespace for `SaveCancelledError` statics.
+ */
+export
+namespace SaveCancelledError {
+  /**
+   * The options used to create an error.
+   */
+  export
+  interface IOptions extends DriveError.IOptions {
+    /**
+     * The path of the copy to which the changes were saved, if any.
+     */
+    copyPath?: string | null;
+  }
+}
+
+/**
+ * An error for too many requests in a short time (status 403 with
+ * a rate limit reason, or 429), which may be retried after a delay.
+ */
+export
+class RateLimitError extends DriveError {
+  /**
+   * Whether the request may succeed if it is made again later.
+   */
+  get retriable(): boolean {
+    return true;
+  }
+
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    return 'Google Drive is receiving too many requests. ' +
+           'Please try again in a moment.';
+  }
+}
+
+/**
+ * An error for an exceeded quota, such as a full drive (status 403
+ * with a quota reason), which will not succeed if it is retried.
+ */
+export
+class QuotaExceededError extends DriveError {
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    if (this.reason === STORAGE_QUOTA_REASON) {
+      return `There is not enough space in Google Drive to save ` +
+             `${this.quotedName}. Free some space, and try again.`;
+    }
+    return 'The limit of Google Drive requests has been reached. ' +
+           'Please try again later.';
+  }
+}
+
+/**
+ * An error in the Google Drive servers, or for a request which
+ * got no response (status 0 or 5xx), which may be retried.
+ */
+export
+class BackendError extends DriveError {
+  /**
+   * Whether the request may succeed if it is made again later.
+   */
+  get retriable(): boolean {
+    return true;
+  }
+
+  /**
+   * A message for the error which may be shown to the user.
+   */
+  get userMessage(): string {
+    if (this.status === 0) {
+      return 'Google Drive could not be reached. ' +
+             'Please check your connection, and try again.';
+    }
+    return 'Google Drive is not responding. Please try again later.';
+  }
+}
+
+/**
+ * Create the error for a status and reason.
+ *
+ * @param options - the options of the error.
+ *
+ * @returns an instance of the subclass of `DriveError`
+ *   for the status and reason.
+ */
+export
+function createDriveError(options: DriveError.IOptions): DriveError {
+  const status = options.status;
+  const reason = options.reason || '';
+  if (status === 401) {
+    return new AuthorizationError(options);
+  }
+  if (status === 404) {
+    return new NotFoundError(options);
+  }
+  if (status === 409 || status === 412) {
+    return new ConflictError(options);
+  }
+  if (status === 429 || RATE_LIMIT_REASONS.indexOf(reason) !== -1) {
+    return new RateLimitError(options);
+  }
+  if (QUOTA_REASONS.indexOf(reason) !== -1) {
+    return new QuotaExceededError(options);
+  }
+  if (status === 403) {
+    return new PermissionError(options);
+  }
+  if (status === 0 || status >= 500) {
+    return new BackendError(options);
+  }
+  return new DriveError(options);
+}
+
+/**
+ * Create the error for a failed response from a transport.
+ *
+ * @param response - the failed response.
+ *
+ * @param path - the path of the affected file, if it is known.
+ *
+ * @returns the error for the status and the reason of the response.
+ */
+export
+function driveErrorFromResponse(response: IDriveTransport.IErrorResponse, path?: string): DriveError {
+  const error = response.result.error;
+  const errors = error.errors;
+  const status = response.status === undefined ? error.code : response.status;
+  return createDriveError({
+    status,
+    message: error.message,
+    reason: errors && errors.length ? errors[0].reason : '',
+    path
+  });
+}
+
+/**
+ * Convert a rejection into a `DriveError`.
+ *
+ * @param err - the rejection, which may be a `DriveError`, a failed
+ *   response from a transport, an `Error` or a string.
+ *
+ * @param path - the path of the affected file, which is given
+ *   to the error if it does not have one.
+ *
+ * @returns the error, or a new one with the path.
+ */
+export
+function toDriveError(err: any, path?: string): DriveError {
+  if (err instanceof DriveError) {
+    if (path === undefined || err.path !== null) {
+      return err;
+    }
+    const errorClass = err.constructor as typeof DriveError;
+    const copy = new errorClass({
+      status: err.status, message: err.message, reason: err.reason, path
+    });
+    // Keep any other details, such as the failures of a folder copy.
+    Object.keys(err).forEach(key => {
+      if (!(key in copy)) {
+        (copy as any)[key] = (err as any)[key];
+      }
+    });
+    return copy;
+  }
+  if (err && err.result && err.result.error) {
+    return driveErrorFromResponse(err, path);
+  }
+  const message = err && err.message ? err.message : String(err);
+  return new DriveError({ status: 0, message, path });
+}
+
+/**
+ * Describe an error in a message which may be shown to the user.
+ *
+ * @param err - the error, which need not be a `DriveError`.
+ */
+export
+function describeError(err: any): string {
+  if (err instanceof DriveError) {
+    return err.userMessage;
+  }
+  return err && err.message ? err.message : String(err);
+}
@@ -1,3 +1,5 @@
+/// <reference types="gapi" />
+
 // Type definitions for Google Drive API v3
 // Project: https://developers.google.com/drive/
 // Definitions by: Bolisov Alexey, modified by Ian Rose
@@ -0,0 +1,765 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Signal, ISignal
+} from '@phosphor/signaling';
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  showDialog, Dialog
+} from '@jupyterlab/apputils';
+
+import {
+  PathExt
+} from '@jupyterlab/coreutils';
+
+import {
+  Contents
+} from '@jupyterlab/services';
+
+import {
+  GoogleDrive
+} from './contents';
+
+import {
+  ICheckpoint, IRevision
+} from './drive';
+
+import {
+  describeError
+} from './errors';
+
+/**
+ * The class name added to the revision history panel.
+ */
+const HISTORY_CLASS = 'jp-GoogleRevisionHistory';
+
+/**
+ * The class name added to the header of the panel.
+ */
+const HISTORY_HEADER_CLASS = 'jp-GoogleRevisionHistory-header';
+
+/**
+ * The class name added to the list of revisions.
+ */
+const HISTORY_LIST_CLASS = 'jp-GoogleRevisionHistory-list';
+
+/**
+ * The class name added to each revision in the list.
+ */
+const HISTORY_ITEM_CLASS = 'jp-GoogleRevisionHistory-item';
+
+/**
+ * The class name added to the details of a revision.
+ */
+const HISTORY_DETAILS_CLASS = 'jp-GoogleRevisionHistory-details';
+
+/**
+ * The class name added to the actions for a revision.
+ */
+const HISTORY_ACTIONS_CLASS = 'jp-GoogleRevisionHistory-actions';
+
+/**
+ * The class name added to the preview of a revision.
+ */
+const HISTORY_PREVIEW_CLASS = 'jp-GoogleRevisionHistory-preview';
+
+/**
+ * The class name added to the label of a revision.
+ */
+const HISTORY_LABEL_CLASS = 'jp-GoogleRevisionHistory-label';
+
+/**
+ * The class name added to the description of a revision.
+ */
+const HISTORY_DESCRIPTION_CLASS = 'jp-GoogleRevisionHistory-description';
+
+/**
+ * The class name added to the checkpoint label form.
+ */
+const LABEL_FORM_CLASS = 'jp-GoogleCheckpointLabelForm';
+
+/**
+ * The class name added to a pinned revision.
+ */
+const PINNED_CLASS = 'jp-mod-pinned';
+
+/**
+ * The class name added to the revision being previewed.
+ */
+const SELECTED_CLASS = 'jp-mod-selected';
+
+/**
+ * The class name added to the revision chosen for a comparison.
+ */
+const COMPARING_CLASS = 'jp-mod-comparing';
+
+/**
+ * A side panel which lists the full revision history of a Google
+ * Drive document, and can preview, restore, pin, label, and compare
+ * its revisions.
+ */
+export
+class RevisionHistoryPanel extends Widget {
+  /**
+   * Construct a new revision history panel.
+   */
+  constructor(options: RevisionHistoryPanel.IOptions) {
+    super();
+    this._drive = options.drive;
+    this.id = 'google-drive-revision-history';
+    this.title.label = 'History';
+    this.addClass(HISTORY_CLASS);
+    this._header = document.createElement('div');
+    this._header.className = HISTORY_HEADER_CLASS;
+    this._list = document.createElement('ul');
+    this._list.className = HISTORY_LIST_CLASS;
+    this._preview = document.createElement('div');
+    this._preview.className = HISTORY_PREVIEW_CLASS;
+    this.node.appendChild(this._header);
+    this.node.appendChild(this._list);
+    this.node.appendChild(this._preview);
+    this._render();
+  }
+
+  /**
+   * Dispose of the resources held by the panel.
+   */
+  dispose(): void {
+    if (this.isDisposed) {
+      return;
+    }
+    Signal.clearData(this);
+    super.dispose();
+  }
+
+  /**
+   * The Google Drive which holds the document.
+   *
+   * #### Notes
+   * Changing the drive clears the path, which should be set afterwards.
+   */
+  get drive(): GoogleDrive {
+    return this._drive;
+  }
+  set drive(value: GoogleDrive) {
+    if (value === this._drive) {
+      return;
+    }
+    this._drive = value;
+    this.path = null;
+  }
+
+  /**
+   * The path of the document whose history is shown,
+   * or `null` if there is no Google Drive document.
+   */
+  get path(): string | null {
+    return this._path;
+  }
+  set path(value: string | null) {
+    if (value === this._path) {
+      return;
+    }
+    this._path = value;
+    this._revisions = [];
+    this._previewId = null;
+    this._compareId = null;
+    this._render();
+    this.refresh();
+  }
+
+  /**
+   * A signal emitted when the user asks to compare two revisions.
+   */
+  get compareRequested(): ISignal<this, RevisionHistoryPanel.ICompareArgs> {
+    return this._compareRequested;
+  }
+
+  /**
+   * The revisions of the document, newest first.
+   */
+  get revisions(): ReadonlyArray<IRevision> {
+    return this._revisions;
+  }
+
+  /**
+   * Reload the revision history of the document.
+   *
+   * @returns a promise fulfilled when the history is shown.
+   */
+  refresh(): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return this._drive.listRevisions(path).then(revisions => {
+      // Ignore the history of a document that is no longer current.
+      if (path !== this._path) {
+        return;
+      }
+      this._revisions = revisions.slice().reverse();
+      this._error = '';
+      this._render();
+    }).catch(err => {
+      if (path !== this._path) {
+        return;
+      }
+      this._revisions = [];
+      this._error = describeError(err);
+      this._render();
+    });
+  }
+
+  /**
+   * Show a read-only preview of a revision.
+   *
+   * @param revisionId - the id of the revision.
+   *
+   * @returns a promise fulfilled when the preview is shown.
+   */
+  preview(revisionId: string): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    this._previewId = revisionId;
+    this._render();
+    return this._drive.getRevision(path, revisionId).then(contents => {
+      if (path !== this._path || revisionId !== this._previewId) {
+        return;
+      }
+      Private.renderPreview(this._preview, contents);
+    });
+  }
+
+  /**
+   * Restore the document to a revision. This creates a
+   * new revision with the content of the old one.
+   *
+   * @param revisionId - the id of the revision.
+   *
+   * @returns a promise fulfilled when the revision is restored.
+   */
+  restore(revisionId: string): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return this._drive.restoreCheckpoint(path, revisionId).then(() => {
+      return this.refresh();
+    });
+  }
+
+  /**
+   * Pin or unpin a revision, which determines whether Google
+   * Drive keeps it forever and lists it as a checkpoint.
+   *
+   * @param revisionId - the id of the revision.
+   *
+   * @param pinned - whether to pin the revision.
+   *
+   * @returns a promise fulfilled when the revision is updated.
+   */
+  setPinned(revisionId: string, pinned: boolean): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    const update = pinned ?
+      this._drive.pinRevision(path, revisionId).then(() => void 0) :
+      this._drive.deleteCheckpoint(path, revisionId);
+    return update.then(() => this.refresh());
+  }
+
+  /**
+   * Label a revision, which pins it as a checkpoint, or change its label.
+   *
+   * @param revisionId - the id of the revision.
+   *
+   * @param label - the label of the revision.
+   *
+   * @param description - an optional description of the revision.
+   *
+   * @returns a promise fulfilled when the revision is updated.
+   */
+  setLabel(revisionId: string, label: string, description = ''): Promise<void> {
+    const path = this._path;
+    if (!path) {
+      return Promise.resolve(void 0);
+    }
+    return this._drive.renameCheckpoint(path, revisionId, label, description)
+    .then(() => this.refresh());
+  }
+
+  /**
+   * Ask to compare two revisions of the document, from
+   * the older to the newer, by emitting `compareRequested`.
+   *
+   * @param firstId - the id of one revision.
+   *
+   * @param secondId - the id of another revision.
+   */
+  compare(firstId: string, secondId: string): void {
+    const path = this._path;
+    const ids = this._revisions.map(revision => revision.id);
+    const first = ids.indexOf(firstId);
+    const second = ids.indexOf(secondId);
+    if (!path || first === -1 || second === -1) {
+      return;
+    }
+    this._compareId = null;
+    this._render();
+    // The revisions are listed newest first.
+    this._compareRequested.emit({
+      path,
+      oldRevision: this._revisions[Math.max(first, second)],
+      newRevision: this._revisions[Math.min(first, second)]
+    });
+  }
+
+  /**
+   * Render the header and the list of revisions.
+   */
+  private _render(): void {
+    const path = this._path;
+    this._list.textContent = '';
+    if (!path) {
+      this._header.textContent = 'Open a Google Drive document ' +
+                                 'to see its revision history.';
+      this._preview.textContent = '';
+      return;
+    }
+    this._header.textContent = this._error ?
+      `Cannot load the history of "${PathExt.basename(path)}": ` +
+      this._error :
+      `Revision history of "${PathExt.basename(path)}"`;
+    if (this._compareId) {
+      this._header.textContent += '. Choose another revision to compare.';
+    }
+    for (let revision of this._revisions) {
+      this._list.appendChild(this._createItem(revision));
+    }
+    if (!this._previewId) {
+      this._preview.textContent = '';
+    }
+  }
+
+  /**
+   * Create the list item for a revision.
+   */
+  private _createItem(revision: IRevision): HTMLElement {
+    const item = document.createElement('li');
+    item.className = HISTORY_ITEM_CLASS;
+    if (revision.keepForever) {
+      item.classList.add(PINNED_CLASS);
+    }
+    if (revision.id === this._previewId) {
+      item.classList.add(SELECTED_CLASS);
+    }
+    if (revision.id === this._compareId) {
+      item.classList.add(COMPARING_CLASS);
+    }
+
+    if (revision.label) {
+      const label = document.createElement('div');
+      label.className = HISTORY_LABEL_CLASS;
+      label.textContent = revision.label;
+      item.appendChild(label);
+    }
+    if (revision.description) {
+      const description = document.createElement('div');
+      description.className = HISTORY_DESCRIPTION_CLASS;
+      description.textContent = revision.description;
+      item.appendChild(description);
+    }
+
+    const details = document.createElement('div');
+    details.className = HISTORY_DETAILS_CLASS;
+    const parts = [new Date(revision.modifiedTime).toLocaleString()];
+    if (revision.lastModifyingUser) {
+      parts.push(revision.lastModifyingUser);
+    }
+    if (revision.size !== null) {
+      parts.push(Private.formatSize(revision.size));
+    }
+    if (revision.keepForever) {
+      parts.push('pinned');
+    }
+    details.textContent = parts.join(' · ');
+    item.appendChild(details);
+
+    const actions = document.createElement('div');
+    actions.className = HISTORY_ACTIONS_CLASS;
+    actions.appendChild(Private.createButton('Preview', () => {
+      this.preview(revision.id).catch(err => {
+        // Clear the selection of the revision that could not be shown.
+        if (this._previewId === revision.id) {
+          this._previewId = null;
+          this._render();
+        }
+        showDialog({
+          title: 'Preview Error',
+          body: describeError(err),
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      });
+    }));
+    actions.appendChild(Private.createButton('Restore', () => {
+      this._confirmRestore(revision);
+    }));
+    actions.appendChild(Private.createButton(
+      revision.keepForever ? 'Unpin' : 'Pin', () => {
+        this.setPinned(revision.id, !revision.keepForever).catch(err => {
+          showDialog({
+            title: revision.keepForever ? 'Unpin Error' : 'Pin Error',
+            body: describeError(err),
+            buttons: [Dialog.okButton({label: 'OK'})]
+          });
+        });
+      }));
+    actions.appendChild(Private.createButton('Label', () => {
+      this._editLabel(revision);
+    }));
+    // The first revision chosen is compared with the second.
+    actions.appendChild(Private.createButton(
+      revision.id === this._compareId ? 'Cancel' : 'Compare', () => {
+        if (!this._compareId || this._compareId === revision.id) {
+          this._compareId = this._compareId ? null : revision.id;
+          this._render();
+        } else {
+          this.compare(this._compareId, revision.id);
+        }
+      }));
+    item.appendChild(actions);
+    return item;
+  }
+
+  /**
+   * Ask the user to confirm restoring a revision.
+   */
+  private _confirmRestore(revision: IRevision): void {
+    const path = this._path;
+    if (!path) {
+      return;
+    }
+    const restoreButton = Dialog.warnButton({ label: 'RESTORE' });
+    showDialog({
+      title: 'Restore Revision',
+      body: `Restore "${PathExt.basename(path)}" to the revision of ` +
+            `${new Date(revision.modifiedTime).toLocaleString()}? ` +
+            'The current content will be kept in the revision history.',
+      buttons: [Dialog.cancelButton(), restoreButton]
+    }).then(result => {
+      if (result.button.label !== restoreButton.label) {
+        return;
+      }
+      return this.restore(revision.id).catch(err => {
+        showDialog({
+          title: 'Restore Error',
+          body: describeError(err),
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      });
+    });
+  }
+
+  /**
+   * Ask the user for the label of a revision.
+   */
+  private _editLabel(revision: IRevision): void {
+    showDialog({
+      title: revision.label ? 'Rename Checkpoint' : 'Label Checkpoint',
+      body: new CheckpointLabelForm({
+        label: revision.label,
+        description: revision.description
+      }),
+      focusNodeSelector: 'input',
+      buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'SAVE'})]
+    }).then(result => {
+      if (!result.button.accept) {
+        return;
+      }
+      const value: CheckpointLabelForm.IValue = result.value;
+      return this.setLabel(revision.id, value.label, value.description)
+      .catch(err => {
+        showDialog({
+          title: 'Label Error',
+          body: describeError(err),
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      });
+    });
+  }
+
+  private _drive: GoogleDrive;
+  private _path: string | null = null;
+  private _revisions: IRevision[] = [];
+  private _previewId: string | null = null;
+  private _compareId: string | null = null;
+  private _error = '';
+  private _header: HTMLElement;
+  private _list: HTMLElement;
+  private _preview: HTMLElement;
+  private _compareRequested = new Signal<this, RevisionHistoryPanel.ICompareArgs>(this);
+}
+
+/**
+ * A namespace for `RevisionHistoryPanel` statics.
+ */
+export
+namespace RevisionHistoryPanel {
+  /**
+   * The options used to create a revision history panel.
+   */
+  export
+  interface IOptions {
+    /**
+     * The Google Drive which holds the documents.
+     */
+    drive: GoogleDrive;
+  }
+
+  /**
+   * The arguments of a request to compare two revisions.
+   */
+  export
+  interface ICompareArgs {
+    /**
+     * The path of the document.
+     */
+    path: string;
+
+    /**
+     * The older revision.
+     */
+    oldRevision: IRevision;
+
+    /**
+     * The newer revision.
+     */
+    newRevision: IRevision;
+  }
+}
+
+/**
+ * A form for the label and description of a checkpoint, which
+ * may also choose the checkpoint from a list.
+ */
+export
+class CheckpointLabelForm extends Widget {
+  /**
+   * Construct a new checkpoint label form.
+   */
+  constructor(options: CheckpointLabelForm.IOptions = {}) {
+    super();
+    this.addClass(LABEL_FORM_CLASS);
+    this._checkpoints = options.checkpoints || [];
+    if (this._checkpoints.length) {
+      this._selectNode = document.createElement('select');
+      for (let checkpoint of this._checkpoints) {
+        const option = document.createElement('option');
+        option.value = checkpoint.id;
+        option.textContent = Private.checkpointName(checkpoint);
+        this._selectNode.appendChild(option);
+      }
+      // Choose the latest checkpoint by default.
+      this._selectNode.selectedIndex = this._checkpoints.length - 1;
+      this._selectNode.addEventListener('change', () => {
+        this._showCheckpoint();
+      });
+      this.node.appendChild(Private.createField('Checkpoint', this._selectNode));
+    }
+    this._labelNode = document.createElement('input');
+    this._labelNode.placeholder = 'Label';
+    this._descriptionNode = document.createElement('textarea');
+    this._descriptionNode.placeholder = 'Description (optional)';
+    this.node.appendChild(Private.createField('Label', this._labelNode));
+    this.node.appendChild(Private.createField('Description',
+                                              this._descriptionNode));
+    if (this._selectNode) {
+      this._showCheckpoint();
+    } else {
+      this._labelNode.value = options.label || '';
+      this._descriptionNode.value = options.description || '';
+    }
+  }
+
+  /**
+   * Get the value of the form.
+   */
+  getValue(): CheckpointLabelForm.IValue {
+    const value: CheckpointLabelForm.IValue = {
+      label: this._labelNode.value.trim(),
+      description: this._descriptionNode.value.trim()
+    };
+    if (this._selectNode) {
+      value.checkpointID = this._selectNode.value;
+    }
+    return value;
+  }
+
+  /**
+   * Fill in the label of the chosen checkpoint.
+   */
+  private _showCheckpoint(): void {
+    const checkpoint = this._checkpoints[this._selectNode!.selectedIndex];
+    this._labelNode.value = checkpoint ? checkpoint.label : '';
+    this._descriptionNode.value = checkpoint ? checkpoint.description : '';
+  }
+
+  private _checkpoints: ICheckpoint[];
+  private _selectNode: HTMLSelectElement | null = null;
+  private _labelNode: HTMLInputElement;
+  private _descriptionNode: HTMLTextAreaElement;
+}
+
+/**
+ * A namespace for `CheckpointLabelForm` statics.
+ */
+export
+namespace CheckpointLabelForm {
+  /**
+   * The options used to create a checkpoint label form.
+   */
+  export
+  interface IOptions {
+    /**
+     * The initial label.
+     */
+    label?: string;
+
+    /**
+     * The initial description.
+     */
+    description?: string;
+
+    /**
+     * The checkpoints from which to choose, oldest first.
+     * If there are none, the form does not choose one.
+     */
+    checkpoints?: ICheckpoint[];
+  }
+
+  /**
+   * The value of a checkpoint label form.
+   */
+  export
+  interface IValue {
+    /**
+     * The id of the chosen checkpoint, if the form chooses one.
+     */
+    checkpointID?: string;
+
+    /**
+     * The label of the checkpoint.
+     */
+    label: string;
+
+    /**
+     * The description of the checkpoint, which may be empty.
+     */
+    description: string;
+  }
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Create a button which calls a function when clicked.
+   */
+  export
+  function createButton(label: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Create a labeled form field.
+   */
+  export
+  function createField(label: string, input: HTMLElement): HTMLElement {
+    const field = document.createElement('label');
+    const text = document.createElement('span');
+    text.textContent = label;
+    field.appendChild(text);
+    field.appendChild(input);
+    return field;
+  }
+
+  /**
+   * Get the name of a checkpoint for display, which
+   * is its label and the time it was made.
+   */
+  export
+  function checkpointName(checkpoint: ICheckpoint): string {
+    const time = new Date(checkpoint.last_modified).toLocaleString();
+    return checkpoint.label ? `${checkpoint.label} (${time})` : time;
+  }
+
+  /**
+   * Format a size in bytes for display.
+   */
+  export
+  function formatSize(size: number): string {
+    if (size < 1024) {
+      return `${size} B`;
+    } else if (size < 1024 * 1024) {
+      return `${(size / 1024).toFixed(1)} KB`;
+    }
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  /**
+   * Render a read-only preview of the contents of a revision.
+   *
+   * #### Notes
+   * Notebooks are shown as the sources of their cells, text as
+   * it is, and images as images. There is no preview of other
+   * binary content.
+   */
+  export
+  function renderPreview(node: HTMLElement, contents: Contents.IModel): void {
+    node.textContent = '';
+    if (contents.type === 'notebook' && contents.content) {
+      for (let cell of contents.content.cells || []) {
+        const source = Array.isArray(cell.source) ?
+                       cell.source.join('') : cell.source;
+        node.appendChild(createPre(source, cell.cell_type));
+      }
+    } else if (contents.format === 'base64') {
+      if (contents.mimetype.indexOf('image/') === 0) {
+        const img = document.createElement('img');
+        img.src = `data:${contents.mimetype};base64,${contents.content}`;
+        node.appendChild(img);
+      } else {
+        node.textContent = 'There is no preview of this revision.';
+      }
+    } else {
+      const content = typeof contents.content === 'string' ?
+                      contents.content :
+                      JSON.stringify(contents.content, null, 2);
+      node.appendChild(createPre(content, ''));
+    }
+  }
+
+  /**
+   * Create a preformatted block of text.
+   */
+  function createPre(text: string, title: string): HTMLElement {
+    const pre = document.createElement('pre');
+    pre.textContent = text;
+    if (title) {
+      pre.title = title;
+    }
+    return pre;
+  }
+}
@@ -0,0 +1,1601 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+/// <reference path="./gapi.client.drive.d.ts" />
+
+import {
+  IDriveTransport
+} from './transport';
+
+/**
+ * The mimetype for Google Drive folders.
+ */
+const FOLDER_MIMETYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * The prefix of the mimetypes of native Google files,
+ * such as Docs, Sheets, and Slides.
+ */
+const NATIVE_MIMETYPE_PREFIX = 'application/vnd.google-apps.';
+
+/**
+ * An `IDriveTransport` that keeps all of its files, revisions,
+ * permissions, comments, and Team Drives in memory.
+ *
+ * #### Notes
+ * This implements the subset of the Google Drive v3 API that is
+ * used by the drive functions, including the query language for
+ * `files.list`. It is intended for running the `GoogleDrive`
+ * contents manager without a connection to the Google servers,
+ * such as in tests and demos.
+ */
+export
+class InMemoryDriveTransport implements IDriveTransport {
+  /**
+   * Construct a new in-memory transport.
+   */
+  constructor(options: InMemoryDriveTransport.IOptions = {}) {
+    this._user = {
+      kind: 'drive#user',
+      me: true,
+      displayName: options.displayName || 'JupyterLab User',
+      emailAddress: options.emailAddress || 'user@example.com',
+      permissionId: 'permission-owner'
+    };
+    this._rootId = this._newId();
+    this._store.set(this._rootId, {
+      resource: {
+        kind: 'drive#file',
+        id: this._rootId,
+        name: options.rootName || 'My Drive',
+        mimeType: FOLDER_MIMETYPE,
+        parents: [],
+        ...this._newMetadata()
+      },
+      content: '',
+      revisions: [],
+      permissions: [this._ownerPermission()]
+    });
+
+    this.files = {
+      list: params => this._request(() => this._listFiles(params)),
+      get: params => this._request(() => this._getFile(params)),
+      create: params => this._request(() => this._createFile(params)),
+      update: params => this._request(() => this._updateFile(params)),
+      copy: params => this._request(() => this._copyFile(params)),
+      delete: params => this._request(() => this._deleteFile(params), 204)
+    };
+    this.revisions = {
+      list: params => this._request(() => this._listRevisions(params)),
+      get: params => this._request(() => this._getRevision(params)),
+      update: params => this._request(() => this._updateRevision(params))
+    };
+    this.permissions = {
+      list: params => this._request(() => this._listPermissions(params)),
+      create: params => this._request(() => this._createPermission(params)),
+      update: params => this._request(() => this._updatePermission(params)),
+      delete: params => this._request(() => this._deletePermission(params), 204)
+    };
+    this.comments = {
+      list: params => this._request(() => this._listComments(params)),
+      create: params => this._request(() => this._createComment(params))
+    };
+    this.replies = {
+      create: params => this._request(() => this._createReply(params))
+    };
+    this.teamdrives = {
+      list: params => this._request(() => {
+        const teamDrives: gapi.client.drive.TeamDrive[] = [];
+        this._teamDrives.forEach(drive => {
+          teamDrives.push(Private.copy(drive));
+        });
+        const page = Private.paginate(teamDrives, params);
+        return {
+          kind: 'drive#teamDriveList',
+          teamDrives: page.items,
+          nextPageToken: page.nextPageToken
+        };
+      })
+    };
+    this.changes = {
+      getStartPageToken: params => this._request(() => {
+        return {
+          kind: 'drive#startPageToken',
+          startPageToken: String(this._changes.length)
+        };
+      }),
+      list: params => this._request(() => this._listChanges(params))
+    };
+  }
+
+  /**
+   * The in-memory transport is always ready.
+   */
+  readonly ready = Promise.resolve(void 0);
+
+  /**
+   * The files resource.
+   */
+  readonly files: IDriveTransport.IFilesResource;
+
+  /**
+   * The revisions resource.
+   */
+  readonly revisions: IDriveTransport.IRevisionsResource;
+
+  /**
+   * The permissions resource.
+   */
+  readonly permissions: IDriveTransport.IPermissionsResource;
+
+  /**
+   * The comments resource.
+   */
+  readonly comments: IDriveTransport.ICommentsResource;
+
+  /**
+   * The replies resource.
+   */
+  readonly replies: IDriveTransport.IRepliesResource;
+
+  /**
+   * The Team Drives resource.
+   */
+  readonly teamdrives: IDriveTransport.ITeamDrivesResource;
+
+  /**
+   * The changes resource.
+   */
+  readonly changes: IDriveTransport.IChangesResource;
+
+  /**
+   * The id of the root folder of the user's drive.
+   */
+  get rootId(): string {
+    return this._rootId;
+  }
+
+  /**
+   * The in-memory transport needs no authorization.
+   */
+  refreshAuthorization(): Promise<void> {
+    return Promise.resolve(void 0);
+  }
+
+  /**
+   * Upload the content of a file.
+   */
+  upload(options: IDriveTransport.IUploadOptions): IDriveTransport.IRequest<gapi.client.drive.File> {
+    return this._request(() => {
+      let content: string;
+      if (options.content instanceof Uint8Array) {
+        content = Private.bytesToString(options.content);
+      } else {
+        content = options.base64 ? atob(options.content) :
+                  Private.encodeText(options.content);
+      }
+      let file: Private.IStoredFile;
+      if (options.fileId) {
+        file = this._getStoredFile(options.fileId);
+      } else {
+        const resource = this._newResource(options.resource);
+        file = {
+          resource: { ...resource, mimeType: options.mimeType },
+          content: '',
+          revisions: [],
+          permissions: [this._ownerPermission()]
+        };
+        this._store.set(resource.id!, file);
+      }
+      this._writeContent(file, content);
+      this._recordChange(file.resource.id!);
+      return Private.copy(file.resource);
+    });
+  }
+
+  /**
+   * Download the raw bytes of a file, or of one of its revisions.
+   */
+  download(options: IDriveTransport.IDownloadOptions): IDriveTransport.IRequest<ArrayBuffer> {
+    return this._request(() => {
+      const file = this._getStoredFile(options.fileId);
+      Private.checkDownloadable(file);
+      const content = options.revisionId ?
+        this._getStoredRevision(file, options.revisionId).content :
+        file.content;
+      return Private.stringToBytes(content).buffer as ArrayBuffer;
+    });
+  }
+
+  /**
+   * Export the raw bytes of a native Google file.
+   */
+  export(options: IDriveTransport.IExportOptions): IDriveTransport.IRequest<ArrayBuffer> {
+    return this._request(() => {
+      const file = this._getStoredFile(options.fileId);
+      if (!file.exports) {
+        throw new Private.TransportError(403, 'fileNotExportable',
+          'Export only supports Docs Editors files.');
+      }
+      const content = file.exports[options.mimeType];
+      if (content === undefined) {
+        throw new Private.TransportError(400, 'badRequest',
+          'The requested conversion is not supported.');
+      }
+      return Private.stringToBytes(content).buffer as ArrayBuffer;
+    });
+  }
+
+  /**
+   * Begin a resumable upload session.
+   */
+  beginResumableUpload(options: IDriveTransport.IResumableUploadOptions): IDriveTransport.IRequest<string> {
+    return this._request(() => {
+      if (options.fileId) {
+        this._getStoredFile(options.fileId);
+      }
+      const sessionUri = `memory://upload/${this._newId()}`;
+      this._uploads.set(sessionUri, {
+        options,
+        bytes: new Uint8Array(options.size),
+        received: 0
+      });
+      return sessionUri;
+    });
+  }
+
+  /**
+   * Upload a chunk of content to a resumable upload session.
+   */
+  uploadChunk(options: IDriveTransport.IChunkOptions): IDriveTransport.IRequest<IDriveTransport.IUploadStatus> {
+    return this._request(() => {
+      const upload = this._getUpload(options.sessionUri);
+      const end = options.start + options.chunk.length;
+      if (options.start > upload.received || end > upload.options.size) {
+        throw new Private.TransportError(400, 'badContentRange',
+          'Invalid Content-Range for the upload.');
+      }
+      upload.bytes.set(options.chunk, options.start);
+      upload.received = Math.max(upload.received, end);
+      if (options.onProgress) {
+        options.onProgress(options.chunk.length);
+      }
+      return this._uploadStatus(options.sessionUri, upload);
+    });
+  }
+
+  /**
+   * Query the status of a resumable upload session.
+   */
+  queryUpload(sessionUri: string, size: number): IDriveTransport.IRequest<IDriveTransport.IUploadStatus> {
+    return this._request(() => {
+      return { received: this._getUpload(sessionUri).received };
+    });
+  }
+
+  /**
+   * Add a new Team Drive.
+   *
+   * @param name - the name of the Team Drive.
+   *
+   * @returns the Team Drive resource.
+   */
+  addTeamDrive(name: string): gapi.client.drive.TeamDrive {
+    const drive: gapi.client.drive.TeamDrive = {
+      kind: 'drive#teamDrive',
+      id: this._newId(),
+      name,
+      capabilities: {
+        canAddChildren: true,
+        canEdit: true,
+        canListChildren: true,
+        canShare: true
+      }
+    };
+    this._teamDrives.set(drive.id!, drive);
+    return Private.copy(drive);
+  }
+
+  /**
+   * Add a file that another user has shared with the current user.
+   *
+   * @param resource - the metadata for the file. It is not placed
+   *   in any folder of the current user's drive.
+   *
+   * @param content - the text content of the file.
+   *
+   * @returns the files resource of the new file.
+   */
+  addSharedFile(resource: gapi.client.drive.File, content: string = ''): gapi.client.drive.File {
+    const file: Private.IStoredFile = {
+      resource: {
+        ...this._newResource({ ...resource, parents: [] }),
+        ownedByMe: false,
+        shared: true,
+        sharedWithMeTime: new Date().toISOString(),
+        capabilities: { ...Private.CAPABILITIES, canEdit: false }
+      },
+      content: '',
+      revisions: [],
+      permissions: []
+    };
+    this._store.set(file.resource.id!, file);
+    this._writeContent(file, Private.encodeText(content));
+    this._recordChange(file.resource.id!);
+    return Private.copy(file.resource);
+  }
+
+  /**
+   * Add a native Google file, such as a Docs, Sheets, or Slides
+   * file, whose content can only be exported.
+   *
+   * @param resource - the metadata for the file, including
+   *   its native mimetype.
+   *
+   * @param exports - the text content of the file for each
+   *   mimetype to which it can be exported.
+   *
+   * @returns the files resource of the new file.
+   */
+  addGoogleFile(resource: gapi.client.drive.File, exports: { [mimeType: string]: string }): gapi.client.drive.File {
+    const file: Private.IStoredFile = {
+      resource: this._newResource(resource),
+      content: '',
+      revisions: [],
+      permissions: [this._ownerPermission()],
+      exports: {}
+    };
+    for (let mimeType in exports) {
+      file.exports![mimeType] = Private.encodeText(exports[mimeType]);
+    }
+    this._store.set(file.resource.id!, file);
+    this._recordChange(file.resource.id!);
+    return Private.copy(file.resource);
+  }
+
+  /**
+   * Wrap a synchronous operation in a request-like promise.
+   * Errors thrown as `Private.TransportError`s are turned into
+   * error responses.
+   */
+  private _request<T>(fn: () => T, status: number = 200): IDriveTransport.IRequest<T> {
+    return new Promise<IDriveTransport.IResponse<T>>((resolve, reject) => {
+      try {
+        const result = fn();
+        if (result instanceof Private.MediaResult) {
+          resolve({ status, result: result.json, body: result.body });
+        } else {
+          const empty = result === undefined || result instanceof ArrayBuffer;
+          resolve({
+            status,
+            result,
+            body: empty ? '' : JSON.stringify(result)
+          });
+        }
+      } catch (err) {
+        if (err instanceof Private.TransportError) {
+          reject(err.toResponse());
+        } else {
+          throw err;
+        }
+      }
+    });
+  }
+
+  /**
+   * List files matching a query.
+   */
+  private _listFiles(params: IDriveTransport.IFilesListParams): gapi.client.drive.FileList {
+    const matches = params.q ? Private.compileQuery(params.q, this._rootId) :
+                    () => true;
+    const files: gapi.client.drive.File[] = [];
+    this._store.forEach(file => {
+      const resource = file.resource;
+      if (params.corpora === 'teamDrive') {
+        if (resource.teamDriveId !== params.teamDriveId) {
+          return;
+        }
+      } else if (resource.teamDriveId && !params.includeTeamDriveItems) {
+        return;
+      }
+      if (resource.id === this._rootId) {
+        return;
+      }
+      if (matches(file)) {
+        files.push(Private.copy(resource));
+      }
+    });
+    const page = Private.paginate(files, params);
+    return {
+      kind: 'drive#fileList',
+      files: page.items,
+      nextPageToken: page.nextPageToken
+    };
+  }
+
+  /**
+   * Get a file, or its content.
+   */
+  private _getFile(params: { fileId: string, alt?: string }): gapi.client.drive.File | Private.MediaResult {
+    const file = this._getStoredFile(params.fileId);
+    if (params.alt === 'media') {
+      Private.checkDownloadable(file);
+      return new Private.MediaResult(file.content, file.resource.mimeType!);
+    }
+    return Private.copy(file.resource);
+  }
+
+  /**
+   * Create a file from metadata.
+   */
+  private _createFile(params: { resource: gapi.client.drive.File }): gapi.client.drive.File {
+    const resource = this._newResource(params.resource);
+    const file = {
+      resource,
+      content: '',
+      revisions: [] as Private.IStoredRevision[],
+      permissions: [this._ownerPermission()]
+    };
+    this._store.set(resource.id!, file);
+    if (resource.mimeType !== FOLDER_MIMETYPE) {
+      this._writeContent(file, '');
+    }
+    this._recordChange(resource.id!);
+    return Private.copy(file.resource);
+  }
+
+  /**
+   * Update the metadata for a file.
+   */
+  private _updateFile(params: { fileId: string, resource?: gapi.client.drive.File, addParents?: string, removeParents?: string }): gapi.client.drive.File {
+    const file = this._getStoredFile(params.fileId);
+    let parents = (file.resource.parents || []).slice();
+    if (params.removeParents) {
+      const removed = params.removeParents.split(',');
+      parents = parents.filter(p => removed.indexOf(p) === -1);
+    }
+    if (params.addParents) {
+      for (let parent of params.addParents.split(',')) {
+        parent = this._resolveId(parent);
+        this._getParentTeamDriveId(parent);
+        if (parents.indexOf(parent) === -1) {
+          parents.push(parent);
+        }
+      }
+    }
+    const resource = Private.pickWritable(params.resource || {});
+    // Properties are merged with the existing ones.
+    for (let field of ['properties', 'appProperties']) {
+      if ((resource as any)[field] !== undefined) {
+        (resource as any)[field] = Private.mergeProperties(
+          (file.resource as any)[field], (resource as any)[field]);
+      }
+    }
+    file.resource = {
+      ...file.resource,
+      ...resource,
+      parents,
+      modifiedTime: new Date().toISOString()
+    };
+    if (resource.trashed !== undefined) {
+      file.resource.explicitlyTrashed = resource.trashed;
+      file.resource.trashedTime = resource.trashed ?
+                                  file.resource.modifiedTime : undefined;
+      this._trashDescendants(file.resource.id!, resource.trashed);
+    }
+    if (params.addParents && parents.length) {
+      file.resource.teamDriveId = this._getParentTeamDriveId(parents[0]);
+    }
+    this._recordChange(file.resource.id!);
+    return Private.copy(file.resource);
+  }
+
+  /**
+   * Copy a file.
+   */
+  private _copyFile(params: { fileId: string, resource?: gapi.client.drive.File }): gapi.client.drive.File {
+    const original = this._getStoredFile(params.fileId);
+    if (original.resource.mimeType === FOLDER_MIMETYPE) {
+      throw new Private.TransportError(403, 'fileNotCopyable',
+        'The user does not have permission to copy a folder.');
+    }
+    const overrides = params.resource || {};
+    const resource = this._newResource({
+      name: overrides.name || original.resource.name,
+      mimeType: original.resource.mimeType,
+      parents: overrides.parents || original.resource.parents,
+      properties: overrides.properties || original.resource.properties,
+      description: overrides.description || original.resource.description
+    });
+    const file: Private.IStoredFile = {
+      resource,
+      content: '',
+      revisions: [],
+      permissions: [this._ownerPermission()],
+      exports: original.exports && { ...original.exports }
+    };
+    this._store.set(resource.id!, file);
+    if (!file.exports) {
+      this._writeContent(file, original.content);
+    }
+    this._recordChange(resource.id!);
+    return Private.copy(file.resource);
+  }
+
+  /**
+   * Trash or restore the descendants of a folder along with it.
+   * Descendants which were trashed explicitly stay in the trash.
+   */
+  private _trashDescendants(id: string, trashed: boolean): void {
+    this._store.forEach(child => {
+      const resource = child.resource;
+      if ((resource.parents || []).indexOf(id) === -1 ||
+          resource.explicitlyTrashed) {
+        return;
+      }
+      resource.trashed = trashed;
+      resource.explicitlyTrashed = false;
+      this._recordChange(resource.id!, resource.teamDriveId);
+      this._trashDescendants(resource.id!, trashed);
+    });
+  }
+
+  /**
+   * Permanently delete a file, along with any descendants.
+   */
+  private _deleteFile(params: { fileId: string }): void {
+    const file = this._getStoredFile(params.fileId);
+    const id = file.resource.id!;
+    if (id === this._rootId) {
+      throw new Private.TransportError(403, 'cannotDeleteRoot',
+        'The root folder cannot be deleted.');
+    }
+    this._store.delete(id);
+    this._recordChange(id, file.resource.teamDriveId);
+    const children: string[] = [];
+    this._store.forEach(child => {
+      if ((child.resource.parents || []).indexOf(id) !== -1) {
+        children.push(child.resource.id!);
+      }
+    });
+    for (let child of children) {
+      this._deleteFile({ fileId: child });
+    }
+  }
+
+  /**
+   * Get a resumable upload session, throwing if it does not exist.
+   */
+  private _getUpload(sessionUri: string): Private.IUpload {
+    const upload = this._uploads.get(sessionUri);
+    if (!upload) {
+      throw new Private.TransportError(404, 'notFound',
+        'Upload session not found.');
+    }
+    return upload;
+  }
+
+  /**
+   * Get the status of a resumable upload, finishing it
+   * if all of the content has been received.
+   */
+  private _uploadStatus(sessionUri: string, upload: Private.IUpload): IDriveTransport.IUploadStatus {
+    const options = upload.options;
+    if (upload.received < options.size) {
+      return { received: upload.received };
+    }
+    this._uploads.delete(sessionUri);
+    let file: Private.IStoredFile;
+    if (options.fileId) {
+      file = this._getStoredFile(options.fileId);
+    } else {
+      const resource = this._newResource(options.resource);
+      file = {
+        resource: { ...resource, mimeType: options.mimeType },
+        content: '',
+        revisions: [],
+        permissions: [this._ownerPermission()]
+      };
+      this._store.set(resource.id!, file);
+    }
+    this._writeContent(file, Private.bytesToString(upload.bytes));
+    this._recordChange(file.resource.id!);
+    return { received: upload.received, file: Private.copy(file.resource) };
+  }
+
+  /**
+   * List the changes since a page token.
+   */
+  private _listChanges(params: { pageToken: string, includeTeamDriveItems?: boolean, pageSize?: number }): gapi.client.drive.ChangeList {
+    // The page tokens index into the full list of changes,
+    // so we page through it before filtering.
+    const page = Private.paginate(this._changes, params);
+    const changes = page.items.filter(change => {
+      return !change.teamDriveId || params.includeTeamDriveItems;
+    });
+    return {
+      kind: 'drive#changeList',
+      changes: changes.map(change => Private.copy(change)),
+      nextPageToken: page.nextPageToken,
+      newStartPageToken: page.nextPageToken ?
+                         undefined : String(this._changes.length)
+    };
+  }
+
+  /**
+   * List the revisions of a file.
+   */
+  private _listRevisions(params: { fileId: string, pageSize?: number, pageToken?: string }): gapi.client.drive.RevisionList {
+    const file = this._getStoredFile(params.fileId);
+    const page = Private.paginate(
+      file.revisions.map(r => Private.copy(r.resource)), params);
+    return {
+      kind: 'drive#revisionList',
+      revisions: page.items,
+      nextPageToken: page.nextPageToken
+    };
+  }
+
+  /**
+   * Get a revision, or its content.
+   */
+  private _getRevision(params: { fileId: string, revisionId: string, alt?: string }): gapi.client.drive.Revision | Private.MediaResult {
+    const file = this._getStoredFile(params.fileId);
+    const revision = this._getStoredRevision(file, params.revisionId);
+    if (params.alt === 'media') {
+      return new Private.MediaResult(revision.content,
+                                     revision.resource.mimeType!);
+    }
+    return Private.copy(revision.resource);
+  }
+
+  /**
+   * Update the metadata of a revision.
+   */
+  private _updateRevision(params: { fileId: string, revisionId: string, resource: gapi.client.drive.Revision }): gapi.client.drive.Revision {
+    const file = this._getStoredFile(params.fileId);
+    const revision = this._getStoredRevision(file, params.revisionId);
+    if (params.resource.keepForever !== undefined) {
+      revision.resource.keepForever = params.resource.keepForever;
+    }
+    return Private.copy(revision.resource);
+  }
+
+  /**
+   * List the permissions on a file.
+   */
+  private _listPermissions(params: { fileId: string }): gapi.client.drive.PermissionList {
+    const file = this._getStoredFile(params.fileId);
+    return {
+      kind: 'drive#permissionList',
+      permissions: file.permissions.map(p => Private.copy(p))
+    };
+  }
+
+  /**
+   * Create a permission on a file.
+   */
+  private _createPermission(params: { fileId: string, resource: gapi.client.drive.Permission }): gapi.client.drive.Permission {
+    const file = this._getStoredFile(params.fileId);
+    const permission: gapi.client.drive.Permission = {
+      ...params.resource,
+      kind: 'drive#permission',
+      id: this._newId()
+    };
+    if (!permission.role || !permission.type) {
+      throw new Private.TransportError(400, 'required',
+        'A permission requires a role and a type.');
+    }
+    file.permissions.push(permission);
+    file.resource.shared = true;
+    this._recordChange(file.resource.id!);
+    return Private.copy(permission);
+  }
+
+  /**
+   * Update a permission on a file.
+   */
+  private _updatePermission(params: { fileId: string, permissionId: string, resource: gapi.client.drive.Permission }): gapi.client.drive.Permission {
+    const file = this._getStoredFile(params.fileId);
+    const permission = this._getStoredPermission(file, params.permissionId);
+    if (params.resource.role) {
+      permission.role = params.resource.role;
+    }
+    if (params.resource.expirationTime) {
+      permission.expirationTime = params.resource.expirationTime;
+    }
+    this._recordChange(file.resource.id!);
+    return Private.copy(permission);
+  }
+
+  /**
+   * Delete a permission on a file.
+   */
+  private _deletePermission(params: { fileId: string, permissionId: string }): void {
+    const file = this._getStoredFile(params.fileId);
+    const permission = this._getStoredPermission(file, params.permissionId);
+    if (permission.role === 'owner') {
+      throw new Private.TransportError(403, 'cannotRemoveOwner',
+        'The owner of a file cannot be removed.');
+    }
+    file.permissions.splice(file.permissions.indexOf(permission), 1);
+    this._recordChange(file.resource.id!);
+  }
+
+  /**
+   * List the comments on a file, with their replies.
+   */
+  private _listComments(params: { fileId: string, includeDeleted?: boolean, pageSize?: number, pageToken?: string }): gapi.client.drive.CommentList {
+    const file = this._getStoredFile(params.fileId);
+    const comments = (file.comments || []).filter(comment => {
+      return params.includeDeleted || !comment.deleted;
+    });
+    const page = Private.paginate(
+      comments.map(comment => Private.copy(comment)), params);
+    return {
+      kind: 'drive#commentList',
+      comments: page.items,
+      nextPageToken: page.nextPageToken
+    };
+  }
+
+  /**
+   * Create a comment on a file.
+   */
+  private _createComment(params: { fileId: string, resource: gapi.client.drive.Comment }): gapi.client.drive.Comment {
+    const file = this._getStoredFile(params.fileId);
+    if (!params.resource.content) {
+      throw new Private.TransportError(400, 'required',
+        'A comment requires content.');
+    }
+    const now = new Date().toISOString();
+    const comment: gapi.client.drive.Comment = {
+      kind: 'drive#comment',
+      id: this._newId(),
+      author: Private.copy(this._user),
+      content: params.resource.content,
+      htmlContent: Private.escapeHtml(params.resource.content),
+      createdTime: now,
+      modifiedTime: now,
+      deleted: false,
+      resolved: false,
+      replies: []
+    };
+    if (params.resource.anchor) {
+      comment.anchor = params.resource.anchor;
+    }
+    if (params.resource.quotedFileContent) {
+      comment.quotedFileContent = {
+        mimeType: file.resource.mimeType,
+        value: params.resource.quotedFileContent.value
+      };
+    }
+    file.comments = file.comments || [];
+    file.comments.push(comment);
+    return Private.copy(comment);
+  }
+
+  /**
+   * Create a reply to a comment, which may resolve or reopen it.
+   */
+  private _createReply(params: { fileId: string, commentId: string, resource: gapi.client.drive.Reply }): gapi.client.drive.Reply {
+    const file = this._getStoredFile(params.fileId);
+    const comment = (file.comments || []).filter(c => {
+      return c.id === params.commentId && !c.deleted;
+    })[0];
+    if (!comment) {
+      throw new Private.TransportError(404, 'notFound',
+        `Comment not found: ${params.commentId}.`);
+    }
+    const action = params.resource.action;
+    if (action && action !== 'resolve' && action !== 'reopen') {
+      throw new Private.TransportError(400, 'invalid',
+        `Invalid action: ${action}.`);
+    }
+    if (!action && !params.resource.content) {
+      throw new Private.TransportError(400, 'required',
+        'A reply requires content or an action.');
+    }
+    const now = new Date().toISOString();
+    const reply: gapi.client.drive.Reply = {
+      kind: 'drive#reply',
+      id: this._newId(),
+      author: Private.copy(this._user),
+      content: params.resource.content || '',
+      htmlContent: Private.escapeHtml(params.resource.content || ''),
+      createdTime: now,
+      modifiedTime: now,
+      deleted: false
+    };
+    if (action) {
+      reply.action = action;
+      comment.resolved = action === 'resolve';
+    }
+    comment.replies!.push(reply);
+    comment.modifiedTime = now;
+    return Private.copy(reply);
+  }
+
+  /**
+   * Write new content to a file, creating a new head revision.
+   */
+  private _writeContent(file: Private.IStoredFile, content: string): void {
+    const now = new Date().toISOString();
+    const revision: Private.IStoredRevision = {
+      resource: {
+        kind: 'drive#revision',
+        id: this._newId(),
+        mimeType: file.resource.mimeType,
+        modifiedTime: now,
+        keepForever: false,
+        size: String(content.length),
+        lastModifyingUser: Private.copy(this._user)
+      },
+      content
+    };
+    file.content = content;
+    file.revisions.push(revision);
+    file.resource.headRevisionId = revision.resource.id;
+    file.resource.modifiedTime = now;
+    file.resource.size = String(content.length);
+    file.resource.version = String(file.revisions.length);
+    file.resource.lastModifyingUser = Private.copy(this._user);
+  }
+
+  /**
+   * Record a change to a file in the list of changes, and bring
+   * the permissions listed in its files resource up to date.
+   *
+   * @param fileId - the id of the changed file.
+   *
+   * @param teamDriveId - the Team Drive of the file, if it was removed.
+   */
+  private _recordChange(fileId: string, teamDriveId?: string): void {
+    const file = this._store.get(fileId);
+    if (file) {
+      file.resource.permissions = file.permissions.map(permission => {
+        return { id: permission.id, role: permission.role };
+      });
+    }
+    const change: gapi.client.drive.Change = {
+      kind: 'drive#change',
+      type: 'file',
+      fileId,
+      removed: !file,
+      time: new Date().toISOString()
+    };
+    if (file) {
+      change.file = Private.copy(file.resource);
+      change.teamDriveId = file.resource.teamDriveId;
+    } else {
+      change.teamDriveId = teamDriveId;
+    }
+    this._changes.push(change);
+  }
+
+  /**
+   * Construct the files resource for a new file.
+   */
+  private _newResource(resource: gapi.client.drive.File): gapi.client.drive.File {
+    const id = this._newId();
+    const parents = (resource.parents || [this._rootId]).map(
+      p => this._resolveId(p));
+    const teamDriveId = parents.length ?
+                        this._getParentTeamDriveId(parents[0]) : undefined;
+    const writable = Private.pickWritable(resource);
+    for (let field of ['properties', 'appProperties']) {
+      if ((writable as any)[field] !== undefined) {
+        (writable as any)[field] = Private.mergeProperties(
+          undefined, (writable as any)[field]);
+      }
+    }
+    return {
+      ...writable,
+      kind: 'drive#file',
+      id,
+      name: resource.name || 'Untitled',
+      mimeType: resource.mimeType || 'application/octet-stream',
+      parents,
+      teamDriveId,
+      webContentLink: `memory://${id}`,
+      ...this._newMetadata()
+    };
+  }
+
+  /**
+   * Construct the metadata common to all new files.
+   */
+  private _newMetadata(): gapi.client.drive.File {
+    const now = new Date().toISOString();
+    return {
+      trashed: false,
+      createdTime: now,
+      modifiedTime: now,
+      ownedByMe: true,
+      owners: [Private.copy(this._user)],
+      capabilities: { ...Private.CAPABILITIES }
+    };
+  }
+
+  /**
+   * Construct an owner permission for the current user.
+   */
+  private _ownerPermission(): gapi.client.drive.Permission {
+    return {
+      kind: 'drive#permission',
+      id: this._user.permissionId,
+      type: 'user',
+      role: 'owner',
+      emailAddress: this._user.emailAddress,
+      displayName: this._user.displayName
+    };
+  }
+
+  /**
+   * Get the Team Drive id for a new child of a parent folder,
+   * throwing if the parent does not exist.
+   */
+  private _getParentTeamDriveId(parentId: string): string | undefined {
+    if (this._teamDrives.has(parentId)) {
+      return parentId;
+    }
+    const parent = this._store.get(parentId);
+    if (!parent || parent.resource.mimeType !== FOLDER_MIMETYPE) {
+      throw new Private.TransportError(404, 'notFound',
+        `File not found: ${parentId}.`);
+    }
+    return parent.resource.teamDriveId;
+  }
+
+  /**
+   * Resolve the `root` alias for a file id.
+   */
+  private _resolveId(id: string): string {
+    return id === 'root' ? this._rootId : id;
+  }
+
+  /**
+   * Get the stored file for an id, throwing if it does not exist.
+   */
+  private _getStoredFile(fileId: string): Private.IStoredFile {
+    const file = this._store.get(this._resolveId(fileId));
+    if (!file) {
+      throw new Private.TransportError(404, 'notFound',
+        `File not found: ${fileId}.`);
+    }
+    return file;
+  }
+
+  /**
+   * Get a stored revision for an id, throwing if it does not exist.
+   */
+  private _getStoredRevision(file: Private.IStoredFile, revisionId: string): Private.IStoredRevision {
+    for (let revision of file.revisions) {
+      if (revision.resource.id === revisionId) {
+        return revision;
+      }
+    }
+    throw new Private.TransportError(404, 'notFound',
+      `Revision not found: ${revisionId}.`);
+  }
+
+  /**
+   * Get a stored permission for an id, throwing if it does not exist.
+   */
+  private _getStoredPermission(file: Private.IStoredFile, permissionId: string): gapi.client.drive.Permission {
+    for (let permission of file.permissions) {
+      if (permission.id === permissionId) {
+        return permission;
+      }
+    }
+    throw new Private.TransportError(404, 'notFound',
+      `Permission not found: ${permissionId}.`);
+  }
+
+  /**
+   * Generate a new unique id.
+   */
+  private _newId(): string {
+    return `memory-${++Private.idCounter}`;
+  }
+
+  private _rootId: string;
+  private _user: gapi.client.drive.User;
+  private _store = new Map<string, Private.IStoredFile>();
+  private _teamDrives = new Map<string, gapi.client.drive.TeamDrive>();
+  private _changes: gapi.client.drive.Change[] = [];
+  private _uploads = new Map<string, Private.IUpload>();
+}
+
+/**
+ * A namespace for `InMemoryDriveTransport` statics.
+ */
+export
+namespace InMemoryDriveTransport {
+  /**
+   * Options for creating an in-memory transport.
+   */
+  export
+  interface IOptions {
+    /**
+     * The name of the root folder of the user's drive.
+     * Defaults to `'My Drive'`.
+     */
+    rootName?: string;
+
+    /**
+     * The display name of the current user.
+     */
+    displayName?: string;
+
+    /**
+     * The email address of the current user.
+     */
+    emailAddress?: string;
+  }
+}
+
+/**
+ * A namespace for private data.
+ */
+namespace Private {
+  /**
+   * A file, as stored by the in-memory transport.
+   */
+  export
+  interface IStoredFile {
+    resource: gapi.client.drive.File;
+    content: string;
+    revisions: IStoredRevision[];
+    permissions: gapi.client.drive.Permission[];
+
+    /**
+     * The comments on the file, which are created as they are needed.
+     */
+    comments?: gapi.client.drive.Comment[];
+
+    /**
+     * The content of a native Google file for each mimetype
+     * to which it can be exported, as a string of bytes.
+     */
+    exports?: { [mimeType: string]: string };
+  }
+
+  /**
+   * Escape the special characters of some text for use as HTML.
+   */
+  export
+  function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+               .replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+               .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Check that the content of a file can be downloaded,
+   * which is not the case for folders and native Google files.
+   */
+  export
+  function checkDownloadable(file: IStoredFile): void {
+    const mimeType = file.resource.mimeType || '';
+    if (mimeType === FOLDER_MIMETYPE) {
+      throw new TransportError(403, 'fileNotDownloadable',
+        'Only files with binary content can be downloaded.');
+    }
+    if (mimeType.indexOf(NATIVE_MIMETYPE_PREFIX) === 0) {
+      throw new TransportError(403, 'fileNotDownloadable',
+        'Only files with binary content can be downloaded. ' +
+        'Use Export with Docs Editors files.');
+    }
+  }
+
+  /**
+   * A resumable upload session.
+   */
+  export
+  interface IUpload {
+    options: IDriveTransport.IResumableUploadOptions;
+    bytes: Uint8Array;
+    received: number;
+  }
+
+  /**
+   * Encode text as a string of UTF-8 bytes, which is
+   * how the content of files is stored.
+   */
+  export
+  function encodeText(text: string): string {
+    return encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (match, hex) => {
+      return String.fromCharCode(parseInt(hex, 16));
+    });
+  }
+
+  /**
+   * Decode a string of UTF-8 bytes as text, falling
+   * back to the bytes if they are not valid UTF-8.
+   */
+  export
+  function decodeText(bytes: string): string {
+    try {
+      return decodeURIComponent(bytes.replace(/[^\w.!~*'()-]/g, char => {
+        return '%' + ('0' + char.charCodeAt(0).toString(16)).slice(-2);
+      }));
+    } catch (err) {
+      return bytes;
+    }
+  }
+
+  /**
+   * Convert a string of bytes to an array of bytes.
+   */
+  export
+  function stringToBytes(content: string): Uint8Array {
+    const bytes = new Uint8Array(content.length);
+    for (let i = 0; i < content.length; i++) {
+      bytes[i] = content.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  /**
+   * Convert an array of bytes to a string of bytes.
+   */
+  export
+  function bytesToString(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i++) {
+      result += String.fromCharCode(bytes[i]);
+    }
+    return result;
+  }
+
+  /**
+   * A revision, as stored by the in-memory transport.
+   */
+  export
+  interface IStoredRevision {
+    resource: gapi.client.drive.Revision;
+    content: string;
+  }
+
+  /**
+   * The capabilities of a file owned by the current user.
+   */
+  export
+  const CAPABILITIES = {
+    canAddChildren: true,
+    canComment: true,
+    canCopy: true,
+    canDelete: true,
+    canDownload: true,
+    canEdit: true,
+    canListChildren: true,
+    canReadRevisions: true,
+    canRename: true,
+    canShare: true,
+    canTrash: true,
+    canUntrash: true
+  };
+
+  /**
+   * The fields of a files resource which may be set by the user.
+   */
+  const WRITABLE_FIELDS = [
+    'name', 'mimeType', 'description', 'starred', 'trashed',
+    'properties', 'appProperties', 'parents'
+  ];
+
+  /**
+   * Pick out the user-writable fields of a files resource.
+   */
+  export
+  function pickWritable(resource: gapi.client.drive.File): gapi.client.drive.File {
+    const result: any = {};
+    for (let field of WRITABLE_FIELDS) {
+      if ((resource as any)[field] !== undefined) {
+        result[field] = copy((resource as any)[field]);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * The largest size of a property, in bytes of its key and value.
+   */
+  const MAX_PROPERTY_SIZE = 124;
+
+  /**
+   * Merge updates into the properties of a file, as Google Drive does.
+   * Properties with a `null` value are removed.
+   */
+  export
+  function mergeProperties(properties: { [key: string]: string } | undefined, updates: { [key: string]: string | null }): { [key: string]: string } {
+    const result = { ...(properties || {}) };
+    for (let key of Object.keys(updates)) {
+      const value = updates[key];
+      if (value === null) {
+        delete result[key];
+        continue;
+      }
+      if (encodeText(key + value).length > MAX_PROPERTY_SIZE) {
+        throw new TransportError(400, 'invalid', `The property "${key}" ` +
+          `is larger than the limit of ${MAX_PROPERTY_SIZE} bytes.`);
+      }
+      result[key] = String(value);
+    }
+    return result;
+  }
+
+  /**
+   * The default and maximum page sizes for list requests.
+   */
+  const DEFAULT_PAGE_SIZE = 100;
+  const MAX_PAGE_SIZE = 1000;
+
+  /**
+   * Get a page of the results of a list request. The page
+   * token is the offset of the page into the results.
+   */
+  export
+  function paginate<T>(items: T[], params: { pageSize?: number, pageToken?: string }): { items: T[], nextPageToken?: string } {
+    const pageSize = Math.min(params.pageSize || DEFAULT_PAGE_SIZE,
+                              MAX_PAGE_SIZE);
+    const start = params.pageToken ? Number(params.pageToken) : 0;
+    if (isNaN(start) || start < 0 || start > items.length) {
+      throw new TransportError(400, 'invalid', 'Invalid Value: pageToken');
+    }
+    const end = start + pageSize;
+    return {
+      items: items.slice(start, end),
+      nextPageToken: end < items.length ? String(end) : undefined
+    };
+  }
+
+  /**
+   * Make a deep copy of a resource, so that callers
+   * cannot mutate the stored values.
+   */
+  export
+  function copy<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * The result of a media download. Like the gapi client
+   * libraries, JSON content is parsed, and other content
+   * is given as the raw body with a `false` result.
+   */
+  export
+  class MediaResult {
+    constructor(content: string, mimeType: string) {
+      const body = decodeText(content);
+      this.body = body;
+      this.json = false;
+      if (/json$/.test(mimeType)) {
+        try {
+          this.json = JSON.parse(body);
+        } catch (err) {
+          // Fall back to the raw body.
+        }
+      }
+    }
+
+    readonly body: string;
+    readonly json: any;
+  }
+
+  /**
+   * A counter for generating ids. Like the ids of Google Drive,
+   * these are unique across all of the transports.
+   */
+  export
+  let idCounter = 0;
+
+  /**
+   * An error thrown by the in-memory transport, which is
+   * turned into an error response.
+   */
+  export
+  class TransportError {
+    constructor(code: number, reason: string, message: string) {
+      this.code = code;
+      this.reason = reason;
+      this.message = message;
+    }
+
+    readonly code: number;
+    readonly reason: string;
+    readonly message: string;
+
+    /**
+     * Convert the error to the format of a failed response.
+     */
+    toResponse(): IDriveTransport.IErrorResponse {
+      const result = {
+        error: {
+          code: this.code,
+          message: this.message,
+          errors: [{ reason: this.reason, message: this.message }]
+        }
+      };
+      return { status: this.code, result, body: JSON.stringify(result) };
+    }
+  }
+
+  /**
+   * A predicate for whether a stored file matches a query.
+   */
+  export
+  type Predicate = (file: IStoredFile) => boolean;
+
+  /**
+   * Compile a Google Drive v3 query string into a predicate.
+   *
+   * @param query - the query string.
+   *
+   * @param rootId - the id of the root folder, to which
+   *   the `'root'` alias refers.
+   *
+   * #### Notes
+   * This supports `and`, `or`, `not`, parentheses, the `=`, `!=`,
+   * `<`, `<=`, `>`, `>=`, `contains` and `in` operators, and the
+   * `properties has { key='...' and value='...' }` form.
+   */
+  export
+  function compileQuery(query: string, rootId: string): Predicate {
+    const parser = new QueryParser(tokenize(query), rootId);
+    return parser.parse();
+  }
+
+  /**
+   * A token in a query string.
+   */
+  interface IToken {
+    type: 'string' | 'word' | 'op' | 'punct';
+    value: string;
+  }
+
+  /**
+   * Split a query string into tokens.
+   */
+  function tokenize(query: string): IToken[] {
+    const tokens: IToken[] = [];
+    let i = 0;
+    while (i < query.length) {
+      const c = query[i];
+      if (/\s/.test(c)) {
+        i++;
+      } else if (c === '\'') {
+        // A string literal, with backslash escapes.
+        let value = '';
+        i++;
+        while (i < query.length && query[i] !== '\'') {
+          if (query[i] === '\\') {
+            i++;
+          }
+          value += query[i];
+          i++;
+        }
+        if (i >= query.length) {
+          throw new TransportError(400, 'invalid',
+            `Invalid Value: unterminated string in query: ${query}`);
+        }
+        i++;
+        tokens.push({ type: 'string', value });
+      } else if ('(){}'.indexOf(c) !== -1) {
+        tokens.push({ type: 'punct', value: c });
+        i++;
+      } else if ('=!<>'.indexOf(c) !== -1) {
+        let value = c;
+        if (query[i + 1] === '=') {
+          value += '=';
+        }
+        i += value.length;
+        tokens.push({ type: 'op', value });
+      } else {
+        const match = /^[A-Za-z0-9_\-:.]+/.exec(query.slice(i));
+        if (!match) {
+          throw new TransportError(400, 'invalid',
+            `Invalid Value: unexpected character in query: ${c}`);
+        }
+        tokens.push({ type: 'word', value: match[0] });
+        i += match[0].length;
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * A recursive descent parser for query strings.
+   */
+  class QueryParser {
+    constructor(tokens: IToken[], rootId: string) {
+      this._tokens = tokens;
+      this._rootId = rootId;
+    }
+
+    /**
+     * Parse the full query.
+     */
+    parse(): Predicate {
+      const predicate = this._parseOr();
+      if (this._pos !== this._tokens.length) {
+        this._fail();
+      }
+      return predicate;
+    }
+
+    private _parseOr(): Predicate {
+      const terms = [this._parseAnd()];
+      while (this._peekWord('or')) {
+        this._pos++;
+        terms.push(this._parseAnd());
+      }
+      return terms.length === 1 ? terms[0] :
+             file => terms.some(t => t(file));
+    }
+
+    private _parseAnd(): Predicate {
+      const terms = [this._parseNot()];
+      while (this._peekWord('and')) {
+        this._pos++;
+        terms.push(this._parseNot());
+      }
+      return terms.length === 1 ? terms[0] :
+             file => terms.every(t => t(file));
+    }
+
+    private _parseNot(): Predicate {
+      if (this._peekWord('not')) {
+        this._pos++;
+        const term = this._parseNot();
+        return file => !term(file);
+      }
+      const token = this._tokens[this._pos];
+      if (token && token.type === 'punct' && token.value === '(') {
+        this._pos++;
+        const term = this._parseOr();
+        this._expect('punct', ')');
+        return term;
+      }
+      return this._parseComparison();
+    }
+
+    private _parseComparison(): Predicate {
+      const first = this._next();
+      if (first.type === 'string') {
+        // The `'value' in collection` form.
+        this._expect('word', 'in');
+        const collection = this._next().value;
+        let value = first.value;
+        if (collection === 'parents') {
+          value = value === 'root' ? this._rootId : value;
+          return file => (file.resource.parents || []).indexOf(value) !== -1;
+        } else if (collection === 'owners' || collection === 'writers' ||
+                   collection === 'readers') {
+          return file => file.permissions.some(p => {
+            const role = collection.slice(0, -1);
+            return p.emailAddress === value && (p.role === role ||
+              (role !== 'owner' && p.role === 'owner') ||
+              (role === 'reader' && p.role !== 'owner'));
+          });
+        }
+        return this._fail();
+      }
+      if (first.type !== 'word') {
+        return this._fail();
+      }
+      const field = first.value;
+      if (field === 'properties' || field === 'appProperties') {
+        // The `properties has { key='k' and value='v' }` form.
+        this._expect('word', 'has');
+        this._expect('punct', '{');
+        this._expect('word', 'key');
+        this._expect('op', '=');
+        const key = this._next().value;
+        this._expect('word', 'and');
+        this._expect('word', 'value');
+        this._expect('op', '=');
+        const value = this._next().value;
+        this._expect('punct', '}');
+        return file => {
+          const properties = (file.resource as any)[field] || {};
+          return properties[key] === value;
+        };
+      }
+      const op = this._next();
+      if (op.type !== 'op' && !(op.type === 'word' && op.value === 'contains')) {
+        return this._fail();
+      }
+      const operand = this._next();
+      let value: string | boolean = operand.value;
+      if (operand.type === 'word' && (value === 'true' || value === 'false')) {
+        value = value === 'true';
+      } else if (operand.type !== 'string') {
+        return this._fail();
+      }
+      return file => compare(fieldValue(file, field), op.value, value);
+    }
+
+    private _peekWord(value: string): boolean {
+      const token = this._tokens[this._pos];
+      return !!token && token.type === 'word' && token.value === value;
+    }
+
+    private _next(): IToken {
+      const token = this._tokens[this._pos++];
+      if (!token) {
+        this._fail();
+      }
+      return token;
+    }
+
+    private _expect(type: string, value: string): void {
+      const token = this._next();
+      if (token.type !== type || token.value !== value) {
+        this._fail();
+      }
+    }
+
+    private _fail(): never {
+      throw new TransportError(400, 'invalid', 'Invalid Value: invalid query');
+    }
+
+    private _pos = 0;
+    private _tokens: IToken[];
+    private _rootId: string;
+  }
+
+  /**
+   * Get the value of a queryable field for a stored file.
+   */
+  function fieldValue(file: IStoredFile, field: string): string | boolean | undefined {
+    const resource = file.resource;
+    switch (field) {
+      case 'sharedWithMe':
+        return !!resource.sharedWithMeTime;
+      case 'fullText':
+        return `${resource.name} ${resource.description || ''} ` +
+               decodeText(file.content);
+      case 'name':
+      case 'mimeType':
+      case 'modifiedTime':
+      case 'createdTime':
+      case 'viewedByMeTime':
+        return (resource as any)[field];
+      case 'trashed':
+      case 'starred':
+        return !!(resource as any)[field];
+      default:
+        throw new TransportError(400, 'invalid',
+          `Invalid Value: unknown query field: ${field}`);
+    }
+  }
+
+  /**
+   * Compare a field value with a query operand.
+   */
+  function compare(actual: string | boolean | undefined, op: string, expected: string | boolean): boolean {
+    if (actual === undefined) {
+      return op === '!=';
+    }
+    switch (op) {
+      case '=':
+        return actual === expected;
+      case '!=':
+        return actual !== expected;
+      case '<':
+        return actual < expected;
+      case '<=':
+        return actual <= expected;
+      case '>':
+        return actual > expected;
+      case '>=':
+        return actual >= expected;
+      case 'contains':
+        return String(actual).indexOf(String(expected)) !== -1;
+      default:
+        return false;
+    }
+  }
+}
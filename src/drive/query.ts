@@ -0,0 +1,185 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+/**
+ * Escape a value for a string literal in a Google Drive query.
+ *
+ * @param value - the value, such as the name of a file.
+ *
+ * @returns the value with its backslashes and single quotes escaped.
+ */
+export
+function escapeQueryString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'');
+}
+
+/**
+ * Quote a value as a string literal in a Google Drive query.
+ */
+function quote(value: string): string {
+  return `'${escapeQueryString(value)}'`;
+}
+
+/**
+ * A query for the `q` parameter of a Google Drive files
+ * list request, which is built from clauses whose values
+ * are escaped, so that they always match literally.
+ *
+ * #### Notes
+ * Queries are immutable. Combining them creates a new query.
+ */
+export
+class DriveQuery {
+  /**
+   * Construct a query from its text, which must already be escaped.
+   */
+  private constructor(text: string, compound: boolean = false) {
+    this._text = text;
+    this._compound = compound;
+  }
+
+  /**
+   * A query for the files with a name.
+   */
+  static nameIs(name: string): DriveQuery {
+    return new DriveQuery(`name = ${quote(name)}`);
+  }
+
+  /**
+   * A query for the files whose names contain some text.
+   */
+  static nameContains(text: string): DriveQuery {
+    return new DriveQuery(`name contains ${quote(text)}`);
+  }
+
+  /**
+   * A query for the files in a folder.
+   *
+   * @param folderId - the id of the folder, or `'root'`.
+   */
+  static parent(folderId: string): DriveQuery {
+    return new DriveQuery(`${quote(folderId)} in parents`);
+  }
+
+  /**
+   * A query for the files of a mimetype.
+   */
+  static mimeType(mimeType: string): DriveQuery {
+    return new DriveQuery(`mimeType = ${quote(mimeType)}`);
+  }
+
+  /**
+   * A query for the files which are, or are not, in the trash.
+   */
+  static trashed(trashed: boolean): DriveQuery {
+    return new DriveQuery(`trashed = ${trashed}`);
+  }
+
+  /**
+   * A query for the files which have been shared with the user.
+   */
+  static sharedWithMe(): DriveQuery {
+    return new DriveQuery('sharedWithMe = true');
+  }
+
+  /**
+   * A query for the files whose names, descriptions
+   * or contents contain some text.
+   */
+  static fullText(text: string): DriveQuery {
+    return new DriveQuery(`fullText contains ${quote(text)}`);
+  }
+
+  /**
+   * A query for the files with a custom property.
+   *
+   * @param key - the key of the property.
+   *
+   * @param value - the value of the property.
+   *
+   * @param visibility - whether the property is visible to all
+   *   applications, or private to this one.
+   */
+  static property(key: string, value: string, visibility: DriveQuery.PropertyVisibility = 'public'): DriveQuery {
+    const field = visibility === 'public' ? 'properties' : 'appProperties';
+    return new DriveQuery(
+      `${field} has { key=${quote(key)} and value=${quote(value)} }`);
+  }
+
+  /**
+   * A query for the files which match all of some queries.
+   */
+  static and(first: DriveQuery, ...others: DriveQuery[]): DriveQuery {
+    return DriveQuery._combine('and', [first, ...others]);
+  }
+
+  /**
+   * A query for the files which match any of some queries.
+   */
+  static or(first: DriveQuery, ...others: DriveQuery[]): DriveQuery {
+    return DriveQuery._combine('or', [first, ...others]);
+  }
+
+  /**
+   * A query for the files which do not match a query.
+   */
+  static not(query: DriveQuery): DriveQuery {
+    return new DriveQuery(`not ${query._operand()}`);
+  }
+
+  /**
+   * Combine this query with others, matching files that match all of them.
+   */
+  and(...others: DriveQuery[]): DriveQuery {
+    return DriveQuery.and(this, ...others);
+  }
+
+  /**
+   * Combine this query with others, matching files that match any of them.
+   */
+  or(...others: DriveQuery[]): DriveQuery {
+    return DriveQuery.or(this, ...others);
+  }
+
+  /**
+   * Get the text of the query, for the `q` parameter of a request.
+   */
+  toString(): string {
+    return this._text;
+  }
+
+  /**
+   * Combine queries with a boolean operator.
+   */
+  private static _combine(operator: 'and' | 'or', queries: DriveQuery[]): DriveQuery {
+    if (queries.length === 1) {
+      return queries[0];
+    }
+    const text = queries.map(query => query._operand()).join(` ${operator} `);
+    return new DriveQuery(text, true);
+  }
+
+  /**
+   * Get the text of the query as the operand of a boolean
+   * operator, in parentheses if it combines other queries.
+   */
+  private _operand(): string {
+    return this._compound ? `(${this._text})` : this._text;
+  }
+
+  private _text: string;
+  private _compound: boolean;
+}
+
+/**
+ * A namespace for `DriveQuery` statics.
+ */
+export
+namespace DriveQuery {
+  /**
+   * Whether a custom property is visible to all applications
+   * (`properties`), or private to this one (`appProperties`).
+   */
+  export
+  type PropertyVisibility = 'public' | 'private';
+}
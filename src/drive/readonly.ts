@@ -0,0 +1,274 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  each
+} from '@phosphor/algorithm';
+
+import {
+  DisposableDelegate, IDisposable
+} from '@phosphor/disposable';
+
+import {
+  PanelLayout, Widget
+} from '@phosphor/widgets';
+
+import {
+  ICellModel
+} from '@jupyterlab/cells';
+
+import {
+  IObservableList, PathExt
+} from '@jupyterlab/coreutils';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  CommentsPanel, isEditorWidget, isNotebookWidget
+} from './comments';
+
+import {
+  GoogleModelDB
+} from '../realtime/modeldb';
+
+/**
+ * The class name added to the read-only banner.
+ */
+const READ_ONLY_BANNER = 'jp-GoogleReadOnlyBanner';
+
+/**
+ * The class name added to the text of the read-only banner.
+ */
+const READ_ONLY_BANNER_TEXT = 'jp-GoogleReadOnlyBanner-text';
+
+/**
+ * The class name added to the "Make a copy" button.
+ */
+const READ_ONLY_BANNER_BUTTON = 'jp-GoogleReadOnlyBanner-button';
+
+/**
+ * The class name added to documents in read-only mode.
+ */
+const READ_ONLY_CLASS = 'jp-mod-readOnly';
+
+/**
+ * A banner for a document that the user may not edit,
+ * which offers to make a copy that they may edit.
+ */
+export
+class ReadOnlyBanner extends Widget {
+  /**
+   * Construct a new read-only banner.
+   */
+  constructor(options: ReadOnlyBanner.IOptions) {
+    super();
+    this.addClass(READ_ONLY_BANNER);
+    const text = document.createElement('span');
+    text.className = READ_ONLY_BANNER_TEXT;
+    text.textContent = `"${options.name}" is read-only. ` +
+                       'You may view it, but not save changes to it.';
+    const button = document.createElement('button');
+    button.className = READ_ONLY_BANNER_BUTTON;
+    button.textContent = 'Make a copy';
+    button.addEventListener('click', () => {
+      options.onCopy();
+    });
+    this.node.appendChild(text);
+    this.node.appendChild(button);
+  }
+}
+
+/**
+ * A namespace for `ReadOnlyBanner` statics.
+ */
+export
+namespace ReadOnlyBanner {
+  /**
+   * The options used to create a read-only banner.
+   */
+  export
+  interface IOptions {
+    /**
+     * The name of the document.
+     */
+    name: string;
+
+    /**
+     * A function called when the user asks for a copy.
+     */
+    onCopy: () => void;
+  }
+}
+
+/**
+ * A widget extension which opens documents from Google Drive
+ * in a read-only mode when the user may only view or comment
+ * on them, with a banner that offers to make a copy.
+ *
+ * #### Notes
+ * A document is read-only if its contents model is not writable,
+ * or if its realtime model is read-only.
+ */
+export
+class ReadOnlyExtension implements DocumentRegistry.IWidgetExtension<Widget, DocumentRegistry.IModel> {
+  /**
+   * Construct a new read-only extension.
+   */
+  constructor(options: ReadOnlyExtension.IOptions) {
+    this._driveName = options.driveName;
+    this._onCopy = options.onCopy;
+  }
+
+  /**
+   * Put a document widget into read-only mode if the
+   * user may not edit its file.
+   */
+  createNew(widget: Widget, context: DocumentRegistry.Context): IDisposable {
+    let banner: ReadOnlyBanner | null = null;
+    let readOnlyMode: IDisposable | null = null;
+    let isDisposed = false;
+    if (context.path.split(':')[0] !== this._driveName) {
+      return new DisposableDelegate(() => { /* no-op */ });
+    }
+    context.ready.then(() => {
+      return Private.isReadOnly(context);
+    }).then(readOnly => {
+      if (!readOnly || widget.isDisposed || isDisposed) {
+        return;
+      }
+      context.model.readOnly = true;
+      readOnlyMode = Private.setReadOnly(widget);
+      banner = new ReadOnlyBanner({
+        name: PathExt.basename(context.path),
+        onCopy: () => { this._onCopy(context.path); }
+      });
+      Private.addBanner(widget, banner);
+    }).catch(err => {
+      // The document is left editable, and saving
+      // it will fail if the user may not edit it.
+      console.error(`Google Drive: unable to check whether ` +
+                    `"${context.path}" is read-only`, err);
+    });
+    return new DisposableDelegate(() => {
+      isDisposed = true;
+      if (readOnlyMode) {
+        readOnlyMode.dispose();
+      }
+      if (banner) {
+        banner.dispose();
+      }
+    });
+  }
+
+  private _driveName: string;
+  private _onCopy: (path: string) => void;
+}
+
+/**
+ * A namespace for `ReadOnlyExtension` statics.
+ */
+export
+namespace ReadOnlyExtension {
+  /**
+   * The options used to create a read-only extension.
+   */
+  export
+  interface IOptions {
+    /**
+     * The name of the Google Drive in the contents manager.
+     */
+    driveName: string;
+
+    /**
+     * A function called with the path of a read-only
+     * document when the user asks for a copy of it.
+     */
+    onCopy: (path: string) => void;
+  }
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Whether the document of a context is read-only.
+   */
+  export
+  function isReadOnly(context: DocumentRegistry.Context): Promise<boolean> {
+    const contents = context.contentsModel;
+    if (contents && !contents.writable) {
+      return Promise.resolve(true);
+    }
+    const modelDB = context.model.modelDB;
+    if (modelDB instanceof GoogleModelDB) {
+      return modelDB.connected.then(() => modelDB.readOnly);
+    }
+    return Promise.resolve(false);
+  }
+
+  /**
+   * A notebook whose model lists its cells.
+   */
+  export
+  interface INotebookWithModel extends CommentsPanel.INotebook {
+    /**
+     * The model of the notebook, if it has one.
+     */
+    readonly model: { readonly cells: IObservableList<ICellModel> } | null;
+  }
+
+  /**
+   * Stop the editors of a document widget from accepting changes.
+   *
+   * @returns a disposable which stops making the cells
+   *   that are added to a notebook read-only.
+   *
+   * #### Notes
+   * The widget may be a file editor, which has a single editor,
+   * or a notebook panel, whose cells each have one. Other widgets,
+   * such as viewers, are already read-only.
+   */
+  export
+  function setReadOnly(widget: Widget): IDisposable {
+    widget.addClass(READ_ONLY_CLASS);
+    if (isEditorWidget(widget)) {
+      widget.editor.setOption('readOnly', true);
+    }
+    if (!isNotebookWidget(widget)) {
+      return new DisposableDelegate(() => { /* no-op */ });
+    }
+    const notebook: Partial<INotebookWithModel> = widget.notebook;
+    const setCellsReadOnly = () => {
+      each(widget.notebook.widgets, cell => {
+        cell.readOnly = true;
+      });
+    };
+    setCellsReadOnly();
+    // The cell widgets are created for the cells that are added
+    // to the model before this is called, so they may be set too.
+    const cells = notebook.model ? notebook.model.cells : null;
+    if (cells) {
+      cells.changed.connect(setCellsReadOnly);
+    }
+    return new DisposableDelegate(() => {
+      if (cells && !cells.isDisposed) {
+        cells.changed.disconnect(setCellsReadOnly);
+      }
+    });
+  }
+
+  /**
+   * Add a banner to a document widget.
+   */
+  export
+  function addBanner(widget: Widget, banner: ReadOnlyBanner): void {
+    if (widget.layout instanceof PanelLayout) {
+      widget.layout.insertWidget(0, banner);
+    } else if (widget.isAttached) {
+      Widget.attach(banner, widget.node);
+    }
+  }
+}
@@ -0,0 +1,490 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  addPermissions, ILinkSharing, IPermission, linkSharingFromPermissions,
+  listPermissions, PermissionRole, removePermission, setLinkSharing,
+  updatePermission
+} from './drive';
+
+import {
+  describeError
+} from './errors';
+
+import {
+  IDriveTransport
+} from './transport';
+
+import {
+  getDriveTransport
+} from '../gapi';
+
+/**
+ * The class name added to the sharing panel.
+ */
+const SHARING_CLASS = 'jp-GoogleSharing';
+
+/**
+ * The class name added to each section of the panel.
+ */
+const SHARING_SECTION_CLASS = 'jp-GoogleSharing-section';
+
+/**
+ * The class name added to the title of a section.
+ */
+const SHARING_TITLE_CLASS = 'jp-GoogleSharing-title';
+
+/**
+ * The class name added to the list of permissions.
+ */
+const SHARING_LIST_CLASS = 'jp-GoogleSharing-list';
+
+/**
+ * The class name added to each permission in the list.
+ */
+const SHARING_ITEM_CLASS = 'jp-GoogleSharing-item';
+
+/**
+ * The class name added to the name of a grantee.
+ */
+const SHARING_NAME_CLASS = 'jp-GoogleSharing-name';
+
+/**
+ * The class name added to the error message.
+ */
+const SHARING_ERROR_CLASS = 'jp-GoogleSharing-error';
+
+/**
+ * The roles that may be granted, with their labels.
+ */
+const ROLES: { role: PermissionRole, label: string }[] = [
+  { role: 'reader', label: 'Viewer' },
+  { role: 'commenter', label: 'Commenter' },
+  { role: 'writer', label: 'Editor' }
+];
+
+/**
+ * A panel which shows who may access a file in Google Drive,
+ * and shares it with people, changes or revokes their access,
+ * and sets who may open it by its link.
+ *
+ * #### Notes
+ * Changes are made as soon as they are chosen, rather
+ * than when the panel is closed.
+ */
+export
+class SharingPanel extends Widget {
+  /**
+   * Construct a new sharing panel.
+   */
+  constructor(options: SharingPanel.IOptions) {
+    super();
+    this._path = options.path;
+    this._transport = options.transport || getDriveTransport();
+    this.addClass(SHARING_CLASS);
+
+    // The form to share the file with people.
+    const addSection = Private.createSection('Share with people');
+    this._addressNode = document.createElement('input');
+    this._addressNode.type = 'email';
+    this._addressNode.multiple = true;
+    this._addressNode.placeholder = 'Email addresses, separated by commas';
+    this._addRoleNode = Private.createRoleSelect('writer');
+    this._notifyNode = document.createElement('input');
+    this._notifyNode.type = 'checkbox';
+    this._notifyNode.checked = true;
+    const notifyLabel = document.createElement('label');
+    notifyLabel.appendChild(this._notifyNode);
+    notifyLabel.appendChild(document.createTextNode(' Notify people'));
+    const addButton = Private.createButton('Share', () => {
+      this._onAdd();
+    });
+    addSection.appendChild(this._addressNode);
+    addSection.appendChild(this._addRoleNode);
+    addSection.appendChild(notifyLabel);
+    addSection.appendChild(addButton);
+
+    // The people with access.
+    const listSection = Private.createSection('People with access');
+    this._list = document.createElement('ul');
+    this._list.className = SHARING_LIST_CLASS;
+    listSection.appendChild(this._list);
+
+    // Who may open the file by its link.
+    const linkSection = Private.createSection('Link sharing');
+    this._linkTypeNode = document.createElement('select');
+    for (let [value, label] of [['', 'Restricted to the people above'],
+                                ['anyone', 'Anyone with the link'],
+                                ['domain', 'Anyone in a domain with the link']]) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this._linkTypeNode.appendChild(option);
+    }
+    this._domainNode = document.createElement('input');
+    this._domainNode.placeholder = 'Domain, such as example.com';
+    this._linkRoleNode = Private.createRoleSelect('reader');
+    this._linkTypeNode.addEventListener('change', () => {
+      this._showLinkSharing();
+      // Wait for a domain before sharing with it.
+      if (this._linkTypeNode.value !== 'domain' || this._domainNode.value) {
+        this._onLinkSharingChanged();
+      }
+    });
+    this._domainNode.addEventListener('change', () => {
+      this._onLinkSharingChanged();
+    });
+    this._linkRoleNode.addEventListener('change', () => {
+      this._onLinkSharingChanged();
+    });
+    linkSection.appendChild(this._linkTypeNode);
+    linkSection.appendChild(this._domainNode);
+    linkSection.appendChild(this._linkRoleNode);
+
+    this._errorNode = document.createElement('div');
+    this._errorNode.className = SHARING_ERROR_CLASS;
+
+    this.node.appendChild(addSection);
+    this.node.appendChild(listSection);
+    this.node.appendChild(linkSection);
+    this.node.appendChild(this._errorNode);
+    this._render();
+    this._ready = this.refresh().catch(err => {
+      this._showError(err);
+    });
+  }
+
+  /**
+   * The path of the file.
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  /**
+   * A promise fulfilled when the permissions are first shown.
+   */
+  get ready(): Promise<void> {
+    return this._ready;
+  }
+
+  /**
+   * The permissions to access the file.
+   */
+  get permissions(): ReadonlyArray<IPermission> {
+    return this._permissions;
+  }
+
+  /**
+   * Reload the permissions of the file.
+   *
+   * @returns a promise fulfilled when the permissions are shown.
+   */
+  refresh(): Promise<void> {
+    return listPermissions(this._transport, this._path).then(permissions => {
+      this._setPermissions(permissions);
+    });
+  }
+
+  /**
+   * Share the file with people.
+   *
+   * @param emailAddresses - the email addresses of the people.
+   *
+   * @param role - the role to grant them.
+   *
+   * @param notify - whether to send them notification emails.
+   *
+   * @returns a promise fulfilled when the file is shared.
+   */
+  share(emailAddresses: string[], role: PermissionRole, notify = true): Promise<void> {
+    return addPermissions(this._transport, this._path, emailAddresses,
+                          role, notify)
+    .then(() => this.refresh());
+  }
+
+  /**
+   * Change the role granted by a permission.
+   *
+   * @param permissionId - the id of the permission.
+   *
+   * @param role - the new role.
+   *
+   * @returns a promise fulfilled when the permission is updated.
+   */
+  changeRole(permissionId: string, role: PermissionRole): Promise<void> {
+    return updatePermission(this._transport, this._path, permissionId, role)
+    .then(() => this.refresh());
+  }
+
+  /**
+   * Revoke a permission to access the file.
+   *
+   * @param permissionId - the id of the permission.
+   *
+   * @returns a promise fulfilled when the permission is removed.
+   */
+  revoke(permissionId: string): Promise<void> {
+    return removePermission(this._transport, this._path, permissionId)
+    .then(() => this.refresh());
+  }
+
+  /**
+   * Set who may open the file by its link.
+   *
+   * @param sharing - the link sharing, or `null` so that only
+   *   the people the file is shared with may open it.
+   *
+   * @returns a promise fulfilled when the sharing is set.
+   */
+  setLinkSharing(sharing: ILinkSharing | null): Promise<void> {
+    return setLinkSharing(this._transport, this._path, sharing)
+    .then(permissions => {
+      this._setPermissions(permissions);
+    });
+  }
+
+  /**
+   * Update the permissions, and show them.
+   */
+  private _setPermissions(permissions: IPermission[]): void {
+    this._permissions = permissions;
+    this._errorNode.textContent = '';
+    this._render();
+  }
+
+  /**
+   * Render the people with access and the link sharing.
+   */
+  private _render(): void {
+    this._list.textContent = '';
+    for (let permission of this._permissions) {
+      if (permission.type === 'user' || permission.type === 'group') {
+        this._list.appendChild(this._createItem(permission));
+      }
+    }
+    const sharing = linkSharingFromPermissions(this._permissions);
+    this._linkTypeNode.value = sharing ? sharing.type : '';
+    this._domainNode.value = sharing && sharing.domain || '';
+    this._linkRoleNode.value = sharing ? sharing.role : 'reader';
+    this._showLinkSharing();
+  }
+
+  /**
+   * Create the list item for a permission.
+   */
+  private _createItem(permission: IPermission): HTMLElement {
+    const item = document.createElement('li');
+    item.className = SHARING_ITEM_CLASS;
+    const name = document.createElement('span');
+    name.className = SHARING_NAME_CLASS;
+    name.textContent = permission.displayName && permission.emailAddress ?
+      `${permission.displayName} <${permission.emailAddress}>` :
+      permission.displayName || permission.emailAddress;
+    item.appendChild(name);
+
+    // Owners, and people with access through a Team Drive,
+    // may not be changed on the file.
+    const role = ROLES.filter(r => r.role === permission.role)[0];
+    if (!role || permission.inherited) {
+      const text = document.createElement('span');
+      text.textContent = role ? role.label : Private.capitalize(permission.role);
+      item.appendChild(text);
+      return item;
+    }
+    const select = Private.createRoleSelect(role.role);
+    select.addEventListener('change', () => {
+      this._run(this.changeRole(permission.id, select.value as PermissionRole));
+    });
+    item.appendChild(select);
+    item.appendChild(Private.createButton('Remove', () => {
+      this._run(this.revoke(permission.id));
+    }));
+    return item;
+  }
+
+  /**
+   * Share the file with the people entered in the form.
+   */
+  private _onAdd(): void {
+    const text = this._addressNode.value;
+    const addresses = Private.parseEmailAddresses(text);
+    if (!addresses) {
+      this._errorNode.textContent = `"${text}" is not a list of ` +
+                                    'valid email addresses.';
+      return;
+    }
+    const role = this._addRoleNode.value as PermissionRole;
+    this._run(this.share(addresses, role, this._notifyNode.checked).then(() => {
+      this._addressNode.value = '';
+    }));
+  }
+
+  /**
+   * Set the link sharing chosen in the form.
+   */
+  private _onLinkSharingChanged(): void {
+    const type = this._linkTypeNode.value;
+    const role = this._linkRoleNode.value as PermissionRole;
+    let sharing: ILinkSharing | null = null;
+    if (type === 'anyone') {
+      sharing = { type, role };
+    } else if (type === 'domain') {
+      sharing = { type, role, domain: this._domainNode.value.trim() };
+    }
+    this._run(this.setLinkSharing(sharing));
+  }
+
+  /**
+   * Show the inputs which apply to the chosen link sharing.
+   */
+  private _showLinkSharing(): void {
+    const type = this._linkTypeNode.value;
+    this._domainNode.style.display = type === 'domain' ? '' : 'none';
+    this._linkRoleNode.style.display = type ? '' : 'none';
+  }
+
+  /**
+   * Show the error of a failed change, and the permissions
+   * as they are after it.
+   */
+  private _run(change: Promise<void>): void {
+    change.catch(err => {
+      this._showError(err);
+      return this.refresh().catch(() => { /* no-op */ });
+    });
+  }
+
+  /**
+   * Show an error message.
+   */
+  private _showError(err: any): void {
+    this._errorNode.textContent = describeError(err);
+  }
+
+  private _path: string;
+  private _transport: IDriveTransport;
+  private _ready: Promise<void>;
+  private _permissions: IPermission[] = [];
+  private _list: HTMLElement;
+  private _addressNode: HTMLInputElement;
+  private _addRoleNode: HTMLSelectElement;
+  private _notifyNode: HTMLInputElement;
+  private _linkTypeNode: HTMLSelectElement;
+  private _domainNode: HTMLInputElement;
+  private _linkRoleNode: HTMLSelectElement;
+  private _errorNode: HTMLElement;
+}
+
+/**
+ * A namespace for `SharingPanel` statics.
+ */
+export
+namespace SharingPanel {
+  /**
+   * The options used to create a sharing panel.
+   */
+  export
+  interface IOptions {
+    /**
+     * The path of the file in Google Drive.
+     */
+    path: string;
+
+    /**
+     * The transport through which the file is shared,
+     * which defaults to the current transport.
+     */
+    transport?: IDriveTransport;
+  }
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Create a titled section of the panel.
+   */
+  export
+  function createSection(title: string): HTMLElement {
+    const section = document.createElement('div');
+    section.className = SHARING_SECTION_CLASS;
+    const titleNode = document.createElement('div');
+    titleNode.className = SHARING_TITLE_CLASS;
+    titleNode.textContent = title;
+    section.appendChild(titleNode);
+    return section;
+  }
+
+  /**
+   * Create a button which calls a function when clicked.
+   */
+  export
+  function createButton(label: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Create a list of the roles that may be granted.
+   */
+  export
+  function createRoleSelect(value: PermissionRole): HTMLSelectElement {
+    const select = document.createElement('select');
+    for (let role of ROLES) {
+      const option = document.createElement('option');
+      option.value = role.role;
+      option.textContent = role.label;
+      select.appendChild(option);
+    }
+    select.value = value;
+    return select;
+  }
+
+  /**
+   * Capitalize the first letter of a word.
+   */
+  export
+  function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+
+  /**
+   * Parse a list of email addresses separated by commas.
+   *
+   * @returns the addresses, or `null` if any of them is not valid.
+   */
+  export
+  function parseEmailAddresses(text: string): string[] | null {
+    const addresses = text.split(',').map(address => address.trim())
+                          .filter(address => !!address);
+    if (!addresses.length || !addresses.every(isEmail)) {
+      return null;
+    }
+    return addresses;
+  }
+
+  /**
+   * Return whether an email address is valid.
+   * Uses a regexp given in the html spec here:
+   * https://html.spec.whatwg.org/multipage/input.html#e-mail-state-(type=email)
+   *
+   * #### Notes: this is not a perfect test, but it should be
+   *   good enough for most use cases.
+   *
+   * @param email: the canditate email address.
+   *
+   * @returns a boolean for whether it is a valid email.
+   */
+  function isEmail(email: string): boolean {
+    const re = RegExp(/^[a-zA-Z0-9.!#$%&'*+\/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/);
+    return re.test(email);
+  }
+}
@@ -0,0 +1,517 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+/// <reference path="./gapi.client.drive.d.ts" />
+
+/**
+ * An interface for the subset of the Google Drive v3 API
+ * that is used by the drive functions.
+ *
+ * #### Notes
+ * The resources and methods mirror those of `gapi.client.drive`,
+ * so that the default implementation can hand requests directly
+ * to the gapi client libraries. Other implementations (such as
+ * an in-memory backend) may be swapped in using `setDriveTransport`.
+ */
+export
+interface IDriveTransport {
+  /**
+   * A promise that is resolved when the transport is
+   * ready to make requests.
+   */
+  readonly ready: Promise<void>;
+
+  /**
+   * The files resource.
+   */
+  readonly files: IDriveTransport.IFilesResource;
+
+  /**
+   * The revisions resource.
+   */
+  readonly revisions: IDriveTransport.IRevisionsResource;
+
+  /**
+   * The permissions resource.
+   */
+  readonly permissions: IDriveTransport.IPermissionsResource;
+
+  /**
+   * The comments resource.
+   */
+  readonly comments: IDriveTransport.ICommentsResource;
+
+  /**
+   * The replies resource.
+   */
+  readonly replies: IDriveTransport.IRepliesResource;
+
+  /**
+   * The Team Drives resource.
+   */
+  readonly teamdrives: IDriveTransport.ITeamDrivesResource;
+
+  /**
+   * The changes resource.
+   */
+  readonly changes: IDriveTransport.IChangesResource;
+
+  /**
+   * Refresh the authorization of the transport, such as
+   * when a request fails because its token has expired.
+   *
+   * @returns a promise fulfilled when requests may be retried.
+   */
+  refreshAuthorization(): Promise<void>;
+
+  /**
+   * Upload the content of a file, creating the file
+   * if no `fileId` is given.
+   *
+   * @param options - the options for the upload.
+   *
+   * @returns a request for the files resource of the uploaded file.
+   */
+  upload(options: IDriveTransport.IUploadOptions): IDriveTransport.IRequest<gapi.client.drive.File>;
+
+  /**
+   * Download the raw bytes of a file, or of one of its revisions.
+   *
+   * #### Notes
+   * Unlike getting the content with `alt: 'media'`, which gives
+   * a string that may have been decoded as text, this is safe
+   * for binary content.
+   *
+   * @param options - the options for the download.
+   *
+   * @returns a request for the content of the file.
+   */
+  download(options: IDriveTransport.IDownloadOptions): IDriveTransport.IRequest<ArrayBuffer>;
+
+  /**
+   * Export the raw bytes of a native Google Docs, Sheets,
+   * or Slides file, converted to another format.
+   *
+   * #### Notes
+   * The content of these files cannot be downloaded, and
+   * must be exported instead.
+   *
+   * @param options - the options for the export.
+   *
+   * @returns a request for the exported content of the file.
+   */
+  export(options: IDriveTransport.IExportOptions): IDriveTransport.IRequest<ArrayBuffer>;
+
+  /**
+   * Begin a resumable upload session, which creates the file
+   * if no `fileId` is given.
+   *
+   * @param options - the options for the upload.
+   *
+   * @returns a request for the URI of the upload session.
+   */
+  beginResumableUpload(options: IDriveTransport.IResumableUploadOptions): IDriveTransport.IRequest<string>;
+
+  /**
+   * Upload a chunk of content to a resumable upload session.
+   *
+   * @param options - the options for the chunk.
+   *
+   * @returns a request for the status of the upload session
+   *   after the chunk has been received.
+   */
+  uploadChunk(options: IDriveTransport.IChunkOptions): IDriveTransport.IRequest<IDriveTransport.IUploadStatus>;
+
+  /**
+   * Query the status of a resumable upload session, such as
+   * after a chunk has failed to upload.
+   *
+   * @param sessionUri - the URI of the upload session.
+   *
+   * @param size - the total size of the content, in bytes.
+   *
+   * @returns a request for the status of the upload session.
+   */
+  queryUpload(sessionUri: string, size: number): IDriveTransport.IRequest<IDriveTransport.IUploadStatus>;
+}
+
+/**
+ * A namespace for `IDriveTransport` statics.
+ */
+export
+namespace IDriveTransport {
+  /**
+   * A successful response from the transport.
+   */
+  export
+  interface IResponse<T> {
+    /**
+     * The response parsed as JSON. If the response
+     * is not JSON-able, this is `false`.
+     */
+    result: T;
+
+    /**
+     * The raw body of the response.
+     */
+    body: string;
+
+    /**
+     * The HTTP status code of the response.
+     */
+    status?: number;
+  }
+
+  /**
+   * A failed response from the transport.
+   */
+  export
+  interface IErrorResponse {
+    /**
+     * The parsed error object.
+     */
+    result: {
+      error: {
+        code: number;
+        message: string;
+        errors?: { reason?: string; message?: string; }[];
+      }
+    };
+
+    /**
+     * The raw body of the response.
+     */
+    body: string;
+
+    /**
+     * The HTTP status code of the response.
+     */
+    status?: number;
+  }
+
+  /**
+   * A request made through the transport. It resolves with an
+   * `IResponse` on success, and rejects with an `IErrorResponse`
+   * on failure.
+   */
+  export
+  type IRequest<T> = PromiseLike<IResponse<T>>;
+
+  /**
+   * Parameters for listing files.
+   */
+  export
+  interface IFilesListParams {
+    q?: string;
+    fields?: string;
+    corpora?: string;
+    includeTeamDriveItems?: boolean;
+    supportsTeamDrives?: boolean;
+    teamDriveId?: string;
+    orderBy?: string;
+    pageSize?: number;
+    pageToken?: string;
+  }
+
+  /**
+   * The files resource.
+   */
+  export
+  interface IFilesResource {
+    /**
+     * List or search for files.
+     */
+    list(params: IFilesListParams): IRequest<gapi.client.drive.FileList>;
+
+    /**
+     * Get the metadata or content (using `alt: 'media'`) for a file.
+     */
+    get(params: { fileId: string, fields?: string, alt?: string, supportsTeamDrives?: boolean }): IRequest<any>;
+
+    /**
+     * Create a new file from metadata.
+     */
+    create(params: { resource: gapi.client.drive.File, fields?: string, supportsTeamDrives?: boolean }): IRequest<gapi.client.drive.File>;
+
+    /**
+     * Update the metadata of a file.
+     */
+    update(params: { fileId: string, resource?: gapi.client.drive.File, addParents?: string, removeParents?: string, fields?: string, supportsTeamDrives?: boolean }): IRequest<gapi.client.drive.File>;
+
+    /**
+     * Copy a file.
+     */
+    copy(params: { fileId: string, resource?: gapi.client.drive.File, fields?: string, supportsTeamDrives?: boolean }): IRequest<gapi.client.drive.File>;
+
+    /**
+     * Permanently delete a file.
+     */
+    delete(params: { fileId: string, supportsTeamDrives?: boolean }): IRequest<void>;
+  }
+
+  /**
+   * The revisions resource.
+   */
+  export
+  interface IRevisionsResource {
+    /**
+     * List the revisions of a file.
+     */
+    list(params: { fileId: string, fields?: string, pageSize?: number, pageToken?: string }): IRequest<gapi.client.drive.RevisionList>;
+
+    /**
+     * Get the metadata or content (using `alt: 'media'`) for a revision.
+     */
+    get(params: { fileId: string, revisionId: string, fields?: string, alt?: string }): IRequest<any>;
+
+    /**
+     * Update the metadata of a revision.
+     */
+    update(params: { fileId: string, revisionId: string, resource: gapi.client.drive.Revision, fields?: string }): IRequest<gapi.client.drive.Revision>;
+  }
+
+  /**
+   * The permissions resource.
+   */
+  export
+  interface IPermissionsResource {
+    /**
+     * List the permissions of a file.
+     */
+    list(params: { fileId: string, fields?: string, supportsTeamDrives?: boolean, pageToken?: string }): IRequest<gapi.client.drive.PermissionList>;
+
+    /**
+     * Create a permission for a file.
+     */
+    create(params: { fileId: string, resource: gapi.client.drive.Permission, emailMessage?: string, sendNotificationEmail?: boolean, fields?: string, supportsTeamDrives?: boolean }): IRequest<gapi.client.drive.Permission>;
+
+    /**
+     * Update a permission with patch semantics.
+     */
+    update(params: { fileId: string, permissionId: string, resource: gapi.client.drive.Permission, fields?: string, supportsTeamDrives?: boolean }): IRequest<gapi.client.drive.Permission>;
+
+    /**
+     * Delete a permission.
+     */
+    delete(params: { fileId: string, permissionId: string, supportsTeamDrives?: boolean }): IRequest<void>;
+  }
+
+  /**
+   * The comments resource.
+   */
+  export
+  interface ICommentsResource {
+    /**
+     * List the comments on a file.
+     */
+    list(params: { fileId: string, fields: string, includeDeleted?: boolean, pageSize?: number, pageToken?: string }): IRequest<gapi.client.drive.CommentList>;
+
+    /**
+     * Create a comment on a file.
+     */
+    create(params: { fileId: string, resource: gapi.client.drive.Comment, fields: string }): IRequest<gapi.client.drive.Comment>;
+  }
+
+  /**
+   * The replies resource.
+   */
+  export
+  interface IRepliesResource {
+    /**
+     * Create a reply to a comment, which may resolve or reopen it.
+     */
+    create(params: { fileId: string, commentId: string, resource: gapi.client.drive.Reply, fields: string }): IRequest<gapi.client.drive.Reply>;
+  }
+
+  /**
+   * The Team Drives resource.
+   */
+  export
+  interface ITeamDrivesResource {
+    /**
+     * List the Team Drives accessible to the user.
+     */
+    list(params: { fields?: string, pageSize?: number, pageToken?: string }): IRequest<gapi.client.drive.TeamDriveList>;
+  }
+
+  /**
+   * The changes resource.
+   */
+  export
+  interface IChangesResource {
+    /**
+     * Get the page token for listing future changes.
+     */
+    getStartPageToken(params: { supportsTeamDrives?: boolean, teamDriveId?: string }): IRequest<gapi.client.drive.StartPageToken>;
+
+    /**
+     * List the changes since a page token.
+     */
+    list(params: { pageToken: string, fields?: string, includeRemoved?: boolean, includeTeamDriveItems?: boolean, supportsTeamDrives?: boolean, pageSize?: number }): IRequest<gapi.client.drive.ChangeList>;
+  }
+
+  /**
+   * Options for uploading the content of a file.
+   */
+  export
+  interface IUploadOptions {
+    /**
+     * The id of an existing file. If given, the content
+     * of that file is replaced, and its metadata is left as-is.
+     */
+    fileId?: string;
+
+    /**
+     * The metadata for a new file.
+     */
+    resource: gapi.client.drive.File;
+
+    /**
+     * The mimetype of the content.
+     */
+    mimeType: string;
+
+    /**
+     * The content of the file, as a string or as raw bytes.
+     */
+    content: string | Uint8Array;
+
+    /**
+     * Whether a string `content` is base64 encoded.
+     */
+    base64: boolean;
+
+    /**
+     * The fields to include in the response.
+     */
+    fields?: string;
+
+    /**
+     * Whether the file is in a Team Drive.
+     */
+    supportsTeamDrives?: boolean;
+  }
+
+  /**
+   * Options for downloading the content of a file.
+   */
+  export
+  interface IDownloadOptions {
+    /**
+     * The id of the file.
+     */
+    fileId: string;
+
+    /**
+     * The id of a revision of the file. If it is not
+     * given, the head revision is downloaded.
+     */
+    revisionId?: string;
+
+    /**
+     * Whether the file is in a Team Drive.
+     */
+    supportsTeamDrives?: boolean;
+  }
+
+  /**
+   * Options for exporting the content of a native Google file.
+   */
+  export
+  interface IExportOptions {
+    /**
+     * The id of the file.
+     */
+    fileId: string;
+
+    /**
+     * The mimetype of the format to which to export the file.
+     */
+    mimeType: string;
+  }
+
+  /**
+   * Options for beginning a resumable upload.
+   */
+  export
+  interface IResumableUploadOptions {
+    /**
+     * The id of an existing file. If given, the content
+     * of that file is replaced, and its metadata is left as-is.
+     */
+    fileId?: string;
+
+    /**
+     * The metadata for a new file.
+     */
+    resource: gapi.client.drive.File;
+
+    /**
+     * The mimetype of the content.
+     */
+    mimeType: string;
+
+    /**
+     * The total size of the content, in bytes.
+     */
+    size: number;
+
+    /**
+     * The fields to include in the response for the completed upload.
+     */
+    fields?: string;
+
+    /**
+     * Whether the file is in a Team Drive.
+     */
+    supportsTeamDrives?: boolean;
+  }
+
+  /**
+   * Options for uploading a chunk of a resumable upload.
+   */
+  export
+  interface IChunkOptions {
+    /**
+     * The URI of the upload session.
+     */
+    sessionUri: string;
+
+    /**
+     * The bytes of the chunk.
+     */
+    chunk: Uint8Array;
+
+    /**
+     * The offset of the chunk in the content, in bytes.
+     */
+    start: number;
+
+    /**
+     * The total size of the content, in bytes.
+     */
+    size: number;
+
+    /**
+     * An optional callback which is called with the number
+     * of bytes of the chunk that have been sent so far.
+     */
+    onProgress?: (sent: number) => void;
+  }
+
+  /**
+   * The status of a resumable upload session.
+   */
+  export
+  interface IUploadStatus {
+    /**
+     * The number of bytes that have been received.
+     */
+    received: number;
+
+    /**
+     * The files resource, once the upload is complete.
+     */
+    file?: gapi.client.drive.File;
+  }
+}
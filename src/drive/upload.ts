@@ -0,0 +1,293 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import {
+  Signal, ISignal
+} from '@phosphor/signaling';
+
+import {
+  driveApiRequest, getDriveTransport
+} from '../gapi';
+
+import {
+  DriveError, toDriveError
+} from './errors';
+
+import {
+  IDriveTransport
+} from './transport';
+
+/**
+ * The default size of each chunk of a resumable upload, in bytes.
+ * Google Drive requires chunks to be a multiple of 256 KiB.
+ */
+const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * The default number of consecutive failures after which
+ * a resumable upload gives up.
+ */
+const DEFAULT_MAX_RETRIES = 5;
+
+/**
+ * The default delay before the first attempt to resume
+ * an upload, in milliseconds.
+ */
+const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * The factor by which the delay grows with each failed attempt.
+ */
+const BACKOFF_FACTOR = 2.0;
+
+/**
+ * A resumable upload of content to Google Drive, which sends
+ * the content in chunks and resumes after transient failures.
+ */
+export
+class ResumableUpload {
+  /**
+   * Construct a new resumable upload.
+   */
+  constructor(options: ResumableUpload.IOptions) {
+    this._options = options;
+    this._transport = options.transport || getDriveTransport();
+    this._chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    this._maxRetries = options.maxRetries === undefined ?
+                       DEFAULT_MAX_RETRIES : options.maxRetries;
+    this._retryDelay = options.retryDelay === undefined ?
+                       DEFAULT_RETRY_DELAY : options.retryDelay;
+  }
+
+  /**
+   * A signal emitted as the content is uploaded.
+   */
+  get progress(): ISignal<this, ResumableUpload.IProgress> {
+    return this._progress;
+  }
+
+  /**
+   * The total size of the content, in bytes.
+   */
+  get total(): number {
+    return this._options.bytes.length;
+  }
+
+  /**
+   * The number of bytes that have been uploaded.
+   */
+  get loaded(): number {
+    return this._loaded;
+  }
+
+  /**
+   * Start the upload.
+   *
+   * @returns a promise fulfilled with the files resource of the
+   *   uploaded file, or rejected if the upload fails.
+   */
+  start(): Promise<gapi.client.drive.File> {
+    if (this._promise) {
+      return this._promise;
+    }
+    const options = this._options;
+    const createRequest = (transport: IDriveTransport) => {
+      return transport.beginResumableUpload({
+        fileId: options.fileId,
+        resource: options.resource,
+        mimeType: options.mimeType,
+        size: this.total,
+        fields: options.fields,
+        supportsTeamDrives: options.supportsTeamDrives
+      });
+    };
+    this._promise = driveApiRequest<string>(this._transport, createRequest).then(sessionUri => {
+      this._sessionUri = sessionUri;
+      return this._sendFrom(0, 0);
+    });
+    return this._promise;
+  }
+
+  /**
+   * Send the content from an offset, until the upload is complete.
+   *
+   * @param start - the offset from which to send the content.
+   *
+   * @param failures - the number of consecutive failed attempts.
+   */
+  private _sendFrom(start: number, failures: number): Promise<gapi.client.drive.File> {
+    const bytes = this._options.bytes;
+    const end = Math.min(start + this._chunkSize, bytes.length);
+    const request = this._transport.uploadChunk({
+      sessionUri: this._sessionUri,
+      chunk: bytes.subarray(start, end),
+      start,
+      size: bytes.length,
+      onProgress: sent => {
+        this._setLoaded(start + sent);
+      }
+    });
+    return Promise.resolve(request).then(response => {
+      const status = response.result;
+      this._setLoaded(status.received);
+      if (status.file) {
+        return status.file;
+      }
+      return this._sendFrom(status.received, 0);
+    }, err => {
+      const error = toDriveError(err);
+      if (!error.retriable || failures >= this._maxRetries) {
+        throw error;
+      }
+      this._progress.emit({ loaded: this._loaded, total: this.total, error });
+      return this._resume(failures + 1);
+    });
+  }
+
+  /**
+   * Resume the upload after a failure, from the
+   * number of bytes that the server has received.
+   */
+  private _resume(failures: number): Promise<gapi.client.drive.File> {
+    const delay = this._retryDelay * Math.pow(BACKOFF_FACTOR, failures - 1);
+    return Private.wait(delay).then(() => {
+      return this._transport.queryUpload(this._sessionUri, this.total);
+    }).then(response => {
+      const status = response.result;
+      this._setLoaded(status.received);
+      if (status.file) {
+        return status.file;
+      }
+      return this._sendFrom(status.received, failures);
+    }, err => {
+      const error = toDriveError(err);
+      if (!error.retriable || failures >= this._maxRetries) {
+        throw error;
+      }
+      this._progress.emit({ loaded: this._loaded, total: this.total, error });
+      return this._resume(failures + 1);
+    });
+  }
+
+  /**
+   * Update the number of bytes uploaded, emitting the progress.
+   */
+  private _setLoaded(loaded: number): void {
+    if (loaded === this._loaded) {
+      return;
+    }
+    this._loaded = loaded;
+    this._progress.emit({ loaded, total: this.total });
+  }
+
+  private _options: ResumableUpload.IOptions;
+  private _transport: IDriveTransport;
+  private _chunkSize: number;
+  private _maxRetries: number;
+  private _retryDelay: number;
+  private _loaded = 0;
+  private _sessionUri = '';
+  private _promise: Promise<gapi.client.drive.File> | null = null;
+  private _progress = new Signal<this, ResumableUpload.IProgress>(this);
+}
+
+/**
+ * A namespace for `ResumableUpload` statics.
+ */
+export
+namespace ResumableUpload {
+  /**
+   * The options used to create a resumable upload.
+   */
+  export
+  interface IOptions {
+    /**
+     * The transport through which the content is sent, which
+     * defaults to the current transport.
+     */
+    transport?: IDriveTransport;
+
+    /**
+     * The id of an existing file, whose content is replaced.
+     */
+    fileId?: string;
+
+    /**
+     * The metadata for a new file.
+     */
+    resource: gapi.client.drive.File;
+
+    /**
+     * The mimetype of the content.
+     */
+    mimeType: string;
+
+    /**
+     * The content to upload.
+     */
+    bytes: Uint8Array;
+
+    /**
+     * The fields to include in the files resource of the uploaded file.
+     */
+    fields?: string;
+
+    /**
+     * Whether the file is in a Team Drive.
+     */
+    supportsTeamDrives?: boolean;
+
+    /**
+     * The size of each chunk, in bytes. This should be
+     * a multiple of 256 KiB, and defaults to 4 MiB.
+     */
+    chunkSize?: number;
+
+    /**
+     * The number of consecutive failures after which to give up.
+     */
+    maxRetries?: number;
+
+    /**
+     * The delay before the first attempt to resume, in milliseconds.
+     */
+    retryDelay?: number;
+  }
+
+  /**
+   * The progress of an upload.
+   */
+  export
+  interface IProgress {
+    /**
+     * The number of bytes that have been uploaded.
+     */
+    loaded: number;
+
+    /**
+     * The total size of the content, in bytes.
+     */
+    total: number;
+
+    /**
+     * The error after which the upload is about to be resumed,
+     * if the progress is emitted for a retry.
+     */
+    error?: DriveError;
+  }
+}
+
+/**
+ * A namespace for module private functionality.
+ */
+namespace Private {
+  /**
+   * Return a promise which resolves after a delay.
+   */
+  export
+  function wait(delay: number): Promise<void> {
+    return new Promise<void>(resolve => {
+      window.setTimeout(resolve, delay);
+    });
+  }
+}
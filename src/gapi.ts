@@ -6,8 +6,20 @@ import {
 } from '@phosphor/coreutils';
 
 import {
-  ServerConnection
-} from '@jupyterlab/services';
+  ISignal, Signal
+} from '@phosphor/signaling';
+
+import {
+  IGoogleAuthProvider, createAuthProvider
+} from './auth';
+
+import {
+  AuthorizationError, driveErrorFromResponse
+} from './drive/errors';
+
+import {
+  IDriveTransport
+} from './drive/transport';
 
 /**
  * Default Client ID to let the Google Servers know who
@@ -23,14 +35,6 @@ const DEFAULT_CLIENT_ID = '625147942732-t30t8vnn43fl5mvg1qde5pl84603dr6s.apps.go
 const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive';
 const DISCOVERY_DOCS = ['https://www.googleapis.com/discovery/v1/apis/drive/v3/rest'];
 
-/**
- * Aliases for common API errors.
- */
-const INVALID_CREDENTIALS_ERROR = 401;
-const FORBIDDEN_ERROR = 403;
-const BACKEND_ERROR = 500;
-const RATE_LIMIT_REASON = 'userRateLimitExceeded';
-
 /**
  * A promise delegate that is resolved when the google client
  * libraries are loaded onto the page.
@@ -46,14 +50,383 @@ export
 const gapiInitialized = new PromiseDelegate<void>();
 
 /**
- * A promise delegate that is resolved when the user authorizes
- * the app to access their Drive account.
+ * The states of the authorization of the app
+ * to access the user's Drive account.
+ *
+ * - `uninitialized`: the gapi client libraries are not initialized.
+ * - `signedOut`: the user is not signed in.
+ * - `signingIn`: the user is signing in, or their token is being loaded.
+ * - `authorized`: requests may be made with the user's token.
+ * - `tokenExpired`: the user's token is being refreshed.
+ * - `error`: the libraries could not be initialized, or the
+ *   token could not be refreshed.
+ */
+export
+type AuthStatus = 'uninitialized' | 'signedOut' | 'signingIn' |
+                  'authorized' | 'tokenExpired' | 'error';
+
+/**
+ * The observable state of the authorization of the app
+ * to access the user's Drive account.
+ */
+export
+class AuthState {
+  /**
+   * The current status of the authorization.
+   */
+  get status(): AuthStatus {
+    return this._status;
+  }
+
+  /**
+   * The message of the error, if the status is `'error'`,
+   * or the empty string.
+   */
+  get error(): string {
+    return this._error;
+  }
+
+  /**
+   * A signal emitted when the status changes.
+   */
+  get changed(): ISignal<this, AuthState.IChangedArgs> {
+    return this._changed;
+  }
+
+  /**
+   * Get a promise that is resolved when requests may be made,
+   * which is immediately if the status is `'authorized'`, or
+   * otherwise the next time that it becomes so.
+   */
+  authorized(): Promise<void> {
+    if (this._status === 'authorized') {
+      return Promise.resolve(void 0);
+    }
+    if (!this._authorized) {
+      this._authorized = new PromiseDelegate<void>();
+    }
+    return this._authorized.promise;
+  }
+
+  /**
+   * Set the status of the authorization.
+   *
+   * @param status - the new status.
+   *
+   * @param error - the message of the error, for the `'error'` status.
+   *
+   * #### Notes
+   * This is called by the functions which sign the user in and out
+   * and refresh their token, and should rarely be called otherwise.
+   */
+  setStatus(status: AuthStatus, error: string = ''): void {
+    const oldValue = this._status;
+    this._error = status === 'error' ? error : '';
+    if (status === oldValue) {
+      return;
+    }
+    this._status = status;
+    if (status === 'authorized' && this._authorized) {
+      const authorized = this._authorized;
+      this._authorized = null;
+      authorized.resolve(void 0);
+    }
+    this._changed.emit({ oldValue, newValue: status });
+  }
+
+  private _status: AuthStatus = 'uninitialized';
+  private _error = '';
+  private _authorized: PromiseDelegate<void> | null = null;
+  private _changed = new Signal<this, AuthState.IChangedArgs>(this);
+}
+
+/**
+ * A namespace for `AuthState` statics.
+ */
+export
+namespace AuthState {
+  /**
+   * The arguments of the `changed` signal.
+   */
+  export
+  interface IChangedArgs {
+    /**
+     * The previous status.
+     */
+    oldValue: AuthStatus;
+
+    /**
+     * The new status.
+     */
+    newValue: AuthStatus;
+  }
+}
+
+/**
+ * A Google account whose Drive may be used, with its own
+ * authorization state and token from an auth provider.
  *
  * #### Notes
- * This promise will be reassigned if the user logs out.
+ * Several accounts may be signed in at once, each with its own
+ * `GapiDriveTransport`. Only the token of the default account is
+ * set on the gapi client libraries, and the requests of the other
+ * accounts carry their own token, so the realtime API is only
+ * available for the files of the default account.
+ */
+export
+class GoogleAccount {
+  /**
+   * Construct an account.
+   */
+  constructor(options: GoogleAccount.IOptions = {}) {
+    this._provider = options.provider || createAuthProvider();
+    // A failed initialization is shown by the state,
+    // and need not be handled by anything waiting on it.
+    this._initialized.promise.catch(() => { /* no-op */ });
+  }
+
+  /**
+   * The state of the authorization of the app to access the account.
+   */
+  readonly authState = new AuthState();
+
+  /**
+   * The provider of the tokens of the account.
+   *
+   * #### Notes
+   * The provider may only be changed before the account is initialized.
+   */
+  get provider(): IGoogleAuthProvider {
+    return this._provider;
+  }
+  set provider(provider: IGoogleAuthProvider) {
+    this._provider = provider;
+  }
+
+  /**
+   * The current token of the account, or `null` if it has none.
+   */
+  get token(): IGoogleAuthProvider.IToken | null {
+    return this._token;
+  }
+
+  /**
+   * The basic profile of the user of the account, or `null`
+   * if the user is not signed in.
+   */
+  get userProfile(): IGoogleAuthProvider.IUserProfile | null {
+    return this._provider.userProfile;
+  }
+
+  /**
+   * Initialize the auth provider of the account, once
+   * the gapi client libraries are loaded.
+   *
+   * @param clientId: The client ID for the project from the
+   *   Google Developer Console, or `''` for the default one.
+   *
+   * @returns a promise that resolves with whether the user
+   *   was automatically signed in by the initialization, or
+   *   rejects with the message of an error.
+   */
+  initialize(clientId: string): Promise<boolean> {
+    return new Promise<boolean>( (resolve, reject) => {
+      gapiLoaded.promise.then(() => {
+        const provider = this._provider;
+        return provider.load().then(() => {
+          return provider.initialize({
+            clientId: clientId || DEFAULT_CLIENT_ID,
+            scope: DRIVE_SCOPE,
+            discoveryDocs: DISCOVERY_DOCS
+          });
+        });
+      }).then(signedIn => {
+        // Check if the user is logged in and we are
+        // authomatically authorized.
+        if (signedIn) {
+          this.authState.setStatus('signingIn');
+          this._refreshToken().catch(() => { /* Shown by the state. */ });
+        } else {
+          this.authState.setStatus('signedOut');
+        }
+        this._initialized.resolve(void 0);
+        resolve(signedIn);
+      }, (err: any) => {
+        const message = Private.errorMessage(err);
+        this.authState.setStatus('error', message);
+        this._initialized.reject(err);
+        reject(message);
+      });
+    });
+  }
+
+  /**
+   * Ask the user for permission to use their Google Drive account,
+   * using the auth provider, which may show a popup.
+   *
+   * @returns: a promise that resolves with a boolean for whether
+   *   permission has been granted.
+   */
+  signIn(): Promise<boolean> {
+    return this._initialized.promise.then(() => {
+      this.authState.setStatus('signingIn');
+      return this._provider.signIn().then(token => {
+        // Closing the popup or denying access is not an error.
+        if (!token) {
+          this.authState.setStatus('signedOut');
+          return false;
+        }
+        return this._setToken(token);
+      }, (err: any) => {
+        this.authState.setStatus('error', Private.errorMessage(err));
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Sign the user out of the account.
+   *
+   * @returns a promise resolved when sign-out is complete.
+   */
+  signOut(): Promise<void> {
+    this._cancelRefresh();
+    this._token = null;
+    this.authState.setStatus('signedOut');
+    return this._provider.signOut();
+  }
+
+  /**
+   * Refresh the token of the account, such as when a
+   * request has failed because the token has expired.
+   *
+   * @returns a promise resolved when the status is `'authorized'`
+   *   again, or rejected if the token could not be refreshed.
+   *
+   * #### Notes
+   * The status is `'tokenExpired'` until the token is refreshed,
+   * so that new requests wait for it.
+   */
+  refreshAuthorization(): Promise<void> {
+    if (this.authState.status === 'signedOut') {
+      return Promise.reject(Private.notSignedIn());
+    }
+    this.authState.setStatus('tokenExpired');
+    return this._refreshToken();
+  }
+
+  /**
+   * Keep a token from the auth provider, and set a timer
+   * to refresh it before it expires.
+   *
+   * @returns whether the token was kept, which it is not
+   *   if the user signed out in the meantime.
+   *
+   * #### Notes
+   * Importantly, the token of the default account is set with
+   * `gapi.auth.setToken`. Without this step, the realtime API
+   * will not pick up the OAuth token, and it will not work.
+   * This step is completely undocumented, but without it we
+   * cannot use the newer, better documented, undeprecated
+   * authorization APIs.
+   */
+  private _setToken(token: IGoogleAuthProvider.IToken): boolean {
+    if (this.authState.status === 'signedOut') {
+      return false;
+    }
+    this._token = token;
+    if (this === defaultAccount) {
+      gapi.auth.setToken(token as any);
+    }
+    // Set a timer to refresh the authorization.
+    this._cancelRefresh();
+    this._refreshTimer = setTimeout(() => {
+      this._refreshToken().catch(() => { /* Shown by the state. */ });
+    }, 750 * Number(token.expires_in));
+    this.authState.setStatus('authorized');
+    return true;
+  }
+
+  /**
+   * Refresh the token with the auth provider.
+   *
+   * #### Notes
+   * The status of the authorization is `'authorized'` once the token
+   * is refreshed, or `'error'` if it could not be. Concurrent calls
+   * share a single refresh.
+   */
+  private _refreshToken(): Promise<void> {
+    if (this._refreshing) {
+      return this._refreshing;
+    }
+    this._refreshing = new Promise<void>((resolve, reject) => {
+      this._provider.refreshToken().then(token => {
+        this._refreshing = null;
+        // The user may have signed out in the meantime.
+        if (!this._setToken(token)) {
+          reject(Private.notSignedIn());
+          return;
+        }
+        resolve(void 0);
+      }, (err: any) => {
+        this._refreshing = null;
+        if (this.authState.status !== 'signedOut') {
+          this.authState.setStatus('error', Private.errorMessage(err));
+        }
+        reject(err);
+      });
+    });
+    return this._refreshing;
+  }
+
+  /**
+   * Stop refreshing the token, such as on sign-out.
+   */
+  private _cancelRefresh(): void {
+    if (this._refreshTimer) {
+      clearTimeout(this._refreshTimer);
+      this._refreshTimer = null;
+    }
+  }
+
+  private _provider: IGoogleAuthProvider;
+  private _token: IGoogleAuthProvider.IToken | null = null;
+  private _initialized = new PromiseDelegate<void>();
+  private _refreshTimer: any = null;
+  private _refreshing: Promise<void> | null = null;
+}
+
+/**
+ * A namespace for `GoogleAccount` statics.
  */
 export
-let gapiAuthorized = new PromiseDelegate<void>();
+namespace GoogleAccount {
+  /**
+   * The options used to construct an account.
+   */
+  export
+  interface IOptions {
+    /**
+     * The provider of the tokens of the account, which
+     * defaults to a `gapi.auth2` provider.
+     */
+    provider?: IGoogleAuthProvider;
+  }
+}
+
+/**
+ * The default account, which is the one signed in
+ * on the login screen of the file browser.
+ */
+export
+const defaultAccount = new GoogleAccount();
+
+/**
+ * The state of the authorization of the app
+ * to access the default account.
+ */
+export
+const authState = defaultAccount.authState;
 
 /**
  * Load the gapi scripts onto the page.
@@ -101,35 +474,37 @@ function loadGapi(): Promise<void> {
  */
 export
 function initializeGapi(clientId: string): Promise<boolean> {
-  return new Promise<boolean>( (resolve, reject) => {
-    gapiLoaded.promise.then(() => {
-      gapi.client.init({
-        discoveryDocs: DISCOVERY_DOCS,
-        clientId: clientId || DEFAULT_CLIENT_ID,
-        scope: DRIVE_SCOPE
-      }).then(() => {
-        // Check if the user is logged in and we are
-        // authomatically authorized.
-        const googleAuth = gapi.auth2.getAuthInstance();
-        if (googleAuth.isSignedIn.get()) {
-          Private.refreshAuthToken().then(() => {
-            gapiAuthorized.resolve(void 0);
-          });
-          gapiInitialized.resolve(void 0);
-          resolve(true);
-        } else {
-          gapiInitialized.resolve(void 0);
-          resolve(false);
-        }
-      }, (err: any) => {
-        gapiInitialized.reject(err);
-        // A useful error message is in err.details.
-        reject(err.details);
-      });
-    });
+  return defaultAccount.initialize(clientId).then(signedIn => {
+    gapiInitialized.resolve(void 0);
+    return signedIn;
+  }, (err: any) => {
+    gapiInitialized.reject(err);
+    throw err;
   });
 }
 
+/**
+ * Set the provider of the tokens of the default account.
+ *
+ * @param provider - the provider, such as one created
+ *   by `createAuthProvider`.
+ *
+ * #### Notes
+ * This must be called before `initializeGapi`.
+ */
+export
+function setAuthProvider(provider: IGoogleAuthProvider): void {
+  defaultAccount.provider = provider;
+}
+
+/**
+ * Get the provider of the tokens of the default account.
+ */
+export
+function getAuthProvider(): IGoogleAuthProvider {
+  return defaultAccount.provider;
+}
+
 /**
  * Constants used when attempting exponential backoff.
  */
@@ -140,10 +515,12 @@ const INITIAL_DELAY = 250; //250 ms
 /**
  * Wrapper function for making API requests to Google Drive.
  *
+ * @param transport: the transport through which the request is made.
+ *
  * @param createRequest: a function that creates a request object for
- *   the Google Drive APIs. This is typically created by the Javascript
- *   client library. We use a request factory to create additional requests
- *   should we need to try exponential backoff.
+ *   the Google Drive APIs using the given transport. We use a request
+ *   factory to create additional requests should we need to try
+ *   exponential backoff.
  *
  * @param successCode: the code to check against for success of the request, defaults
  *   to 200.
@@ -151,21 +528,24 @@ const INITIAL_DELAY = 250; //250 ms
  * @param attemptNumber: the number of times this request has been made
  *   (used when attempting exponential backoff).
  *
- * @returns a promse that resolves with the result of the request.
+ * @returns a promse that resolves with the result of the request, or
+ *   rejects with a `DriveError` once the request has failed for good.
+ *
+ * #### Notes
+ * Requests which fail with a retriable error, such as for a rate limit
+ * or a backend error, are retried with exponential backoff. Requests
+ * which fail because the token has expired are retried once the
+ * authorization has been refreshed.
  */
 export
-function driveApiRequest<T>( createRequest: () => gapi.client.HttpRequest<T>, successCode: number = 200, attemptNumber: number = 0): Promise<T> {
-  if(attemptNumber === MAX_API_REQUESTS) {
-    return Promise.reject('Maximum number of API retries reached.');
-  }
+function driveApiRequest<T>(transport: IDriveTransport, createRequest: (transport: IDriveTransport) => IDriveTransport.IRequest<T>, successCode: number = 200, attemptNumber: number = 0): Promise<T> {
   return new Promise<T>((resolve, reject) => {
-    gapiAuthorized.promise.then(() => {
-      const request = createRequest();
+    transport.ready.then(() => {
+      const request = createRequest(transport);
       request.then((response) => {
         if(response.status !== successCode) {
           // Handle an HTTP error.
-          let result: any = response.result;
-          reject(makeError(result.error.code, result.error.message));
+          reject(driveErrorFromResponse(response as any));
         } else {
           // If the response is note JSON-able, then `response.result`
           // will be `false`, and the raw data will be in `response.body`.
@@ -177,35 +557,32 @@ function driveApiRequest<T>( createRequest: () => gapi.client.HttpRequest<T>, su
             resolve(response.body as any);
           }
         }
-      }, (response) => {
+      }, (response: IDriveTransport.IErrorResponse) => {
         // Some error happened.
-        if (response.status === BACKEND_ERROR ||
-           (response.status === FORBIDDEN_ERROR &&
-            (<any>response.result.error).errors[0].reason
-             === RATE_LIMIT_REASON)) {
+        const error = driveErrorFromResponse(response);
+        const canRetry = attemptNumber + 1 < MAX_API_REQUESTS;
+        if (error.retriable && canRetry) {
           // If we are being rate limited, or if there is a backend error,
           // attempt exponential backoff.
-          console.warn(`gapi: ${response.status} error, exponential ` +
+          console.warn(`gapi: ${error.status} error, exponential ` +
                        `backoff attempt number ${attemptNumber}...`);
           window.setTimeout( () => {
             // Try again after a delay.
-            driveApiRequest<T>(createRequest, successCode, attemptNumber+1)
-            .then((result) => {
-              resolve(result);
-            });
+            driveApiRequest<T>(transport, createRequest, successCode,
+                               attemptNumber+1)
+            .then(resolve, reject);
           }, INITIAL_DELAY*Math.pow(BACKOFF_FACTOR, attemptNumber));
-        } else if (response.status === INVALID_CREDENTIALS_ERROR) {
+        } else if (error instanceof AuthorizationError && canRetry) {
           // If the credentials are invalid, try refreshing the authorization
           // token, then retry the request.
-          Private.refreshAuthToken().then(() => {
-            driveApiRequest<T>(createRequest, successCode, attemptNumber+1)
-            .then(result => {
-              resolve(result);
-            });
-          });
+          transport.refreshAuthorization().then(() => {
+            return driveApiRequest<T>(transport, createRequest, successCode,
+                                      attemptNumber+1);
+          }, () => {
+            throw error;
+          }).then(resolve, reject);
         } else {
-          let result: any = response.result;
-          reject(makeError(result.error.code, result.error.message));
+          reject(error);
         }
       });
     });
@@ -213,118 +590,598 @@ function driveApiRequest<T>( createRequest: () => gapi.client.HttpRequest<T>, su
 }
 
 /**
- * Ask the user for permission to use their Google Drive account.
- * First it tries to authorize without a popup, and if it fails, it
- * creates a popup. If the argument `allowPopup` is false, then it will
- * not try to authorize with a popup.
+ * Set the transport through which Google Drive API requests
+ * are made by drives that are not given their own.
+ *
+ * @param transport: the new transport. By default, requests
+ *   go to the Google servers through a `GapiDriveTransport`.
+ */
+export
+function setDriveTransport(transport: IDriveTransport): void {
+  Private.transport = transport;
+}
+
+/**
+ * Get the transport through which Google Drive API
+ * requests are currently made.
+ */
+export
+function getDriveTransport(): IDriveTransport {
+  return Private.transport;
+}
+
+/**
+ * Boundary string for multipart uploads.
+ */
+const MULTIPART_BOUNDARY = '-------314159265358979323846';
+
+/**
+ * The root URL for Google API requests which are made directly,
+ * rather than with the gapi client libraries.
+ */
+const GOOGLE_API_URL = 'https://www.googleapis.com';
+
+/**
+ * An `IDriveTransport` that makes requests to the Google
+ * servers using the gapi client libraries.
+ */
+export
+class GapiDriveTransport implements IDriveTransport {
+  /**
+   * Construct a transport.
+   *
+   * @param account - the account whose Drive is used,
+   *   which defaults to the default account.
+   */
+  constructor(account: GoogleAccount = defaultAccount) {
+    this.account = account;
+  }
+
+  /**
+   * The account whose Drive is used.
+   */
+  readonly account: GoogleAccount;
+
+  /**
+   * A promise that is resolved when the user
+   * has authorized the application.
+   */
+  get ready(): Promise<void> {
+    return this.account.authState.authorized();
+  }
+
+  /**
+   * The files resource.
+   */
+  get files(): IDriveTransport.IFilesResource {
+    return this._resource('files', gapi.client.drive.files);
+  }
+
+  /**
+   * The revisions resource.
+   */
+  get revisions(): IDriveTransport.IRevisionsResource {
+    return this._resource('revisions', gapi.client.drive.revisions);
+  }
+
+  /**
+   * The permissions resource.
+   */
+  get permissions(): IDriveTransport.IPermissionsResource {
+    return this._resource('permissions', gapi.client.drive.permissions);
+  }
+
+  /**
+   * The comments resource.
+   */
+  get comments(): IDriveTransport.ICommentsResource {
+    return this._resource('comments', gapi.client.drive.comments);
+  }
+
+  /**
+   * The replies resource.
+   */
+  get replies(): IDriveTransport.IRepliesResource {
+    return this._resource('replies', gapi.client.drive.replies);
+  }
+
+  /**
+   * The Team Drives resource.
+   */
+  get teamdrives(): IDriveTransport.ITeamDrivesResource {
+    return this._resource('teamdrives', gapi.client.drive.teamdrives);
+  }
+
+  /**
+   * The changes resource.
+   */
+  get changes(): IDriveTransport.IChangesResource {
+    return this._resource('changes', gapi.client.drive.changes);
+  }
+
+  /**
+   * Refresh the token of the account.
+   */
+  refreshAuthorization(): Promise<void> {
+    return this.account.refreshAuthorization();
+  }
+
+  /**
+   * Upload the content of a file using a multipart request.
+   */
+  upload(options: IDriveTransport.IUploadOptions): IDriveTransport.IRequest<gapi.client.drive.File> {
+    // Construct the HTTP request: first the metadata,
+    // then the content of the uploaded file.
+    const existing = !!options.fileId;
+    const delimiter = '\r\n--' + MULTIPART_BOUNDARY + '\r\n';
+    const closeDelim = '\r\n--' + MULTIPART_BOUNDARY + '--';
+
+    // Metatdata part.
+    let body = delimiter+'Content-Type: application/json\r\n\r\n';
+    // Don't update metadata if the file already exists.
+    if(!existing) {
+      body += JSON.stringify(options.resource);
+    }
+    body += delimiter;
+
+    // Content of the file.
+    body += 'Content-Type: ' + options.mimeType + '\r\n';
+    if (options.base64) {
+      body += 'Content-Transfer-Encoding: base64\r\n';
+    }
+    body += '\r\n';
+
+    let apiPath = '/upload/drive/v3/files';
+    let method = 'POST';
+
+    if(existing) {
+      method = 'PATCH';
+      apiPath = apiPath+'/'+options.fileId;
+    }
+
+    // Raw bytes cannot be sent with the client libraries,
+    // so send them in a `Blob` instead.
+    if (options.content instanceof Uint8Array) {
+      const url = GOOGLE_API_URL + apiPath + Private.queryString({
+        uploadType: 'multipart',
+        supportsTeamDrives: !!options.supportsTeamDrives,
+        fields: options.fields
+      });
+      const blob = new Blob([body, options.content, closeDelim]);
+      return Private.sendRequest(this._accessToken(), method, url, {
+        'Content-Type': 'multipart/related; boundary="' +
+          MULTIPART_BOUNDARY + '"'
+      }, blob).then(xhr => {
+        if (xhr.status !== 200) {
+          throw Private.errorResponse(xhr.status, xhr.statusText,
+                                      xhr.responseText);
+        }
+        return {
+          result: JSON.parse(xhr.responseText),
+          body: xhr.responseText,
+          status: xhr.status
+        };
+      });
+    }
+    body += options.content + closeDelim;
+
+    return gapi.client.request({
+      path: apiPath,
+      method: method,
+      params: {
+        uploadType: 'multipart',
+        supportsTeamDrives: !!options.supportsTeamDrives,
+        fields: options.fields
+        },
+      headers: this._headers({
+        'Content-Type': 'multipart/related; boundary="' +
+          MULTIPART_BOUNDARY + '"'
+        }),
+      body: body
+    });
+  }
+
+  /**
+   * Download the raw bytes of a file, or of one of its revisions.
+   */
+  download(options: IDriveTransport.IDownloadOptions): IDriveTransport.IRequest<ArrayBuffer> {
+    let url = GOOGLE_API_URL + '/drive/v3/files/' + options.fileId;
+    if (options.revisionId) {
+      url += '/revisions/' + options.revisionId;
+    }
+    url += Private.queryString({
+      alt: 'media',
+      supportsTeamDrives: !!options.supportsTeamDrives
+    });
+    return Private.sendRequest(this._accessToken(), 'GET', url, {},
+                               null, 'arraybuffer')
+    .then(xhr => {
+      if (xhr.status !== 200) {
+        throw Private.errorResponse(xhr.status, xhr.statusText, '');
+      }
+      return { result: xhr.response as ArrayBuffer, body: '', status: 200 };
+    });
+  }
+
+  /**
+   * Export the raw bytes of a native Google file.
+   */
+  export(options: IDriveTransport.IExportOptions): IDriveTransport.IRequest<ArrayBuffer> {
+    const url = GOOGLE_API_URL + '/drive/v3/files/' + options.fileId +
+                '/export' + Private.queryString({ mimeType: options.mimeType });
+    return Private.sendRequest(this._accessToken(), 'GET', url, {},
+                               null, 'arraybuffer')
+    .then(xhr => {
+      if (xhr.status !== 200) {
+        throw Private.errorResponse(xhr.status, xhr.statusText, '');
+      }
+      return { result: xhr.response as ArrayBuffer, body: '', status: 200 };
+    });
+  }
+
+  /**
+   * Begin a resumable upload session.
+   */
+  beginResumableUpload(options: IDriveTransport.IResumableUploadOptions): IDriveTransport.IRequest<string> {
+    const existing = !!options.fileId;
+    return gapi.client.request({
+      path: '/upload/drive/v3/files' + (existing ? '/' + options.fileId : ''),
+      method: existing ? 'PATCH' : 'POST',
+      params: {
+        uploadType: 'resumable',
+        supportsTeamDrives: !!options.supportsTeamDrives,
+        fields: options.fields
+      },
+      headers: this._headers({
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': options.mimeType,
+        'X-Upload-Content-Length': String(options.size)
+      }),
+      // Don't update metadata if the file already exists.
+      body: existing ? '' : JSON.stringify(options.resource)
+    }).then(response => {
+      const headers: any = response.headers || {};
+      return {
+        result: headers['location'] || headers['Location'],
+        body: response.body,
+        status: response.status
+      };
+    });
+  }
+
+  /**
+   * Upload a chunk of content to a resumable upload session.
+   */
+  uploadChunk(options: IDriveTransport.IChunkOptions): IDriveTransport.IRequest<IDriveTransport.IUploadStatus> {
+    const end = options.start + options.chunk.length;
+    const range = `bytes ${options.start}-${end - 1}/${options.size}`;
+    return Private.sendToUploadSession(
+      this._accessToken(), options.sessionUri, range, options.chunk,
+      options.onProgress);
+  }
+
+  /**
+   * Query the status of a resumable upload session.
+   */
+  queryUpload(sessionUri: string, size: number): IDriveTransport.IRequest<IDriveTransport.IUploadStatus> {
+    return Private.sendToUploadSession(
+      this._accessToken(), sessionUri, `bytes */${size}`, null);
+  }
+
+  /**
+   * Get the access token of the account, which is sent in
+   * the `Authorization` header of requests made directly.
+   */
+  private _accessToken(): string {
+    const token = this.account.token;
+    return token ? token.access_token : '';
+  }
+
+  /**
+   * Get a resource of the Drive API for the account.
+   *
+   * #### Notes
+   * The gapi client libraries make their requests with a single token,
+   * which is that of the default account. The requests of other accounts
+   * are made with `gapi.client.request`, with their own token in the
+   * `Authorization` header, so that requests of several accounts may
+   * be made at the same time.
+   */
+  private _resource<T>(name: string, resource: T): T {
+    if (this.account === defaultAccount) {
+      return resource;
+    }
+    return Private.createResource(
+      Private.RESOURCE_METHODS[name], () => this._headers({}));
+  }
+
+  /**
+   * Add the token of the account to the headers of a request
+   * made with the gapi client libraries, unless it is the default
+   * account, whose token is already set on them.
+   */
+  private _headers(headers: { [key: string]: string }): { [key: string]: string } {
+    if (this.account === defaultAccount) {
+      return headers;
+    }
+    return { ...headers, 'Authorization': 'Bearer ' + this._accessToken() };
+  }
+}
+
+/**
+ * Ask the user for permission to use the Google Drive
+ * of the default account.
  *
  * @returns: a promise that resolves with a boolean for whether permission
  *   has been granted.
  */
 export
 function signIn(): Promise<boolean> {
-  return new Promise<boolean>((resolve, reject) => {
-    gapiInitialized.promise.then(() => {
-      const googleAuth = gapi.auth2.getAuthInstance();
-      if (!googleAuth.isSignedIn.get()) {
-        googleAuth.signIn({ prompt: 'select_account' }).then(() => {
-          Private.refreshAuthToken().then(() => {
-            // Resolve the exported promise.
-            gapiAuthorized.resolve(void 0);
-            resolve(true);
-          });
-        });
-      } else {
-        // Otherwise we are already signed in.
-        // Resolve the exported promise.
-        gapiAuthorized.resolve(void 0);
-        resolve(true);
-      }
-    });
-  });
+  return gapiInitialized.promise.then(() => defaultAccount.signIn());
 }
 
 /**
- * Sign a user out of their Google account.
+ * Sign the user out of the default account.
  *
  * @returns a promise resolved when sign-out is complete.
  */
 export
 function signOut(): Promise<void> {
-  const googleAuth = gapi.auth2.getAuthInstance();
-  // Invalidate the gapiAuthorized promise and set up a new one.
-  gapiAuthorized = new PromiseDelegate<void>();
-  return googleAuth.signOut();
+  return defaultAccount.signOut();
 }
 
 /**
- * Get the basic profile of the currently signed-in user.
+ * Refresh the token of the default account, such as when
+ * a request has failed because the token has expired.
  *
- * @returns a `gapi.auth2.BasicProfile instance.
+ * @returns a promise resolved when the status is `'authorized'`
+ *   again, or rejected if the token could not be refreshed.
  */
 export
-function getCurrentUserProfile(): gapi.auth2.BasicProfile {
-  const user = gapi.auth2.getAuthInstance().currentUser.get();
-  return user.getBasicProfile();
+function refreshAuthorization(): Promise<void> {
+  return defaultAccount.refreshAuthorization();
 }
 
 /**
- * Wrap an API error in a hacked-together error object
- * masquerading as an `ServerConnection.IError`.
+ * Get the basic profile of the user of the default account.
+ *
+ * @returns the profile from the auth provider, or `null`
+ *   if the user is not signed in.
  */
 export
-function makeError(code: number, message: string): ServerConnection.IError {
-  const xhr = {
-    status: code,
-    responseText: message
-  };
-  return {
-    event: undefined,
-    xhr: xhr as XMLHttpRequest,
-    ajaxSettings: null,
-    throwError: xhr.responseText,
-    message: xhr.responseText
-  } as any as ServerConnection.IError;
+function getCurrentUserProfile(): IGoogleAuthProvider.IUserProfile | null {
+  return defaultAccount.userProfile;
 }
 
-
 /**
  * A namespace for private functions and values.
  */
 namespace Private {
   /**
-   * Timer for keeping track of refreshing the authorization with
-   * Google drive.
+   * Send a request to a resumable upload session. These requests
+   * are made directly, rather than with the gapi client libraries,
+   * so that binary content can be sent and its progress observed.
+   *
+   * @param accessToken - the token with which the request is made.
+   *
+   * @param sessionUri - the URI of the upload session.
+   *
+   * @param range - the value of the `Content-Range` header.
+   *
+   * @param body - the bytes to send, if any.
+   *
+   * @param onProgress - a callback for the number of bytes sent.
+   *
+   * @returns a promise fulfilled with the status of the upload,
+   *   or rejected with an error response.
    */
-  let authorizeRefresh: any = null;
+  export
+  function sendToUploadSession(accessToken: string, sessionUri: string, range: string, body: Uint8Array | null, onProgress?: (sent: number) => void): Promise<IDriveTransport.IResponse<IDriveTransport.IUploadStatus>> {
+    return sendRequest(accessToken, 'PUT', sessionUri,
+                       { 'Content-Range': range },
+                       body, '', onProgress).then(xhr => {
+      if (xhr.status === 200 || xhr.status === 201) {
+        const file = JSON.parse(xhr.responseText);
+        return {
+          result: { received: Number(file.size) || 0, file },
+          body: xhr.responseText,
+          status: xhr.status
+        };
+      } else if (xhr.status === 308) {
+        // The upload is incomplete. The `Range` header
+        // gives the bytes received so far, if any.
+        const received = xhr.getResponseHeader('Range');
+        return {
+          result: {
+            received: received ? Number(received.split('-')[1]) + 1 : 0
+          },
+          body: xhr.responseText,
+          status: xhr.status
+        };
+      }
+      throw errorResponse(xhr.status, xhr.statusText, xhr.responseText);
+    });
+  }
 
   /**
-   * Refresh the authorization token for Google APIs.
+   * Make an authorized request directly with an `XMLHttpRequest`.
    *
-   * #### Notes
-   * Importantly, this calls `gapi.auth.setToken`.
-   * Without this step, the realtime API will not pick
-   * up the OAuth token, and it will not work. This step is
-   * completely undocumented, but without it we cannot
-   * use the newer, better documented, undeprecated `gapi.auth2`
-   * authorization API.
+   * @param accessToken - the token with which the request is made.
+   *
+   * @param method - the HTTP method.
+   *
+   * @param url - the URL of the request.
+   *
+   * @param headers - additional headers for the request.
+   *
+   * @param body - the body of the request, if any.
+   *
+   * @param responseType - the type of the response.
+   *
+   * @param onProgress - a callback for the number of bytes sent.
+   *
+   * @returns a promise fulfilled with the completed request, whatever
+   *   its status, or rejected with an error response if the request
+   *   could not be made.
+   */
+  export
+  function sendRequest(accessToken: string, method: string, url: string, headers: { [key: string]: string }, body: Uint8Array | Blob | null, responseType: XMLHttpRequestResponseType = '', onProgress?: (sent: number) => void): Promise<XMLHttpRequest> {
+    return new Promise<XMLHttpRequest>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(method, url);
+      xhr.responseType = responseType;
+      xhr.setRequestHeader('Authorization', 'Bearer ' + accessToken);
+      for (let key in headers) {
+        xhr.setRequestHeader(key, headers[key]);
+      }
+      if (onProgress) {
+        xhr.upload.onprogress = event => { onProgress(event.loaded); };
+      }
+      xhr.onload = () => {
+        resolve(xhr);
+      };
+      xhr.onerror = () => {
+        reject(errorResponse(0, 'Network error', ''));
+      };
+      xhr.send(body);
+    });
+  }
+
+  /**
+   * The HTTP methods and paths of the methods of the resources of
+   * the Drive API, with the parameters of the path in braces.
    */
   export
-  function refreshAuthToken(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const googleAuth = gapi.auth2.getAuthInstance();
-      const user = googleAuth.currentUser.get();
-      user.reloadAuthResponse().then((authResponse: any) => {
-        gapi.auth.setToken(authResponse);
-        // Set a timer to refresh the authorization.
-        if(authorizeRefresh) {
-          clearTimeout(authorizeRefresh);
+  const RESOURCE_METHODS: { [resource: string]: { [method: string]: [string, string] } } = {
+    files: {
+      list: ['GET', 'files'],
+      get: ['GET', 'files/{fileId}'],
+      create: ['POST', 'files'],
+      update: ['PATCH', 'files/{fileId}'],
+      copy: ['POST', 'files/{fileId}/copy'],
+      delete: ['DELETE', 'files/{fileId}']
+    },
+    revisions: {
+      list: ['GET', 'files/{fileId}/revisions'],
+      get: ['GET', 'files/{fileId}/revisions/{revisionId}'],
+      update: ['PATCH', 'files/{fileId}/revisions/{revisionId}']
+    },
+    permissions: {
+      list: ['GET', 'files/{fileId}/permissions'],
+      create: ['POST', 'files/{fileId}/permissions'],
+      update: ['PATCH', 'files/{fileId}/permissions/{permissionId}'],
+      delete: ['DELETE', 'files/{fileId}/permissions/{permissionId}']
+    },
+    comments: {
+      list: ['GET', 'files/{fileId}/comments'],
+      create: ['POST', 'files/{fileId}/comments']
+    },
+    replies: {
+      create: ['POST', 'files/{fileId}/comments/{commentId}/replies']
+    },
+    teamdrives: {
+      list: ['GET', 'teamdrives']
+    },
+    changes: {
+      getStartPageToken: ['GET', 'changes/startPageToken'],
+      list: ['GET', 'changes']
+    }
+  };
+
+  /**
+   * Create a resource of the Drive API whose methods make
+   * their requests with `gapi.client.request`.
+   *
+   * @param methods - the HTTP methods and paths of the methods.
+   *
+   * @param headers - a function for the headers of each request.
+   *
+   * @returns the resource.
+   */
+  export
+  function createResource(methods: { [method: string]: [string, string] }, headers: () => { [key: string]: string }): any {
+    const resource: { [method: string]: (params: any) => any } = {};
+    Object.keys(methods).forEach(name => {
+      const [method, template] = methods[name];
+      resource[name] = (params: { [key: string]: any }) => {
+        // The `resource` parameter is the body of the request, and the
+        // parameters which are not part of the path are in its query.
+        const query: { [key: string]: any } = {};
+        for (let key in params) {
+          if (key !== 'resource' && template.indexOf(`{${key}}`) === -1) {
+            query[key] = params[key];
+          }
         }
-        authorizeRefresh = setTimeout(() => {
-          Private.refreshAuthToken();
-        }, 750 * Number(authResponse.expires_in));
-        resolve(void 0);
-      });
+        const path = template.replace(/\{(\w+)\}/g, (match, key) => {
+          return encodeURIComponent(params[key]);
+        });
+        return gapi.client.request({
+          path: '/drive/v3/' + path,
+          method,
+          params: query,
+          headers: headers(),
+          body: params.resource
+        });
+      };
+    });
+    return resource;
+  }
+
+  /**
+   * Construct the query string for a request.
+   */
+  export
+  function queryString(params: { [key: string]: string | boolean | undefined }): string {
+    const parts: string[] = [];
+    for (let key in params) {
+      if (params[key] !== undefined) {
+        parts.push(encodeURIComponent(key) + '=' +
+                   encodeURIComponent(String(params[key])));
+      }
+    }
+    return parts.length ? '?' + parts.join('&') : '';
+  }
+
+  /**
+   * Construct an error response for a failed request.
+   */
+  export
+  function errorResponse(code: number, message: string, body: string): IDriveTransport.IErrorResponse {
+    try {
+      const result = JSON.parse(body);
+      if (result && result.error) {
+        return { result, body, status: code };
+      }
+    } catch (err) {
+      // Fall through to the generic error.
+    }
+    return { result: { error: { code, message } }, body, status: code };
+  }
+
+  /**
+   * The transport through which Drive API requests are made.
+   */
+  export
+  let transport: IDriveTransport = new GapiDriveTransport();
+
+  /**
+   * Create the error for a request made while signed out.
+   */
+  export
+  function notSignedIn(): AuthorizationError {
+    return new AuthorizationError({
+      status: 401, message: 'Google Drive: not signed in'
     });
   }
+
+  /**
+   * Get the message of an error from the gapi libraries.
+   */
+  export
+  function errorMessage(err: any): string {
+    if (!err) {
+      return 'Unknown error';
+    }
+    return err.details || err.message || err.error || String(err);
+  }
 }
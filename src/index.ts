@@ -3,6 +3,10 @@
 
 import '../style/index.css';
 
+import {
+  each, find, toArray
+} from '@phosphor/algorithm';
+
 import {
   Widget
 } from '@phosphor/widgets';
@@ -39,20 +43,53 @@ import {
   ChatboxPanel
 } from './chatbox';
 
+import {
+  AccessPanel
+} from './drive/access';
+
 import {
   GoogleDriveFileBrowser, NAMESPACE
 } from './drive/browser';
 
 import {
-  getResourceForPath, createPermissions
+  fileIdFromLink, isInTrash, ICheckpoint, pathForFileId
 } from './drive/drive';
 
+import {
+  CommentsPanel, createEditorTarget, createNotebookTarget, isEditorWidget,
+  isNotebookWidget
+} from './drive/comments';
+
 import {
   GoogleDrive
 } from './drive/contents';
 
 import {
-  loadGapi
+  describeError
+} from './drive/errors';
+
+import {
+  RevisionDiffWidget
+} from './drive/diff';
+
+import {
+  CheckpointLabelForm, RevisionHistoryPanel
+} from './drive/history';
+
+import {
+  ReadOnlyExtension
+} from './drive/readonly';
+
+import {
+  SharingPanel
+} from './drive/sharing';
+
+import {
+  createAuthProvider
+} from './auth';
+
+import {
+  defaultAccount, GapiDriveTransport, GoogleAccount, loadGapi
 } from './gapi';
 
 /**
@@ -93,29 +130,407 @@ function activateFileBrowser(app: JupyterLab, palette: ICommandPalette, manager:
   const drive = new GoogleDrive(app.docRegistry);
   manager.services.contents.addDrive(drive);
 
+  // The drives of the signed-in accounts, starting with the default one.
+  const drives: GoogleDrive[] = [];
+  const driveForPath = (path: string) => {
+    const name = path.split(':')[0];
+    return find(drives, other => other.name === name) || null;
+  };
+
   // Construct a function that determines whether any documents
-  // associated with this filebrowser are currently open.
-  const hasOpenDocuments = () => {
+  // associated with a drive are currently open.
+  const hasOpenDocuments = (driveName: string) => {
     const iterator = app.shell.widgets('main');
     let widget: Widget | undefined;
     while (widget = iterator.next()) {
       const context = manager.contextForWidget(widget);
-      if (context && context.path.split(':')[0] === drive.name) {
+      if (context && context.path.split(':')[0] === driveName) {
         return true;
       }
     }
     return false;
   }
 
+  const settingsPromise = settingRegistry.load(id);
+
+  // Open documents that the user may not edit in a read-only
+  // mode, with a banner that offers to make a copy of them.
+  const makeCopy = (path: string) => {
+    const pathDrive = driveForPath(path);
+    if (!pathDrive) {
+      return;
+    }
+    const localPath = path.split(':').pop()!;
+    return pathDrive.makeCopy(localPath).then(contents => {
+      manager.openOrReveal(`${pathDrive.name}:${contents.path}`);
+    }).catch(err => {
+      showDialog({
+        title: 'Copy Error',
+        body: describeError(err),
+        buttons: [Dialog.okButton({label: 'OK'})]
+      });
+    });
+  };
+
+  // Set up a drive for the settings and the user interface,
+  // whose requests are made with an account.
+  const addDrive = (drive: GoogleDrive, account: GoogleAccount) => {
+    drives.push(drive);
+
+    // Keep the drive up to date with the settings.
+    settingsPromise.then(settings => {
+      const onSettingsChanged = () => {
+        drive.incrementalListing =
+          settings.get('incrementalListing').composite as boolean;
+        drive.useTrash = settings.get('useTrash').composite as boolean;
+        // Poll for remote changes, unless the interval is
+        // zero or the account is signed out.
+        const interval = settings.get('changesInterval').composite as number;
+        const status = account.authState.status;
+        if (interval > 0 && status !== 'signedOut' && status !== 'error') {
+          drive.changes.interval = interval * 1000;
+          drive.changes.start();
+        } else {
+          drive.changes.stop();
+        }
+      };
+      onSettingsChanged();
+      settings.changed.connect(onSettingsChanged);
+      account.authState.changed.connect(onSettingsChanged);
+    });
+
+    // Let the user know when an open document has been
+    // removed from Google Drive elsewhere.
+    drive.changes.changed.connect((sender, args) => {
+      if (args.type !== 'delete' || !args.oldValue) {
+        return;
+      }
+      const path = `${drive.name}:${args.oldValue.path}`;
+      if (Private.contextForPath(app, manager, path)) {
+        showDialog({
+          title: 'File Removed',
+          body: `"${PathExt.basename(path)}" has been moved, trashed, ` +
+                'or deleted in Google Drive. Save it to keep a copy.',
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      }
+    });
+
+    // Let the user know of the errors that no request is waiting on,
+    // unless the request will be made again later. The same error is
+    // not shown again while its dialog is open.
+    let shownError = '';
+    drive.errorOccurred.connect((sender, err) => {
+      const body = describeError(err);
+      if (err.retriable || body === shownError) {
+        return;
+      }
+      shownError = body;
+      showDialog({
+        title: 'Google Drive Error',
+        body,
+        buttons: [Dialog.okButton({label: 'OK'})]
+      }).then(() => {
+        shownError = '';
+      });
+    });
+
+    // Ask the user what to do when a save conflicts
+    // with changes made elsewhere.
+    drive.conflictResolver = conflict => {
+      const path = `${drive.name}:${conflict.path}`;
+      const overwriteButton = Dialog.warnButton({ label: 'OVERWRITE' });
+      const reloadButton = Dialog.okButton({ label: 'RELOAD' });
+      const copyButton = Dialog.okButton({ label: 'SAVE AS COPY' });
+      return showDialog({
+        title: 'File Changed',
+        body: `"${PathExt.basename(path)}" has been changed in Google Drive ` +
+              'since it was opened. Do you want to overwrite those changes, ' +
+              'reload the file and lose your changes, or save your changes ' +
+              'to a copy of the file?',
+        buttons: [Dialog.cancelButton(), reloadButton, copyButton, overwriteButton]
+      }).then(result => {
+        let resolution: GoogleDrive.ConflictResolution = 'cancel';
+        if (result.button.label === overwriteButton.label) {
+          resolution = 'overwrite';
+        } else if (result.button.label === copyButton.label) {
+          resolution = 'copy';
+        } else if (result.button.label === reloadButton.label) {
+          resolution = 'reload';
+        }
+        return resolution;
+      });
+    };
+
+    // Load the changes made elsewhere into the open document once a
+    // save has been cancelled to reload the file or to save a copy.
+    // The save fails with a message saying where the copy went.
+    drive.saveCancelled.connect((sender, err) => {
+      const context = Private.contextForPath(
+        app, manager, `${drive.name}:${err.path}`);
+      if (!context) {
+        return;
+      }
+      context.revert().catch(revertErr => {
+        showDialog({
+          title: 'File Load Error',
+          body: describeError(revertErr),
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      });
+    });
+
+    // Reload the open document for a restored checkpoint, which also
+    // updates the realtime model for the collaborators, so that the
+    // next save does not overwrite the restored content.
+    drive.checkpointRestored.connect((sender, args) => {
+      const context = Private.contextForPath(
+        app, manager, `${drive.name}:${args.path}`);
+      if (context) {
+        context.revert();
+      }
+    });
+
+    // Keep the history up to date as the current document is saved.
+    drive.fileChanged.connect((sender, args) => {
+      const path = args.newValue && args.newValue.path;
+      if (args.type === 'save' && history.drive === drive &&
+          path === history.path) {
+        history.refresh();
+      }
+    });
+
+    const readOnlyExtension = new ReadOnlyExtension({
+      driveName: drive.name,
+      onCopy: makeCopy
+    });
+    each(app.docRegistry.widgetFactories(), factory => {
+      app.docRegistry.addWidgetExtension(factory.name, readOnlyExtension);
+    });
+    app.docRegistry.changed.connect((sender, args) => {
+      if (args.type === 'widgetFactory' && args.change === 'added') {
+        sender.addWidgetExtension(args.name, readOnlyExtension);
+      }
+    });
+  };
+
   // Create the file browser.
   const browser = new GoogleDriveFileBrowser(
-    drive.name, app.docRegistry, commands, manager, factory,
-    settingRegistry.load(id), hasOpenDocuments);
+    drive, app.docRegistry, commands, manager, factory,
+    settingsPromise, hasOpenDocuments);
 
   // Add the file browser widget to the application restorer.
   restorer.add(browser, NAMESPACE);
   app.shell.addToLeftArea(browser, { rank: 101 });
 
+  // Add a side panel with the revision history of
+  // the current Google Drive document.
+  const history = new RevisionHistoryPanel({ drive });
+  restorer.add(history, 'google-drive-revision-history');
+  app.shell.addToRightArea(history);
+  // Add a side panel with the people who have access
+  // to the current Google Drive document.
+  const access = new AccessPanel({ drive });
+  restorer.add(access, 'google-drive-access');
+  app.shell.addToRightArea(access);
+  // Add a side panel with the comments on
+  // the current Google Drive document.
+  const comments = new CommentsPanel();
+  restorer.add(comments, 'google-drive-comments');
+  app.shell.addToRightArea(comments);
+  const onCurrentChanged = () => {
+    const widget = app.shell.currentWidget;
+    const context = widget ? manager.contextForWidget(widget) : undefined;
+    const contextDrive = context ? driveForPath(context.path) : null;
+    if (context && contextDrive) {
+      comments.target = Private.commentTarget(widget!);
+      // Changing the drive of a panel clears its path.
+      history.drive = access.drive = contextDrive;
+      comments.transport = contextDrive.transport;
+      history.path = access.path = comments.path =
+        context.path.split(':').pop()!;
+      // The collaborators are known once the realtime model has connected.
+      const modelDB = context.model.modelDB;
+      access.collaborators = null;
+      modelDB.connected.then(() => {
+        if (app.shell.currentWidget === widget && !modelDB.isDisposed) {
+          access.collaborators = modelDB.collaborators || null;
+        }
+      });
+    } else {
+      history.path = access.path = comments.path = null;
+      access.collaborators = null;
+      comments.target = null;
+    }
+  };
+  app.restored.then(onCurrentChanged);
+  app.shell.currentChanged.connect(onCurrentChanged);
+  addDrive(drive, defaultAccount);
+
+  // Open the differences between two revisions in the main area.
+  const openDiff = (drive: GoogleDrive, path: string, oldRevision: RevisionDiffWidget.IRevision, newRevision: RevisionDiffWidget.IRevision) => {
+    const diff = new RevisionDiffWidget({
+      drive, path, oldRevision, newRevision
+    });
+    app.shell.addToMainArea(diff);
+    app.shell.activateById(diff.id);
+    return diff.ready.catch(err => {
+      showDialog({
+        title: 'Compare Error',
+        body: describeError(err),
+        buttons: [Dialog.okButton({label: 'OK'})]
+      });
+    });
+  };
+  history.compareRequested.connect((sender, args) => {
+    const label = (time: string) => new Date(time).toLocaleString();
+    openDiff(history.drive, args.path, {
+      id: args.oldRevision.id,
+      label: label(args.oldRevision.modifiedTime)
+    }, {
+      id: args.newRevision.id,
+      label: label(args.newRevision.modifiedTime)
+    });
+  });
+
+  const accessCommand = 'google-drive:show-access';
+  commands.addCommand(accessCommand, {
+    execute: () => {
+      app.shell.activateById(access.id);
+    },
+    label: 'Show Who Has Access'
+  });
+  palette.addItem({ command: accessCommand, category: 'File Operations' });
+
+  const commentsCommand = 'google-drive:comments';
+  commands.addCommand(commentsCommand, {
+    execute: () => {
+      app.shell.activateById(comments.id);
+    },
+    label: 'Show Comments'
+  });
+  palette.addItem({ command: commentsCommand, category: 'File Operations' });
+
+  const historyCommand = 'google-drive:revision-history';
+  commands.addCommand(historyCommand, {
+    execute: () => {
+      app.shell.activateById(history.id);
+    },
+    label: 'Show Revision History'
+  });
+  palette.addItem({ command: historyCommand, category: 'File Operations' });
+
+  const compareCommand = 'google-drive:compare-checkpoints';
+  commands.addCommand(compareCommand, {
+    execute: () => {
+      const historyDrive = history.drive;
+      const path = history.path;
+      if (!path) {
+        return;
+      }
+      return historyDrive.listCheckpoints(path).then(checkpoints => {
+        if (checkpoints.length < 2) {
+          return showDialog({
+            title: 'Compare Checkpoints',
+            body: `"${PathExt.basename(path)}" needs at least ` +
+                  'two checkpoints to compare.',
+            buttons: [Dialog.okButton({label: 'OK'})]
+          }).then(() => void 0);
+        }
+        return showDialog({
+          title: `Compare Checkpoints of "${PathExt.basename(path)}"`,
+          body: new Private.CheckpointSelector(checkpoints),
+          buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'COMPARE'})]
+        }).then(result => {
+          if (result.button.accept) {
+            const [oldRevision, newRevision] = result.value!;
+            return openDiff(historyDrive, path, oldRevision, newRevision);
+          }
+        });
+      });
+    },
+    isEnabled: () => !!history.path,
+    label: 'Compare Checkpoints'
+  });
+  palette.addItem({ command: compareCommand, category: 'File Operations' });
+
+  // Add commands to create a labeled checkpoint of the
+  // current document, and to rename one later.
+  const showLabelError = (err: any) => {
+    showDialog({
+      title: 'Checkpoint Error',
+      body: describeError(err),
+      buttons: [Dialog.okButton({label: 'OK'})]
+    });
+  };
+  const labelCommand = 'google-drive:create-labeled-checkpoint';
+  commands.addCommand(labelCommand, {
+    execute: () => {
+      const widget = app.shell.currentWidget;
+      const context = widget ? manager.contextForWidget(widget) : undefined;
+      const historyDrive = history.drive;
+      const path = history.path;
+      if (!context || !path) {
+        return;
+      }
+      return showDialog({
+        title: `Create Checkpoint of "${PathExt.basename(path)}"`,
+        body: new CheckpointLabelForm(),
+        focusNodeSelector: 'input',
+        buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'CREATE'})]
+      }).then(result => {
+        if (!result.button.accept) {
+          return;
+        }
+        const value: CheckpointLabelForm.IValue = result.value;
+        // Save the document, so that the checkpoint has its content.
+        return context.save().then(() => {
+          return historyDrive.createLabeledCheckpoint(
+            path, value.label, value.description);
+        }).then(() => history.refresh()).catch(showLabelError);
+      });
+    },
+    isEnabled: () => !!history.path,
+    label: 'Save and Create Labeled Checkpoint'
+  });
+  palette.addItem({ command: labelCommand, category: 'File Operations' });
+
+  const renameCommand = 'google-drive:rename-checkpoint';
+  commands.addCommand(renameCommand, {
+    execute: () => {
+      const historyDrive = history.drive;
+      const path = history.path;
+      if (!path) {
+        return;
+      }
+      return historyDrive.listCheckpoints(path).then(checkpoints => {
+        if (!checkpoints.length) {
+          return showDialog({
+            title: 'Rename Checkpoint',
+            body: `"${PathExt.basename(path)}" has no checkpoints.`,
+            buttons: [Dialog.okButton({label: 'OK'})]
+          }).then(() => void 0);
+        }
+        return showDialog({
+          title: `Rename Checkpoint of "${PathExt.basename(path)}"`,
+          body: new CheckpointLabelForm({ checkpoints }),
+          buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'RENAME'})]
+        }).then(result => {
+          if (!result.button.accept) {
+            return;
+          }
+          const value: CheckpointLabelForm.IValue = result.value;
+          return historyDrive.renameCheckpoint(
+            path, value.checkpointID!, value.label, value.description)
+          .then(() => history.refresh());
+        });
+      }).catch(showLabelError);
+    },
+    isEnabled: () => !!history.path,
+    label: 'Rename Checkpoint'
+  });
+  palette.addItem({ command: renameCommand, category: 'File Operations' });
+
   // Add the share command to the command registry.
   const command = `google-drive:share`;
   commands.addCommand(command, {
@@ -124,28 +539,23 @@ function activateFileBrowser(app: JupyterLab, palette: ICommandPalette, manager:
       const context = widget ? manager.contextForWidget(widget) : undefined;
       if (context) {
         const path = context.path;
+        const pathDrive = driveForPath(path);
         // Do nothing if this file is not in the user's Google Drive.
-        if (path.split(':')[0] !== drive.name) {
+        if (!pathDrive) {
           console.warn('Cannot share a file outside of Google Drive');
           return;
         }
-        // Otherwise open the sharing dialog.
+        // Otherwise open the sharing dialog, which makes
+        // each change as soon as it is chosen.
         showDialog({
           title: `Share "${PathExt.basename(path)}"`,
-          body: new Private.EmailAddressWidget(),
+          body: new SharingPanel({
+            path: path.split(':').pop()!,
+            transport: pathDrive.transport
+          }),
           focusNodeSelector: 'input',
-          buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'ADD'})]
-        }).then( result => {
-          if (result.button.accept) {
-            // Get the file resource for the path and create
-            // permissions for the valid email addresses.
-            const addresses = result.value!;
-            const localPath = path.split(':').pop();
-            getResourceForPath(localPath!).then((resource) => {
-              createPermissions(resource, addresses);
-            });
-          }
-        });
+          buttons: [Dialog.okButton({label: 'DONE'})]
+        }).then(() => access.refresh());
       }
     },
     icon: 'jp-MaterialIcon jp-ShareIcon',
@@ -153,6 +563,228 @@ function activateFileBrowser(app: JupyterLab, palette: ICommandPalette, manager:
   });
   palette.addItem({ command, category: 'File Operations' });
 
+  // Add a command to open a file or folder from a link
+  // to it in Google Drive, or from its id.
+  const showLinkError = (err: any) => {
+    showDialog({
+      title: 'Open Link Error',
+      body: describeError(err),
+      buttons: [Dialog.okButton({label: 'OK'})]
+    });
+  };
+  const openLinkCommand = 'google-drive:open-link';
+  commands.addCommand(openLinkCommand, {
+    execute: () => {
+      return showDialog({
+        title: 'Open Google Drive Link',
+        body: new Private.LinkInput(),
+        focusNodeSelector: 'input',
+        buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'OPEN'})]
+      }).then(result => {
+        if (!result.button.accept) {
+          return;
+        }
+        const fileId = fileIdFromLink(result.value || '');
+        if (!fileId) {
+          throw new Error(`"${result.value}" is not a Google Drive ` +
+                          'link or file id');
+        }
+        // Open the file in the account shown in the file browser.
+        const linkDrive = browser.drive;
+        return pathForFileId(linkDrive.transport, fileId).then(path => {
+          return linkDrive.get(path, { content: false });
+        }).then(contents => {
+          if (contents.type === 'directory') {
+            app.shell.activateById(browser.id);
+            return browser.cd(contents.path);
+          }
+          manager.openOrReveal(`${linkDrive.name}:${contents.path}`);
+        });
+      }).catch(showLinkError);
+    },
+    label: 'Open Google Drive Link'
+  });
+  palette.addItem({ command: openLinkCommand, category: 'File Operations' });
+
+  // Add commands to restore or permanently delete
+  // the items selected in the "Trash" directory.
+  const trashedPaths = () => {
+    return toArray(browser.selectedItems()).map(item => {
+      return item.path.split(':').pop()!;
+    }).filter(isInTrash);
+  };
+  const restoreCommand = 'google-drive:restore-from-trash';
+  commands.addCommand(restoreCommand, {
+    execute: () => {
+      const trashDrive = browser.drive;
+      return Promise.all(trashedPaths().map(path => trashDrive.restore(path)))
+      .catch(err => {
+        showDialog({
+          title: 'Restore Error',
+          body: describeError(err),
+          buttons: [Dialog.okButton({label: 'OK'})]
+        });
+      });
+    },
+    isEnabled: () => trashedPaths().length > 0,
+    label: 'Restore from Trash'
+  });
+  palette.addItem({ command: restoreCommand, category: 'File Operations' });
+
+  const deleteCommand = 'google-drive:delete-permanently';
+  commands.addCommand(deleteCommand, {
+    execute: () => {
+      const paths = trashedPaths();
+      if (!paths.length) {
+        return;
+      }
+      const names = paths.map(path => `"${PathExt.basename(path)}"`);
+      const deleteButton = Dialog.warnButton({ label: 'DELETE' });
+      return showDialog({
+        title: 'Delete Forever',
+        body: `Permanently delete ${names.join(', ')}? ` +
+              'This cannot be undone.',
+        buttons: [Dialog.cancelButton(), deleteButton]
+      }).then(result => {
+        if (result.button.label !== deleteButton.label) {
+          return;
+        }
+        // Files in the trash are deleted permanently.
+        const trashDrive = browser.drive;
+        return Promise.all(paths.map(path => trashDrive.delete(path)))
+        .catch(err => {
+          showDialog({
+            title: 'Delete Error',
+            body: describeError(err),
+            buttons: [Dialog.okButton({label: 'OK'})]
+          });
+        });
+      });
+    },
+    isEnabled: () => trashedPaths().length > 0,
+    label: 'Delete Forever'
+  });
+  palette.addItem({ command: deleteCommand, category: 'File Operations' });
+
+  // Add a command to sign into another Google account, whose files
+  // are in a drive of their own, such as `GDrive-work:`.
+  const showAccountError = (err: any) => {
+    showDialog({
+      title: 'Account Error',
+      body: describeError(err),
+      buttons: [Dialog.okButton({label: 'OK'})]
+    });
+  };
+  const addAccountCommand = 'google-drive:add-account';
+  commands.addCommand(addAccountCommand, {
+    execute: () => {
+      return showDialog({
+        title: 'Add Google Account',
+        body: new Private.AccountNameInput(),
+        focusNodeSelector: 'input',
+        buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'SIGN IN'})]
+      }).then(result => {
+        if (!result.button.accept) {
+          return;
+        }
+        const label: string = result.value || '';
+        if (!Private.ACCOUNT_NAME_PATTERN.test(label)) {
+          throw new Error(`"${label}" is not a valid account name. Use ` +
+                          'letters, digits, "-" and "_".');
+        }
+        const name = `${drive.name}-${label}`;
+        const existing = find(drives, other => other.name === name);
+        if (existing) {
+          // Sign into an account that has been signed out again.
+          const transport = existing.transport;
+          const status = transport instanceof GapiDriveTransport ?
+                         transport.account.authState.status : 'authorized';
+          if (status !== 'signedOut' && status !== 'error') {
+            throw new Error(`An account is already named "${label}"`);
+          }
+          const existingAccount = (transport as GapiDriveTransport).account;
+          return existingAccount.signIn().then(signedIn => {
+            if (signedIn) {
+              browser.switchAccount(existing);
+            } else if (existingAccount.authState.status === 'error') {
+              throw new Error(existingAccount.authState.error);
+            }
+          });
+        }
+        // Other accounts always use Google Identity Services, since
+        // the other auth providers only have a single user.
+        const account = new GoogleAccount({
+          provider: createAuthProvider('identityServices')
+        });
+        return settingsPromise.then(settings => {
+          const clientId = settings.get('clientId').composite as string;
+          return account.initialize(clientId);
+        }).then(() => account.signIn()).then(signedIn => {
+          if (!signedIn) {
+            if (account.authState.status === 'error') {
+              throw new Error(account.authState.error);
+            }
+            return;
+          }
+          const accountDrive = new GoogleDrive(app.docRegistry, {
+            name,
+            transport: new GapiDriveTransport(account),
+            realtime: false
+          });
+          manager.services.contents.addDrive(accountDrive);
+          addDrive(accountDrive, account);
+          browser.addAccount(account, accountDrive);
+        });
+      }).catch(showAccountError);
+    },
+    label: 'Add Google Account'
+  });
+  palette.addItem({ command: addAccountCommand, category: 'File Operations' });
+  browser.addAccountRequested.connect(() => {
+    commands.execute(addAccountCommand);
+  });
+
+  // Add a command to copy the items selected in the file browser
+  // into the current directory of another account.
+  const copyAccountCommand = 'google-drive:copy-to-account';
+  commands.addCommand(copyAccountCommand, {
+    execute: () => {
+      const source = browser.drive;
+      const paths = toArray(browser.selectedItems()).map(item => {
+        return item.path.split(':').pop()!;
+      });
+      const targets = browser.drives.filter(other => {
+        return other !== source && browser.directoryFor(other) !== null;
+      });
+      if (!paths.length || !targets.length) {
+        return;
+      }
+      return showDialog({
+        title: 'Copy to Account',
+        body: new Private.DriveSelector(targets),
+        buttons: [Dialog.cancelButton(), Dialog.okButton({label: 'COPY'})]
+      }).then(result => {
+        if (!result.button.accept) {
+          return;
+        }
+        const target: GoogleDrive = result.value;
+        const toDir = browser.directoryFor(target);
+        if (toDir === null) {
+          throw new Error(`${target.name} is not signed in`);
+        }
+        return Promise.all(paths.map(path => {
+          return source.copyToDrive(path, target, toDir);
+        }));
+      }).catch(showAccountError);
+    },
+    isEnabled: () => {
+      const selected = toArray(browser.selectedItems());
+      return selected.length > 0 && browser.drives.length > 1;
+    },
+    label: 'Copy to Account'
+  });
+  palette.addItem({ command: copyAccountCommand, category: 'File Operations' });
+
   return;
 }
 
@@ -309,68 +941,204 @@ const plugins: JupyterLabPlugin<any>[] = [
 ];
 export default plugins;
 
+/**
+ * Export the Drive transports, queries and errors, so that the
+ * `GoogleDrive` contents manager may be run against other backends.
+ */
+export * from './drive/transport';
+export * from './drive/memory';
+export * from './drive/query';
+export * from './drive/errors';
+export {
+  GapiDriveTransport, getDriveTransport, setDriveTransport
+} from './gapi';
+
+/**
+ * Export the auth providers and accounts, so that the
+ * tokens may be had from other sources.
+ */
+export * from './auth';
+export {
+  defaultAccount, getAuthProvider, GoogleAccount, setAuthProvider
+} from './gapi';
+
 
 /**
  * A namespace for private data.
  */
 namespace Private {
   /**
-   * A widget the reads and parses email addresses.
+   * Find the context of an open document for a path.
+   */
+  export
+  function contextForPath(app: JupyterLab, manager: IDocumentManager, path: string): DocumentRegistry.Context | undefined {
+    const iterator = app.shell.widgets('main');
+    let widget: Widget | undefined;
+    while (widget = iterator.next()) {
+      const context = manager.contextForWidget(widget);
+      if (context && context.path === path) {
+        return context;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Create the comment target for a document widget, if it
+   * is a notebook or a text editor, or return `null`.
+   */
+  export
+  function commentTarget(widget: Widget): CommentsPanel.ITarget | null {
+    if (isNotebookWidget(widget)) {
+      return createNotebookTarget(widget.notebook);
+    }
+    if (isEditorWidget(widget)) {
+      return createEditorTarget(widget.editor);
+    }
+    return null;
+  }
+
+  /**
+   * A widget with an input for a link to a Google Drive file.
    */
   export
-  class EmailAddressWidget extends Widget {
+  class LinkInput extends Widget {
     /**
-     * Construct a new EmailAddressWidget.
+     * Construct a new link input.
      */
     constructor() {
-      super();
-      const text = document.createElement('p');
-      text.textContent = 'Enter collaborator Gmail address. '+
-                         'Multiple addresses may be separated by commas';
-      this._inputNode = document.createElement('input');
-      this.node.appendChild(text);
-      this.node.appendChild(this._inputNode);
-      // Set 'multiple' and 'type=email' attributes,
-      // which strips leading and trailing whitespace from
-      // the email adresses.
-      this._inputNode.setAttribute('type', 'email');
-      this._inputNode.setAttribute('multiple', '');
+      super({ node: document.createElement('input') });
+      const input = this.node as HTMLInputElement;
+      input.type = 'text';
+      input.placeholder = 'https://drive.google.com/file/d/...';
     }
 
     /**
-     * Get the value for the widget.
+     * Get the link or file id that has been entered.
      */
-    getValue(): string[] {
-      // Pick out the valid email addresses
-      const candidateAddresses = this._inputNode.value.split(',');
-      const addresses: string[] = [];
-      for (let address of candidateAddresses) {
-        if (isEmail(address)) {
-         addresses.push(address);
-        } else {
-          console.warn(`"${address}" is not a valid email address`);
-        }
+    getValue(): string {
+      return (this.node as HTMLInputElement).value.trim();
+    }
+  }
+
+  /**
+   * The pattern of the names of other accounts, which are
+   * appended to the name of the drive of the default account.
+   */
+  export
+  const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+  /**
+   * A widget with an input for the name of an account.
+   */
+  export
+  class AccountNameInput extends Widget {
+    /**
+     * Construct a new account name input.
+     */
+    constructor() {
+      super({ node: document.createElement('input') });
+      const input = this.node as HTMLInputElement;
+      input.type = 'text';
+      input.placeholder = 'work';
+    }
+
+    /**
+     * Get the account name that has been entered.
+     */
+    getValue(): string {
+      return (this.node as HTMLInputElement).value.trim();
+    }
+  }
+
+  /**
+   * A widget which selects a drive to copy files into.
+   */
+  export
+  class DriveSelector extends Widget {
+    /**
+     * Construct a new drive selector.
+     */
+    constructor(drives: GoogleDrive[]) {
+      super({ node: document.createElement('select') });
+      this._drives = drives;
+      for (let drive of drives) {
+        const option = document.createElement('option');
+        option.value = drive.name;
+        option.textContent = drive.name;
+        this.node.appendChild(option);
       }
-      return addresses;
     }
 
-    private _inputNode: HTMLInputElement;
+    /**
+     * Get the drive that has been selected.
+     */
+    getValue(): GoogleDrive {
+      return this._drives[(this.node as HTMLSelectElement).selectedIndex];
+    }
+
+    private _drives: GoogleDrive[];
   }
 
   /**
-   * Return whether an email address is valid.
-   * Uses a regexp given in the html spec here:
-   * https://html.spec.whatwg.org/multipage/input.html#e-mail-state-(type=email)
-   * 
-   * #### Notes: this is not a perfect test, but it should be
-   *   good enough for most use cases.
-   *
-   * @param email: the canditate email address.
-   *
-   * @returns a boolean for whether it is a valid email.
+   * A widget which selects two checkpoints of a document to compare.
    */
-  function isEmail(email: string): boolean {
-    const re = RegExp(/^[a-zA-Z0-9.!#$%&'*+\/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/);
-    return re.test(email);
+  export
+  class CheckpointSelector extends Widget {
+    /**
+     * Construct a new checkpoint selector.
+     *
+     * @param checkpoints - the checkpoints of the document, oldest first.
+     */
+    constructor(checkpoints: ICheckpoint[]) {
+      super();
+      this._revisions = checkpoints.map(checkpoint => {
+        const time = new Date(checkpoint.last_modified).toLocaleString();
+        return {
+          id: checkpoint.id,
+          label: checkpoint.label ? `${checkpoint.label} (${time})` : time
+        };
+      });
+      // Compare the two latest checkpoints by default.
+      const count = checkpoints.length;
+      this._oldNode = this._createSelect('From', count - 2);
+      this._newNode = this._createSelect('To', count - 1);
+    }
+
+    /**
+     * Get the value for the widget, the older
+     * of the checkpoints first.
+     */
+    getValue(): [RevisionDiffWidget.IRevision, RevisionDiffWidget.IRevision] {
+      const oldIndex = this._oldNode.selectedIndex;
+      const newIndex = this._newNode.selectedIndex;
+      return [
+        this._revisions[Math.min(oldIndex, newIndex)],
+        this._revisions[Math.max(oldIndex, newIndex)]
+      ];
+    }
+
+    /**
+     * Create a labeled list of the checkpoints.
+     */
+    private _createSelect(label: string, selectedIndex: number): HTMLSelectElement {
+      const text = document.createElement('label');
+      text.textContent = `${label}: `;
+      const select = document.createElement('select');
+      for (let revision of this._revisions) {
+        const option = document.createElement('option');
+        option.value = revision.id;
+        option.textContent = revision.label;
+        select.appendChild(option);
+      }
+      select.selectedIndex = selectedIndex;
+      text.appendChild(select);
+      this.node.appendChild(text);
+      return select;
+    }
+
+    private _revisions: RevisionDiffWidget.IRevision[];
+    private _oldNode: HTMLSelectElement;
+    private _newNode: HTMLSelectElement;
   }
 }
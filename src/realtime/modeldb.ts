@@ -46,6 +46,14 @@ import {
   getResourceForPath, loadRealtimeDocument
 } from '../drive/drive';
 
+import {
+  IDriveTransport
+} from '../drive/transport';
+
+import {
+  getDriveTransport
+} from '../gapi';
+
 
 /**
  * Wrapper for bare null values, which do not
@@ -53,6 +61,12 @@ import {
  */
 const NULL_WRAPPER: JSONObject = { _internalNullObject3141592654: null };
 
+/**
+ * The key in the root of the realtime model under which
+ * the last revision of the file to be restored is recorded.
+ */
+const RESTORED_REVISION_KEY = '_restoredRevision';
+
 /**
  * A class representing an IObservableValue, which
  * listens for changes to a `gapi.drive.realtime.Model`.
@@ -212,7 +226,9 @@ class GoogleModelDB implements IModelDB {
         new Map<string, GoogleRealtimeObject | GoogleObservableValue>();
 
       // If a testing documentLoader has been supplied, use that.
-      const documentLoader = options.documentLoader || Private.documentLoader;
+      const transport = options.transport || getDriveTransport();
+      const documentLoader = options.documentLoader ||
+        ((path: string) => Private.documentLoader(transport, path));
 
       // Wrap the model root in a `GoogleMap`.
       this._db = new GoogleMap(this._model.getRoot());
@@ -287,6 +303,16 @@ class GoogleModelDB implements IModelDB {
           }
         }
 
+        // Let the user know when a collaborator restores a revision.
+        this._model.getRoot().addEventListener(
+          gapi.drive.realtime.EventType.VALUE_CHANGED,
+          (evt: any) => {
+            if (evt.property === RESTORED_REVISION_KEY && !evt.isLocal &&
+                evt.newValue) {
+              this._revisionRestored.emit(evt.newValue.revisionId);
+            }
+          });
+
         // Set up the collaborators map.
         this._collaborators = new CollaboratorMap(this._doc);
         this._disposables.add(this._collaborators);
@@ -306,6 +332,50 @@ class GoogleModelDB implements IModelDB {
    */
   readonly isCollaborative: boolean = true;
 
+  /**
+   * Whether the realtime document is read-only, which is the
+   * case when the user may only view or comment on the file.
+   * This is `false` until the database has connected.
+   */
+  get readOnly(): boolean {
+    return this.model.isReadOnly();
+  }
+
+  /**
+   * A signal emitted with the id of a revision when a collaborator
+   * restores the file to it. The restored content arrives through
+   * the realtime model, after the collaborator has reloaded it.
+   */
+  get revisionRestored(): ISignal<GoogleModelDB, string> {
+    if (this._baseDB) {
+      return this._baseDB.revisionRestored;
+    }
+    return this._revisionRestored;
+  }
+
+  /**
+   * The id of the last revision of the file to be restored,
+   * or `null` if no revision has been restored.
+   */
+  get restoredRevision(): string | null {
+    const value = this.model.getRoot().get(RESTORED_REVISION_KEY);
+    return value ? value.revisionId : null;
+  }
+
+  /**
+   * Record that the file has been restored to a revision,
+   * which emits `revisionRestored` for the collaborators.
+   *
+   * @param revisionId - the id of the restored revision.
+   */
+  markRevisionRestored(revisionId: string): void {
+    // Include the time, so that restoring the same
+    // revision again is also seen as a change.
+    this.model.getRoot().set(RESTORED_REVISION_KEY, {
+      revisionId, time: new Date().getTime()
+    });
+  }
+
   /**
    * Get the CollaboratorMap.
    */
@@ -588,6 +658,7 @@ class GoogleModelDB implements IModelDB {
     }
     this._isDisposed = true;
     this._disposables.dispose();
+    Signal.clearData(this);
 
     // Possibly dispose of the doc if this is a root DB.
     if (this._doc) {
@@ -628,6 +699,7 @@ class GoogleModelDB implements IModelDB {
   private _connected: PromiseDelegate<void>;
   private _isPrepopulated = false;
   private _collaborators: CollaboratorMap;
+  private _revisionRestored = new Signal<GoogleModelDB, string>(this);
 }
 
 /**
@@ -657,6 +729,12 @@ namespace GoogleModelDB {
      */
     baseDB?: GoogleModelDB;
 
+    /**
+     * The transport through which the file is found,
+     * which defaults to the current transport.
+     */
+    transport?: IDriveTransport;
+
     /**
      * A function to load a `gapi.drive.realtime.Document` given
      * a path. Meant only for testing purposes, and should not
@@ -675,8 +753,8 @@ namespace Private {
    * from the user's Google Drive account.
    */
   export
-  function documentLoader(path: string): Promise<gapi.drive.realtime.Document> {
-    return getResourceForPath(path).then((resource: any) => {
+  function documentLoader(transport: IDriveTransport, path: string): Promise<gapi.drive.realtime.Document> {
+    return getResourceForPath(transport, path).then((resource: any) => {
       return loadRealtimeDocument(resource);
     });
   }
@@ -0,0 +1,163 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  ICollaborator, ICollaboratorMap, ObservableMap
+} from '@jupyterlab/coreutils';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  AccessPanel
+} from '../../lib/drive/access';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  addPermissions, getResourceForPath, setLinkSharing
+} from '../../lib/drive/drive';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+describe('AccessPanel', () => {
+
+  const path = 'My Drive/access.txt';
+  let drive: GoogleDrive;
+  let panel: AccessPanel;
+  let transport: InMemoryDriveTransport;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach((done) => {
+    transport = new InMemoryDriveTransport();
+    setDriveTransport(transport);
+    drive = new GoogleDrive(new DocumentRegistry());
+    panel = new AccessPanel({ drive });
+    drive.save(path, {
+      type: 'file', format: 'text', content: 'access', name: 'access.txt'
+    }).then(() => {
+      return addPermissions(transport, path, ['a@example.com'], 'writer', false);
+    }).then(() => {
+      return addPermissions(transport, path, ['b@example.com'], 'reader', false);
+    }).then(() => {
+      return setLinkSharing(transport, path, { type: 'anyone', role: 'commenter' });
+    }).then(() => { done(); }).catch(done);
+  });
+
+  afterEach(() => {
+    panel.dispose();
+    drive.dispose();
+  });
+
+  /**
+   * Get the titles of the groups of people in the panel.
+   */
+  function groupTitles(): string[] {
+    const nodes = panel.node.querySelectorAll('.jp-GoogleAccess-title');
+    const titles: string[] = [];
+    for (let i = 0; i < nodes.length; i++) {
+      titles.push(nodes[i].textContent!);
+    }
+    return titles;
+  }
+
+  describe('#path', () => {
+
+    it('should list the people with access by their roles', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        expect(panel.permissions.length).to.be(4);
+        expect(groupTitles()).to.eql([
+          'Owners', 'Editors', 'Commenters', 'Viewers'
+        ]);
+        const items = panel.node.querySelectorAll('.jp-GoogleAccess-item');
+        expect(items[1].textContent).to.be('a@example.com');
+        expect(items[2].textContent).to.be('Anyone with the link');
+        done();
+      }).catch(done);
+    });
+
+    it('should be cleared without a document', () => {
+      panel.path = null;
+      expect(panel.permissions.length).to.be(0);
+      expect(groupTitles()).to.eql([]);
+    });
+
+  });
+
+  describe('#collaborators', () => {
+
+    it('should show who has the document open', (done) => {
+      const map = new ObservableMap<ICollaborator>();
+      const collaborators = map as any as ICollaboratorMap;
+      panel.path = path;
+      panel.collaborators = collaborators;
+      panel.refresh().then(() => {
+        expect(groupTitles()[0]).to.be('Owners');
+        map.set('session', {
+          userId: 'someone', sessionId: 'session', displayName: 'Someone',
+          color: 'red', shortName: 'S'
+        });
+        expect(groupTitles()[0]).to.be('Open now');
+        const active = panel.node.querySelectorAll('.jp-mod-active');
+        expect(active.length).to.be(1);
+        expect(active[0].textContent).to.be('Someone');
+        map.dispose();
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#refresh()', () => {
+
+    it('should be called when the permissions change elsewhere', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        // Get the page token for the changes.
+        return drive.changes.poll();
+      }).then(() => {
+        return getResourceForPath(transport, path);
+      }).then(resource => {
+        const permission = panel.permissions.filter(p => p.role === 'reader')[0];
+        return transport.permissions.delete({
+          fileId: resource.id!, permissionId: permission.id
+        });
+      }).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        // Let the panel load the permissions.
+        return new Promise<void>(resolve => setTimeout(resolve, 0));
+      }).then(() => {
+        expect(panel.permissions.length).to.be(3);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
@@ -0,0 +1,545 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  ServerConnection
+} from '@jupyterlab/services';
+
+import {
+  Auth2Provider, createAuthProvider, IdentityServicesProvider,
+  ServerTokenProvider
+} from '../../lib/auth';
+
+import {
+  AuthState, AuthStatus, defaultAccount, GapiDriveTransport, GoogleAccount
+} from '../../lib/gapi';
+
+
+describe('AuthState', () => {
+
+  let state: AuthState;
+
+  beforeEach(() => {
+    state = new AuthState();
+  });
+
+  describe('#status', () => {
+
+    it('should be uninitialized at first', () => {
+      expect(state.status).to.be('uninitialized');
+      expect(state.error).to.be('');
+    });
+
+  });
+
+  describe('#setStatus()', () => {
+
+    it('should emit the changed signal for each transition', () => {
+      const changes: string[] = [];
+      state.changed.connect((sender, args) => {
+        changes.push(`${args.oldValue}->${args.newValue}`);
+      });
+      const statuses: AuthStatus[] = [
+        'signedOut', 'signingIn', 'authorized', 'authorized',
+        'tokenExpired', 'authorized', 'signedOut'
+      ];
+      statuses.forEach(status => { state.setStatus(status); });
+      expect(changes).to.eql([
+        'uninitialized->signedOut', 'signedOut->signingIn',
+        'signingIn->authorized', 'authorized->tokenExpired',
+        'tokenExpired->authorized', 'authorized->signedOut'
+      ]);
+    });
+
+    it('should keep the message of an error', () => {
+      state.setStatus('error', 'Invalid client id');
+      expect(state.status).to.be('error');
+      expect(state.error).to.be('Invalid client id');
+      state.setStatus('signedOut', 'ignored');
+      expect(state.error).to.be('');
+    });
+
+  });
+
+  describe('#authorized()', () => {
+
+    it('should resolve immediately when authorized', (done) => {
+      state.setStatus('authorized');
+      state.authorized().then(done);
+    });
+
+    it('should wait for the next authorization', (done) => {
+      let authorized = false;
+      state.setStatus('authorized');
+      state.setStatus('tokenExpired');
+      state.authorized().then(() => {
+        authorized = true;
+        expect(state.status).to.be('authorized');
+      });
+      Promise.resolve(void 0).then(() => {
+        expect(authorized).to.be(false);
+        state.setStatus('authorized');
+        return state.authorized();
+      }).then(() => {
+        expect(authorized).to.be(true);
+        done();
+      }).catch(done);
+    });
+
+    it('should keep waiting after a sign-out', (done) => {
+      let authorized = false;
+      state.setStatus('signedOut');
+      state.authorized().then(() => { authorized = true; });
+      state.setStatus('signingIn');
+      state.setStatus('error', 'Popup blocked');
+      Promise.resolve(void 0).then(() => {
+        expect(authorized).to.be(false);
+        state.setStatus('authorized');
+        return state.authorized();
+      }).then(() => {
+        expect(authorized).to.be(true);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
+
+
+describe('createAuthProvider()', () => {
+
+  it('should create the provider of a kind', () => {
+    expect(createAuthProvider()).to.be.an(Auth2Provider);
+    expect(createAuthProvider('auth2')).to.be.an(Auth2Provider);
+    expect(createAuthProvider('identityServices'))
+      .to.be.an(IdentityServicesProvider);
+    const provider = createAuthProvider('server', 'hub/token');
+    expect(provider).to.be.a(ServerTokenProvider);
+    expect((provider as ServerTokenProvider).endpoint).to.be('hub/token');
+  });
+
+});
+
+
+describe('GoogleAccount', () => {
+
+  let signedOut: boolean;
+  let account: GoogleAccount;
+
+  beforeEach(() => {
+    signedOut = false;
+    const provider = createAuthProvider('identityServices');
+    provider.signOut = () => {
+      signedOut = true;
+      return Promise.resolve(void 0);
+    };
+    account = new GoogleAccount({ provider });
+  });
+
+  describe('#authState', () => {
+
+    it('should be apart from that of the default account', () => {
+      expect(account.authState).to.not.be(defaultAccount.authState);
+      expect(account.authState.status).to.be('uninitialized');
+    });
+
+  });
+
+  describe('#signOut()', () => {
+
+    it('should sign out with the provider', (done) => {
+      account.signOut().then(() => {
+        expect(signedOut).to.be(true);
+        expect(account.token).to.be(null);
+        expect(account.authState.status).to.be('signedOut');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#refreshAuthorization()', () => {
+
+    it('should reject when signed out', (done) => {
+      const transport = new GapiDriveTransport(account);
+      expect(transport.account).to.be(account);
+      account.signOut().then(() => {
+        return transport.refreshAuthorization();
+      }).then(() => {
+        done(new Error('The authorization should not be refreshed'));
+      }, () => { done(); });
+    });
+
+  });
+
+});
+
+
+describe('GapiDriveTransport', () => {
+
+  let accounts: GoogleAccount[];
+  let requests: any[];
+  let defaultTokens: string[];
+  let tokenChanges: number;
+  let previousGapi: any;
+
+  /**
+   * Create an account which is authorized with a token.
+   */
+  function createAccount(accessToken: string): Promise<GoogleAccount> {
+    const provider = createAuthProvider('identityServices');
+    provider.refreshToken = () => {
+      return Promise.resolve({ access_token: accessToken, expires_in: 3600 });
+    };
+    provider.signOut = () => Promise.resolve(void 0);
+    const account = new GoogleAccount({ provider });
+    accounts.push(account);
+    return account.refreshAuthorization().then(() => account);
+  }
+
+  /**
+   * Respond to a request once the other requests have been made.
+   */
+  function respond(result: any): Promise<any> {
+    return new Promise(resolve => {
+      setTimeout(() => { resolve({ result, body: '', status: 200 }); }, 0);
+    });
+  }
+
+  beforeEach(() => {
+    // Stand in for the gapi client, which records the requests
+    // made with it and the token set on it for each request.
+    previousGapi = (global as any).gapi;
+    accounts = [];
+    requests = [];
+    defaultTokens = [];
+    tokenChanges = 0;
+    (global as any).gapi = {
+      auth: {
+        getToken: () => ({ access_token: 'default' }),
+        setToken: () => { tokenChanges++; }
+      },
+      client: {
+        request: (args: any) => {
+          requests.push(args);
+          return respond({ files: [], id: args.path });
+        },
+        drive: {
+          files: {
+            list: () => {
+              defaultTokens.push((global as any).gapi.auth.getToken().access_token);
+              return respond({ files: [] });
+            }
+          }
+        }
+      }
+    };
+  });
+
+  afterEach((done) => {
+    (global as any).gapi = previousGapi;
+    Promise.all(accounts.map(account => account.signOut())).then(() => {
+      done();
+    }, done);
+  });
+
+  describe('#files', () => {
+
+    it('should send the token of the account with each request', (done) => {
+      createAccount('secondary').then(account => {
+        const transport = new GapiDriveTransport(account);
+        return transport.files.update({
+          fileId: 'file id',
+          resource: { name: 'renamed.txt' },
+          fields: 'id'
+        });
+      }).then(response => {
+        expect(response.result.id).to.be('/drive/v3/files/file%20id');
+        expect(requests).to.have.length(1);
+        expect(requests[0].method).to.be('PATCH');
+        expect(requests[0].params).to.eql({ fields: 'id' });
+        expect(requests[0].body).to.eql({ name: 'renamed.txt' });
+        expect(requests[0].headers['Authorization']).to.be('Bearer secondary');
+        expect(tokenChanges).to.be(0);
+      }).then(done, done);
+    });
+
+    it('should keep the tokens of accounts apart during requests', (done) => {
+      Promise.all([createAccount('first'), createAccount('second')])
+      .then(created => {
+        const transports = [
+          new GapiDriveTransport(created[0]),
+          new GapiDriveTransport(created[1]),
+          new GapiDriveTransport()
+        ];
+        return Promise.all(transports.map(transport => {
+          return transport.files.list({ q: 'trashed = false' });
+        }));
+      }).then(() => {
+        expect(requests.map(request => request.headers['Authorization']))
+          .to.eql(['Bearer first', 'Bearer second']);
+        expect(requests[0].path).to.be('/drive/v3/files');
+        expect(requests[0].params).to.eql({ q: 'trashed = false' });
+        expect(defaultTokens).to.eql(['default']);
+        expect(tokenChanges).to.be(0);
+      }).then(done, done);
+    });
+
+  });
+
+});
+
+
+describe('IdentityServicesProvider', () => {
+
+  let provider: IdentityServicesProvider;
+  let config: any;
+  let prompts: string[];
+  let previousGapi: any;
+  let previousGoogle: any;
+
+  beforeEach((done) => {
+    // Stand in for the gapi client and the token client.
+    previousGapi = (global as any).gapi;
+    previousGoogle = (global as any).google;
+    prompts = [];
+    (global as any).gapi = {
+      client: { init: () => Promise.resolve(void 0) }
+    };
+    (global as any).google = {
+      accounts: {
+        oauth2: {
+          initTokenClient: (options: any) => {
+            config = options;
+            return {
+              requestAccessToken: (overrides: any) => {
+                prompts.push(overrides.prompt);
+              }
+            };
+          },
+          revoke: (token: string, callback: () => void) => { callback(); }
+        }
+      }
+    };
+    provider = new IdentityServicesProvider();
+    provider.initialize({
+      clientId: 'client', scope: 'drive', discoveryDocs: []
+    }).then(signedIn => {
+      expect(signedIn).to.be(false);
+      done();
+    }).catch(done);
+  });
+
+  afterEach(() => {
+    (global as any).gapi = previousGapi;
+    (global as any).google = previousGoogle;
+  });
+
+  describe('#initialize()', () => {
+
+    it('should request the scope of the profile', () => {
+      expect(config.client_id).to.be('client');
+      expect(config.scope).to.be('drive email profile');
+    });
+
+    it('should initialize the gapi client once for all providers', (done) => {
+      let initialized = 0;
+      (global as any).gapi.client.init = () => {
+        initialized++;
+        return Promise.resolve(void 0);
+      };
+      const other = new IdentityServicesProvider();
+      other.initialize({
+        clientId: 'other', scope: 'drive', discoveryDocs: []
+      }).then(() => {
+        expect(initialized).to.be(0);
+        expect(config.client_id).to.be('other');
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#load()', () => {
+
+    it('should load the Identity Services script once', () => {
+      const scripts = () => {
+        return document.head.querySelectorAll(
+          'script[src="https://accounts.google.com/gsi/client"]').length;
+      };
+      provider.load();
+      new IdentityServicesProvider().load();
+      expect(scripts()).to.be(1);
+    });
+
+  });
+
+  describe('#signIn()', () => {
+
+    it('should resolve with null when the popup is closed', (done) => {
+      provider.signIn().then(token => {
+        expect(token).to.be(null);
+        expect(prompts).to.eql(['select_account']);
+        expect(provider.userProfile).to.be(null);
+        done();
+      }).catch(done);
+      config.error_callback({ type: 'popup_closed', message: 'Closed' });
+    });
+
+    it('should resolve with null when access is denied', (done) => {
+      provider.signIn().then(token => {
+        expect(token).to.be(null);
+        done();
+      }).catch(done);
+      config.callback({ error: 'access_denied' });
+    });
+
+    it('should reject when the popup cannot be opened', (done) => {
+      provider.signIn().then(() => {
+        done(new Error('Sign-in should fail'));
+      }, (err: any) => {
+        expect(err.type).to.be('popup_failed_to_open');
+        done();
+      }).catch(done);
+      config.error_callback({ type: 'popup_failed_to_open', message: '' });
+    });
+
+  });
+
+  describe('#refreshToken()', () => {
+
+    it('should reject if the user is not signed in', (done) => {
+      provider.refreshToken().then(() => {
+        done(new Error('Refresh should fail'));
+      }, () => {
+        expect(prompts).to.eql([]);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
+
+
+describe('ServerTokenProvider', () => {
+
+  /**
+   * A stand-in for the token endpoint of the server,
+   * which responds to each request with the next response.
+   */
+  class MockTokenEndpoint {
+    urls: string[] = [];
+    responses: { status: number, body: any }[] = [];
+
+    xhrFactory(): XMLHttpRequest {
+      const xhr: any = {
+        open: (method: string, url: string) => {
+          this.urls.push(url);
+        },
+        setRequestHeader: () => { /* no-op */ },
+        send: () => {
+          const response = this.responses.shift()!;
+          xhr.status = response.status;
+          xhr.statusText = response.status === 200 ? 'OK' : 'Forbidden';
+          xhr.responseText = JSON.stringify(response.body);
+          setTimeout(() => { xhr.onload({}); }, 0);
+        }
+      };
+      return xhr;
+    }
+  }
+
+  let endpoint: MockTokenEndpoint;
+  let provider: ServerTokenProvider;
+
+  beforeEach(() => {
+    endpoint = new MockTokenEndpoint();
+    provider = new ServerTokenProvider({
+      endpoint: 'google-drive/token',
+      serverSettings: ServerConnection.makeSettings({
+        baseUrl: 'http://localhost:8000/user/me/',
+        xhrFactory: () => endpoint.xhrFactory()
+      })
+    });
+  });
+
+  describe('#signIn()', () => {
+
+    it('should fetch a token from the endpoint', (done) => {
+      endpoint.responses.push({
+        status: 200,
+        body: { access_token: 'first', expires_in: 3600 }
+      });
+      provider.signIn().then(token => {
+        expect(token).to.eql({ access_token: 'first', expires_in: 3600 });
+        expect(endpoint.urls.length).to.be(1);
+        expect(endpoint.urls[0].indexOf(
+          'http://localhost:8000/user/me/google-drive/token')).to.be(0);
+        expect(provider.userProfile).to.be(null);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#refreshToken()', () => {
+
+    it('should fetch a new token and the profile of the user', (done) => {
+      endpoint.responses.push({
+        status: 200,
+        body: { access_token: 'first', expires_in: 3600 }
+      }, {
+        status: 200,
+        body: {
+          access_token: 'second', expires_in: '1800',
+          email: 'me@example.com', name: 'Jo Doe', given_name: 'Jo'
+        }
+      });
+      provider.signIn().then(() => {
+        return provider.refreshToken();
+      }).then(token => {
+        expect(token).to.eql({ access_token: 'second', expires_in: 1800 });
+        expect(provider.userProfile).to.eql({
+          name: 'Jo Doe', givenName: 'Jo', email: 'me@example.com'
+        });
+        return provider.signOut();
+      }).then(() => {
+        expect(provider.userProfile).to.be(null);
+        done();
+      }).catch(done);
+    });
+
+    it('should reject if the server refuses', (done) => {
+      endpoint.responses.push({ status: 403, body: {} });
+      provider.refreshToken().then(() => {
+        done(new Error('Refresh should fail'));
+      }, (err: any) => {
+        expect(err.message).to.be('Forbidden');
+        done();
+      }).catch(done);
+    });
+
+    it('should use a default lifetime without expires_in', (done) => {
+      endpoint.responses.push({ status: 200, body: { access_token: 'first' } });
+      provider.refreshToken().then(token => {
+        expect(token).to.eql({ access_token: 'first', expires_in: 3600 });
+        done();
+      }).catch(done);
+    });
+
+    it('should reject a response without a token', (done) => {
+      endpoint.responses.push({ status: 200, body: { expires_in: 3600 } });
+      provider.refreshToken().then(() => {
+        done(new Error('Refresh should fail'));
+      }, (err: any) => {
+        expect(err.message).to.contain('did not give');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
@@ -0,0 +1,61 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  base64FromBytes, bytesFromBase64, bytesFromText, textFromBytes
+} from '../../lib/drive/binary';
+
+
+describe('binary', () => {
+
+  describe('bytesFromBase64()', () => {
+
+    it('should decode base64 content', () => {
+      const bytes = bytesFromBase64(btoa('ÿ\u0000'));
+      expect(Array.prototype.slice.call(bytes)).to.eql([0xff, 0x00]);
+    });
+
+  });
+
+  describe('base64FromBytes()', () => {
+
+    it('should encode bytes as base64', () => {
+      const bytes = new Uint8Array([0xff, 0x00, 0x80]);
+      expect(base64FromBytes(bytes)).to.be(btoa('ÿ\u0000\u0080'));
+      expect(base64FromBytes(bytes.buffer)).to.be(btoa('ÿ\u0000\u0080'));
+    });
+
+    it('should round-trip large content', () => {
+      const bytes = new Uint8Array(100000);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = (i * 7) % 256;
+      }
+      const decoded = bytesFromBase64(base64FromBytes(bytes));
+      expect(decoded.length).to.be(bytes.length);
+      expect(decoded[99999]).to.be(bytes[99999]);
+    });
+
+  });
+
+  describe('bytesFromText()', () => {
+
+    it('should encode text as UTF-8', () => {
+      const bytes = bytesFromText('é');
+      expect(Array.prototype.slice.call(bytes)).to.eql([0xc3, 0xa9]);
+    });
+
+  });
+
+  describe('textFromBytes()', () => {
+
+    it('should decode UTF-8 bytes as text', () => {
+      const bytes = new Uint8Array([0x61, 0xc3, 0xa9]);
+      expect(textFromBytes(bytes)).to.be('aé');
+      expect(textFromBytes(bytesFromText('ü€'))).to.be('ü€');
+    });
+
+  });
+
+});
@@ -0,0 +1,284 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  Contents
+} from '@jupyterlab/services';
+
+import {
+  ChangeFeed
+} from '../../lib/drive/changes';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  FOLDER_MIMETYPE
+} from '../../lib/drive/drive';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+describe('ChangeFeed', () => {
+
+  let registry: DocumentRegistry;
+  let drive: GoogleDrive;
+  let transport: InMemoryDriveTransport;
+  let previousTransport: IDriveTransport;
+  let folderId: string;
+  let fileId: string;
+  let changes: Contents.IChangedArgs[];
+
+  before(() => {
+    registry = new DocumentRegistry();
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach((done) => {
+    // Set up a folder with a file in it, and make sure
+    // that the drive knows about them.
+    transport = new InMemoryDriveTransport();
+    setDriveTransport(transport);
+    drive = new GoogleDrive(registry);
+    changes = [];
+    drive.fileChanged.connect((sender, args) => {
+      changes.push(args);
+    });
+    transport.files.create({
+      resource: { name: 'folder', mimeType: FOLDER_MIMETYPE }
+    }).then(response => {
+      folderId = response.result.id!;
+      return transport.upload({
+        resource: { name: 'file.txt', parents: [folderId] },
+        mimeType: 'text/plain',
+        content: 'hello',
+        base64: false
+      });
+    }).then(response => {
+      fileId = response.result.id!;
+      return drive.get('My Drive/folder');
+    }).then(() => {
+      return drive.changes.poll();
+    }).then(done, done);
+  });
+
+  afterEach(() => {
+    drive.dispose();
+  });
+
+  describe('#constructor()', () => {
+
+    it('should create a new change feed', () => {
+      const feed = new ChangeFeed({
+        fileTypeForPath: path => registry.getFileType('text')!
+      });
+      expect(feed).to.be.a(ChangeFeed);
+      expect(feed.isRunning).to.be(false);
+      feed.dispose();
+    });
+
+  });
+
+  describe('#poll()', () => {
+
+    it('should emit a rename for a file renamed elsewhere', (done) => {
+      Promise.resolve(transport.files.update({
+        fileId, resource: { name: 'renamed.txt' }
+      })).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.length).to.be(1);
+        expect(changes[0].type).to.be('rename');
+        expect(changes[0].oldValue!.path).to.be('My Drive/folder/file.txt');
+        expect(changes[0].newValue!.path).to.be('My Drive/folder/renamed.txt');
+        return drive.get('My Drive/folder/renamed.txt');
+      }).then(contents => {
+        expect(contents.content).to.be('hello');
+        done();
+      }).catch(done);
+    });
+
+    it('should emit a delete for a file trashed elsewhere', (done) => {
+      Promise.resolve(transport.files.update({
+        fileId, resource: { trashed: true }
+      })).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.length).to.be(1);
+        expect(changes[0].type).to.be('delete');
+        expect(changes[0].oldValue!.path).to.be('My Drive/folder/file.txt');
+        expect(changes[0].newValue).to.be(null);
+        done();
+      }).catch(done);
+    });
+
+    it('should emit a new file in a known folder', (done) => {
+      Promise.resolve(transport.upload({
+        resource: { name: 'new.txt', parents: [folderId] },
+        mimeType: 'text/plain',
+        content: '',
+        base64: false
+      })).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.length).to.be(1);
+        expect(changes[0].type).to.be('new');
+        expect(changes[0].newValue!.path).to.be('My Drive/folder/new.txt');
+        done();
+      }).catch(done);
+    });
+
+    it('should emit a save for a file modified elsewhere', (done) => {
+      Promise.resolve(transport.upload({
+        fileId,
+        resource: {},
+        mimeType: 'text/plain',
+        content: 'goodbye',
+        base64: false
+      })).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.length).to.be(1);
+        expect(changes[0].type).to.be('save');
+        expect(changes[0].newValue!.path).to.be('My Drive/folder/file.txt');
+        done();
+      }).catch(done);
+    });
+
+    it('should list a file created elsewhere with a duplicate name', (done) => {
+      let duplicateId = '';
+      Promise.resolve(transport.upload({
+        resource: { name: 'file.txt', parents: [folderId] },
+        mimeType: 'text/plain',
+        content: 'duplicate',
+        base64: false
+      })).then(response => {
+        duplicateId = response.result.id!;
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.length).to.be(2);
+        expect(changes[0].type).to.be('rename');
+        expect(changes[0].oldValue!.path).to.be('My Drive/folder/file.txt');
+        expect(changes[0].newValue!.path).to.be(
+          `My Drive/folder/file [${fileId}].txt`);
+        expect(changes[1].type).to.be('new');
+        expect(changes[1].newValue!.path).to.be(
+          `My Drive/folder/file [${duplicateId}].txt`);
+        return drive.get(`My Drive/folder/file [${duplicateId}].txt`);
+      }).then(contents => {
+        expect(contents.content).to.be('duplicate');
+        done();
+      }).catch(done);
+    });
+
+    it('should rename a file renamed elsewhere to a duplicate name', (done) => {
+      let otherId = '';
+      Promise.resolve(transport.upload({
+        resource: { name: 'other.txt', parents: [folderId] },
+        mimeType: 'text/plain',
+        content: 'other',
+        base64: false
+      })).then(response => {
+        otherId = response.result.id!;
+        return drive.changes.poll();
+      }).then(() => {
+        changes = [];
+        return transport.files.update({
+          fileId: otherId, resource: { name: 'file.txt' }
+        });
+      }).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.map(change => change.type)).to.eql(['rename', 'rename']);
+        expect(changes[0].newValue!.path).to.be(
+          `My Drive/folder/file [${fileId}].txt`);
+        expect(changes[1].oldValue!.path).to.be('My Drive/folder/other.txt');
+        expect(changes[1].newValue!.path).to.be(
+          `My Drive/folder/file [${otherId}].txt`);
+        return drive.get(`My Drive/folder/file [${fileId}].txt`);
+      }).then(contents => {
+        expect(contents.content).to.be('hello');
+        done();
+      }).catch(done);
+    });
+
+    it('should not emit changes made through the drive', (done) => {
+      drive.save('My Drive/folder/file.txt', {
+        type: 'file',
+        format: 'text',
+        content: 'goodbye'
+      }).then(() => {
+        changes = [];
+        return drive.changes.poll();
+      }).then(() => {
+        expect(changes.length).to.be(0);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#permissionsChanged', () => {
+
+    it('should be emitted when a file is shared elsewhere', (done) => {
+      const paths: string[] = [];
+      drive.changes.permissionsChanged.connect((sender, path) => {
+        paths.push(path);
+      });
+      Promise.resolve(transport.permissions.create({
+        fileId, resource: { type: 'user', role: 'reader' }
+      })).then(response => {
+        return drive.changes.poll().then(() => {
+          return transport.permissions.update({
+            fileId,
+            permissionId: response.result.id!,
+            resource: { role: 'writer' }
+          });
+        });
+      }).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(paths).to.eql([
+          'My Drive/folder/file.txt', 'My Drive/folder/file.txt'
+        ]);
+        // Sharing a file does not change its contents.
+        expect(changes.length).to.be(0);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#stop()', () => {
+
+    it('should stop polling for changes', () => {
+      drive.changes.start();
+      expect(drive.changes.isRunning).to.be(true);
+      drive.changes.stop();
+      expect(drive.changes.isRunning).to.be(false);
+    });
+
+  });
+
+});
@@ -0,0 +1,233 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  Widget
+} from '@phosphor/widgets';
+
+import {
+  ObservableJSON
+} from '@jupyterlab/coreutils';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  CELL_ID_METADATA_KEY, CommentsPanel, createNotebookTarget, isEditorWidget,
+  isNotebookWidget
+} from '../../lib/drive/comments';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  getResourceForPath
+} from '../../lib/drive/drive';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+/**
+ * Create a stand-in for a cell widget with a single line
+ * of source, of which a range of characters is selected.
+ */
+function createCell(id: string, source: string, start = 0, end = 0): any {
+  const position = (offset: number) => ({ line: 0, column: offset });
+  return {
+    node: { scrollIntoView: () => { /* no-op */ } },
+    model: { id, metadata: new ObservableJSON(), value: { text: source } },
+    editor: {
+      getSelection: () => ({ start: position(start), end: position(end) }),
+      getOffsetAt: (pos: any) => pos.column,
+      getPositionAt: position,
+      setSelection: () => { /* no-op */ },
+      revealSelection: () => { /* no-op */ },
+      focus: () => { /* no-op */ }
+    }
+  };
+}
+
+
+describe('CommentsPanel', () => {
+
+  const path = 'My Drive/comments.txt';
+  let drive: GoogleDrive;
+  let panel: CommentsPanel;
+  let transport: InMemoryDriveTransport;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach((done) => {
+    transport = new InMemoryDriveTransport();
+    setDriveTransport(transport);
+    drive = new GoogleDrive(new DocumentRegistry());
+    panel = new CommentsPanel();
+    drive.save(path, {
+      type: 'file', format: 'text', content: 'comments', name: 'comments.txt'
+    }).then(() => {
+      panel.path = path;
+      return panel.refresh();
+    }).then(() => { done(); }).catch(done);
+  });
+
+  afterEach(() => {
+    panel.dispose();
+    drive.dispose();
+  });
+
+  describe('#addComment()', () => {
+
+    it('should comment on a range of the document', (done) => {
+      const anchor = { range: { start: 0, end: 4 } };
+      panel.addComment('Why?', anchor, 'comm').then(() => {
+        expect(panel.comments.length).to.be(1);
+        const comment = panel.comments[0];
+        expect(comment.content).to.be('Why?');
+        expect(comment.anchor).to.eql(anchor);
+        expect(comment.quote).to.be('comm');
+        expect(comment.resolved).to.be(false);
+        const quote = panel.node.querySelector('.jp-GoogleComments-quote')!;
+        expect(quote.textContent).to.be('comm');
+        done();
+      }).catch(done);
+    });
+
+    it('should show comments from elsewhere as about the whole document', (done) => {
+      getResourceForPath(transport, path).then(resource => {
+        return transport.comments.create({
+          fileId: resource.id!,
+          resource: { content: 'From the web', anchor: '{"r":"head"}' },
+          fields: 'id'
+        });
+      }).then(() => {
+        return panel.refresh();
+      }).then(() => {
+        expect(panel.comments[0].anchor).to.be(null);
+        const anchor = panel.node.querySelector('.jp-GoogleComments-anchor')!;
+        expect(anchor.textContent).to.be('The whole document');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#reply()', () => {
+
+    it('should reply to a comment', (done) => {
+      panel.addComment('Question').then(() => {
+        return panel.reply(panel.comments[0].id, 'Answer');
+      }).then(() => {
+        const replies = panel.comments[0].replies;
+        expect(replies.length).to.be(1);
+        expect(replies[0].content).to.be('Answer');
+        expect(replies[0].action).to.be(null);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#setResolved()', () => {
+
+    it('should resolve and reopen a comment', (done) => {
+      let id: string;
+      panel.addComment('Typo').then(() => {
+        id = panel.comments[0].id;
+        return panel.setResolved(id, true);
+      }).then(() => {
+        expect(panel.comments[0].resolved).to.be(true);
+        expect(panel.comments[0].replies[0].action).to.be('resolve');
+        // Resolved comments are hidden by default.
+        expect(panel.node.querySelectorAll('.jp-GoogleComments-thread').length)
+          .to.be(0);
+        panel.showResolved = true;
+        expect(panel.node.querySelectorAll('.jp-mod-resolved').length).to.be(1);
+        return panel.setResolved(id, false);
+      }).then(() => {
+        expect(panel.comments[0].resolved).to.be(false);
+        expect(panel.comments[0].replies[1].action).to.be('reopen');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
+
+
+describe('createNotebookTarget()', () => {
+
+  it('should anchor comments to the active cell and its selection', () => {
+    const cells = [createCell('first', 'a = 1'), createCell('second', 'b = 2', 4, 5)];
+    const notebook = { widgets: cells, activeCell: cells[1], activeCellIndex: 1 };
+    const target = createNotebookTarget(notebook);
+    const selection = target.selection()!;
+    expect(selection.anchor).to.eql({
+      cell: 'second', range: { start: 4, end: 5 }
+    });
+    expect(selection.quote).to.be('2');
+    // The id is kept in the metadata, to be saved with the notebook.
+    expect(cells[1].model.metadata.get(CELL_ID_METADATA_KEY)).to.be('second');
+    expect(target.describe(selection.anchor)).to.be('Cell 2');
+    expect(target.describe({ cell: 'missing' })).to.be('A deleted cell');
+  });
+
+  it('should reveal the cell of an anchor', () => {
+    const cells = [createCell('first', 'a = 1'), createCell('second', 'b = 2')];
+    cells[0].model.metadata.set(CELL_ID_METADATA_KEY, 'kept');
+    const notebook = { widgets: cells, activeCell: cells[1], activeCellIndex: 1 };
+    const target = createNotebookTarget(notebook);
+    target.reveal({ cell: 'kept' });
+    expect(notebook.activeCellIndex).to.be(0);
+  });
+
+});
+
+
+describe('isNotebookWidget()', () => {
+
+  it('should recognize a widget by its notebook', () => {
+    const cells = [createCell('first', 'a = 1')];
+    const widget: any = new Widget();
+    expect(isNotebookWidget(widget)).to.be(false);
+    widget.notebook = { widgets: cells, activeCell: cells[0], activeCellIndex: 0 };
+    expect(isNotebookWidget(widget)).to.be(true);
+    expect(isEditorWidget(widget)).to.be(false);
+  });
+
+});
+
+
+describe('isEditorWidget()', () => {
+
+  it('should recognize a widget by its editor', () => {
+    const widget: any = new Widget();
+    widget.editor = {};
+    expect(isEditorWidget(widget)).to.be(false);
+    widget.editor = createCell('first', 'a = 1').editor;
+    expect(isEditorWidget(widget)).to.be(true);
+    expect(isNotebookWidget(widget)).to.be(false);
+  });
+
+});
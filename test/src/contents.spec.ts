@@ -4,7 +4,7 @@
 import expect = require('expect.js');
 
 import {
-  loadGapi
+  getDriveTransport, setDriveTransport
 } from '../../lib/gapi';
 
 import {
@@ -24,7 +24,25 @@ import {
 } from '../../lib/drive/contents';
 
 import {
-  authorizeGapiTesting, expectFailure, expectAjaxError
+  DOCUMENT_MIMETYPE, FOLDER_MIMETYPE, ICheckpoint, PRESENTATION_MIMETYPE,
+  SPREADSHEET_MIMETYPE
+} from '../../lib/drive/drive';
+
+import {
+  BackendError, ConflictError, createDriveError, NotFoundError,
+  SaveCancelledError
+} from '../../lib/drive/errors';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+import {
+  expectFailure, expectAjaxError
 } from './util';
 
 
@@ -40,6 +58,29 @@ const DEFAULT_DIRECTORY: Contents.IModel = {
   format: 'json'
 };
 
+/**
+ * Base64 content containing every possible byte.
+ */
+const BINARY_CONTENT = (() => {
+  let binary = '';
+  for (let i = 0; i < 256; i++) {
+    binary += String.fromCharCode(i);
+  }
+  return btoa(binary);
+})();
+
+const DEFAULT_BINARY_FILE: Contents.IModel = {
+  name: 'jupyterlab_test_image_',
+  path: 'My Drive/jupyterlab_test_directory/jupyterlab_test_image_',
+  type: 'file',
+  created: 'yesterday',
+  last_modified: 'today',
+  writable: false,
+  mimetype: 'image/png',
+  content: BINARY_CONTENT,
+  format: 'base64'
+};
+
 const DEFAULT_TEXT_FILE: Contents.IModel = {
   name: 'jupyterlab_test_file_',
   path: 'My Drive/jupyterlab_test_directory/jupyterlab_test_file_',
@@ -57,16 +98,26 @@ describe('GoogleDrive', () => {
 
   let registry: DocumentRegistry;
   let drive: GoogleDrive;
+  let transport: InMemoryDriveTransport;
+  let previousTransport: IDriveTransport;
 
   before((done) => {
     registry = new DocumentRegistry();
-    loadGapi().then(() => {
-      authorizeGapiTesting().then(() => {
-        done();
-      }).catch( err => {
-        console.error(err);
-      });
-    });
+    // Run the tests against an in-memory Drive backend.
+    transport = new InMemoryDriveTransport();
+    previousTransport = getDriveTransport();
+    setDriveTransport(transport);
+    transport.files.create({
+      resource: {
+        name: DEFAULT_DIRECTORY.name,
+        mimeType: FOLDER_MIMETYPE,
+        parents: [transport.rootId]
+      }
+    }).then(() => { done(); });
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
   });
 
   beforeEach(() => {
@@ -77,6 +128,106 @@ describe('GoogleDrive', () => {
     drive.dispose();
   });
 
+  /**
+   * Create a folder in the test directory containing many files.
+   */
+  const createFolderWithFiles = (name: string, count: number): Promise<any> => {
+    return Promise.resolve(transport.files.list({
+      q: `name = '${DEFAULT_DIRECTORY.name}'`
+    })).then(response => {
+      return transport.files.create({
+        resource: {
+          name,
+          mimeType: FOLDER_MIMETYPE,
+          parents: [response.result.files[0].id!]
+        }
+      });
+    }).then(response => {
+      const uploads: PromiseLike<any>[] = [];
+      for (let i = 0; i < count; i++) {
+        uploads.push(transport.upload({
+          resource: { name: `file${i}.txt`, parents: [response.result.id!] },
+          mimeType: 'text/plain',
+          content: '',
+          base64: false
+        }));
+      }
+      return Promise.all(uploads);
+    });
+  };
+
+  /**
+   * Create a folder in the test directory containing two files
+   * with the same name, whose contents are "first" and "second".
+   *
+   * @returns a promise fulfilled with the path of the folder
+   *   and the ids of the files.
+   */
+  const createFolderWithDuplicates = (): Promise<{ path: string, ids: string[] }> => {
+    const name = 'jupyterlab_test_duplicates_'+uuid();
+    return Promise.resolve(transport.files.list({
+      q: `name = '${DEFAULT_DIRECTORY.name}'`
+    })).then(response => {
+      return transport.files.create({
+        resource: {
+          name,
+          mimeType: FOLDER_MIMETYPE,
+          parents: [response.result.files[0].id!]
+        }
+      });
+    }).then(response => {
+      return Promise.all(['first', 'second'].map(content => {
+        return transport.upload({
+          resource: {
+            name: 'duplicate.txt',
+            parents: [response.result.id!]
+          },
+          mimeType: 'text/plain',
+          content,
+          base64: false
+        });
+      }));
+    }).then(responses => {
+      return {
+        path: DEFAULT_DIRECTORY.path+'/'+name,
+        ids: responses.map(response => response.result.id!)
+      };
+    });
+  };
+
+  /**
+   * Add a native Google file to the test directory.
+   */
+  const createGoogleFile = (name: string, mimeType: string, exports: { [mimeType: string]: string }): Promise<any> => {
+    return Promise.resolve(transport.files.list({
+      q: `name = '${DEFAULT_DIRECTORY.name}'`
+    })).then(response => {
+      return transport.addGoogleFile({
+        name,
+        mimeType,
+        parents: [response.result.files[0].id!]
+      }, exports);
+    });
+  };
+
+  /**
+   * Change the content of a file in the test directory
+   * without going through the drive.
+   */
+  const changeElsewhere = (name: string): Promise<any> => {
+    return Promise.resolve(transport.files.list({
+      q: `name = '${name}'`
+    })).then(response => {
+      return transport.upload({
+        fileId: response.result.files[0].id!,
+        resource: {},
+        mimeType: 'text/plain',
+        content: 'changed elsewhere',
+        base64: false
+      });
+    });
+  };
+
   describe('#constructor()', () => {
 
     it('should create a new Google Drive object', () => {
@@ -91,6 +242,41 @@ describe('GoogleDrive', () => {
       expect(drive.name).to.be('GDrive');
     });
 
+    it('should be set by the options', () => {
+      const other = new GoogleDrive(registry, { name: 'GDrive-work' });
+      expect(other.name).to.be('GDrive-work');
+      other.dispose();
+    });
+
+  });
+
+  describe('#transport', () => {
+
+    it('should default to the current transport', () => {
+      expect(drive.transport).to.be(transport);
+    });
+
+    it('should keep the files and cache of each transport apart', (done) => {
+      const otherTransport = new InMemoryDriveTransport();
+      const other = new GoogleDrive(registry, {
+        name: 'GDrive-work', transport: otherTransport
+      });
+      const name = 'jupyterlab_test_file_'+uuid()+'.txt';
+      const path = 'My Drive/'+name;
+      other.save(path, { type: 'file', format: 'text', content: 'work', name })
+      .then(() => {
+        return drive.get(path);
+      }).then(() => {
+        throw new Error('The file should only be in the other drive');
+      }, () => {
+        return other.get(path);
+      }).then(contents => {
+        expect(contents.content).to.be('work');
+        other.dispose();
+        done();
+      }).catch(done);
+    });
+
   });
 
   describe('#get()', () => {
@@ -125,6 +311,19 @@ describe('GoogleDrive', () => {
       });
     });
 
+    it('should get the contents of `Trash`', (done) => {
+      drive.get('').then(contents => {
+        const names = contents.content.map((item: Contents.IModel) => item.name);
+        expect(names).to.contain('Trash');
+        return drive.get('Trash');
+      }).then(contents => {
+        expect(contents.name).to.be('Trash');
+        expect(contents.type).to.be('directory');
+        expect(contents.writable).to.be(false);
+        done();
+      }).catch(done);
+    });
+
     it('should fail for an incorrect model', (done) => {
       let id = uuid();
       let contents = {
@@ -143,6 +342,153 @@ describe('GoogleDrive', () => {
       });
     });
 
+    it('should list native Google files with the extension of their export', (done) => {
+      const id = uuid();
+      Promise.all([
+        createGoogleFile('doc_'+id, DOCUMENT_MIMETYPE, {}),
+        createGoogleFile('sheet_'+id, SPREADSHEET_MIMETYPE, {}),
+        createGoogleFile('slides_'+id, PRESENTATION_MIMETYPE, {})
+      ]).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path);
+      }).then(contents => {
+        const names = contents.content.map((item: Contents.IModel) => item.name);
+        expect(names).to.contain('doc_'+id+'.md');
+        expect(names).to.contain('sheet_'+id+'.csv');
+        expect(names).to.contain('slides_'+id+'.pdf');
+        done();
+      }).catch(done);
+    });
+
+    it('should export a Google Doc as Markdown, read-only', (done) => {
+      const name = 'doc_'+uuid();
+      createGoogleFile(name, DOCUMENT_MIMETYPE, {
+        'text/markdown': '# Notes',
+        'text/plain': 'Notes'
+      }).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path+'/'+name+'.md');
+      }).then(contents => {
+        expect(contents.name).to.be(name+'.md');
+        expect(contents.format).to.be('text');
+        expect(contents.content).to.be('# Notes');
+        expect(contents.writable).to.be(false);
+        done();
+      }).catch(done);
+    });
+
+    it('should fall back to plain text for a Doc without Markdown', (done) => {
+      const name = 'doc_'+uuid();
+      createGoogleFile(name, DOCUMENT_MIMETYPE, {
+        'text/plain': 'Notes'
+      }).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path+'/'+name+'.md');
+      }).then(contents => {
+        expect(contents.content).to.be('Notes');
+        done();
+      }).catch(done);
+    });
+
+    it('should export Google Sheets as CSV and Slides as PDF', (done) => {
+      const id = uuid();
+      Promise.all([
+        createGoogleFile('sheet_'+id, SPREADSHEET_MIMETYPE, {
+          'text/csv': 'a,b\n1,2'
+        }),
+        createGoogleFile('slides_'+id, PRESENTATION_MIMETYPE, {
+          'application/pdf': '%PDF-1.4'
+        })
+      ]).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path+'/sheet_'+id+'.csv');
+      }).then(contents => {
+        expect(contents.format).to.be('text');
+        expect(contents.content).to.be('a,b\n1,2');
+        return drive.get(DEFAULT_DIRECTORY.path+'/slides_'+id+'.pdf');
+      }).then(contents => {
+        expect(contents.format).to.be('base64');
+        expect(contents.mimetype).to.be('application/pdf');
+        expect(atob(contents.content)).to.be('%PDF-1.4');
+        done();
+      }).catch(done);
+    });
+
+    it('should not be writable for a file shared read-only', (done) => {
+      const name = 'shared_'+uuid()+'.txt';
+      transport.addSharedFile({ name, mimeType: 'text/plain' }, 'shared');
+      drive.get('Shared with me/'+name).then(contents => {
+        expect(contents.content).to.be('shared');
+        expect(contents.writable).to.be(false);
+        done();
+      }).catch(done);
+    });
+
+    it('should list files with the same name under paths of their own', (done) => {
+      let folder: { path: string, ids: string[] };
+      createFolderWithDuplicates().then(value => {
+        folder = value;
+        return drive.get(folder.path);
+      }).then(contents => {
+        const names = contents.content.map((item: Contents.IModel) => item.name);
+        expect(names).to.eql(folder.ids.map(id => `duplicate [${id}].txt`));
+        return Promise.all<Contents.IModel>(
+          contents.content.map((item: Contents.IModel) => drive.get(item.path)));
+      }).then(files => {
+        expect(files.map(file => file.content)).to.eql(['first', 'second']);
+        done();
+      }).catch(done);
+    });
+
+    it('should not find a file by a name that a later page duplicates', (done) => {
+      let folder: { path: string, ids: string[] };
+      const files = transport.files;
+      const list = files.list;
+      createFolderWithDuplicates().then(value => {
+        folder = value;
+        files.list = params => list({ ...params, pageSize: 1 });
+        return drive.get(folder.path);
+      }).then(contents => {
+        files.list = list;
+        expect(contents.content.length).to.be(2);
+        return drive.get(`${folder.path}/duplicate.txt`);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        files.list = list;
+        expect(err).to.be.a(ConflictError);
+      }).then(done, done);
+    });
+
+    it('should get every page of a large directory', (done) => {
+      const name = 'jupyterlab_test_paging_'+uuid();
+      createFolderWithFiles(name, 250).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path+'/'+name);
+      }).then(contents => {
+        expect(contents.content.length).to.be(250);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#listingChanged', () => {
+
+    it('should be emitted as pages of a listing arrive', (done) => {
+      const name = 'jupyterlab_test_paging_'+uuid();
+      const path = DEFAULT_DIRECTORY.path+'/'+name;
+      drive.incrementalListing = true;
+      drive.listingChanged.connect((sender, changed) => {
+        expect(changed).to.be(path);
+        drive.get(path).then(contents => {
+          if (contents.content.length === 250) {
+            done();
+          }
+        }).catch(done);
+      });
+      createFolderWithFiles(name, 250).then(() => {
+        return drive.get(path);
+      }).then(contents => {
+        expect(contents.content.length).to.be(100);
+      }).catch(done);
+    });
+
   });
 
   describe('#save()', () => {
@@ -161,6 +507,34 @@ describe('GoogleDrive', () => {
       });
     });
 
+    it('should fail for a file in a missing folder', (done) => {
+      let id = uuid();
+      let path = DEFAULT_DIRECTORY.path+'/missing_'+id+'/file.txt';
+      drive.save(path, { ...DEFAULT_TEXT_FILE, path }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(NotFoundError);
+        expect(err.path).to.be(path);
+      }).then(done, done);
+    });
+
+    it('should round-trip binary content byte-for-byte', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_BINARY_FILE,
+        name: DEFAULT_BINARY_FILE.name+id+'.png',
+        path: DEFAULT_BINARY_FILE.path+id+'.png',
+      };
+      drive.save(contents.path, contents).then(model => {
+        expect(model.format).to.be('base64');
+        expect(model.content).to.be(BINARY_CONTENT);
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be(BINARY_CONTENT);
+        return drive.delete(model.path);
+      }).then(done, done);
+    });
+
     it('should emit the fileChanged signal', (done) => {
       let id = uuid();
       let contents = {
@@ -200,6 +574,233 @@ describe('GoogleDrive', () => {
       expectFailure(save, finish);
     });
 
+    it('should fail for a file that the user may not edit', (done) => {
+      const name = 'shared_'+uuid()+'.txt';
+      const path = 'Shared with me/'+name;
+      transport.addSharedFile({ name, mimeType: 'text/plain' }, 'shared');
+      drive.get(path).then(contents => {
+        return drive.save(path, { ...contents, content: 'changed' });
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err.xhr.status).to.be(403);
+        done();
+      }).catch(done);
+    });
+
+    it('should not save over a native Google file', (done) => {
+      const name = 'doc_'+uuid();
+      const path = DEFAULT_DIRECTORY.path+'/'+name+'.md';
+      createGoogleFile(name, DOCUMENT_MIMETYPE, {
+        'text/markdown': '# Notes'
+      }).then(() => {
+        return drive.get(path);
+      }).then(contents => {
+        return drive.save(path, { ...contents, content: '# Changed' });
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err.xhr.status).to.be(403);
+        return drive.get(path);
+      }).then(contents => {
+        expect(contents.content).to.be('# Notes');
+        done();
+      }).catch(done);
+    });
+
+    it('should fail if the file has changed since it was loaded', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err.xhr.status).to.be(409);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should fail for a change elsewhere that has been polled', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(ConflictError);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should fail for a change elsewhere after listing its directory', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path);
+      }).then(() => {
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(ConflictError);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+
+    it('should save a file opened after a change elsewhere', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.get(DEFAULT_DIRECTORY.path);
+      }).then(() => {
+        // The listing is older than the change.
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be('changed elsewhere');
+        return drive.save(contents.path, contents);
+      }).then(model => {
+        expect(model.content).to.be(contents.content);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#conflictResolver', () => {
+
+    it('should be able to overwrite a conflicting save', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.conflictResolver = conflict => {
+        expect(conflict.path).to.be(contents.path);
+        return Promise.resolve('overwrite' as GoogleDrive.ConflictResolution);
+      };
+      drive.save(contents.path, contents).then(() => {
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be(contents.content);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should be able to save a copy', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id)+'.txt',
+        path: DEFAULT_TEXT_FILE.path+String(id)+'.txt',
+      };
+      const copyPath = DEFAULT_TEXT_FILE.path+String(id)+'-Copy.txt';
+      drive.conflictResolver = conflict => {
+        return Promise.resolve('copy' as GoogleDrive.ConflictResolution);
+      };
+      const cancelled: SaveCancelledError[] = [];
+      const saved: string[] = [];
+      drive.saveCancelled.connect((sender, err) => { cancelled.push(err); });
+      drive.save(contents.path, contents).then(() => {
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        drive.fileChanged.connect((sender, args) => {
+          if (args.type === 'save') {
+            saved.push(args.newValue!.path!);
+          }
+        });
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(SaveCancelledError);
+        expect(err.path).to.be(contents.path);
+        expect(err.copyPath).to.be(copyPath);
+        expect(err.message).to.contain(String(id)+'-Copy.txt');
+        expect(cancelled).to.eql([err]);
+        expect(saved).to.eql([]);
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be('changed elsewhere');
+        return drive.get(copyPath);
+      }).then(model => {
+        expect(model.content).to.be(contents.content);
+        return drive.delete(copyPath);
+      }).then(() => {
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should cancel a save to reload the file', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.conflictResolver = conflict => {
+        return Promise.resolve('reload' as GoogleDrive.ConflictResolution);
+      };
+      drive.save(contents.path, contents).then(() => {
+        return changeElsewhere(contents.name);
+      }).then(() => {
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(SaveCancelledError);
+        expect(err.copyPath).to.be(null);
+        // The version changed elsewhere is not taken as saved.
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(SaveCancelledError);
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be('changed elsewhere');
+        // Once reloaded, the file may be saved.
+        return drive.save(contents.path, contents);
+      }).then(() => {
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
   });
 
 
@@ -370,6 +971,154 @@ describe('GoogleDrive', () => {
       });
     });
 
+    it('should delete a file with the same name as another', (done) => {
+      let folder: { path: string, ids: string[] };
+      createFolderWithDuplicates().then(value => {
+        folder = value;
+        return drive.delete(`${folder.path}/duplicate [${folder.ids[0]}].txt`);
+      }).then(() => {
+        return drive.get(folder.path);
+      }).then(contents => {
+        const names = contents.content.map((item: Contents.IModel) => item.name);
+        expect(names).to.eql(['duplicate.txt']);
+        return drive.get(`${folder.path}/duplicate.txt`);
+      }).then(file => {
+        expect(file.content).to.be('second');
+        done();
+      }).catch(done);
+    });
+
+    it('should move a file to the trash', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.delete(contents.path);
+      }).then(() => {
+        return drive.get(contents.path).then(() => {
+          throw Error('Expected failure did not occur');
+        }, () => {
+          return drive.get('Trash');
+        });
+      }).then(trash => {
+        const names = trash.content.map((item: Contents.IModel) => item.name);
+        expect(names).to.contain(contents.name);
+        return drive.get('Trash/'+contents.name);
+      }).then(model => {
+        expect(model.content).to.be(contents.content);
+        done();
+      }).catch(done);
+    });
+
+    it('should list a trashed folder but not its contents', (done) => {
+      let name = 'trashed_folder_'+uuid();
+      let path = DEFAULT_DIRECTORY.path+'/'+name;
+      createFolderWithFiles(name, 2).then(() => {
+        return drive.delete(path);
+      }).then(() => {
+        return drive.get('Trash');
+      }).then(trash => {
+        const names = trash.content.map((item: Contents.IModel) => item.name);
+        expect(names).to.contain(name);
+        expect(names).not.to.contain('file0.txt');
+        return drive.get('Trash/'+name);
+      }).then(folder => {
+        expect(folder.content.length).to.be(2);
+        done();
+      }).catch(done);
+    });
+
+    it('should permanently delete a file in the trash', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.delete(contents.path);
+      }).then(() => {
+        return drive.delete('Trash/'+contents.name);
+      }).then(() => {
+        return drive.get('Trash');
+      }).then(trash => {
+        const names = trash.content.map((item: Contents.IModel) => item.name);
+        expect(names).not.to.contain(contents.name);
+        done();
+      }).catch(done);
+    });
+
+    it('should permanently delete a file if not using the trash', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.useTrash = false;
+      drive.save(contents.path, contents).then(() => {
+        return drive.delete(contents.path);
+      }).then(() => {
+        return drive.get('Trash');
+      }).then(trash => {
+        const names = trash.content.map((item: Contents.IModel) => item.name);
+        expect(names).not.to.contain(contents.name);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#restore()', () => {
+
+    it('should restore a file from the trash', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.delete(contents.path);
+      }).then(() => {
+        return drive.restore('Trash/'+contents.name);
+      }).then(model => {
+        expect(model.path).to.be(contents.path);
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be(contents.content);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should emit the fileChanged signal', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+String(id),
+        path: DEFAULT_TEXT_FILE.path+String(id),
+      };
+      let args: Contents.IChangedArgs | null = null;
+      drive.save(contents.path, contents).then(() => {
+        return drive.delete(contents.path);
+      }).then(() => {
+        drive.fileChanged.connect((sender, changed) => { args = changed; });
+        return drive.restore('Trash/'+contents.name);
+      }).then(() => {
+        expect(args!.type).to.be('rename');
+        expect(args!.oldValue!.path).to.be('Trash/'+contents.name);
+        expect(args!.newValue!.path).to.be(contents.path);
+        done();
+      }).catch(done);
+    });
+
+    it('should fail for a file that is not in the trash', (done) => {
+      expectFailure(drive.restore(DEFAULT_DIRECTORY.path), done);
+    });
+
   });
 
   describe('#rename()', () => {
@@ -421,6 +1170,23 @@ describe('GoogleDrive', () => {
       });
     });
 
+    it('should rename a file with the same name as another', (done) => {
+      let folder: { path: string, ids: string[] };
+      createFolderWithDuplicates().then(value => {
+        folder = value;
+        return drive.rename(
+          `${folder.path}/duplicate [${folder.ids[1]}].txt`,
+          `${folder.path}/renamed.txt`);
+      }).then(model => {
+        expect(model.content).to.be('second');
+        return drive.get(folder.path);
+      }).then(contents => {
+        const names = contents.content.map((item: Contents.IModel) => item.name);
+        expect(names.sort()).to.eql(['duplicate.txt', 'renamed.txt']);
+        done();
+      }).catch(done);
+    });
+
     it('should fail for an incorrect model', (done) => {
       let id1 = uuid();
       let id2 = uuid();
@@ -445,6 +1211,158 @@ describe('GoogleDrive', () => {
 
   describe('#copy()', () => {
 
+    /**
+     * Create a folder in the test directory containing
+     * two files and a subfolder with a third file.
+     */
+    const createFolderTree = (name: string): Promise<any> => {
+      return createFolderWithFiles(name, 2).then(() => {
+        return transport.files.list({ q: `name = '${name}'` });
+      }).then(response => {
+        return transport.files.create({
+          resource: {
+            name: 'sub',
+            mimeType: FOLDER_MIMETYPE,
+            parents: [response.result.files[0].id!]
+          }
+        });
+      }).then(response => {
+        return transport.upload({
+          resource: { name: 'nested.txt', parents: [response.result.id!] },
+          mimeType: 'text/plain',
+          content: 'nested',
+          base64: false
+        });
+      });
+    };
+
+    it('should copy a folder and everything in it', (done) => {
+      let name = 'copied_folder_'+uuid();
+      let path = DEFAULT_DIRECTORY.path+'/'+name;
+      const progress: GoogleDrive.ICopyProgress[] = [];
+      drive.copyProgress.connect((sender, args) => {
+        expect(args.path).to.be(path+'-Copy');
+        progress.push(args);
+      });
+      createFolderTree(name).then(() => {
+        return drive.copy(path, DEFAULT_DIRECTORY.path);
+      }).then(model => {
+        expect(model.type).to.be('directory');
+        expect(model.name).to.be(name+'-Copy');
+        const names = model.content.map((item: Contents.IModel) => item.name);
+        expect(names.sort()).to.eql(['file0.txt', 'file1.txt', 'sub']);
+        expect(progress[0]).to.eql({
+          path: path+'-Copy', copied: 0, failed: 0, total: 3
+        });
+        expect(progress[progress.length - 1].copied).to.be(3);
+        return drive.get(model.path+'/sub/nested.txt');
+      }).then(model => {
+        expect(model.content).to.be('nested');
+        // The original should be unchanged.
+        return drive.get(path+'/sub/nested.txt');
+      }).then(() => {
+        done();
+      }).catch(done);
+    });
+
+    it('should copy a folder into a Team Drive', (done) => {
+      let name = 'copied_folder_'+uuid();
+      let path = DEFAULT_DIRECTORY.path+'/'+name;
+      const teamDrive = transport.addTeamDrive('Team '+name);
+      createFolderTree(name).then(() => {
+        return drive.copy(path, teamDrive.name!);
+      }).then(model => {
+        expect(model.path).to.be(teamDrive.name+'/'+name+'-Copy');
+        return drive.get(model.path+'/sub/nested.txt');
+      }).then(model => {
+        expect(model.content).to.be('nested');
+        return Promise.resolve(transport.files.list({
+          q: 'name = \'nested.txt\'',
+          corpora: 'teamDrive',
+          teamDriveId: teamDrive.id,
+          includeTeamDriveItems: true
+        }));
+      }).then(response => {
+        expect(response.result.files.length).to.be(1);
+        done();
+      }).catch(done);
+    });
+
+    it('should report the files that could not be copied', (done) => {
+      let name = 'copied_folder_'+uuid();
+      let path = DEFAULT_DIRECTORY.path+'/'+name;
+      const files = transport.files;
+      const copy = files.copy;
+      files.copy = params => {
+        return Promise.resolve(files.get({ fileId: params.fileId }))
+        .then(response => {
+          if (response.result.name !== 'file1.txt') {
+            return copy(params);
+          }
+          return Promise.reject({
+            status: 403,
+            body: '',
+            result: {
+              error: { code: 403, message: 'Copying is disabled' }
+            }
+          });
+        });
+      };
+      let created: Contents.IChangedArgs | null = null;
+      drive.fileChanged.connect((sender, args) => { created = args; });
+      createFolderTree(name).then(() => {
+        return drive.copy(path, DEFAULT_DIRECTORY.path);
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err.failures.length).to.be(1);
+        expect(err.failures[0].path).to.be(path+'/file1.txt');
+        expect(err.message).to.contain('file1.txt');
+        // The rest of the folder should still have been copied.
+        expect(created!.type).to.be('new');
+        expect(created!.newValue!.path).to.be(path+'-Copy');
+        return drive.get(path+'-Copy/sub/nested.txt');
+      }).then(model => {
+        expect(model.content).to.be('nested');
+      }).then(() => {
+        files.copy = copy;
+        done();
+      }, err => {
+        files.copy = copy;
+        done(err);
+      });
+    });
+
+    it('should only copy a few files at once', (done) => {
+      let name = 'copied_folder_'+uuid();
+      let path = DEFAULT_DIRECTORY.path+'/'+name;
+      const files = transport.files;
+      const copy = files.copy;
+      let active = 0;
+      let most = 0;
+      files.copy = params => {
+        active++;
+        most = Math.max(most, active);
+        return new Promise<void>(resolve => setTimeout(resolve, 10))
+        .then(() => copy(params)).then(response => {
+          active--;
+          return response;
+        });
+      };
+      createFolderWithFiles(name, 10).then(() => {
+        return drive.copy(path, DEFAULT_DIRECTORY.path);
+      }).then(model => {
+        expect(model.content.length).to.be(10);
+        expect(most).to.be.within(1, 4);
+      }).then(() => {
+        files.copy = copy;
+        done();
+      }, err => {
+        files.copy = copy;
+        done(err);
+      });
+    });
+
     it('should copy a file', (done) => {
       let id = uuid();
       let contents = {
@@ -517,6 +1435,106 @@ describe('GoogleDrive', () => {
 
   });
 
+  describe('#makeCopy()', () => {
+
+    it('should copy a read-only file into the root of the drive', (done) => {
+      const name = 'shared_'+uuid();
+      transport.addSharedFile({ name: name+'.txt', mimeType: 'text/plain' },
+                              'shared');
+      drive.makeCopy('Shared with me/'+name+'.txt').then(contents => {
+        expect(contents.path).to.be('My Drive/'+name+'-Copy.txt');
+        expect(contents.writable).to.be(true);
+        return drive.get(contents.path);
+      }).then(contents => {
+        expect(contents.content).to.be('shared');
+        done();
+      }).catch(done);
+    });
+
+    it('should copy a file into its own directory if it is writable', (done) => {
+      const name = 'jupyterlab_test_file_'+uuid();
+      const path = DEFAULT_DIRECTORY.path+'/'+name+'.txt';
+      drive.save(path, { ...DEFAULT_TEXT_FILE, name: name+'.txt', path })
+      .then(() => {
+        return drive.makeCopy(path);
+      }).then(contents => {
+        expect(contents.path).to.be(DEFAULT_DIRECTORY.path+'/'+name+'-Copy.txt');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#copyToDrive()', () => {
+
+    let other: GoogleDrive;
+
+    beforeEach(() => {
+      other = new GoogleDrive(registry, {
+        name: 'GDrive-work', transport: new InMemoryDriveTransport()
+      });
+    });
+
+    afterEach(() => {
+      other.dispose();
+    });
+
+    it('should copy a file into another drive', (done) => {
+      const name = 'jupyterlab_test_file_'+uuid()+'.txt';
+      const path = DEFAULT_DIRECTORY.path+'/'+name;
+      drive.save(path, { ...DEFAULT_TEXT_FILE, name, path }).then(() => {
+        return drive.copyToDrive(path, other, 'My Drive');
+      }).then(contents => {
+        expect(contents.path).to.be('My Drive/'+name);
+        return other.get(contents.path);
+      }).then(contents => {
+        expect(contents.content).to.be(DEFAULT_TEXT_FILE.content);
+        done();
+      }).catch(done);
+    });
+
+    it('should fail if the file exists in the other drive', (done) => {
+      const name = 'jupyterlab_test_file_'+uuid()+'.txt';
+      const path = DEFAULT_DIRECTORY.path+'/'+name;
+      drive.save(path, { ...DEFAULT_TEXT_FILE, name, path }).then(() => {
+        return other.save('My Drive/'+name, {
+          type: 'file', format: 'text', content: 'work', name
+        });
+      }).then(() => {
+        const copy = drive.copyToDrive(path, other, 'My Drive');
+        return expectAjaxError(copy, done, `Google Drive: "${name}" ` +
+                               'already exists in GDrive-work');
+      }).catch(done);
+    });
+
+    it('should fail if the other drive cannot be checked', (done) => {
+      const name = 'jupyterlab_test_file_'+uuid()+'.txt';
+      const path = DEFAULT_DIRECTORY.path+'/'+name;
+      let saved = false;
+      other.get = () => Promise.reject(createDriveError({
+        status: 503, message: 'Backend Error'
+      }));
+      other.save = () => {
+        saved = true;
+        return Promise.reject(new Error('The file should not be saved'));
+      };
+      drive.save(path, { ...DEFAULT_TEXT_FILE, name, path }).then(() => {
+        return drive.copyToDrive(path, other, 'My Drive');
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(BackendError);
+        expect(saved).to.be(false);
+      }).then(done, done);
+    });
+
+    it('should fail to copy a directory', (done) => {
+      const copy = drive.copyToDrive(DEFAULT_DIRECTORY.path, other, 'My Drive');
+      expectFailure(copy, done);
+    });
+
+  });
+
   describe('#createCheckpoint()', () => {
 
     it('should create a checkpoint', (done) => {
@@ -584,7 +1602,6 @@ describe('GoogleDrive', () => {
         expect(model.content).to.be(newContents.content);
         return drive.restoreCheckpoint(contents.path, cp.id);
       }).then(() => {
-        done();
         return drive.get(contents.path);
       }).then( oldModel => {
         expect(oldModel.content).to.be(contents.content);
@@ -592,6 +1609,155 @@ describe('GoogleDrive', () => {
       }).then(done);
     });
 
+    it('should restore binary content byte-for-byte', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_BINARY_FILE,
+        name: DEFAULT_BINARY_FILE.name+id+'.png',
+        path: DEFAULT_BINARY_FILE.path+id+'.png',
+      };
+      let cp: Contents.ICheckpointModel;
+
+      drive.save(contents.path, contents).then(() => {
+        return drive.createCheckpoint(contents.path);
+      }).then(checkpoint => {
+        cp = checkpoint;
+        return drive.save(contents.path, { ...contents, content: btoa('x') });
+      }).then(() => {
+        return drive.restoreCheckpoint(contents.path, cp.id);
+      }).then(() => {
+        return drive.get(contents.path);
+      }).then(model => {
+        expect(model.content).to.be(BINARY_CONTENT);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should emit the fileChanged and checkpointRestored signals', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+      let cp: Contents.ICheckpointModel;
+      let changes: Contents.IChangedArgs[] = [];
+      let restored: GoogleDrive.ICheckpointRestoredArgs[] = [];
+      let signals: string[] = [];
+
+      drive.save(contents.path, contents).then(() => {
+        return drive.createCheckpoint(contents.path);
+      }).then(checkpoint => {
+        cp = checkpoint;
+        return drive.save(contents.path, { ...contents, content: 'new' });
+      }).then(() => {
+        drive.fileChanged.connect((sender, args) => {
+          signals.push('fileChanged');
+          changes.push(args);
+        });
+        drive.checkpointRestored.connect((sender, args) => {
+          signals.push('checkpointRestored');
+          restored.push(args);
+        });
+        return drive.restoreCheckpoint(contents.path, cp.id);
+      }).then(() => {
+        expect(signals).to.eql(['fileChanged', 'checkpointRestored']);
+        expect(changes[0].type).to.be('save');
+        expect(changes[0].newValue!.path).to.be(contents.path);
+        expect(restored).to.eql([{ path: contents.path, checkpointID: cp.id }]);
+        // The restored version is remembered, so saving
+        // over it is not seen as a conflict.
+        return drive.save(contents.path, { ...contents, content: 'newer' });
+      }).then(model => {
+        expect(model.content).to.be('newer');
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#createLabeledCheckpoint()', () => {
+
+    it('should list the checkpoint with its label', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+      let cp: ICheckpoint;
+
+      drive.save(contents.path, contents).then(() => {
+        return drive.createLabeledCheckpoint(
+          contents.path, 'First draft', 'Before review');
+      }).then(checkpoint => {
+        cp = checkpoint;
+        expect(cp.label).to.be('First draft');
+        return drive.listCheckpoints(contents.path);
+      }).then(checkpoints => {
+        expect(checkpoints.length).to.be(1);
+        expect(checkpoints[0].id).to.be(cp.id);
+        expect(checkpoints[0].label).to.be('First draft');
+        expect(checkpoints[0].description).to.be('Before review');
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+    it('should reject a label which is too long', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+
+      drive.save(contents.path, contents).then(() => {
+        return drive.createLabeledCheckpoint(
+          contents.path, new Array(200).join('x'));
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err.xhr.status).to.be(400);
+        return drive.listCheckpoints(contents.path);
+      }).then(checkpoints => {
+        expect(checkpoints.length).to.be(0);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#renameCheckpoint()', () => {
+
+    it('should change the label of a checkpoint', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+      let cp: Contents.ICheckpointModel;
+
+      drive.save(contents.path, contents).then(() => {
+        return drive.createCheckpoint(contents.path);
+      }).then(checkpoint => {
+        cp = checkpoint;
+        return drive.renameCheckpoint(contents.path, cp.id, 'Renamed');
+      }).then(() => {
+        return drive.listCheckpoints(contents.path);
+      }).then(checkpoints => {
+        expect(checkpoints[0].label).to.be('Renamed');
+        expect(checkpoints[0].description).to.be('');
+        // Deleting the checkpoint removes its label.
+        return drive.deleteCheckpoint(contents.path, cp.id);
+      }).then(() => {
+        return drive.listRevisions(contents.path);
+      }).then(revisions => {
+        expect(revisions.every(revision => !revision.label)).to.be(true);
+        return drive.delete(contents.path);
+      }).then(done, done);
+    });
+
   });
 
   describe('#deleteCheckpoint()', () => {
@@ -619,4 +1785,85 @@ describe('GoogleDrive', () => {
     });
   });
 
+  describe('#listRevisions()', () => {
+
+    it('should list every revision, including unpinned ones', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.save(contents.path, { ...contents, content: 'changed' });
+      }).then(() => {
+        return Promise.all([
+          drive.listRevisions(contents.path),
+          drive.listCheckpoints(contents.path)
+        ]);
+      }).then(([revisions, checkpoints]) => {
+        expect(revisions.length).to.be(2);
+        expect(checkpoints.length).to.be(0);
+        const last = revisions[revisions.length - 1];
+        expect(last.keepForever).to.be(false);
+        expect(last.size).to.be('changed'.length);
+        expect(last.lastModifyingUser).to.be('JupyterLab User');
+        return drive.delete(contents.path);
+      }).then(() => { done(); }).catch(done);
+    });
+
+  });
+
+  describe('#getRevision()', () => {
+
+    it('should get the read-only contents of a revision', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+      drive.save(contents.path, contents).then(() => {
+        return drive.save(contents.path, { ...contents, content: 'changed' });
+      }).then(() => {
+        return drive.listRevisions(contents.path);
+      }).then(revisions => {
+        return drive.getRevision(contents.path, revisions[0].id);
+      }).then(revision => {
+        expect(revision.content).to.be(contents.content);
+        expect(revision.writable).to.be(false);
+        return drive.delete(contents.path);
+      }).then(() => { done(); }).catch(done);
+    });
+
+  });
+
+  describe('#pinRevision()', () => {
+
+    it('should pin an earlier revision as a checkpoint', (done) => {
+      let id = uuid();
+      let contents = {
+        ...DEFAULT_TEXT_FILE,
+        name: DEFAULT_TEXT_FILE.name+id,
+        path: DEFAULT_TEXT_FILE.path+id,
+      };
+      let revisionId: string;
+      drive.save(contents.path, contents).then(() => {
+        return drive.save(contents.path, { ...contents, content: 'changed' });
+      }).then(() => {
+        return drive.listRevisions(contents.path);
+      }).then(revisions => {
+        revisionId = revisions[0].id;
+        return drive.pinRevision(contents.path, revisionId);
+      }).then(checkpoint => {
+        expect(checkpoint.id).to.be(revisionId);
+        return drive.listCheckpoints(contents.path);
+      }).then(checkpoints => {
+        expect(checkpoints.map(c => c.id)).to.eql([revisionId]);
+        return drive.delete(contents.path);
+      }).then(() => { done(); }).catch(done);
+    });
+
+  });
+
 });
@@ -0,0 +1,249 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  nbformat
+} from '@jupyterlab/coreutils';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  Contents
+} from '@jupyterlab/services';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  diffLines, diffNotebooks, RevisionDiffWidget
+} from '../../lib/drive/diff';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+/**
+ * Create the content of a notebook with cells.
+ */
+function createNotebook(cells: nbformat.ICell[]): nbformat.INotebookContent {
+  return {
+    metadata: {
+      kernelspec: { name: 'python3', display_name: 'Python 3' },
+      language_info: { name: 'python' },
+      orig_nbformat: 4
+    },
+    nbformat_minor: 2,
+    nbformat: 4,
+    cells
+  };
+}
+
+/**
+ * Create a code cell.
+ */
+function createCode(source: string, outputs: nbformat.IOutput[] = []): nbformat.ICodeCell {
+  return {
+    cell_type: 'code', source, metadata: {}, outputs, execution_count: null
+  };
+}
+
+/**
+ * Create a markdown cell.
+ */
+function createMarkdown(source: string): nbformat.IMarkdownCell {
+  return { cell_type: 'markdown', source, metadata: {} };
+}
+
+
+describe('diff', () => {
+
+  describe('diffLines()', () => {
+
+    it('should find the added and removed lines', () => {
+      const lines = diffLines('a\nb\nc\n', 'a\nc\nd\n');
+      expect(lines).to.eql([
+        { type: 'unchanged', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'unchanged', text: 'c' },
+        { type: 'added', text: 'd' }
+      ]);
+    });
+
+    it('should show a change as a removed and an added line', () => {
+      const types = diffLines('x = 1', 'x = 2').map(line => line.type);
+      expect(types).to.eql(['removed', 'added']);
+    });
+
+    it('should handle empty text', () => {
+      expect(diffLines('', '')).to.eql([]);
+      expect(diffLines('', 'a').map(line => line.type)).to.eql(['added']);
+    });
+
+  });
+
+  describe('diffNotebooks()', () => {
+
+    it('should find unchanged, added, and removed cells', () => {
+      const oldNotebook = createNotebook([
+        createMarkdown('# Title'), createCode('a = 1'), createCode('b = 2')
+      ]);
+      const newNotebook = createNotebook([
+        createMarkdown('# Title'), createCode('b = 2'), createMarkdown('Notes')
+      ]);
+      const diff = diffNotebooks(oldNotebook, newNotebook);
+      expect(diff.cells.map(cell => cell.type)).to.eql([
+        'unchanged', 'removed', 'unchanged', 'added'
+      ]);
+      expect(diff.cells[1].oldIndex).to.be(1);
+      expect(diff.cells[1].newIndex).to.be(null);
+      expect(diff.cells[3].cellType).to.be('markdown');
+    });
+
+    it('should match an edited cell as modified', () => {
+      const oldNotebook = createNotebook([createCode('x = 1\ny = 2')]);
+      const newNotebook = createNotebook([createCode('x = 1\ny = 3')]);
+      const diff = diffNotebooks(oldNotebook, newNotebook);
+      expect(diff.cells.length).to.be(1);
+      expect(diff.cells[0].type).to.be('modified');
+      expect(diff.cells[0].source.map(line => line.type)).to.eql([
+        'unchanged', 'removed', 'added'
+      ]);
+    });
+
+    it('should compare the outputs of cells', () => {
+      const oldNotebook = createNotebook([createCode('print(1)', [
+        { output_type: 'stream', name: 'stdout', text: '1\n' }
+      ])]);
+      const newNotebook = createNotebook([createCode('print(1)', [
+        { output_type: 'stream', name: 'stdout', text: '2\n' }
+      ])]);
+      const diff = diffNotebooks(oldNotebook, newNotebook);
+      expect(diff.cells[0].type).to.be('modified');
+      const removed = diff.cells[0].outputs.filter(line => {
+        return line.type === 'removed';
+      });
+      expect(removed).to.eql([{ type: 'removed', text: '1' }]);
+    });
+
+    it('should compare the metadata of cells and notebooks', () => {
+      const oldCell = createCode('a');
+      const newCell = createCode('a');
+      newCell.metadata = { collapsed: true };
+      const newNotebook = createNotebook([newCell]);
+      newNotebook.metadata.language_info = { name: 'julia' };
+      const diff = diffNotebooks(createNotebook([oldCell]), newNotebook);
+      expect(diff.cells[0].type).to.be('modified');
+      expect(diff.cells[0].metadata.some(line => {
+        return line.type === 'added' && line.text.indexOf('collapsed') !== -1;
+      })).to.be(true);
+      expect(diff.metadata.some(line => {
+        return line.type === 'added' && line.text.indexOf('julia') !== -1;
+      })).to.be(true);
+    });
+
+  });
+
+});
+
+
+describe('RevisionDiffWidget', () => {
+
+  let drive: GoogleDrive;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach(() => {
+    setDriveTransport(new InMemoryDriveTransport());
+    drive = new GoogleDrive(new DocumentRegistry());
+  });
+
+  afterEach(() => {
+    drive.dispose();
+  });
+
+  /**
+   * Save two revisions of a file, and return their ids.
+   */
+  function saveRevisions(path: string, first: Partial<Contents.IModel>, second: Partial<Contents.IModel>): Promise<string[]> {
+    return drive.save(path, first).then(() => {
+      return drive.save(path, second);
+    }).then(() => {
+      return drive.listRevisions(path);
+    }).then(revisions => revisions.map(revision => revision.id));
+  }
+
+  describe('#ready', () => {
+
+    it('should show a text diff of two revisions', (done) => {
+      const path = 'My Drive/diff.txt';
+      const model: Partial<Contents.IModel> = {
+        type: 'file', format: 'text', content: 'one\ntwo\n'
+      };
+      saveRevisions(path, model, { ...model, content: 'one\nthree\n' })
+      .then(([oldId, newId]) => {
+        const widget = new RevisionDiffWidget({
+          drive, path,
+          oldRevision: { id: oldId, label: 'old' },
+          newRevision: { id: newId, label: 'new' }
+        });
+        return widget.ready.then(() => {
+          const added = widget.node.querySelectorAll('.jp-mod-added');
+          const removed = widget.node.querySelectorAll('.jp-mod-removed');
+          expect(added.length).to.be(1);
+          expect(added[0].textContent).to.be('+ three');
+          expect(removed[0].textContent).to.be('- two');
+          widget.dispose();
+          done();
+        });
+      }).catch(done);
+    });
+
+    it('should show a cell by cell diff of two notebooks', (done) => {
+      const path = 'My Drive/diff.ipynb';
+      const model: Partial<Contents.IModel> = {
+        type: 'notebook', format: 'json',
+        content: createNotebook([createCode('a = 1')])
+      };
+      saveRevisions(path, model, {
+        ...model,
+        content: createNotebook([createCode('a = 1'), createCode('b = 2')])
+      }).then(([oldId, newId]) => {
+        const widget = new RevisionDiffWidget({
+          drive, path,
+          oldRevision: { id: oldId, label: 'old' },
+          newRevision: { id: newId, label: 'new' }
+        });
+        return widget.ready.then(() => {
+          const cells = widget.node.querySelectorAll('.jp-GoogleRevisionDiff-cell');
+          expect(cells.length).to.be(2);
+          expect(cells[1].classList.contains('jp-mod-added')).to.be(true);
+          widget.dispose();
+          done();
+        });
+      }).catch(done);
+    });
+
+  });
+
+});
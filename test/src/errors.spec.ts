@@ -0,0 +1,225 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  AuthorizationError, BackendError, ConflictError, createDriveError,
+  describeError, DriveError, driveErrorFromResponse, NotFoundError,
+  PermissionError, QuotaExceededError, RateLimitError, toDriveError
+} from '../../lib/drive/errors';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+
+/**
+ * Create a failed response from a transport.
+ */
+function failedResponse(status: number, reason?: string): any {
+  return {
+    status,
+    body: '',
+    result: {
+      error: {
+        code: status,
+        message: 'Request failed',
+        errors: reason ? [{ reason, message: 'Request failed' }] : undefined
+      }
+    }
+  };
+}
+
+
+describe('DriveError', () => {
+
+  describe('createDriveError()', () => {
+
+    it('should create the error class for the status', () => {
+      const error = (status: number) => {
+        return createDriveError({ status, message: 'failed' });
+      };
+      expect(error(401)).to.be.an(AuthorizationError);
+      expect(error(404)).to.be.a(NotFoundError);
+      expect(error(403)).to.be.a(PermissionError);
+      expect(error(409)).to.be.a(ConflictError);
+      expect(error(412)).to.be.a(ConflictError);
+      expect(error(429)).to.be.a(RateLimitError);
+      expect(error(500)).to.be.a(BackendError);
+      expect(error(0)).to.be.a(BackendError);
+      expect(error(400).constructor).to.be(DriveError);
+    });
+
+    it('should tell rate limits from quotas by the reason', () => {
+      const rateLimit = createDriveError({
+        status: 403, message: 'failed', reason: 'userRateLimitExceeded'
+      });
+      const quota = createDriveError({
+        status: 403, message: 'failed', reason: 'storageQuotaExceeded'
+      });
+      expect(rateLimit).to.be.a(RateLimitError);
+      expect(rateLimit.retriable).to.be(true);
+      expect(quota).to.be.a(QuotaExceededError);
+      expect(quota.retriable).to.be(false);
+    });
+
+    it('should be an error with the status and the path', () => {
+      const error = createDriveError({
+        status: 404, message: 'failed', path: 'My Drive/file.txt'
+      });
+      expect(error).to.be.an(Error);
+      expect(error).to.be.a(DriveError);
+      expect(error.message).to.be('failed');
+      expect(error.status).to.be(404);
+      expect(error.xhr.status).to.be(404);
+      expect(error.path).to.be('My Drive/file.txt');
+      expect(error.retriable).to.be(false);
+    });
+
+  });
+
+  describe('#userMessage', () => {
+
+    it('should describe the error for the user', () => {
+      const error = createDriveError({
+        status: 403, message: 'failed', reason: 'storageQuotaExceeded',
+        path: 'My Drive/big.ipynb'
+      });
+      expect(error.userMessage).to.contain('not enough space');
+      expect(error.userMessage).to.contain('"big.ipynb"');
+      expect(describeError(error)).to.be(error.userMessage);
+    });
+
+    it('should differ between the kinds of errors', () => {
+      const messages = [401, 403, 404, 429, 503].map(status => {
+        return createDriveError({ status, message: 'failed' }).userMessage;
+      });
+      messages.forEach((message, index) => {
+        expect(messages.indexOf(message)).to.be(index);
+      });
+    });
+
+  });
+
+  describe('driveErrorFromResponse()', () => {
+
+    it('should use the status and the reason of the response', () => {
+      const error = driveErrorFromResponse(
+        failedResponse(403, 'rateLimitExceeded'), 'My Drive/file.txt');
+      expect(error).to.be.a(RateLimitError);
+      expect(error.status).to.be(403);
+      expect(error.reason).to.be('rateLimitExceeded');
+      expect(error.message).to.be('Request failed');
+      expect(error.path).to.be('My Drive/file.txt');
+    });
+
+  });
+
+  describe('toDriveError()', () => {
+
+    it('should give the path to an error without one', () => {
+      const error = createDriveError({ status: 404, message: 'failed' });
+      const withPath = toDriveError(error, 'My Drive/file.txt');
+      expect(withPath).to.be.a(NotFoundError);
+      expect(withPath.path).to.be('My Drive/file.txt');
+      expect(toDriveError(withPath, 'My Drive/other.txt')).to.be(withPath);
+    });
+
+    it('should convert responses and other errors', () => {
+      expect(toDriveError(failedResponse(409))).to.be.a(ConflictError);
+      const error = toDriveError(new Error('failed'), 'file.txt');
+      expect(error).to.be.a(DriveError);
+      expect(error.message).to.be('failed');
+      expect(error.path).to.be('file.txt');
+      expect(toDriveError('failed').message).to.be('failed');
+    });
+
+  });
+
+  describe('GoogleDrive', () => {
+
+    let transport: InMemoryDriveTransport;
+    let drive: GoogleDrive;
+
+    beforeEach(() => {
+      transport = new InMemoryDriveTransport();
+      drive = new GoogleDrive(new DocumentRegistry(), {
+        name: 'GDrive-errors', transport, realtime: false
+      });
+    });
+
+    afterEach(() => {
+      drive.dispose();
+    });
+
+    it('should reject with a not found error for the path', (done) => {
+      const path = 'My Drive/missing.txt';
+      drive.get(path).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(NotFoundError);
+        expect(err.path).to.be(path);
+        expect(describeError(err)).to.contain('"missing.txt"');
+        done();
+      }).catch(done);
+    });
+
+    it('should retry a request that was rate limited', (done) => {
+      const files = transport.files;
+      const list = files.list;
+      let failures = 0;
+      files.list = params => {
+        if (failures++ === 0) {
+          return Promise.reject(failedResponse(429));
+        }
+        return list(params);
+      };
+      drive.get('My Drive').then(model => {
+        expect(model.type).to.be('directory');
+        expect(failures).to.be(2);
+        done();
+      }).catch(done);
+    });
+
+    it('should not retry a request that exceeded a quota', (done) => {
+      const files = transport.files;
+      let attempts = 0;
+      files.list = params => {
+        attempts++;
+        return Promise.reject(failedResponse(403, 'dailyLimitExceeded'));
+      };
+      drive.get('My Drive').then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(QuotaExceededError);
+        expect(err.path).to.be('My Drive');
+        expect(attempts).to.be(1);
+        done();
+      }).catch(done);
+    });
+
+    it('should emit the errors of polling for changes', (done) => {
+      const changes = transport.changes;
+      changes.list = () => Promise.reject(failedResponse(403));
+      let emitted: DriveError | null = null;
+      drive.errorOccurred.connect((sender, err) => { emitted = err; });
+      drive.changes.poll().then(() => {
+        return drive.changes.poll();
+      }).then(() => {
+        expect(emitted).to.be.a(PermissionError);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
@@ -0,0 +1,187 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  Contents
+} from '@jupyterlab/services';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  RevisionHistoryPanel
+} from '../../lib/drive/history';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+describe('RevisionHistoryPanel', () => {
+
+  const path = 'My Drive/history.txt';
+  let drive: GoogleDrive;
+  let panel: RevisionHistoryPanel;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach((done) => {
+    setDriveTransport(new InMemoryDriveTransport());
+    drive = new GoogleDrive(new DocumentRegistry());
+    panel = new RevisionHistoryPanel({ drive });
+    const model: Partial<Contents.IModel> = {
+      type: 'file', format: 'text', content: 'first'
+    };
+    drive.save(path, model).then(() => {
+      return drive.save(path, { ...model, content: 'second' });
+    }).then(() => { done(); }).catch(done);
+  });
+
+  afterEach(() => {
+    panel.dispose();
+    drive.dispose();
+  });
+
+  describe('#path', () => {
+
+    it('should list the revisions of the document, newest first', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        expect(panel.revisions.length).to.be(2);
+        expect(panel.revisions[0].size).to.be('second'.length);
+        const items = panel.node.querySelectorAll('li');
+        expect(items.length).to.be(2);
+        done();
+      }).catch(done);
+    });
+
+    it('should be cleared without a document', () => {
+      panel.path = null;
+      expect(panel.revisions.length).to.be(0);
+      expect(panel.node.querySelectorAll('li').length).to.be(0);
+    });
+
+  });
+
+  describe('#preview()', () => {
+
+    it('should show the content of a revision', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        return panel.preview(panel.revisions[1].id);
+      }).then(() => {
+        const pre = panel.node.querySelector('pre')!;
+        expect(pre.textContent).to.be('first');
+        done();
+      }).catch(done);
+    });
+
+    it('should report a revision that cannot be shown', (done) => {
+      drive.getRevision = () => Promise.reject(new Error('Not Found'));
+      panel.path = path;
+      panel.refresh().then(() => {
+        const buttons = panel.node.querySelectorAll('li button');
+        (buttons[0] as HTMLElement).click();
+        return new Promise(resolve => { setTimeout(resolve, 0); });
+      }).then(() => {
+        expect(panel.node.querySelectorAll('.jp-mod-selected').length).to.be(0);
+        const dialog = document.body.querySelector('.jp-Dialog')!;
+        expect(dialog.textContent).to.contain('Not Found');
+        dialog.parentNode!.removeChild(dialog);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#restore()', () => {
+
+    it('should restore a revision as a new revision', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        return panel.restore(panel.revisions[1].id);
+      }).then(() => {
+        expect(panel.revisions.length).to.be(3);
+        return drive.get(path);
+      }).then(contents => {
+        expect(contents.content).to.be('first');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#setPinned()', () => {
+
+    it('should pin and unpin a revision', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        return panel.setPinned(panel.revisions[1].id, true);
+      }).then(() => {
+        expect(panel.revisions[1].keepForever).to.be(true);
+        return panel.setPinned(panel.revisions[1].id, false);
+      }).then(() => {
+        expect(panel.revisions[1].keepForever).to.be(false);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#setLabel()', () => {
+
+    it('should label a revision as a checkpoint', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        return panel.setLabel(panel.revisions[1].id, 'Draft', 'Notes');
+      }).then(() => {
+        expect(panel.revisions[1].keepForever).to.be(true);
+        expect(panel.revisions[1].label).to.be('Draft');
+        const label = panel.node.querySelector('.jp-GoogleRevisionHistory-label')!;
+        expect(label.textContent).to.be('Draft');
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#compareRequested', () => {
+
+    it('should be emitted with the older revision first', (done) => {
+      panel.path = path;
+      panel.refresh().then(() => {
+        let args: RevisionHistoryPanel.ICompareArgs | null = null;
+        panel.compareRequested.connect((sender, value) => { args = value; });
+        panel.compare(panel.revisions[0].id, panel.revisions[1].id);
+        expect(args!.path).to.be(path);
+        expect(args!.oldRevision.id).to.be(panel.revisions[1].id);
+        expect(args!.newRevision.id).to.be(panel.revisions[0].id);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
@@ -1,11 +1,25 @@
 // Copyright (c) Jupyter Development Team.
 // Distributed under the terms of the Modified BSD License.
 
+import './access.spec';
+import './auth.spec';
 import './collaborator.spec';
+import './binary.spec';
+import './changes.spec';
 import './chatbox.spec';
+import './comments.spec';
+import './contents.spec';
+import './diff.spec';
+import './errors.spec';
+import './history.spec';
+import './links.spec';
 import './list.spec';
 import './json.spec';
 import './map.spec';
+import './memory.spec';
 import './modeldb.spec';
+import './query.spec';
+import './sharing.spec';
 import './string.spec';
 import './undoablelist.spec';
+import './upload.spec';
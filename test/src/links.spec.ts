@@ -0,0 +1,183 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  fileIdFromLink, FOLDER_MIMETYPE, pathForFileId
+} from '../../lib/drive/drive';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+describe('fileIdFromLink()', () => {
+
+  const id = '1a2B3c4D5e6F7g8H9i0JkLmNoPqRsTuV';
+
+  it('should get the id from the links of the Drive web UI', () => {
+    expect(fileIdFromLink(
+      `https://drive.google.com/file/d/${id}/view?usp=sharing`)).to.be(id);
+    expect(fileIdFromLink(
+      `https://docs.google.com/document/d/${id}/edit`)).to.be(id);
+    expect(fileIdFromLink(
+      `https://drive.google.com/drive/folders/${id}`)).to.be(id);
+    expect(fileIdFromLink(
+      `https://drive.google.com/open?id=${id}`)).to.be(id);
+  });
+
+  it('should accept a bare file id', () => {
+    expect(fileIdFromLink(`  ${id} `)).to.be(id);
+  });
+
+  it('should return null for a link without a file id', () => {
+    expect(fileIdFromLink('https://drive.google.com/drive/my-drive'))
+      .to.be(null);
+    expect(fileIdFromLink('not a link')).to.be(null);
+  });
+
+});
+
+
+describe('pathForFileId(transport, )', () => {
+
+  let drive: GoogleDrive;
+  let transport: InMemoryDriveTransport;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach(() => {
+    // Use a new backend for each test, so that
+    // no paths are in the cache.
+    transport = new InMemoryDriveTransport();
+    setDriveTransport(transport);
+    drive = new GoogleDrive(new DocumentRegistry());
+  });
+
+  afterEach(() => {
+    drive.dispose();
+  });
+
+  it('should find the path of a file from its parents', (done) => {
+    Promise.resolve(transport.files.create({
+      resource: {
+        name: 'linked',
+        mimeType: FOLDER_MIMETYPE,
+        parents: [transport.rootId]
+      }
+    })).then(response => {
+      return transport.files.create({
+        resource: { name: 'linked.txt', parents: [response.result.id!] }
+      });
+    }).then(response => {
+      return pathForFileId(transport, response.result.id!);
+    }).then(path => {
+      expect(path).to.be('My Drive/linked/linked.txt');
+    }).then(() => { done(); }).catch(done);
+  });
+
+  it('should find a shared file', (done) => {
+    const file = transport.addSharedFile({ name: 'shared.txt' }, 'shared');
+    pathForFileId(transport, file.id!).then(path => {
+      expect(path).to.be('Shared with me/shared.txt');
+    }).then(() => { done(); }).catch(done);
+  });
+
+  it('should add the id to the name of a file with a duplicate name', (done) => {
+    transport.addSharedFile({ name: 'report.txt' }, 'first');
+    const file = transport.addSharedFile({ name: 'report.txt' }, 'second');
+    pathForFileId(transport, file.id!).then(path => {
+      expect(path).to.be(`Shared with me/report [${file.id}].txt`);
+      return drive.get(path);
+    }).then(contents => {
+      expect(contents.content).to.be('second');
+    }).then(() => { done(); }).catch(done);
+  });
+
+  it('should find a file in the trash by its id', (done) => {
+    Promise.resolve(transport.files.create({
+      resource: { name: 'hidden.txt', parents: [transport.rootId] }
+    })).then(response => {
+      return transport.files.update({
+        fileId: response.result.id!, resource: { trashed: true }
+      });
+    }).then(response => {
+      const id = response.result.id!;
+      return pathForFileId(transport, id).then(path => {
+        expect(path).to.be(`.id/${id}/hidden.txt`);
+        return drive.get(path);
+      });
+    }).then(contents => {
+      expect(contents.name).to.be('hidden.txt');
+    }).then(() => { done(); }).catch(done);
+  });
+
+  it('should rename a file found by its id', (done) => {
+    let id: string;
+    Promise.resolve(transport.files.create({
+      resource: { name: 'hidden.txt', parents: [transport.rootId] }
+    })).then(response => {
+      return transport.files.update({
+        fileId: response.result.id!, resource: { trashed: true }
+      });
+    }).then(response => {
+      id = response.result.id!;
+      return drive.rename(`.id/${id}/hidden.txt`, `.id/${id}/renamed.txt`);
+    }).then(model => {
+      expect(model.path).to.be(`.id/${id}/renamed.txt`);
+      return Promise.resolve(transport.files.get({
+        fileId: id, fields: 'name,parents'
+      }));
+    }).then(response => {
+      expect(response.result.name).to.be('renamed.txt');
+      expect(response.result.parents).to.eql([transport.rootId]);
+    }).then(() => { done(); }).catch(done);
+  });
+
+  it('should list a folder found by its id', (done) => {
+    let path: string;
+    Promise.resolve(transport.files.create({
+      resource: {
+        name: 'folder',
+        mimeType: FOLDER_MIMETYPE,
+        parents: [transport.rootId]
+      }
+    })).then(response => {
+      path = `.id/${response.result.id}/folder`;
+      return transport.files.create({
+        resource: { name: 'inside.txt', parents: [response.result.id!] }
+      });
+    }).then(() => {
+      return drive.get(path);
+    }).then(contents => {
+      expect(contents.type).to.be('directory');
+      expect(contents.content.map((item: any) => item.path))
+        .to.eql([`${path}/inside.txt`]);
+    }).then(() => { done(); }).catch(done);
+  });
+
+});
@@ -0,0 +1,391 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  FOLDER_MIMETYPE
+} from '../../lib/drive/drive';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+
+describe('InMemoryDriveTransport', () => {
+
+  let transport: InMemoryDriveTransport;
+
+  beforeEach(() => {
+    transport = new InMemoryDriveTransport();
+  });
+
+  describe('#ready', () => {
+
+    it('should be resolved', (done) => {
+      transport.ready.then(done);
+    });
+
+  });
+
+  describe('#files', () => {
+
+    it('should get the root folder using the `root` alias', (done) => {
+      transport.files.get({ fileId: 'root' }).then(response => {
+        expect(response.status).to.be(200);
+        expect(response.result.id).to.be(transport.rootId);
+        expect(response.result.name).to.be('My Drive');
+        expect(response.result.mimeType).to.be(FOLDER_MIMETYPE);
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should list files matching a query', (done) => {
+      transport.files.create({
+        resource: { name: 'data', mimeType: FOLDER_MIMETYPE }
+      }).then(response => {
+        const folder = response.result;
+        return transport.upload({
+          resource: { name: 'it\'s.txt', parents: [folder.id] },
+          mimeType: 'text/plain',
+          content: 'hello',
+          base64: false
+        }).then(() => {
+          return transport.files.list({
+            q: `'${folder.id}' in parents and name = 'it\\'s.txt' ` +
+               'and trashed = false'
+          });
+        });
+      }).then(response => {
+        expect(response.result.files.length).to.be(1);
+        expect(response.result.files[0].name).to.be('it\'s.txt');
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should list files in pages', (done) => {
+      const uploads: PromiseLike<any>[] = [];
+      for (let i = 0; i < 5; i++) {
+        uploads.push(transport.upload({
+          resource: { name: `file${i}.txt` },
+          mimeType: 'text/plain',
+          content: '',
+          base64: false
+        }));
+      }
+      Promise.all(uploads).then(() => {
+        return transport.files.list({ pageSize: 3 });
+      }).then(response => {
+        expect(response.result.files.length).to.be(3);
+        expect(response.result.nextPageToken).to.be.ok();
+        return transport.files.list({
+          pageSize: 3, pageToken: response.result.nextPageToken
+        });
+      }).then(response => {
+        expect(response.result.files.length).to.be(2);
+        expect(response.result.nextPageToken).to.be(undefined);
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should download file content', (done) => {
+      transport.upload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        content: btoa('hello, world'),
+        base64: true
+      }).then(response => {
+        return transport.files.get({
+          fileId: response.result.id,
+          alt: 'media'
+        });
+      }).then(response => {
+        expect(response.result).to.be(false);
+        expect(response.body).to.be('hello, world');
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should download the raw bytes of a file', (done) => {
+      transport.upload({
+        resource: { name: 'test.bin' },
+        mimeType: 'application/octet-stream',
+        content: new Uint8Array([0xc3, 0xa9, 0xff]),
+        base64: false
+      }).then(response => {
+        return transport.download({ fileId: response.result.id });
+      }).then(response => {
+        const bytes = new Uint8Array(response.result);
+        expect(Array.prototype.slice.call(bytes)).to.eql([0xc3, 0xa9, 0xff]);
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should reject with a 404 for a missing file', (done) => {
+      transport.files.get({ fileId: 'missing' }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(404);
+        expect(response.result.error.errors[0].reason).to.be('notFound');
+      }).then(done, done);
+    });
+
+    it('should not copy a folder', (done) => {
+      transport.files.copy({ fileId: 'root' }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(403);
+      }).then(done, done);
+    });
+
+    it('should delete the descendants of a folder', (done) => {
+      let folderId: string;
+      let fileId: string;
+      transport.files.create({
+        resource: { name: 'folder', mimeType: FOLDER_MIMETYPE }
+      }).then(response => {
+        folderId = response.result.id;
+        return transport.upload({
+          resource: { name: 'child.txt', parents: [folderId] },
+          mimeType: 'text/plain',
+          content: '',
+          base64: false
+        });
+      }).then(response => {
+        fileId = response.result.id;
+        return transport.files.delete({ fileId: folderId });
+      }).then(response => {
+        expect(response.status).to.be(204);
+        return transport.files.get({ fileId });
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(404);
+      }).then(done, done);
+    });
+
+    it('should merge and remove the properties of a file', (done) => {
+      transport.files.create({
+        resource: { name: 'props', properties: { a: '1', b: '2' } }
+      }).then(response => {
+        return transport.files.update({
+          fileId: response.result.id,
+          resource: { properties: { a: null, c: '3' } }
+        });
+      }).then(response => {
+        expect(response.result.properties).to.eql({ b: '2', c: '3' });
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should reject a property larger than 124 bytes', (done) => {
+      transport.files.update({
+        fileId: 'root',
+        resource: { properties: { key: new Array(200).join('x') } }
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(400);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#revisions', () => {
+
+    it('should create a revision for each upload', (done) => {
+      let fileId: string;
+      transport.upload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        content: 'first',
+        base64: false
+      }).then(response => {
+        fileId = response.result.id;
+        return transport.upload({
+          fileId,
+          resource: {},
+          mimeType: 'text/plain',
+          content: 'second',
+          base64: false
+        });
+      }).then(() => {
+        return transport.revisions.list({ fileId });
+      }).then(response => {
+        const revisions = response.result.revisions;
+        expect(revisions.length).to.be(2);
+        return transport.revisions.get({
+          fileId, revisionId: revisions[0].id, alt: 'media'
+        });
+      }).then(response => {
+        expect(response.body).to.be('first');
+        done();
+      }).then(undefined, done);
+    });
+
+  });
+
+  describe('#permissions', () => {
+
+    it('should create and delete permissions', (done) => {
+      let fileId: string;
+      transport.upload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        content: '',
+        base64: false
+      }).then(response => {
+        fileId = response.result.id;
+        return transport.permissions.create({
+          fileId,
+          resource: {
+            type: 'user', role: 'reader', emailAddress: 'friend@example.com'
+          }
+        });
+      }).then(response => {
+        return transport.permissions.delete({
+          fileId, permissionId: response.result.id
+        });
+      }).then(() => {
+        return transport.permissions.list({ fileId });
+      }).then(response => {
+        expect(response.result.permissions.length).to.be(1);
+        expect(response.result.permissions[0].role).to.be('owner');
+        done();
+      }).then(undefined, done);
+    });
+
+  });
+
+  describe('#uploadChunk()', () => {
+
+    it('should create the file when the upload is complete', (done) => {
+      let sessionUri: string;
+      transport.beginResumableUpload({
+        resource: { name: 'test.bin' },
+        mimeType: 'application/octet-stream',
+        size: 4
+      }).then(response => {
+        sessionUri = response.result;
+        return transport.uploadChunk({
+          sessionUri, chunk: new Uint8Array([0, 1]), start: 0, size: 4
+        });
+      }).then(response => {
+        expect(response.result.received).to.be(2);
+        expect(response.result.file).to.be(undefined);
+        return transport.queryUpload(sessionUri, 4);
+      }).then(response => {
+        expect(response.result.received).to.be(2);
+        return transport.uploadChunk({
+          sessionUri, chunk: new Uint8Array([2, 255]), start: 2, size: 4
+        });
+      }).then(response => {
+        const file = response.result.file;
+        expect(file.name).to.be('test.bin');
+        expect(file.mimeType).to.be('application/octet-stream');
+        done();
+      }).then(undefined, done);
+    });
+
+    it('should reject a chunk past the bytes received', (done) => {
+      transport.beginResumableUpload({
+        resource: { name: 'test.bin' },
+        mimeType: 'application/octet-stream',
+        size: 4
+      }).then(response => {
+        return transport.uploadChunk({
+          sessionUri: response.result,
+          chunk: new Uint8Array([2, 3]), start: 2, size: 4
+        });
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(400);
+      }).then(done, done);
+    });
+
+  });
+
+  describe('#changes', () => {
+
+    it('should list the changes since a page token', (done) => {
+      let fileId: string;
+      transport.changes.getStartPageToken({}).then(response => {
+        const pageToken = response.result.startPageToken;
+        return transport.upload({
+          resource: { name: 'test.txt' },
+          mimeType: 'text/plain',
+          content: '',
+          base64: false
+        }).then(response => {
+          fileId = response.result.id;
+          return transport.files.delete({ fileId });
+        }).then(() => {
+          return transport.changes.list({ pageToken });
+        });
+      }).then(response => {
+        const changes = response.result.changes;
+        expect(changes.length).to.be(2);
+        expect(changes[0].fileId).to.be(fileId);
+        expect(changes[0].file.name).to.be('test.txt');
+        expect(changes[1].removed).to.be(true);
+        expect(response.result.newStartPageToken).to.be.ok();
+        done();
+      }).then(undefined, done);
+    });
+
+  });
+
+  describe('#addTeamDrive()', () => {
+
+    it('should list the new Team Drive', (done) => {
+      const drive = transport.addTeamDrive('Team');
+      transport.teamdrives.list({}).then(response => {
+        expect(response.result.teamDrives.length).to.be(1);
+        expect(response.result.teamDrives[0].id).to.be(drive.id);
+        expect(response.result.teamDrives[0].kind).to.be('drive#teamDrive');
+        done();
+      }).then(undefined, done);
+    });
+
+  });
+
+  describe('#addSharedFile()', () => {
+
+    it('should be found by a `sharedWithMe` query', (done) => {
+      transport.addSharedFile({ name: 'shared.txt', mimeType: 'text/plain' });
+      transport.files.list({ q: 'sharedWithMe = true' }).then(response => {
+        expect(response.result.files.length).to.be(1);
+        expect(response.result.files[0].name).to.be('shared.txt');
+        done();
+      }).then(undefined, done);
+    });
+
+  });
+
+  describe('#addGoogleFile()', () => {
+
+    it('should export the file but not download it', (done) => {
+      const file = transport.addGoogleFile({
+        name: 'Notes',
+        mimeType: 'application/vnd.google-apps.document'
+      }, { 'text/plain': 'hello' });
+      transport.files.get({ fileId: file.id!, alt: 'media' }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(403);
+        return transport.export({ fileId: file.id!, mimeType: 'text/plain' });
+      }).then(response => {
+        const bytes = new Uint8Array(response.result);
+        expect(String.fromCharCode.apply(null, bytes)).to.be('hello');
+        return transport.export({ fileId: file.id!, mimeType: 'text/csv' });
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, response => {
+        expect(response.status).to.be(400);
+      }).then(done, done);
+    });
+
+  });
+
+});
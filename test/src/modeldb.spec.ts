@@ -267,6 +267,39 @@ describe('GoogleModelDB', () => {
 
   });
 
+  describe('#readOnly', () => {
+
+    it('should return false for an editable document', (done) => {
+      let db = new GoogleModelDB(defaultOptions);
+      expect(db.readOnly).to.be(false);
+      db.connected.then(() => {
+        expect(db.readOnly).to.be(false);
+        done();
+      }).catch(done);
+      connector.resolve(void 0);
+    });
+
+  });
+
+  describe('#markRevisionRestored()', () => {
+
+    it('should record the restored revision', (done) => {
+      let db = new GoogleModelDB(defaultOptions);
+      let emitted = false;
+      db.revisionRestored.connect(() => { emitted = true; });
+      db.connected.then(() => {
+        expect(db.restoredRevision).to.be(null);
+        db.markRevisionRestored('revision');
+        expect(db.restoredRevision).to.be('revision');
+        // The signal is only emitted for collaborators.
+        expect(emitted).to.be(false);
+        done();
+      }).catch(done);
+      connector.resolve(void 0);
+    });
+
+  });
+
   describe('#connected', () => {
 
     it('should resolve after file loading', (done) => {
@@ -0,0 +1,223 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  DriveQuery, escapeQueryString
+} from '../../lib/drive/query';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+/**
+ * File names which need escaping, or are otherwise awkward.
+ */
+const AWKWARD_NAMES = [
+  'it\'s.txt',
+  'back\\slash.txt',
+  'trailing\\',
+  '\\\'mixed\'\\.txt',
+  '\'',
+  'naïve café ☕ 日本語.txt',
+  'a and b or (c) = {d}.txt',
+  'quotes "double" `back`.txt'
+];
+
+
+describe('escapeQueryString()', () => {
+
+  it('should escape single quotes and backslashes', () => {
+    expect(escapeQueryString('it\'s')).to.be('it\\\'s');
+    expect(escapeQueryString('a\\b')).to.be('a\\\\b');
+    expect(escapeQueryString('\\\'')).to.be('\\\\\\\'');
+  });
+
+  it('should leave other characters alone', () => {
+    expect(escapeQueryString('naïve "café" ☕ (1)')).to.be('naïve "café" ☕ (1)');
+  });
+
+});
+
+
+describe('DriveQuery', () => {
+
+  describe('#toString()', () => {
+
+    it('should build each kind of clause', () => {
+      expect(DriveQuery.nameIs('it\'s').toString()).to.be('name = \'it\\\'s\'');
+      expect(DriveQuery.nameContains('a').toString())
+        .to.be('name contains \'a\'');
+      expect(DriveQuery.parent('root').toString())
+        .to.be('\'root\' in parents');
+      expect(DriveQuery.mimeType('text/plain').toString())
+        .to.be('mimeType = \'text/plain\'');
+      expect(DriveQuery.trashed(false).toString()).to.be('trashed = false');
+      expect(DriveQuery.sharedWithMe().toString())
+        .to.be('sharedWithMe = true');
+      expect(DriveQuery.fullText('x\'y').toString())
+        .to.be('fullText contains \'x\\\'y\'');
+      expect(DriveQuery.property('k', 'v').toString())
+        .to.be('properties has { key=\'k\' and value=\'v\' }');
+      expect(DriveQuery.property('k', 'v', 'private').toString())
+        .to.be('appProperties has { key=\'k\' and value=\'v\' }');
+    });
+
+    it('should parenthesize combined queries', () => {
+      const query = DriveQuery.or(
+        DriveQuery.nameIs('a'),
+        DriveQuery.and(DriveQuery.nameIs('b'), DriveQuery.trashed(true))
+      ).and(DriveQuery.not(DriveQuery.sharedWithMe()));
+      expect(query.toString()).to.be(
+        '(name = \'a\' or (name = \'b\' and trashed = true)) ' +
+        'and not sharedWithMe = true');
+    });
+
+    it('should not parenthesize a single query', () => {
+      expect(DriveQuery.and(DriveQuery.trashed(true)).toString())
+        .to.be('trashed = true');
+    });
+
+  });
+
+  describe('matching', () => {
+
+    let transport: InMemoryDriveTransport;
+    let previousTransport: IDriveTransport;
+
+    beforeEach(() => {
+      previousTransport = getDriveTransport();
+      transport = new InMemoryDriveTransport();
+      setDriveTransport(transport);
+    });
+
+    afterEach(() => {
+      setDriveTransport(previousTransport);
+    });
+
+    /**
+     * List the names of the files matching a query.
+     */
+    const listNames = (query: DriveQuery): Promise<string[]> => {
+      return Promise.resolve(transport.files.list({
+        q: query.toString()
+      })).then(response => {
+        return response.result.files!.map(file => file.name!);
+      });
+    };
+
+    it('should match awkward names literally', (done) => {
+      Promise.all(AWKWARD_NAMES.map(name => {
+        return transport.files.create({
+          resource: { name, parents: [transport.rootId] }
+        });
+      })).then(() => {
+        return Promise.all(AWKWARD_NAMES.map(name => {
+          return listNames(DriveQuery.nameIs(name).and(
+            DriveQuery.parent('root'), DriveQuery.trashed(false)));
+        }));
+      }).then(results => {
+        expect(results).to.eql(AWKWARD_NAMES.map(name => [name]));
+        return listNames(DriveQuery.nameContains('\\'));
+      }).then(names => {
+        expect(names.sort()).to.eql(
+          ['\\\'mixed\'\\.txt', 'back\\slash.txt', 'trailing\\']);
+        done();
+      }).catch(done);
+    });
+
+    it('should match awkward property keys and values', (done) => {
+      Promise.resolve(transport.files.create({
+        resource: {
+          name: 'labeled.txt',
+          parents: [transport.rootId],
+          properties: { 'it\'s': 'a \\ "value" ☕' }
+        }
+      })).then(() => {
+        return listNames(DriveQuery.property('it\'s', 'a \\ "value" ☕'));
+      }).then(names => {
+        expect(names).to.eql(['labeled.txt']);
+        return listNames(DriveQuery.property('it\'s', 'a \\ "value"'));
+      }).then(names => {
+        expect(names).to.eql([]);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+});
+
+
+describe('GoogleDrive with awkward names', () => {
+
+  let drive: GoogleDrive;
+  let transport: InMemoryDriveTransport;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach(() => {
+    transport = new InMemoryDriveTransport();
+    setDriveTransport(transport);
+    drive = new GoogleDrive(new DocumentRegistry());
+  });
+
+  afterEach(() => {
+    drive.dispose();
+  });
+
+  it('should save, get, rename and copy files in an awkward folder', (done) => {
+    const folder = 'My Drive/l\'été \\ 日本';
+    drive.newUntitled({ path: 'My Drive', type: 'directory' }).then(model => {
+      return drive.rename(model.path, folder);
+    }).then(() => {
+      return Promise.all(AWKWARD_NAMES.map(name => {
+        return drive.save(`${folder}/${name}`, {
+          type: 'file', format: 'text', content: name, name
+        });
+      }));
+    }).then(() => {
+      return Promise.all(AWKWARD_NAMES.map(name => {
+        return drive.get(`${folder}/${name}`);
+      }));
+    }).then(files => {
+      expect(files.map(file => file.content)).to.eql(AWKWARD_NAMES);
+      return drive.rename(`${folder}/it's.txt`, `${folder}/it's renamed.txt`);
+    }).then(model => {
+      expect(model.content).to.be('it\'s.txt');
+      return drive.copy(`${folder}/back\\slash.txt`, folder);
+    }).then(model => {
+      expect(model.name).to.be('back\\slash-Copy.txt');
+      return drive.newUntitled({ path: folder, type: 'file', ext: '.txt' });
+    }).then(model => {
+      expect(model.path).to.be(`${folder}/untitled.txt`);
+      done();
+    }).catch(done);
+  });
+
+});
@@ -0,0 +1,200 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  DocumentRegistry
+} from '@jupyterlab/docregistry';
+
+import {
+  GoogleDrive
+} from '../../lib/drive/contents';
+
+import {
+  linkSharingFromPermissions
+} from '../../lib/drive/drive';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  SharingPanel
+} from '../../lib/drive/sharing';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+
+describe('SharingPanel', () => {
+
+  const path = 'My Drive/shared.txt';
+  let drive: GoogleDrive;
+  let panel: SharingPanel;
+  let previousTransport: IDriveTransport;
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach((done) => {
+    setDriveTransport(new InMemoryDriveTransport());
+    drive = new GoogleDrive(new DocumentRegistry());
+    drive.save(path, {
+      type: 'file', format: 'text', content: 'shared'
+    }).then(() => {
+      panel = new SharingPanel({ path });
+      return panel.ready;
+    }).then(() => { done(); }).catch(done);
+  });
+
+  afterEach(() => {
+    panel.dispose();
+    drive.dispose();
+  });
+
+  describe('#ready', () => {
+
+    it('should list the owner, who may not be changed', () => {
+      expect(panel.permissions.length).to.be(1);
+      expect(panel.permissions[0].role).to.be('owner');
+      const items = panel.node.querySelectorAll('.jp-GoogleSharing-item');
+      expect(items.length).to.be(1);
+      expect(items[0].querySelector('select')).to.be(null);
+      expect(items[0].querySelector('button')).to.be(null);
+    });
+
+  });
+
+  describe('#share()', () => {
+
+    it('should share the file with people in a role', (done) => {
+      panel.share(['a@example.com', 'b@example.com'], 'commenter', false)
+      .then(() => {
+        const shared = panel.permissions.filter(p => p.role === 'commenter');
+        expect(shared.map(p => p.emailAddress)).to.eql([
+          'a@example.com', 'b@example.com'
+        ]);
+        const items = panel.node.querySelectorAll('.jp-GoogleSharing-item');
+        expect(items.length).to.be(3);
+        const select = items[1].querySelector('select') as HTMLSelectElement;
+        expect(select.value).to.be('commenter');
+        done();
+      }).catch(done);
+    });
+
+    it('should show an error for invalid email addresses', () => {
+      const input = panel.node.querySelector('input') as HTMLInputElement;
+      input.value = 'a@example.com, not an address';
+      const button = panel.node.querySelector('button') as HTMLButtonElement;
+      button.click();
+      const error = panel.node.querySelector('.jp-GoogleSharing-error')!;
+      expect(error.textContent).to.contain('not an address');
+      expect(panel.permissions.length).to.be(1);
+    });
+
+  });
+
+  describe('#changeRole()', () => {
+
+    it('should change the role of a person', (done) => {
+      panel.share(['a@example.com'], 'reader').then(() => {
+        const permission = panel.permissions.filter(p => p.role === 'reader')[0];
+        return panel.changeRole(permission.id, 'writer');
+      }).then(() => {
+        const roles = panel.permissions.map(p => p.role);
+        expect(roles).to.eql(['owner', 'writer']);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#revoke()', () => {
+
+    it('should revoke the access of a person', (done) => {
+      panel.share(['a@example.com'], 'reader').then(() => {
+        const permission = panel.permissions.filter(p => p.role === 'reader')[0];
+        return panel.revoke(permission.id);
+      }).then(() => {
+        expect(panel.permissions.length).to.be(1);
+        done();
+      }).catch(done);
+    });
+
+  });
+
+  describe('#setLinkSharing()', () => {
+
+    it('should set who may open the file by its link', (done) => {
+      let id: string;
+      panel.setLinkSharing({ type: 'anyone', role: 'reader' }).then(() => {
+        const sharing = linkSharingFromPermissions(panel.permissions);
+        expect(sharing!.type).to.be('anyone');
+        expect(sharing!.role).to.be('reader');
+        id = panel.permissions.filter(p => p.type === 'anyone')[0].id;
+        return panel.setLinkSharing({ type: 'anyone', role: 'commenter' });
+      }).then(() => {
+        // Changing only the role updates the permission.
+        const permission = panel.permissions.filter(p => p.type === 'anyone')[0];
+        expect(permission.id).to.be(id);
+        expect(permission.role).to.be('commenter');
+        return panel.setLinkSharing({
+          type: 'domain', role: 'reader', domain: 'example.com'
+        });
+      }).then(() => {
+        const sharing = linkSharingFromPermissions(panel.permissions);
+        expect(sharing!.type).to.be('domain');
+        expect(sharing!.domain).to.be('example.com');
+        expect(panel.permissions.length).to.be(2);
+        return panel.setLinkSharing(null);
+      }).then(() => {
+        expect(linkSharingFromPermissions(panel.permissions)).to.be(null);
+        expect(panel.permissions.length).to.be(1);
+        done();
+      }).catch(done);
+    });
+
+    it('should keep the link sharing if it cannot be changed', (done) => {
+      const permissions = getDriveTransport().permissions;
+      const create = permissions.create;
+      panel.setLinkSharing({ type: 'anyone', role: 'reader' }).then(() => {
+        permissions.create = () => Promise.reject({
+          status: 403,
+          body: '',
+          result: {
+            error: { code: 403, message: 'Sharing is disabled' }
+          }
+        });
+        return panel.setLinkSharing({
+          type: 'domain', role: 'reader', domain: 'example.com'
+        });
+      }).then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        permissions.create = create;
+        expect(err.message).to.contain('Sharing is disabled');
+        return panel.refresh();
+      }).then(() => {
+        const sharing = linkSharingFromPermissions(panel.permissions);
+        expect(sharing!.type).to.be('anyone');
+        done();
+      }).catch(err => {
+        permissions.create = create;
+        done(err);
+      });
+    });
+
+  });
+
+});
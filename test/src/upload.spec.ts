@@ -0,0 +1,203 @@
+// Copyright (c) Jupyter Development Team.
+// Distributed under the terms of the Modified BSD License.
+
+import expect = require('expect.js');
+
+import {
+  getDriveTransport, setDriveTransport
+} from '../../lib/gapi';
+
+import {
+  InMemoryDriveTransport
+} from '../../lib/drive/memory';
+
+import {
+  IDriveTransport
+} from '../../lib/drive/transport';
+
+import {
+  ResumableUpload
+} from '../../lib/drive/upload';
+
+import {
+  bytesFromText
+} from '../../lib/drive/binary';
+
+import {
+  DriveError
+} from '../../lib/drive/errors';
+
+
+/**
+ * An in-memory transport which fails to upload some chunks.
+ */
+class FlakyDriveTransport extends InMemoryDriveTransport {
+  /**
+   * The number of chunks to upload before failing.
+   */
+  failAfter = -1;
+
+  /**
+   * The status with which to fail.
+   */
+  failStatus = 503;
+
+  /**
+   * The rejection with which to fail instead of
+   * a response, such as for a network failure.
+   */
+  failReason: any = null;
+
+  uploadChunk(options: IDriveTransport.IChunkOptions): IDriveTransport.IRequest<IDriveTransport.IUploadStatus> {
+    if (this.failAfter-- === 0) {
+      if (this.failReason) {
+        return Promise.reject(this.failReason);
+      }
+      return Promise.reject({
+        result: {
+          error: { code: this.failStatus, message: 'Upload failed' }
+        },
+        body: '',
+        status: this.failStatus
+      });
+    }
+    return super.uploadChunk(options);
+  }
+}
+
+
+describe('ResumableUpload', () => {
+
+  let transport: FlakyDriveTransport;
+  let previousTransport: IDriveTransport;
+  const bytes = bytesFromText('hello, world');
+
+  before(() => {
+    previousTransport = getDriveTransport();
+  });
+
+  after(() => {
+    setDriveTransport(previousTransport);
+  });
+
+  beforeEach(() => {
+    transport = new FlakyDriveTransport();
+    setDriveTransport(transport);
+  });
+
+  describe('#start()', () => {
+
+    it('should upload the content in chunks', (done) => {
+      const upload = new ResumableUpload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        bytes,
+        chunkSize: 5
+      });
+      const loaded: number[] = [];
+      upload.progress.connect((sender, progress) => {
+        expect(progress.total).to.be(12);
+        loaded.push(progress.loaded);
+      });
+      upload.start().then(file => {
+        expect(file.name).to.be('test.txt');
+        expect(loaded).to.eql([5, 10, 12]);
+        return transport.files.get({ fileId: file.id, alt: 'media' });
+      }).then(response => {
+        expect(response.body).to.be('hello, world');
+        done();
+      }).catch(done);
+    });
+
+    it('should replace the content of an existing file', (done) => {
+      Promise.resolve(transport.upload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        content: 'goodbye',
+        base64: false
+      })).then(response => {
+        const upload = new ResumableUpload({
+          fileId: response.result.id,
+          resource: {},
+          mimeType: 'text/plain',
+          bytes,
+          chunkSize: 5
+        });
+        return upload.start();
+      }).then(file => {
+        expect(file.name).to.be('test.txt');
+        return transport.files.get({ fileId: file.id, alt: 'media' });
+      }).then(response => {
+        expect(response.body).to.be('hello, world');
+        done();
+      }).catch(done);
+    });
+
+    it('should resume after a transient failure', (done) => {
+      transport.failAfter = 1;
+      const upload = new ResumableUpload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        bytes,
+        chunkSize: 5,
+        retryDelay: 0
+      });
+      const retries: ResumableUpload.IProgress[] = [];
+      upload.progress.connect((sender, progress) => {
+        if (progress.error) {
+          retries.push(progress);
+        }
+      });
+      upload.start().then(file => {
+        expect(upload.loaded).to.be(12);
+        expect(retries.length).to.be(1);
+        expect(retries[0].loaded).to.be(5);
+        expect(retries[0].error!.status).to.be(503);
+        return transport.files.get({ fileId: file.id, alt: 'media' });
+      }).then(response => {
+        expect(response.body).to.be('hello, world');
+        done();
+      }).catch(done);
+    });
+
+    it('should fail after a permanent failure', (done) => {
+      transport.failAfter = 1;
+      transport.failStatus = 403;
+      const upload = new ResumableUpload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        bytes,
+        chunkSize: 5,
+        retryDelay: 0
+      });
+      upload.start().then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err.xhr.status).to.be(403);
+        expect(upload.loaded).to.be(5);
+      }).then(done, done);
+    });
+
+    it('should fail with the cause of a rejection without a response', (done) => {
+      transport.failAfter = 1;
+      transport.failReason = new TypeError('Failed to fetch');
+      const upload = new ResumableUpload({
+        resource: { name: 'test.txt' },
+        mimeType: 'text/plain',
+        bytes,
+        chunkSize: 5,
+        retryDelay: 0,
+        maxRetries: 0
+      });
+      upload.start().then(() => {
+        throw Error('Expected failure did not occur');
+      }, err => {
+        expect(err).to.be.a(DriveError);
+        expect(err.message).to.be('Failed to fetch');
+      }).then(done, done);
+    });
+
+  });
+
+});
+